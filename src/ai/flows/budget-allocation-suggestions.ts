@@ -21,6 +21,9 @@ const BudgetAllocationSuggestionsInputSchema = z.object({
   remainingBudget: z
     .number()
     .describe('The remaining budget for the wedding.'),
+  currency: z
+    .string()
+    .describe('ISO 4217 code of the currency all amounts are in, e.g. USD or EUR.'),
   currentExpenses: z.array(ExpenseSchema).describe('A list of expenses already incurred.'),
   priorityItems: z
     .string()
@@ -47,12 +50,14 @@ const prompt = ai.definePrompt({
   output: {schema: BudgetAllocationSuggestionsOutputSchema},
   prompt: `You are a wedding planning assistant that helps couples allocate their remaining budget.
 
+  All amounts are in {{currency}}.
+
   The user has already spent on some items. Here is a list of their current expenses:
   {{#each currentExpenses}}
   - Category: {{category}}, Amount: {{actual}}, Vendor: {{vendor}}
   {{/each}}
 
-  Their remaining budget is \${{remainingBudget}}.
+  Their remaining budget is {{remainingBudget}} {{currency}}.
   Their priorities are: {{priorityItems}}.
 
   Based on their remaining budget, current spending, and priorities, provide estimated budget allocations for the following categories. Do not include categories they have already spent on.
@@ -67,7 +72,7 @@ const prompt = ai.definePrompt({
   - Stationery
   - Wedding Favors
 
-  Return the allocations as a JSON string.
+  Return the allocations as a JSON string mapping each category to a plain number in {{currency}}.
 `,
 });
 
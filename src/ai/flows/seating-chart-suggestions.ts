@@ -17,10 +17,14 @@ const GuestSchema = z.object({
   group: z.string(),
 });
 
+const TableInventorySchema = z.object({
+  table: z.number().describe('The table number.'),
+  capacity: z.number().describe('The maximum number of guests at this table.'),
+});
+
 const SeatingChartSuggestionsInputSchema = z.object({
   guests: z.array(GuestSchema).describe('The list of guests to be seated.'),
-  tables: z.number().describe('The number of tables available.'),
-  guestsPerTable: z.number().describe('The maximum number of guests per table.'),
+  tables: z.array(TableInventorySchema).describe('The tables available, with their capacities.'),
 });
 export type SeatingChartSuggestionsInput = z.infer<typeof SeatingChartSuggestionsInputSchema>;
 
@@ -48,14 +52,17 @@ const prompt = ai.definePrompt({
   model: googleAI.model('gemini-1.5-flash-latest'),
   prompt: `You are an expert wedding planner specializing in creating harmonious seating charts.
 
-You need to seat the following guests into {{tables}} tables, with a maximum of {{guestsPerTable}} guests per table.
+You need to seat the following guests at these tables, never exceeding a table's capacity:
+{{#each tables}}
+- Table {{table}}: up to {{capacity}} guests
+{{/each}}
 
 Guests list (with their group affiliation):
 {{#each guests}}
 - {{name}} ({{group}})
 {{/each}}
 
-Your task is to create a seating chart that considers the guests' groups. Try to seat guests from the same group together, but also mix tables to encourage mingling where appropriate. Avoid leaving anyone isolated.
+Your task is to create a seating chart that considers the guests' groups. Try to seat guests from the same group together, but also mix tables to encourage mingling where appropriate. Avoid leaving anyone isolated. Use only the table numbers listed above and seat every guest exactly once, using their name exactly as written.
 
 Return the seating arrangement as a JSON object adhering to the output schema.
 `,
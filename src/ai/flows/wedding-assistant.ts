@@ -4,41 +4,74 @@
 /**
  * @fileOverview A conversational AI wedding assistant that can answer questions about the user's wedding plan.
  *
- * - askWeddingAssistant - The main function to interact with the assistant.
+ * - streamWeddingAssistant - Answers a question in the context of earlier turns, streaming the reply.
  * - WeddingAssistantInput - The input type for the assistant.
  * - WeddingAssistantOutput - The return type for the assistant.
  */
 
 import { ai } from '@/ai/genkit';
-import { z } from 'genkit';
+import { z, type ActionContext } from 'genkit';
 import { getDb } from '@/lib/firebase-admin';
 import { Timestamp } from 'firebase-admin/firestore';
+import { summarizeGuests } from '@/lib/guest-stats';
+import { toMailingAddress } from '@/lib/addresses';
+import { getTaskStatus } from '@/lib/timeline';
+import { toInstallments, totalPaid } from '@/lib/payments';
+import { toCurrencyCode, toExchangeRate } from '@/lib/currency';
+
+/**
+ * The wedding the tools read from. The route checks the user's access and passes it in the
+ * generate context rather than the tool input, so the model can't ask about another wedding.
+ */
+const contextWeddingId = (context: ActionContext) => {
+    if (typeof context.weddingId !== 'string') {
+        throw new Error('The assistant was started without a wedding.');
+    }
+    return context.weddingId;
+};
 
 // Tool to get budget status
 const getBudgetStatus = ai.defineTool(
   {
     name: 'getBudgetStatus',
-    description: 'Returns the current budget status, including total budget, amount spent, and remaining budget.',
-    inputSchema: z.object({
-        userId: z.string().describe("The ID of the user to fetch data for.")
-    }),
+    description: 'Returns the current budget status, including total budget, amount spent, and remaining budget, all in the budget currency.',
+    inputSchema: z.object({}),
     outputSchema: z.object({
       totalBudget: z.number(),
       totalSpent: z.number(),
       remainingBudget: z.number(),
+      currency: z.string().describe('ISO 4217 code of the budget currency, e.g. USD or EUR.'),
+      contributedSpent: z.number().describe('The part of the amount spent that was paid by contributors such as parents rather than the couple.'),
+      contributionsPledged: z.number().describe('The total contributors have promised to give.'),
+      contributionsReceived: z.number().describe('How much contributors have actually given so far.'),
     }),
   },
-  async ({ userId }) => {
+  async (_, { context }) => {
+    const weddingId = contextWeddingId(context);
     const db = getDb();
-    const budgetDocRef = db.collection('users').doc(userId).collection('budget').doc('summary');
-    
-    const budgetDoc = await budgetDocRef.get();
+    const weddingRef = db.collection('weddings').doc(weddingId);
+    const [budgetDoc, expensesSnapshot] = await Promise.all([
+        weddingRef.collection('budget').doc('summary').get(),
+        weddingRef.collection('expenses').get(),
+    ]);
 
     const totalBudget = budgetDoc.exists ? (budgetDoc.data()?.total || 0) : 0;
-    const totalSpent = budgetDoc.exists ? (budgetDoc.data()?.spent || 0) : 0;
+    // Spent is whatever has actually been paid across every expense's payment schedule.
+    const totalSpent = totalPaid(expensesSnapshot.docs.map(d => ({ payments: toInstallments(d.data()), exchangeRate: toExchangeRate(d.data()) })));
     const remainingBudget = totalBudget - totalSpent;
-
-    return { totalBudget, totalSpent, remainingBudget };
+    const currency = toCurrencyCode(budgetDoc.data()?.currency);
+    // Contribution totals come from the server-maintained summary.
+    const contributions = budgetDoc.data()?.contributions ?? {};
+
+    return {
+        totalBudget,
+        totalSpent,
+        remainingBudget,
+        currency,
+        contributedSpent: contributions.paid ?? 0,
+        contributionsPledged: contributions.pledged ?? 0,
+        contributionsReceived: contributions.received ?? 0,
+    };
   }
 );
 
@@ -47,32 +80,49 @@ const getBudgetStatus = ai.defineTool(
 const getGuestListSummary = ai.defineTool(
     {
         name: 'getGuestListSummary',
-        description: 'Returns a summary of the guest list, including RSVP counts.',
-        inputSchema: z.object({
-            userId: z.string().describe("The ID of the user to fetch data for.")
-        }),
+        description: 'Returns a summary of the guest list, including RSVP counts, adult/child headcounts, invitations (parties) and unnamed plus-ones.',
+        inputSchema: z.object({}),
         outputSchema: z.object({
             totalGuests: z.number(),
             confirmed: z.number(),
             pending: z.number(),
             declined: z.number(),
+            adults: z.number(),
+            children: z.number(),
+            confirmedAdults: z.number(),
+            confirmedChildren: z.number(),
+            parties: z.number().describe('The number of invitations sent, one per household or couple.'),
+            openPlusOnes: z.number().describe('Plus-ones guests are allowed to bring but have not named yet.'),
+            maxHeadcount: z.number().describe('Confirmed and pending guests plus unnamed plus-ones.'),
+            partiesMissingAddress: z.number().describe('Invitations that still need a mailing address.'),
+            guestsMissingAddress: z.number().describe('Guests without a mailing address, whether their invitation lacks one or they are on no invitation.'),
         })
     },
-    async ({ userId }) => {
+    async (_, { context }) => {
+        const weddingId = contextWeddingId(context);
         const db = getDb();
-        const guestsCollectionRef = db.collection('users').doc(userId).collection('guests');
-        const confirmedSnapshot = await guestsCollectionRef.where('rsvp', '==', 'Confirmed').get();
-        const pendingSnapshot = await guestsCollectionRef.where('rsvp', '==', 'Pending').get();
-        const declinedSnapshot = await guestsCollectionRef.where('rsvp', '==', 'Declined').get();
-        
-        const totalGuests = confirmedSnapshot.size + pendingSnapshot.size + declinedSnapshot.size;
-
-        return { 
-            totalGuests, 
-            confirmed: confirmedSnapshot.size, 
-            pending: pendingSnapshot.size, 
-            declined: declinedSnapshot.size 
-        };
+        const weddingDocRef = db.collection('weddings').doc(weddingId);
+        const [guestsSnapshot, partiesSnapshot] = await Promise.all([
+            weddingDocRef.collection('guests').get(),
+            weddingDocRef.collection('parties').get(),
+        ]);
+
+        const guests = guestsSnapshot.docs.map(doc => {
+            const data = doc.data();
+            return {
+                rsvp: data.rsvp,
+                ageGroup: data.ageGroup ?? 'Adult',
+                isPlusOne: data.isPlusOne ?? false,
+                partyId: data.partyId ?? null,
+            };
+        });
+        const parties = partiesSnapshot.docs.map(doc => ({
+            id: doc.id,
+            plusOnesAllowed: doc.data().plusOnesAllowed ?? 0,
+            address: toMailingAddress(doc.data().address),
+        }));
+
+        return summarizeGuests(guests, parties);
     }
 );
 
@@ -80,19 +130,30 @@ const getGuestListSummary = ai.defineTool(
 const getUpcomingTasks = ai.defineTool(
     {
         name: 'getUpcomingTasks',
-        description: 'Returns a list of incomplete tasks.',
-        inputSchema: z.object({
-            userId: z.string().describe("The ID of the user to fetch data for.")
-        }),
+        description: 'Returns incomplete tasks ordered by due date, with whether each is overdue.',
+        inputSchema: z.object({}),
         outputSchema: z.object({
-            upcomingTasks: z.array(z.object({ title: z.string() }))
+            upcomingTasks: z.array(z.object({
+                title: z.string(),
+                dueDate: z.string().nullable().describe('ISO date the task is due, or null if it has no date yet.'),
+                overdue: z.boolean(),
+            }))
         }),
     },
-    async ({ userId }) => {
+    async (_, { context }) => {
+        const weddingId = contextWeddingId(context);
         const db = getDb();
-        const tasksCollectionRef = db.collection('users').doc(userId).collection('tasks');
+        const tasksCollectionRef = db.collection('weddings').doc(weddingId).collection('tasks');
         const tasksSnapshot = await tasksCollectionRef.where('completed', '==', false).get();
-        const upcomingTasks = tasksSnapshot.docs.map(doc => ({title: doc.data().title}));
+        const now = new Date();
+        const upcomingTasks = tasksSnapshot.docs
+            .map(doc => {
+                const data = doc.data();
+                const dueDate = data.dueDate instanceof Timestamp ? data.dueDate.toDate() : null;
+                return { title: data.title, dueDate, overdue: getTaskStatus({ completed: false, dueDate }, now) === 'overdue' };
+            })
+            .sort((a, b) => (a.dueDate?.getTime() ?? Infinity) - (b.dueDate?.getTime() ?? Infinity))
+            .map(task => ({ ...task, dueDate: task.dueDate?.toISOString() ?? null }));
         return { upcomingTasks };
     }
 )
@@ -100,7 +161,11 @@ const getUpcomingTasks = ai.defineTool(
 
 const WeddingAssistantInputSchema = z.object({
   question: z.string().describe('The user\'s question about their wedding plan.'),
-  userId: z.string().describe('The ID of the user asking the question.'),
+  weddingId: z.string().describe('The ID of the wedding the question is about, already checked by the caller.'),
+  history: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    text: z.string(),
+  })).describe('Earlier turns of the conversation, oldest first.'),
 });
 export type WeddingAssistantInput = z.infer<typeof WeddingAssistantInputSchema>;
 
@@ -110,8 +175,9 @@ const WeddingAssistantOutputSchema = z.object({
 export type WeddingAssistantOutput = z.infer<typeof WeddingAssistantOutputSchema>;
 
 
-export async function askWeddingAssistant(input: WeddingAssistantInput): Promise<WeddingAssistantOutput> {
-  return weddingAssistantFlow(input);
+/** Starts an answer; `stream` yields text as the model writes it and `output` resolves to the full answer. */
+export async function streamWeddingAssistant(input: WeddingAssistantInput) {
+  return weddingAssistantFlow.stream(input);
 }
 
 
@@ -120,37 +186,38 @@ const weddingAssistantFlow = ai.defineFlow(
     name: 'weddingAssistantFlow',
     inputSchema: WeddingAssistantInputSchema,
     outputSchema: WeddingAssistantOutputSchema,
+    streamSchema: z.string(),
   },
-  async (input) => {
-    const llmResponse = await ai.generate({
+  async (input, { sendChunk }) => {
+    const { stream, response } = ai.generateStream({
+        messages: input.history.map(({ role, text }) => ({
+            role: role === 'assistant' ? 'model' as const : 'user' as const,
+            content: [{ text }],
+        })),
         prompt: input.question,
         model: 'googleai/gemini-1.5-flash-latest',
         tools: [getBudgetStatus, getGuestListSummary, getUpcomingTasks],
+        context: { weddingId: input.weddingId },
         system: `You are a helpful and friendly wedding planning assistant. Your name is Welly.
 Use the available tools to answer the user's questions about their wedding plan.
-To use the tools, you MUST get the user's ID from the context. Do not ask the user for their ID.
-The user's ID is: ${input.userId}.
-Provide clear, concise, and friendly answers.
+The tools always read the user's own wedding, so never ask the user which one.
+Earlier messages in the conversation are included; use them to understand follow-up questions.
+Provide clear, concise, and friendly answers in plain text.
 If you don't have the information, say so politely.
 Always refer to yourself in the first person (e.g., "I can help with that!").`,
-        output: {
-          schema: WeddingAssistantOutputSchema,
-        },
     });
 
-    const answer = llmResponse.output?.answer;
+    for await (const chunk of stream) {
+        if (chunk.text) {
+            sendChunk(chunk.text);
+        }
+    }
 
+    const answer = (await response).text;
     if (answer) {
         return { answer };
     }
-    
-    // Fallback if the structured output is empty, but we got text.
-    const rawTextResponse = llmResponse.text;
-    if (rawTextResponse) {
-        return { answer: rawTextResponse };
-    }
 
-    // Final fallback
     return { answer: "Sorry, I encountered an error while trying to respond. Please try again." };
   }
 );
@@ -0,0 +1,112 @@
+"use client";
+
+import * as React from 'react';
+import { useParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form } from '@/components/ui/form';
+import { Header } from '@/components/header';
+import { AddressFields } from '@/components/address-fields';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle, Loader2, Mail } from 'lucide-react';
+import { EMPTY_ADDRESS, mailingAddressSchema, type AddressRequest, type MailingAddress } from '@/lib/addresses';
+
+export default function AddressPage() {
+  const { code } = useParams<{ code: string }>();
+  const [request, setRequest] = React.useState<AddressRequest | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [submitted, setSubmitted] = React.useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<MailingAddress>({
+    resolver: zodResolver(mailingAddressSchema),
+    defaultValues: EMPTY_ADDRESS,
+  });
+
+  React.useEffect(() => {
+    const loadRequest = async () => {
+      try {
+        const response = await fetch(`/api/address/${encodeURIComponent(code)}`);
+        if (!response.ok) {
+          throw new Error(await response.text() || 'We could not load this page.');
+        }
+        const data: AddressRequest = await response.json();
+        setRequest(data);
+        form.reset(data.address ?? EMPTY_ADDRESS);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'We could not load this page.');
+      }
+    };
+    loadRequest();
+  }, [code, form]);
+
+  async function onSubmit(address: MailingAddress) {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/address/${encodeURIComponent(code)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address }),
+      });
+      if (!response.ok) {
+        throw new Error(await response.text() || 'Your address could not be saved.');
+      }
+      setSubmitted(true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Your address could not be saved.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 sm:p-6 lg:p-8 flex items-center justify-center">
+        <Card className="w-full max-w-xl shadow-xl">
+          {error ? (
+            <CardHeader className="text-center">
+              <CardTitle className="font-headline text-3xl">Link Not Found</CardTitle>
+              <CardDescription>{error}</CardDescription>
+            </CardHeader>
+          ) : !request ? (
+            <CardContent className="p-12">
+              <Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />
+            </CardContent>
+          ) : submitted ? (
+            <CardHeader className="text-center">
+              <CheckCircle className="mx-auto h-12 w-12 text-green-600" />
+              <CardTitle className="font-headline text-3xl">Thank You!</CardTitle>
+              <CardDescription>{request.coupleNames} will use this address for your invitation.</CardDescription>
+            </CardHeader>
+          ) : (
+            <>
+              <CardHeader className="text-center">
+                <Mail className="mx-auto h-10 w-10 text-primary" />
+                <CardTitle className="font-headline text-3xl">{request.coupleNames}</CardTitle>
+                <CardDescription>
+                  Where should we send the invitation for {request.partyName}?
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                    <AddressFields form={form} />
+                    <Button type="submit" disabled={isSubmitting} className="w-full">
+                      {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Save Address
+                    </Button>
+                  </form>
+                </Form>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
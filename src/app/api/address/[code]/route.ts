@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { findInvitation } from '@/lib/wedding-admin';
+import { mailingAddressSchema, toMailingAddress, type AddressRequest } from '@/lib/addresses';
+
+export async function GET(request: Request, { params }: { params: Promise<{ code: string }> }) {
+  try {
+    const { code } = await params;
+    const invitation = await findInvitation(code);
+    if (!invitation) {
+        return new NextResponse('We could not find an invitation with that code.', { status: 404 });
+    }
+    const { wedding, party } = invitation;
+
+    const body: AddressRequest = {
+        coupleNames: `${wedding.name1} & ${wedding.name2}`,
+        partyName: party.name,
+        address: toMailingAddress(party.address),
+    };
+    return NextResponse.json(body);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error looking up address request:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: { params: Promise<{ code: string }> }) {
+  try {
+    const { code } = await params;
+    const parsed = mailingAddressSchema.safeParse((await request.json())?.address);
+    if (!parsed.success) {
+        return new NextResponse('Please fill in your street address, city and postal code.', { status: 400 });
+    }
+
+    const invitation = await findInvitation(code);
+    if (!invitation) {
+        return new NextResponse('We could not find an invitation with that code.', { status: 404 });
+    }
+    await invitation.partyRef.update({
+        address: parsed.data,
+        addressSubmittedAt: FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ received: true });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error saving address:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
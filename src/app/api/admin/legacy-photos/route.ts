@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import type { DocumentData, DocumentReference } from 'firebase-admin/firestore';
+import { getDb } from '@/lib/firebase-admin';
+import { verifyRequestUser, weddingRef } from '@/lib/wedding-admin';
+
+/**
+ * Photos from before weddings had their own albums sit in a global `photos` collection.
+ * A photo that records its uploader goes to the uploader's active wedding; the album never
+ * stored one, so most can't be matched and are left for an admin to delete. Moved photos
+ * keep their inline image, which the album moves into Storage the next time an editor opens it.
+ */
+const legacyPhotos = () => getDb().collection('photos');
+
+const uploaderOf = (data: DocumentData): string | null => {
+    const uploader = data.uploadedBy ?? data.userId ?? data.uid;
+    return typeof uploader === 'string' && uploader ? uploader : null;
+};
+
+const verifyAdmin = async (request: Request) => {
+    const decodedToken = await verifyRequestUser(request);
+    return decodedToken?.isAdmin === true ? decodedToken : null;
+};
+
+export async function GET(request: Request) {
+  try {
+    if (!await verifyAdmin(request)) {
+        return new NextResponse('Forbidden', { status: 403 });
+    }
+    const snapshot = await legacyPhotos().count().get();
+    return NextResponse.json({ count: snapshot.data().count });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error counting legacy photos:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+/** Moves each legacy photo with a known uploader into that uploader's wedding. */
+export async function POST(request: Request) {
+  try {
+    if (!await verifyAdmin(request)) {
+        return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    const db = getDb();
+    const weddingsByUploader = new Map<string, DocumentReference | null>();
+    const findWedding = async (uid: string) => {
+        if (!weddingsByUploader.has(uid)) {
+            const weddingId = (await db.collection('users').doc(uid).get()).data()?.activeWeddingId;
+            const wedding = typeof weddingId === 'string' ? await weddingRef(weddingId).get() : null;
+            // Only a wedding the uploader still belongs to.
+            weddingsByUploader.set(uid, wedding?.data()?.members?.[uid] ? wedding.ref : null);
+        }
+        return weddingsByUploader.get(uid) ?? null;
+    };
+
+    const snapshot = await legacyPhotos().get();
+    let moved = 0;
+    // One photo per batch: each document can be close to 1 MiB, and a commit is capped at 10 MiB.
+    for (const photoDoc of snapshot.docs) {
+        const data = photoDoc.data();
+        const uploader = uploaderOf(data);
+        const targetRef = uploader ? await findWedding(uploader) : null;
+        if (!targetRef) continue;
+        const batch = db.batch();
+        batch.set(targetRef.collection('photos').doc(photoDoc.id), {
+            src: data.src ?? '',
+            alt: data.alt ?? '',
+            hint: data.hint ?? '',
+            status: 'approved',
+            createdAt: data.createdAt ?? new Date(),
+        });
+        batch.delete(photoDoc.ref);
+        await batch.commit();
+        moved++;
+    }
+
+    return NextResponse.json({ moved, remaining: snapshot.size - moved });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error moving legacy photos:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+/** Deletes every legacy photo. */
+export async function DELETE(request: Request) {
+  try {
+    if (!await verifyAdmin(request)) {
+        return new NextResponse('Forbidden', { status: 403 });
+    }
+    const snapshot = await legacyPhotos().get();
+    const writer = getDb().bulkWriter();
+    snapshot.docs.forEach(photoDoc => writer.delete(photoDoc.ref));
+    await writer.close();
+
+    return NextResponse.json({ deleted: snapshot.size });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error deleting legacy photos:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import type { Timestamp } from 'firebase-admin/firestore';
+import { getDb } from '@/lib/firebase-admin';
+import { weddingRef } from '@/lib/wedding-admin';
+import { buildCalendarEntries, toICalendar } from '@/lib/calendar';
+import { dueDateFromOffset } from '@/lib/timeline';
+import { toInstallments } from '@/lib/payments';
+import { toCurrencyCode } from '@/lib/currency';
+
+const toDate = (value: unknown) => (value as Timestamp | undefined)?.toDate?.() ?? null;
+
+/**
+ * Serves a wedding's deadlines and events as an iCalendar feed. Calendar apps poll
+ * this without signing in, so the unguessable token in the URL is the only credential.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+    // Some calendar apps only accept subscription URLs that end in .ics.
+    const feedDoc = await getDb().collection('calendarFeeds').doc(token.replace(/\.ics$/i, '')).get();
+    if (!feedDoc.exists) {
+        return new NextResponse('Calendar feed not found.', { status: 404 });
+    }
+
+    const weddingDocRef = weddingRef(feedDoc.data()!.weddingId);
+    const [weddingDoc, tasksSnapshot, expensesSnapshot, eventsSnapshot] = await Promise.all([
+        weddingDocRef.get(),
+        weddingDocRef.collection('tasks').get(),
+        weddingDocRef.collection('expenses').get(),
+        weddingDocRef.collection('events').get(),
+    ]);
+    const wedding = weddingDoc.data();
+    // A reset token deletes its feed doc, but guard against a stale one pointing at a wedding that moved on.
+    if (!wedding || wedding.calendarToken !== feedDoc.id) {
+        return new NextResponse('Calendar feed not found.', { status: 404 });
+    }
+    const weddingDate = toDate(wedding.weddingDate);
+
+    const entries = buildCalendarEntries({
+        weddingId: weddingDocRef.id,
+        weddingDate,
+        tasks: tasksSnapshot.docs.map(taskDoc => {
+            const data = taskDoc.data();
+            const offsetDays = typeof data.offsetDays === 'number' ? data.offsetDays : null;
+            return {
+                id: taskDoc.id,
+                title: data.title,
+                dueDate: toDate(data.dueDate) ?? (weddingDate && offsetDays !== null ? dueDateFromOffset(weddingDate, offsetDays) : null),
+                completed: !!data.completed,
+                notes: data.notes ?? '',
+            };
+        }),
+        expenses: expensesSnapshot.docs.map(expenseDoc => {
+            const data = expenseDoc.data();
+            return {
+                id: expenseDoc.id,
+                category: data.category ?? '',
+                vendor: data.vendor ?? '',
+                currency: toCurrencyCode(data.currency),
+                payments: toInstallments(data),
+            };
+        }),
+        events: eventsSnapshot.docs.map(eventDoc => {
+            const data = eventDoc.data();
+            return {
+                id: eventDoc.id,
+                title: data.title,
+                start: toDate(data.start) ?? new Date(),
+                end: toDate(data.end),
+                allDay: data.allDay ?? false,
+                location: data.location ?? '',
+                notes: data.notes ?? '',
+            };
+        }),
+    });
+
+    return new NextResponse(toICalendar(`${wedding.name1} & ${wedding.name2}'s Wedding`, entries), {
+        headers: {
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Content-Disposition': 'inline; filename="wedding.ics"',
+            'Cache-Control': 'private, max-age=900',
+        },
+    });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error building calendar feed:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,170 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getDb } from '@/lib/firebase-admin';
+import { deleteStoredFile, saveFileWithDownloadUrl } from '@/lib/attachments-admin';
+import { findUploadLink, toUploadLinkState, verifyPin } from '@/lib/upload-links-admin';
+import { guestUploadFieldsSchema, UPLOAD_LINK_ERRORS, uploadLinkStatus, type GuestUploadInfo } from '@/lib/upload-links';
+import { fileExtension, FREE_PHOTO_LIMIT, isPhotoType, MAX_PHOTO_SIZE, MAX_RENDITION_SIZE, photoPath } from '@/lib/photos';
+import { photoHoldReason, resolvePhotoModeration } from '@/lib/photo-moderation';
+
+const NOT_FOUND = 'We could not find this upload link. Please check it with the couple.';
+
+export async function GET(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+    const found = await findUploadLink(token);
+    if (!found) {
+        return new NextResponse(NOT_FOUND, { status: 404 });
+    }
+    const { wedding, link } = found;
+    const status = uploadLinkStatus(link);
+    if (status !== 'active') {
+        return new NextResponse(UPLOAD_LINK_ERRORS[status], { status: 410 });
+    }
+
+    const body: GuestUploadInfo = {
+        coupleNames: `${wedding.name1} & ${wedding.name2}`,
+        label: link.label,
+        requiresPin: !!link.pinHash,
+        remainingUploads: link.maxUploads === null ? null : link.maxUploads - link.uploadCount,
+    };
+    return NextResponse.json(body);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error looking up upload link:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+const ALBUM_FULL = 'This album is full. The couple can upgrade to allow more photos.';
+
+/** Originals must be a raster photo format; renditions always come out of `renderPhoto` as JPEGs. */
+const isImage = (value: FormDataEntryValue | null, maxSize: number, isAccepted: (type: string) => boolean): value is File =>
+    value instanceof File && isAccepted(value.type) && value.size > 0 && value.size <= maxSize;
+
+const isJpeg = (contentType: string) => contentType === 'image/jpeg';
+
+const toDimension = (value: FormDataEntryValue | null) => {
+    const number = Math.round(Number(value));
+    return Number.isFinite(number) && number > 0 && number <= 20000 ? number : null;
+};
+
+/**
+ * Saves one photo from a guest. The browser sends the original along with the thumbnail
+ * and web renditions it generated, so the server only checks and stores them. The
+ * wedding's moderation rules decide whether it is published or held for review.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+    const form = await request.formData();
+    const fields = guestUploadFieldsSchema.safeParse({
+        uploaderName: form.get('uploaderName') ?? '',
+        message: form.get('message') ?? '',
+        pin: form.get('pin') ?? '',
+    });
+    const original = form.get('original');
+    const web = form.get('web');
+    const thumb = form.get('thumb');
+    if (!fields.success
+        || !isImage(original, MAX_PHOTO_SIZE, isPhotoType)
+        || !isImage(web, MAX_RENDITION_SIZE, isJpeg)
+        || !isImage(thumb, MAX_RENDITION_SIZE, isJpeg)) {
+        return new NextResponse('Please upload a JPEG, PNG, WebP, HEIC or GIF photo under 20 MB.', { status: 400 });
+    }
+
+    const found = await findUploadLink(token);
+    if (!found) {
+        return new NextResponse(NOT_FOUND, { status: 404 });
+    }
+    const { weddingId, weddingRef, linkRef, wedding, link } = found;
+    const status = uploadLinkStatus(link);
+    if (status !== 'active') {
+        return new NextResponse(UPLOAD_LINK_ERRORS[status], { status: 410 });
+    }
+    if (link.pinHash && !await verifyPin(fields.data.pin, link.pinHash)) {
+        await linkRef.update({ pinFailures: FieldValue.increment(1) });
+        return new NextResponse('That PIN is not correct.', { status: 403 });
+    }
+
+    const db = getDb();
+    const photosRef = weddingRef.collection('photos');
+    const owner = wedding.ownerId ? await db.collection('users').doc(wedding.ownerId).get() : null;
+    const isPremium = !!owner?.data()?.premium;
+    // Counted inside each transaction, so uploads racing each other see one another's photos.
+    const albumIsFull = async (transaction: FirebaseFirestore.Transaction) =>
+        !isPremium && (await transaction.get(photosRef.count())).data().count >= FREE_PHOTO_LIMIT;
+
+    // Claimed before storing so concurrent uploads can't overrun the quota.
+    const claim = await db.runTransaction(async transaction => {
+        const current = await transaction.get(linkRef);
+        if (!current.exists || uploadLinkStatus(toUploadLinkState(current.data()!)) !== 'active') return 'linkFull';
+        if (await albumIsFull(transaction)) return 'albumFull';
+        transaction.update(linkRef, { uploadCount: FieldValue.increment(1) });
+        return 'claimed';
+    });
+    if (claim === 'linkFull') {
+        return new NextResponse(UPLOAD_LINK_ERRORS.full, { status: 410 });
+    }
+    if (claim === 'albumFull') {
+        return new NextResponse(ALBUM_FULL, { status: 403 });
+    }
+
+    const uploaderName = fields.data.uploaderName || null;
+    const holdReason = photoHoldReason(resolvePhotoModeration(wedding.photoModeration), {
+        contentType: original.type,
+        size: original.size,
+        uploaderName,
+    });
+
+    const folderId = randomUUID();
+    const uploads = [
+        { key: 'original', file: original, path: photoPath(weddingId, folderId, 'original', fileExtension(original.name)) },
+        { key: 'web', file: web, path: photoPath(weddingId, folderId, 'web', 'jpg') },
+        { key: 'thumb', file: thumb, path: photoPath(weddingId, folderId, 'thumb', 'jpg') },
+    ];
+    const release = async () => {
+        await linkRef.update({ uploadCount: FieldValue.increment(-1) });
+        await Promise.all(uploads.map(u => deleteStoredFile(u.path).catch(() => undefined)));
+    };
+    try {
+        const files = Object.fromEntries(await Promise.all(uploads.map(async ({ key, file, path }) =>
+            [key, await saveFileWithDownloadUrl(path, Buffer.from(await file.arrayBuffer()), file.type)] as const
+        )));
+        // Checked again as the photo is added, since other uploads may have filled the album meanwhile.
+        const photoRef = photosRef.doc();
+        const saved = await db.runTransaction(async transaction => {
+            if (await albumIsFull(transaction)) return false;
+            transaction.create(photoRef, {
+                alt: original.name,
+                hint: 'guest upload',
+                files,
+                width: toDimension(form.get('width')),
+                height: toDimension(form.get('height')),
+                uploaderName,
+                message: fields.data.message,
+                uploadLinkId: linkRef.id,
+                status: holdReason ? 'pending' : 'approved',
+                holdReason,
+                createdAt: FieldValue.serverTimestamp(),
+            });
+            return true;
+        });
+        if (!saved) {
+            await release();
+            return new NextResponse(ALBUM_FULL, { status: 403 });
+        }
+        return NextResponse.json({ id: photoRef.id, pending: holdReason !== null });
+    } catch (error) {
+        await release();
+        throw error;
+    }
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error saving guest upload:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
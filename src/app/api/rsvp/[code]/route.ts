@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getDb } from '@/lib/firebase-admin';
+import { findInvitation } from '@/lib/wedding-admin';
+import { resolveMenuOptions } from '@/lib/meals';
+import { rsvpSubmissionSchema, type RsvpInvitation } from '@/lib/rsvp';
+
+export async function GET(request: Request, { params }: { params: Promise<{ code: string }> }) {
+  try {
+    const { code } = await params;
+    const invitation = await findInvitation(code);
+    if (!invitation) {
+        return new NextResponse('We could not find an invitation with that code.', { status: 404 });
+    }
+    const { wedding, party, guestDocs } = invitation;
+    const namedPlusOnes = guestDocs.filter(d => d.data().isPlusOne).length;
+
+    const body: RsvpInvitation = {
+        coupleNames: `${wedding.name1} & ${wedding.name2}`,
+        partyName: party.name,
+        menuOptions: resolveMenuOptions(wedding.menuOptions),
+        openPlusOnes: Math.max(0, (party.plusOnesAllowed ?? 0) - namedPlusOnes),
+        message: party.rsvpMessage ?? '',
+        respondedAt: party.respondedAt?.toDate().toISOString() ?? null,
+        guests: guestDocs.map(d => {
+            const data = d.data();
+            return {
+                id: d.id,
+                name: data.name,
+                ageGroup: data.ageGroup ?? 'Adult',
+                isPlusOne: data.isPlusOne ?? false,
+                rsvp: data.rsvp,
+                meal: data.meal ?? null,
+                dietaryNotes: data.dietaryNotes ?? '',
+            };
+        }),
+    };
+    return NextResponse.json(body);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error looking up RSVP invitation:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: { params: Promise<{ code: string }> }) {
+  try {
+    const { code } = await params;
+    const parsed = rsvpSubmissionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+        return new NextResponse('Invalid RSVP response.', { status: 400 });
+    }
+    const submission = parsed.data;
+
+    const invitation = await findInvitation(code);
+    if (!invitation) {
+        return new NextResponse('We could not find an invitation with that code.', { status: 404 });
+    }
+    const { weddingRef, partyRef, wedding, party, guestDocs } = invitation;
+    const menuOptions = resolveMenuOptions(wedding.menuOptions);
+    const guestIds = new Set(guestDocs.map(d => d.id));
+    const openPlusOnes = Math.max(0, (party.plusOnesAllowed ?? 0) - guestDocs.filter(d => d.data().isPlusOne).length);
+
+    if (submission.guests.some(g => !guestIds.has(g.id))) {
+        return new NextResponse('One of the guests is not part of this invitation.', { status: 400 });
+    }
+    if (submission.plusOnes.length > openPlusOnes) {
+        return new NextResponse(`This invitation allows ${openPlusOnes} more guest(s).`, { status: 400 });
+    }
+    const answers = [...submission.guests, ...submission.plusOnes];
+    if (answers.some(a => a.meal !== null && !menuOptions.includes(a.meal))) {
+        return new NextResponse('Please choose a meal from the menu.', { status: 400 });
+    }
+
+    const db = getDb();
+    const batch = db.batch();
+    submission.guests.forEach(answer => {
+        batch.update(weddingRef.collection('guests').doc(answer.id), {
+            rsvp: answer.rsvp,
+            meal: answer.rsvp === 'Confirmed' ? answer.meal : null,
+            dietaryNotes: answer.dietaryNotes,
+        });
+    });
+    submission.plusOnes.forEach(plusOne => {
+        batch.set(weddingRef.collection('guests').doc(), {
+            name: plusOne.name,
+            group: party.group ?? '',
+            rsvp: plusOne.rsvp,
+            table: null,
+            seat: null,
+            partyId: partyRef.id,
+            ageGroup: 'Adult',
+            isPlusOne: true,
+            meal: plusOne.rsvp === 'Confirmed' ? plusOne.meal : null,
+            dietaryNotes: plusOne.dietaryNotes,
+            allergies: [],
+            email: '',
+            phone: '',
+        });
+    });
+    batch.update(partyRef, {
+        rsvpMessage: submission.message,
+        respondedAt: FieldValue.serverTimestamp(),
+    });
+    await batch.commit();
+
+    return NextResponse.json({ received: true });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error saving RSVP:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -1,20 +1,98 @@
-
-import { askWeddingAssistant } from '@/ai/flows/wedding-assistant';
+import { streamWeddingAssistant } from '@/ai/flows/wedding-assistant';
+import { getWeddingRole, verifyRequestUser, weddingRef } from '@/lib/wedding-admin';
+import {
+  DEFAULT_THREAD_TITLE,
+  MAX_QUESTION_LENGTH,
+  MIN_QUESTION_LENGTH,
+  recentHistory,
+  threadTitleFrom,
+  type AssistantRole,
+} from '@/lib/assistant-threads';
+import { Timestamp } from 'firebase-admin/firestore';
 import { NextRequest, NextResponse } from 'next/server';
 
+/**
+ * Answers a question in a saved thread. The reply streams back as plain text while it is
+ * written; both turns are saved to the thread, and the id of the saved answer is sent in
+ * the `X-Message-Id` header so the client can swap its streamed copy for the stored one.
+ */
 export async function POST(req: NextRequest) {
   try {
+    const decodedToken = await verifyRequestUser(req);
+    if (!decodedToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body = await req.json();
-    const { question, userId } = body;
+    const { weddingId, threadId } = body;
+    const question = typeof body.question === 'string' ? body.question.trim() : '';
 
-    if (!question || !userId) {
-      return NextResponse.json({ error: 'Missing question or userId' }, { status: 400 });
+    if (!question || !weddingId || !threadId) {
+      return NextResponse.json({ error: 'Missing question, weddingId or threadId' }, { status: 400 });
+    }
+    if (question.length < MIN_QUESTION_LENGTH || question.length > MAX_QUESTION_LENGTH) {
+      return NextResponse.json({ error: `Questions must be ${MIN_QUESTION_LENGTH} to ${MAX_QUESTION_LENGTH} characters.` }, { status: 400 });
     }
 
-    const result = await askWeddingAssistant({ question, userId });
-    return NextResponse.json(result);
+    if (!await getWeddingRole(weddingId, decodedToken.uid)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const threadRef = weddingRef(weddingId).collection('assistantThreads').doc(threadId);
+    const [threadDoc, messagesSnapshot] = await Promise.all([
+      threadRef.get(),
+      threadRef.collection('messages').orderBy('createdAt', 'asc').get(),
+    ]);
+    if (!threadDoc.exists) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
 
-  } catch (error: any) {
+    const history = recentHistory(messagesSnapshot.docs.map(doc => ({
+      role: doc.data().role as AssistantRole,
+      text: doc.data().text as string,
+    })));
+
+    await threadRef.collection('messages').add({ role: 'user', text: question, createdAt: Timestamp.now() });
+    const untitled = messagesSnapshot.empty && (threadDoc.data()?.title ?? DEFAULT_THREAD_TITLE) === DEFAULT_THREAD_TITLE;
+    await threadRef.update({
+      updatedAt: Timestamp.now(),
+      ...(untitled ? { title: threadTitleFrom(question) } : {}),
+    });
+
+    const answerRef = threadRef.collection('messages').doc();
+    const { stream, output } = await streamWeddingAssistant({ question, weddingId, history });
+    const encoder = new TextEncoder();
+
+    const answerStream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const chunk of stream) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+          const { answer } = await output;
+          await answerRef.set({ role: 'assistant', text: answer, createdAt: Timestamp.now() });
+          await threadRef.update({ updatedAt: Timestamp.now() });
+          controller.close();
+        } catch (error) {
+          console.error("Wedding assistant stream error:", error);
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(answerStream, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        'X-Message-Id': answerRef.id,
+      },
+    });
+
+  } catch (error: unknown) {
+    // Thrown by req.json() when the body isn't JSON.
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
     console.error("API Route Error:", error);
     return NextResponse.json({ error: 'An internal server error occurred' }, { status: 500 });
   }
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getWeddingRole, verifyRequestUser } from '@/lib/wedding-admin';
+import { signAttachmentUrl } from '@/lib/attachments-admin';
+import { weddingIdFromPath } from '@/lib/attachments';
+
+/**
+ * Returns a short-lived download link for a file stored under a wedding. Any member,
+ * viewers included, can open the wedding's files.
+ */
+export async function POST(request: Request) {
+  try {
+    const decodedToken = await verifyRequestUser(request);
+    if (!decodedToken) {
+        return new NextResponse('Unauthorized', { status: 401 });
+    }
+    const { weddingId, path } = await request.json();
+    if (!weddingId || typeof weddingId !== 'string') {
+        return new NextResponse('Missing weddingId', { status: 400 });
+    }
+    if (!path || typeof path !== 'string' || weddingIdFromPath(path) !== weddingId) {
+        return new NextResponse('Invalid path', { status: 400 });
+    }
+    if (!await getWeddingRole(weddingId, decodedToken.uid)) {
+        return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    const signed = await signAttachmentUrl(path);
+    if (!signed) {
+        return new NextResponse('File not found', { status: 404 });
+    }
+    return NextResponse.json(signed);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error signing attachment URL:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getWeddingRole, verifyRequestUser } from '@/lib/wedding-admin';
+import { reconcileBudget } from '@/lib/budget-admin';
+import { canEditWedding } from '@/lib/weddings';
+
+/**
+ * Repairs budget drift: rewrites any expense whose stored amount, due date or paid
+ * flag disagrees with its payment schedule, then recomputes the summary. Responds
+ * with what changed so the app can tell the user.
+ */
+export async function POST(request: Request) {
+  try {
+    const decodedToken = await verifyRequestUser(request);
+    if (!decodedToken) {
+        return new NextResponse('Unauthorized', { status: 401 });
+    }
+    const { weddingId } = await request.json();
+    if (!weddingId || typeof weddingId !== 'string') {
+        return new NextResponse('Missing weddingId', { status: 400 });
+    }
+    if (!canEditWedding(await getWeddingRole(weddingId, decodedToken.uid))) {
+        return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    return NextResponse.json(await reconcileBudget(weddingId));
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error reconciling budget:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { getWeddingRole, verifyRequestUser } from '@/lib/wedding-admin';
+import { recomputeBudgetSummary, switchBudgetCurrency, updateBudgetSettings } from '@/lib/budget-admin';
+import { canEditWedding } from '@/lib/weddings';
+import { isCurrencyCode } from '@/lib/currency';
+import { parseCategoryPlan } from '@/lib/budget-plan';
+
+/**
+ * Recomputes the wedding's budget summary from its expenses. The app calls this
+ * after every expense change instead of adjusting the totals from the browser.
+ */
+export async function POST(request: Request) {
+  try {
+    const decodedToken = await verifyRequestUser(request);
+    if (!decodedToken) {
+        return new NextResponse('Unauthorized', { status: 401 });
+    }
+    const { weddingId } = await request.json();
+    if (!weddingId || typeof weddingId !== 'string') {
+        return new NextResponse('Missing weddingId', { status: 400 });
+    }
+    if (!canEditWedding(await getWeddingRole(weddingId, decodedToken.uid))) {
+        return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    const { spent, committed } = await recomputeBudgetSummary(weddingId);
+    return NextResponse.json({ spent, committed });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error recomputing budget summary:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+/**
+ * Sets the wedding's total budget and/or category plan, or switches its base currency.
+ * A currency switch converts the stored total and plan itself, so it comes on its own.
+ */
+export async function PATCH(request: Request) {
+  try {
+    const decodedToken = await verifyRequestUser(request);
+    if (!decodedToken) {
+        return new NextResponse('Unauthorized', { status: 401 });
+    }
+    const { weddingId, total, currency, plan: rawPlan } = await request.json();
+    if (!weddingId || typeof weddingId !== 'string') {
+        return new NextResponse('Missing weddingId', { status: 400 });
+    }
+    if (total !== undefined && (typeof total !== 'number' || !Number.isFinite(total) || total < 0)) {
+        return new NextResponse('Total budget must be a positive number', { status: 400 });
+    }
+    if (currency !== undefined && !isCurrencyCode(currency)) {
+        return new NextResponse('Unsupported currency', { status: 400 });
+    }
+    if (currency !== undefined && (total !== undefined || rawPlan !== undefined)) {
+        return new NextResponse('Change the currency on its own', { status: 400 });
+    }
+    const plan = rawPlan === undefined ? undefined : parseCategoryPlan(rawPlan);
+    if (plan === null) {
+        return new NextResponse('Invalid budget plan', { status: 400 });
+    }
+    if (!canEditWedding(await getWeddingRole(weddingId, decodedToken.uid))) {
+        return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    if (currency !== undefined) {
+        await switchBudgetCurrency(weddingId, currency);
+        return NextResponse.json({ currency });
+    }
+
+    const settings = { ...(total !== undefined && { total }), ...(plan !== undefined && { plan }) };
+    await updateBudgetSettings(weddingId, settings);
+    return NextResponse.json(settings);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error updating budget settings:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
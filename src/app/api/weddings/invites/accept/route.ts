@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getDb } from '@/lib/firebase-admin';
+import { verifyRequestUser } from '@/lib/wedding-admin';
+import { isWeddingRole } from '@/lib/weddings';
+
+class InviteError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+    }
+}
+
+/**
+ * Accepts a wedding invite on behalf of the signed-in user. The invitee is not a
+ * member yet, so the membership write has to happen with admin privileges.
+ */
+export async function POST(request: Request) {
+  try {
+    const decodedToken = await verifyRequestUser(request);
+    if (!decodedToken) {
+        return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const { token } = await request.json();
+    if (!token || typeof token !== 'string') {
+        return new NextResponse('Missing invite token', { status: 400 });
+    }
+
+    const db = getDb();
+    const inviteRef = db.collection('weddingInvites').doc(token);
+
+    const weddingId = await db.runTransaction(async (transaction) => {
+        const inviteDoc = await transaction.get(inviteRef);
+        if (!inviteDoc.exists) {
+            throw new InviteError('This invite link is not valid.', 404);
+        }
+        const invite = inviteDoc.data()!;
+        if (invite.status !== 'pending') {
+            throw new InviteError('This invite has already been used or was revoked.', 410);
+        }
+        if (!decodedToken.email || decodedToken.email.toLowerCase() !== String(invite.email).toLowerCase()) {
+            throw new InviteError(`This invite was sent to ${invite.email}. Please sign in with that address.`, 403);
+        }
+        // Anyone can sign up with someone else's address; only a verified one proves it is theirs.
+        if (decodedToken.email_verified !== true) {
+            throw new InviteError(`Please verify ${invite.email} before accepting this invite.`, 403);
+        }
+        if (!isWeddingRole(invite.role) || invite.role === 'owner') {
+            throw new InviteError('This invite has an invalid role.', 400);
+        }
+
+        const weddingDocRef = db.collection('weddings').doc(invite.weddingId);
+        const weddingDoc = await transaction.get(weddingDocRef);
+        if (!weddingDoc.exists) {
+            throw new InviteError('The wedding for this invite no longer exists.', 404);
+        }
+
+        const userDoc = await transaction.get(db.collection('users').doc(decodedToken.uid));
+        const displayName = userDoc.data()?.name1 || decodedToken.name || decodedToken.email;
+
+        transaction.update(weddingDocRef, {
+            memberIds: FieldValue.arrayUnion(decodedToken.uid),
+            [`members.${decodedToken.uid}`]: {
+                role: invite.role,
+                email: decodedToken.email,
+                displayName,
+                joinedAt: FieldValue.serverTimestamp(),
+            },
+        });
+        transaction.update(inviteRef, {
+            status: 'accepted',
+            acceptedBy: decodedToken.uid,
+            acceptedAt: FieldValue.serverTimestamp(),
+        });
+        transaction.set(db.collection('users').doc(decodedToken.uid), { activeWeddingId: invite.weddingId }, { merge: true });
+
+        return invite.weddingId as string;
+    });
+
+    return NextResponse.json({ weddingId });
+
+  } catch (error) {
+    if (error instanceof InviteError) {
+        return new NextResponse(error.message, { status: error.status });
+    }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error accepting wedding invite:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getDb } from '@/lib/firebase-admin';
+import { verifyRequestUser, weddingRef } from '@/lib/wedding-admin';
+import { canManageMembers, isWeddingRole } from '@/lib/weddings';
+
+class MemberError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+    }
+}
+
+type MemberUpdate = (uid: string) => FirebaseFirestore.UpdateData<FirebaseFirestore.DocumentData>;
+
+/**
+ * Applies a change to another member of the wedding. Only the couple may change members,
+ * the owner never changes and nobody changes their own role. The security rules deny
+ * member changes from the browser, so this is the only way in.
+ */
+const changeMember = async (request: Request, body: { weddingId?: unknown; uid?: unknown }, update: MemberUpdate) => {
+    const decodedToken = await verifyRequestUser(request);
+    if (!decodedToken) {
+        throw new MemberError('Unauthorized', 401);
+    }
+    const { weddingId, uid } = body;
+    if (!weddingId || typeof weddingId !== 'string' || !uid || typeof uid !== 'string') {
+        throw new MemberError('Missing weddingId or uid', 400);
+    }
+    if (uid === decodedToken.uid) {
+        throw new MemberError("You can't change your own membership.", 403);
+    }
+
+    const weddingDocRef = weddingRef(weddingId);
+    await getDb().runTransaction(async (transaction) => {
+        const wedding = (await transaction.get(weddingDocRef)).data();
+        if (!wedding || !canManageMembers(wedding.members?.[decodedToken.uid]?.role)) {
+            throw new MemberError('Only the couple can change members.', 403);
+        }
+        if (uid === wedding.ownerId) {
+            throw new MemberError("The owner's membership cannot be changed.", 403);
+        }
+        if (!wedding.members?.[uid]) {
+            throw new MemberError('This person is not a member of the wedding.', 404);
+        }
+        transaction.update(weddingDocRef, update(uid));
+    });
+};
+
+const errorResponse = (error: unknown, action: string) => {
+    if (error instanceof MemberError) {
+        return new NextResponse(error.message, { status: error.status });
+    }
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error(`Error ${action}:`, error);
+    return new NextResponse(message, { status: 500 });
+};
+
+/** Gives another member a new role. */
+export async function PATCH(request: Request) {
+  try {
+    const body = await request.json();
+    if (!isWeddingRole(body.role) || body.role === 'owner') {
+        return new NextResponse('Invalid role', { status: 400 });
+    }
+    await changeMember(request, body, uid => ({ [`members.${uid}.role`]: body.role }));
+    return NextResponse.json({ role: body.role });
+
+  } catch (error) {
+    return errorResponse(error, 'changing member role');
+  }
+}
+
+/** Removes another member from the wedding. */
+export async function DELETE(request: Request) {
+  try {
+    await changeMember(request, await request.json(), uid => ({
+        memberIds: FieldValue.arrayRemove(uid),
+        [`members.${uid}`]: FieldValue.delete(),
+    }));
+    return NextResponse.json({ removed: true });
+
+  } catch (error) {
+    return errorResponse(error, 'removing member');
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import { FieldValue, type DocumentReference, type DocumentSnapshot } from 'firebase-admin/firestore';
+import { getDb } from '@/lib/firebase-admin';
+import { verifyRequestUser } from '@/lib/wedding-admin';
+import { initialTaskDocs } from '@/lib/timeline';
+import { WEDDING_SUBCOLLECTIONS } from '@/lib/weddings';
+
+// Firestore batches are capped at 500 writes.
+const BATCH_LIMIT = 450;
+
+/**
+ * Copies the legacy subcollections in batches. Keyed by source id, so a retry just rewrites them.
+ * Accounts that never had tasks get the starter checklist instead.
+ */
+const copyLegacyData = async (userDocRef: DocumentReference, weddingDocRef: DocumentReference) => {
+    const db = getDb();
+    let batch = db.batch();
+    let pendingWrites = 0;
+    for (const subcollection of WEDDING_SUBCOLLECTIONS) {
+        const snapshot = await userDocRef.collection(subcollection).get();
+        const docs = subcollection === 'tasks' && snapshot.empty
+            ? initialTaskDocs(weddingDocRef.id)
+            : snapshot.docs.map(sourceDoc => ({ id: sourceDoc.id, data: sourceDoc.data() }));
+        for (const { id, data } of docs) {
+            batch.set(weddingDocRef.collection(subcollection).doc(id), data);
+            pendingWrites++;
+            if (pendingWrites >= BATCH_LIMIT) {
+                await batch.commit();
+                batch = db.batch();
+                pendingWrites = 0;
+            }
+        }
+    }
+    // Marked complete in the last batch, so a copy cut short is picked up again next time.
+    batch.update(weddingDocRef, { migrationComplete: true });
+    batch.set(userDocRef, { activeWeddingId: weddingDocRef.id }, { merge: true });
+    await batch.commit();
+};
+
+/**
+ * Ensures the signed-in user has an active wedding workspace.
+ *
+ * Accounts created before workspaces existed keep their data under users/{uid}.
+ * The first time such a user loads the dashboard, their guests, tasks, expenses,
+ * budget and photos are copied into a new weddings/{weddingId} document that they own.
+ * The original documents are left untouched. The wedding is flagged until the copy
+ * finishes, and a copy that failed partway is resumed on the next call.
+ */
+export async function POST(request: Request) {
+  try {
+    const decodedToken = await verifyRequestUser(request);
+    if (!decodedToken) {
+        return new NextResponse('Unauthorized', { status: 401 });
+    }
+    const uid = decodedToken.uid;
+    const db = getDb();
+    const userDocRef = db.collection('users').doc(uid);
+    const userDoc = await userDocRef.get();
+    const userData = userDoc.data() ?? {};
+
+    // Weddings from before the flag existed, and ones joined by invite, have nothing to resume.
+    const resumeIfIncomplete = async (wedding: DocumentSnapshot) => {
+        const data = wedding.data();
+        if (data?.ownerId !== uid || data.migrationComplete !== false) return false;
+        await copyLegacyData(userDocRef, wedding.ref);
+        return true;
+    };
+
+    if (userData.activeWeddingId) {
+        const activeWedding = await db.collection('weddings').doc(userData.activeWeddingId).get();
+        if (activeWedding.exists && activeWedding.data()?.members?.[uid]) {
+            const migrated = await resumeIfIncomplete(activeWedding);
+            return NextResponse.json({ weddingId: activeWedding.id, migrated });
+        }
+    }
+
+    const existing = await db.collection('weddings').where('memberIds', 'array-contains', uid).limit(1).get();
+    if (!existing.empty) {
+        const wedding = existing.docs[0];
+        const migrated = await resumeIfIncomplete(wedding);
+        if (!migrated) await userDocRef.set({ activeWeddingId: wedding.id }, { merge: true });
+        return NextResponse.json({ weddingId: wedding.id, migrated });
+    }
+
+    const weddingDocRef = db.collection('weddings').doc();
+    await weddingDocRef.set({
+        name1: userData.name1 || 'Partner',
+        name2: userData.name2 || 'Partner',
+        ownerId: uid,
+        memberIds: [uid],
+        members: {
+            [uid]: {
+                role: 'owner',
+                email: decodedToken.email ?? null,
+                displayName: userData.name1 || decodedToken.email || 'Owner',
+                joinedAt: FieldValue.serverTimestamp(),
+            },
+        },
+        migrationComplete: false,
+        createdAt: FieldValue.serverTimestamp(),
+    });
+    await copyLegacyData(userDocRef, weddingDocRef);
+
+    return NextResponse.json({ weddingId: weddingDocRef.id, migrated: true });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error migrating user data into a wedding workspace:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
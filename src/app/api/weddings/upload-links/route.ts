@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getDb } from '@/lib/firebase-admin';
+import { getWeddingRole, verifyRequestUser, weddingRef } from '@/lib/wedding-admin';
+import { hashPin } from '@/lib/upload-links-admin';
+import { generateUploadToken, UPLOAD_PIN_PATTERN, uploadLinkSchema } from '@/lib/upload-links';
+import { canEditWedding } from '@/lib/weddings';
+
+/**
+ * Creates a guest upload link. Links are made here rather than in the browser so the
+ * PIN is only ever stored hashed.
+ */
+export async function POST(request: Request) {
+  try {
+    const decodedToken = await verifyRequestUser(request);
+    if (!decodedToken) {
+        return new NextResponse('Unauthorized', { status: 401 });
+    }
+    const { weddingId, ...body } = await request.json();
+    if (!weddingId || typeof weddingId !== 'string') {
+        return new NextResponse('Missing weddingId', { status: 400 });
+    }
+    const parsed = uploadLinkSchema.safeParse(body);
+    if (!parsed.success) {
+        return new NextResponse('Invalid upload link.', { status: 400 });
+    }
+    if (!canEditWedding(await getWeddingRole(weddingId, decodedToken.uid))) {
+        return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    const { label, pin, expiresAt, maxUploads } = parsed.data;
+    const db = getDb();
+    const token = generateUploadToken();
+    const linkRef = weddingRef(weddingId).collection('uploadLinks').doc();
+    const batch = db.batch();
+    batch.set(linkRef, {
+        token,
+        label,
+        pinHash: pin ? await hashPin(pin) : null,
+        expiresAt: expiresAt ? Timestamp.fromDate(expiresAt) : null,
+        maxUploads,
+        uploadCount: 0,
+        pinFailures: 0,
+        revokedAt: null,
+        createdBy: decodedToken.uid,
+        createdAt: FieldValue.serverTimestamp(),
+    });
+    batch.set(db.collection('uploadTokens').doc(token), { weddingId, linkId: linkRef.id });
+    await batch.commit();
+
+    return NextResponse.json({ id: linkRef.id, token });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error creating upload link:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+/**
+ * Revokes a link, or replaces its PIN. A new PIN also unlocks a link that was locked
+ * after too many wrong attempts.
+ */
+export async function PATCH(request: Request) {
+  try {
+    const decodedToken = await verifyRequestUser(request);
+    if (!decodedToken) {
+        return new NextResponse('Unauthorized', { status: 401 });
+    }
+    const { weddingId, linkId, revoke, pin } = await request.json();
+    if (!weddingId || typeof weddingId !== 'string') {
+        return new NextResponse('Missing weddingId', { status: 400 });
+    }
+    if (!linkId || typeof linkId !== 'string') {
+        return new NextResponse('Missing linkId', { status: 400 });
+    }
+    if (pin !== undefined && pin !== null && (typeof pin !== 'string' || !UPLOAD_PIN_PATTERN.test(pin))) {
+        return new NextResponse('PIN must be 4 to 8 digits', { status: 400 });
+    }
+    if (!canEditWedding(await getWeddingRole(weddingId, decodedToken.uid))) {
+        return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    const linkRef = weddingRef(weddingId).collection('uploadLinks').doc(linkId);
+    if (!(await linkRef.get()).exists) {
+        return new NextResponse('Upload link not found', { status: 404 });
+    }
+    await linkRef.update({
+        ...(revoke === true && { revokedAt: FieldValue.serverTimestamp() }),
+        ...(pin !== undefined && { pinHash: pin ? await hashPin(pin) : null, pinFailures: 0 }),
+    });
+    return NextResponse.json({ id: linkId });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Internal Server Error';
+    console.error("Error updating upload link:", error);
+    return new NextResponse(message, { status: 500 });
+  }
+}
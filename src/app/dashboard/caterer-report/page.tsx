@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useUser } from '@/hooks/use-user';
+import { useWedding } from '@/hooks/use-wedding';
+import { useGuests } from '@/hooks/use-guests';
+import { buildCatererReport, formatTable } from '@/lib/caterer-report';
+
+export default function CatererReportPage() {
+  const { user, loading: userLoading } = useUser();
+  const { wedding, loading: weddingLoading } = useWedding();
+  const { guests, loading: guestsLoading } = useGuests();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, userLoading, router]);
+
+  const report = useMemo(
+    () => (wedding ? buildCatererReport(guests, wedding.menuOptions) : null),
+    [guests, wedding],
+  );
+
+  if (userLoading || weddingLoading || guestsLoading || !report || !wedding) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <main className="container mx-auto max-w-4xl p-4 sm:p-8 print:max-w-none print:p-0">
+      <div className="mb-6 flex justify-end print:hidden">
+        <Button onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      <header className="mb-6">
+        <h1 className="font-headline text-3xl">Caterer Report</h1>
+        <p className="text-muted-foreground">
+          {wedding.name1} &amp; {wedding.name2} &middot; {report.totalConfirmed} confirmed guests &middot; generated {format(new Date(), 'PPP')}
+        </p>
+      </header>
+
+      <section className="mb-8 break-inside-avoid">
+        <h2 className="mb-2 font-headline text-xl">Meal Counts</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Meal</TableHead>
+              <TableHead className="text-right">Count</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.mealCounts.map(({ meal, count }) => (
+              <TableRow key={meal}>
+                <TableCell>{meal}</TableCell>
+                <TableCell className="text-right">{count}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </section>
+
+      <section className="mb-8">
+        <h2 className="mb-2 font-headline text-xl">Allergies &amp; Dietary Requirements by Table</h2>
+        {report.dietaryByTable.length === 0 ? (
+          <p className="text-muted-foreground">No confirmed guests have reported allergies or dietary requirements.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Table</TableHead>
+                <TableHead>Guest</TableHead>
+                <TableHead>Meal</TableHead>
+                <TableHead>Allergies</TableHead>
+                <TableHead>Notes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.dietaryByTable.flatMap(({ table, guests: tableGuests }) =>
+                tableGuests.map((guest, index) => (
+                  <TableRow key={`${table}-${guest.name}-${index}`} className="break-inside-avoid">
+                    <TableCell className="font-medium">{index === 0 ? formatTable(table) : ''}</TableCell>
+                    <TableCell>{guest.name}{guest.ageGroup === 'Child' ? ' (child)' : ''}</TableCell>
+                    <TableCell>{guest.meal}</TableCell>
+                    <TableCell>{guest.allergies.join(', ') || '—'}</TableCell>
+                    <TableCell>{guest.dietaryNotes || '—'}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </section>
+    </main>
+  );
+}
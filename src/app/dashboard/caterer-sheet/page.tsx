@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { MealIcon } from '@/components/meal-icon';
+import { useUser } from '@/hooks/use-user';
+import { useWedding } from '@/hooks/use-wedding';
+import { useGuests } from '@/hooks/use-guests';
+import { useSeating } from '@/hooks/use-seating';
+import { buildSeatingStationery, countMeals } from '@/lib/seating-stationery';
+
+export default function CatererSheetPage() {
+  const { user, loading: userLoading } = useUser();
+  const { wedding, loading: weddingLoading } = useWedding();
+  const { guests, loading: guestsLoading } = useGuests();
+  const { tables, loading: tablesLoading } = useSeating();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, userLoading, router]);
+
+  const stationery = useMemo(
+    () => (wedding ? buildSeatingStationery(guests, tables, wedding.menuOptions) : null),
+    [guests, tables, wedding],
+  );
+
+  if (userLoading || weddingLoading || guestsLoading || tablesLoading || !stationery || !wedding) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const meals = countMeals(stationery.tables.flatMap(t => t.guests), wedding.menuOptions).map(({ meal }) => meal);
+  const seated = stationery.tables.reduce((sum, t) => sum + t.guests.length, 0);
+
+  return (
+    <main className="container mx-auto max-w-4xl p-4 sm:p-8 print:max-w-none print:p-0">
+      <style>{'@page { size: letter; margin: 0.5in; }'}</style>
+      <div className="mb-6 flex justify-end print:hidden">
+        <Button onClick={() => window.print()} disabled={seated === 0}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      <header className="mb-6">
+        <h1 className="font-headline text-3xl">Caterer&apos;s Table Sheet</h1>
+        <p className="text-muted-foreground">
+          {wedding.name1} &amp; {wedding.name2} &middot; {seated} seated guests at {stationery.tables.length} tables &middot; generated {format(new Date(), 'PPP')}
+          {stationery.unassigned > 0 && ` · ${stationery.unassigned} confirmed guests not yet seated`}
+        </p>
+      </header>
+
+      <section className="mb-8 break-inside-avoid">
+        <h2 className="mb-2 font-headline text-xl">Meals by Table</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Table</TableHead>
+              {meals.map(meal => (
+                <TableHead key={meal} className="text-right">
+                  <span className="inline-flex items-center gap-1">
+                    <MealIcon meal={meal} className="h-4 w-4" />
+                    {meal}
+                  </span>
+                </TableHead>
+              ))}
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stationery.tables.map(({ table, label, guests: tableGuests, mealCounts }) => (
+              <TableRow key={table.id}>
+                <TableCell className="font-medium">{label}</TableCell>
+                {meals.map(meal => (
+                  <TableCell key={meal} className="text-right">{mealCounts.find(c => c.meal === meal)?.count ?? '—'}</TableCell>
+                ))}
+                <TableCell className="text-right font-medium">{tableGuests.length}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </section>
+
+      {stationery.tables.map(({ table, label, guests: tableGuests, mealCounts }) => (
+        <section key={table.id} className="mb-8 break-inside-avoid">
+          <div className="mb-2 flex flex-wrap items-baseline justify-between gap-2">
+            <h2 className="font-headline text-xl">{label}</h2>
+            <p className="flex flex-wrap gap-3 text-sm text-muted-foreground">
+              {mealCounts.map(({ meal, count }) => (
+                <span key={meal} className="inline-flex items-center gap-1">
+                  <MealIcon meal={meal} className="h-4 w-4" />
+                  {count} {meal}
+                </span>
+              ))}
+            </p>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Seat</TableHead>
+                <TableHead>Guest</TableHead>
+                <TableHead>Meal</TableHead>
+                <TableHead>Allergies</TableHead>
+                <TableHead>Notes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tableGuests.map(guest => (
+                <TableRow key={guest.id}>
+                  <TableCell>{guest.seat === null ? '—' : guest.seat + 1}</TableCell>
+                  <TableCell>{guest.name}{guest.ageGroup === 'Child' ? ' (child)' : ''}</TableCell>
+                  <TableCell>
+                    <span className="inline-flex items-center gap-1">
+                      <MealIcon meal={guest.meal} className="h-4 w-4" />
+                      {guest.meal}
+                    </span>
+                  </TableCell>
+                  <TableCell className={guest.allergies.length > 0 ? 'font-semibold' : undefined}>{guest.allergies.join(', ') || '—'}</TableCell>
+                  <TableCell>{guest.dietaryNotes || '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+      ))}
+    </main>
+  );
+}
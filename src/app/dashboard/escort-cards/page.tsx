@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useUser } from '@/hooks/use-user';
+import { useWedding } from '@/hooks/use-wedding';
+import { useGuests } from '@/hooks/use-guests';
+import { useSeating } from '@/hooks/use-seating';
+import { buildSeatingStationery } from '@/lib/seating-stationery';
+
+// Avery 5371 / 8371 business cards: US Letter, 2 columns x 5 rows of 3 1/2" x 2" cards.
+const CARDS_PER_SHEET = 10;
+const SHEET_STYLE = {
+  width: '8.5in',
+  height: '11in',
+  padding: '0.5in 0.75in',
+  gridTemplateColumns: 'repeat(2, 3.5in)',
+  gridAutoRows: '2in',
+};
+
+export default function EscortCardsPage() {
+  const { user, loading: userLoading } = useUser();
+  const { wedding, loading: weddingLoading } = useWedding();
+  const { guests, loading: guestsLoading } = useGuests();
+  const { tables, loading: tablesLoading } = useSeating();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, userLoading, router]);
+
+  const stationery = useMemo(
+    () => (wedding ? buildSeatingStationery(guests, tables, wedding.menuOptions) : null),
+    [guests, tables, wedding],
+  );
+  const sheets = useMemo(() => {
+    const cards = stationery?.escortCards ?? [];
+    const chunks = [];
+    for (let i = 0; i < cards.length; i += CARDS_PER_SHEET) {
+      chunks.push(cards.slice(i, i + CARDS_PER_SHEET));
+    }
+    return chunks;
+  }, [stationery]);
+
+  if (userLoading || weddingLoading || guestsLoading || tablesLoading || !stationery || !wedding) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <main className="flex flex-col items-center gap-6 bg-muted/40 p-4 sm:p-8 print:block print:bg-white print:p-0">
+      <style>{'@page { size: letter; margin: 0; }'}</style>
+      <div className="flex w-full max-w-[8.5in] items-center justify-between gap-4 print:hidden">
+        <div>
+          <h1 className="font-headline text-2xl">Escort Cards</h1>
+          <p className="text-sm text-muted-foreground">
+            {stationery.escortCards.length} cards in surname order, for Avery 5371 business cards. Print at 100% scale with no margins.
+            {stationery.unassigned > 0 && ` ${stationery.unassigned} confirmed guest${stationery.unassigned === 1 ? ' has' : 's have'} no table yet.`}
+          </p>
+        </div>
+        <Button onClick={() => window.print()} disabled={stationery.escortCards.length === 0}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      {sheets.map((sheet, sheetIndex) => (
+        <div
+          key={sheetIndex}
+          className="grid overflow-hidden bg-white shadow-md break-after-page print:shadow-none"
+          style={SHEET_STYLE}
+        >
+          {sheet.map(card => (
+            <div key={card.guestId} className="flex flex-col items-center justify-center gap-2 overflow-hidden border border-dashed border-gray-200 px-[0.25in] text-center text-black print:border-none">
+              <p className="font-headline text-[16pt] leading-tight">{card.name}</p>
+              <div className="h-px w-12 bg-gray-400" />
+              <p className="font-body text-[11pt] uppercase tracking-[0.2em]">{card.tableLabel}</p>
+            </div>
+          ))}
+        </div>
+      ))}
+    </main>
+  );
+}
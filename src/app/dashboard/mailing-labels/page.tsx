@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useUser } from '@/hooks/use-user';
+import { useGuests } from '@/hooks/use-guests';
+import { buildMailingLabels, formatAddressLines } from '@/lib/addresses';
+
+// Avery 5160 / 8160: US Letter, 3 columns x 10 rows of 2 5/8" x 1" labels.
+const LABELS_PER_SHEET = 30;
+const SHEET_STYLE = {
+  width: '8.5in',
+  height: '11in',
+  padding: '0.5in 0.1875in',
+  gridTemplateColumns: 'repeat(3, 2.625in)',
+  gridAutoRows: '1in',
+  columnGap: '0.125in',
+};
+
+export default function MailingLabelsPage() {
+  const { user, loading: userLoading } = useUser();
+  const { parties, loading: guestsLoading } = useGuests();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, userLoading, router]);
+
+  const labels = useMemo(() => buildMailingLabels(parties), [parties]);
+  const sheets = useMemo(() => {
+    const chunks = [];
+    for (let i = 0; i < labels.length; i += LABELS_PER_SHEET) {
+      chunks.push(labels.slice(i, i + LABELS_PER_SHEET));
+    }
+    return chunks;
+  }, [labels]);
+
+  if (userLoading || guestsLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const missing = parties.length - labels.length;
+
+  return (
+    <main className="flex flex-col items-center gap-6 bg-muted/40 p-4 sm:p-8 print:block print:bg-white print:p-0">
+      <style>{'@page { size: letter; margin: 0; }'}</style>
+      <div className="flex w-full max-w-[8.5in] items-center justify-between print:hidden">
+        <div>
+          <h1 className="font-headline text-2xl">Mailing Labels</h1>
+          <p className="text-sm text-muted-foreground">
+            {labels.length} labels for Avery 5160. Print at 100% scale with no margins.
+            {missing > 0 && ` ${missing} invitation${missing === 1 ? ' is' : 's are'} missing an address.`}
+          </p>
+        </div>
+        <Button onClick={() => window.print()} disabled={labels.length === 0}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      {sheets.map((sheet, sheetIndex) => (
+        <div
+          key={sheetIndex}
+          className="grid overflow-hidden bg-white shadow-md break-after-page print:shadow-none"
+          style={SHEET_STYLE}
+        >
+          {sheet.map((label, index) => (
+            <div key={index} className="flex flex-col justify-center overflow-hidden px-[0.15in] text-[10pt] leading-tight text-black">
+              <p className="truncate font-semibold">{label.name}</p>
+              {formatAddressLines(label.address).map((line, lineIndex) => (
+                <p key={lineIndex} className="truncate">{line}</p>
+              ))}
+            </div>
+          ))}
+        </div>
+      ))}
+    </main>
+  );
+}
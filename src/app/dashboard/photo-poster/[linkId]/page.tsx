@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { QrCodeSvg } from '@/components/qr-code';
+import { useUser } from '@/hooks/use-user';
+import { useWedding } from '@/hooks/use-wedding';
+import { useUploadLinks } from '@/hooks/use-upload-links';
+import { getGuestUploadLink, uploadLinkStatus } from '@/lib/upload-links';
+
+// A camera glyph for the middle of the code; inline so PNG and print never wait on a request.
+const CAMERA_LOGO = `data:image/svg+xml,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="#000" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14.5 4h-5L7 7H4a2 2 0 0 0-2 2v9a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2V9a2 2 0 0 0-2-2h-3l-2.5-3z"/><circle cx="12" cy="13" r="3"/></svg>',
+)}`;
+
+export default function PhotoPosterPage() {
+  const { linkId } = useParams<{ linkId: string }>();
+  const { user, loading: userLoading } = useUser();
+  const { wedding, loading: weddingLoading } = useWedding();
+  const { uploadLinks, loading: linksLoading } = useUploadLinks();
+  const [showLogo, setShowLogo] = useState(true);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, userLoading, router]);
+
+  if (userLoading || weddingLoading || linksLoading || !wedding) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const link = uploadLinks.find(l => l.id === linkId);
+  if (!link) {
+    return (
+      <main className="container mx-auto p-8 text-center">
+        <h1 className="font-headline text-2xl">Upload link not found</h1>
+        <p className="text-muted-foreground">It may have been removed. Create a new link from your photo album.</p>
+      </main>
+    );
+  }
+
+  const url = getGuestUploadLink(link.token);
+  const status = uploadLinkStatus(link);
+
+  return (
+    <main className="flex flex-col items-center gap-6 bg-muted/40 p-4 sm:p-8 print:block print:bg-white print:p-0">
+      <style>{'@page { size: letter; margin: 0; }'}</style>
+      <div className="flex w-full max-w-[8.5in] items-center justify-between gap-4 print:hidden">
+        <div>
+          <h1 className="font-headline text-2xl">Photo Sharing Poster</h1>
+          <p className="text-sm text-muted-foreground">
+            For &quot;{link.label}&quot;. Print it at 100% scale and set it out at the venue.
+            {status !== 'active' && ' This link is not accepting uploads right now.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox id="poster-logo" checked={showLogo} onCheckedChange={checked => setShowLogo(checked === true)} />
+            <Label htmlFor="poster-logo">Camera in the middle</Label>
+          </div>
+          <Button onClick={() => window.print()}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print / Save as PDF
+          </Button>
+        </div>
+      </div>
+
+      <div
+        className="flex flex-col items-center justify-center gap-[0.4in] bg-white p-[0.75in] text-center text-black shadow-md print:shadow-none"
+        style={{ width: '8.5in', height: '11in' }}
+      >
+        <p className="font-headline text-[28pt]">{wedding.name1} &amp; {wedding.name2}</p>
+        <h2 className="font-headline text-[44pt] leading-tight">Scan to share your photos</h2>
+        <QrCodeSvg
+          value={url}
+          logo={showLogo ? { href: CAMERA_LOGO } : undefined}
+          title={`QR code for ${link.label}`}
+          className="h-[4.5in] w-[4.5in]"
+        />
+        <div className="space-y-1 text-[14pt]">
+          <p>Point your phone&apos;s camera at the code, then add your favourite shots to our album.</p>
+          {link.hasPin && <p className="font-semibold">Ask us for the PIN.</p>}
+          {link.expiresAt && <p>Uploads open until {format(link.expiresAt, 'PPP')}.</p>}
+        </div>
+        <p className="break-all text-[9pt] text-neutral-500">{url}</p>
+      </div>
+    </main>
+  );
+}
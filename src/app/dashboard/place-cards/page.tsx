@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { MealIcon } from '@/components/meal-icon';
+import { useUser } from '@/hooks/use-user';
+import { useWedding } from '@/hooks/use-wedding';
+import { useGuests } from '@/hooks/use-guests';
+import { useSeating } from '@/hooks/use-seating';
+import { NO_MEAL_SELECTED } from '@/lib/caterer-report';
+import { buildSeatingStationery } from '@/lib/seating-stationery';
+
+// Tent cards: four 4 1/4" x 5 1/2" cards per US Letter sheet, each folded in half across the middle.
+const CARDS_PER_SHEET = 4;
+const SHEET_STYLE = {
+  width: '8.5in',
+  height: '11in',
+  gridTemplateColumns: 'repeat(2, 4.25in)',
+  gridAutoRows: '5.5in',
+};
+
+export default function PlaceCardsPage() {
+  const { user, loading: userLoading } = useUser();
+  const { wedding, loading: weddingLoading } = useWedding();
+  const { guests, loading: guestsLoading } = useGuests();
+  const { tables, loading: tablesLoading } = useSeating();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, userLoading, router]);
+
+  const stationery = useMemo(
+    () => (wedding ? buildSeatingStationery(guests, tables, wedding.menuOptions) : null),
+    [guests, tables, wedding],
+  );
+  // Cards run table by table in seat order, so each table's stack comes off the printer together.
+  const sheets = useMemo(() => {
+    const cards = (stationery?.tables ?? []).flatMap(({ label, guests: tableGuests }) =>
+      tableGuests.map(guest => ({ guest, tableLabel: label })));
+    const chunks = [];
+    for (let i = 0; i < cards.length; i += CARDS_PER_SHEET) {
+      chunks.push(cards.slice(i, i + CARDS_PER_SHEET));
+    }
+    return chunks;
+  }, [stationery]);
+
+  if (userLoading || weddingLoading || guestsLoading || tablesLoading || !stationery || !wedding) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const cardCount = stationery.tables.reduce((sum, t) => sum + t.guests.length, 0);
+
+  return (
+    <main className="flex flex-col items-center gap-6 bg-muted/40 p-4 sm:p-8 print:block print:bg-white print:p-0">
+      <style>{'@page { size: letter; margin: 0; }'}</style>
+      <div className="flex w-full max-w-[8.5in] items-center justify-between gap-4 print:hidden">
+        <div>
+          <h1 className="font-headline text-2xl">Place Cards</h1>
+          <p className="text-sm text-muted-foreground">
+            {cardCount} tent cards across {stationery.tables.length} tables, in seat order. Cut along the dashed lines and fold across the middle.
+          </p>
+        </div>
+        <Button onClick={() => window.print()} disabled={cardCount === 0}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      {sheets.map((sheet, sheetIndex) => (
+        <div
+          key={sheetIndex}
+          className="grid overflow-hidden bg-white shadow-md break-after-page print:shadow-none"
+          style={SHEET_STYLE}
+        >
+          {sheet.map(({ guest, tableLabel }) => (
+            <div key={guest.id} className="grid grid-rows-2 border border-dashed border-gray-300 text-black">
+              {/* The back half is upside down so the name reads from both sides of the fold. */}
+              <div className="flex rotate-180 items-center justify-center border-t border-dotted border-gray-300 px-[0.3in]">
+                <p className="text-center font-headline text-[20pt] leading-tight">{guest.name}</p>
+              </div>
+              <div className="flex flex-col items-center justify-center gap-3 px-[0.3in] text-center">
+                <p className="font-headline text-[22pt] leading-tight">{guest.name}</p>
+                <div className="flex items-center gap-4 font-body text-[10pt] uppercase tracking-[0.15em]">
+                  <span>{tableLabel}</span>
+                  {guest.meal !== NO_MEAL_SELECTED && (
+                    <span className="flex items-center gap-1">
+                      <MealIcon meal={guest.meal} className="h-4 w-4" />
+                      {guest.meal}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </main>
+  );
+}
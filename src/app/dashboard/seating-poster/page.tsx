@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useUser } from '@/hooks/use-user';
+import { useWedding } from '@/hooks/use-wedding';
+import { useGuests } from '@/hooks/use-guests';
+import { useSeating } from '@/hooks/use-seating';
+import { buildSeatingStationery, compareBySurname } from '@/lib/seating-stationery';
+
+const POSTER_SIZES = {
+  '18x24': { width: 18, height: 24, columns: 4, label: '18 × 24 in' },
+  '24x36': { width: 24, height: 36, columns: 5, label: '24 × 36 in' },
+} as const;
+type PosterSize = keyof typeof POSTER_SIZES;
+type PosterLayout = 'tables' | 'alphabetical';
+
+// Room taken by the margins and the title block, in inches.
+const POSTER_MARGIN = 1;
+const POSTER_HEADER = 4;
+
+export default function SeatingPosterPage() {
+  const { user, loading: userLoading } = useUser();
+  const { wedding, loading: weddingLoading } = useWedding();
+  const { guests, loading: guestsLoading } = useGuests();
+  const { tables, loading: tablesLoading } = useSeating();
+  const [size, setSize] = useState<PosterSize>('18x24');
+  const [layout, setLayout] = useState<PosterLayout>('tables');
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, userLoading, router]);
+
+  const stationery = useMemo(
+    () => (wedding ? buildSeatingStationery(guests, tables, wedding.menuOptions) : null),
+    [guests, tables, wedding],
+  );
+
+  if (userLoading || weddingLoading || guestsLoading || tablesLoading || !stationery || !wedding) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const poster = POSTER_SIZES[size];
+  // Shrink the type until every line fits in the columns; a table heading and its gap count as two lines.
+  const lines = layout === 'tables'
+      ? stationery.tables.reduce((sum, t) => sum + t.guests.length + 2, 0)
+      : stationery.escortCards.length;
+  const linesPerColumn = Math.max(1, Math.ceil(lines / poster.columns));
+  const lineHeightIn = (poster.height - 2 * POSTER_MARGIN - POSTER_HEADER) / linesPerColumn;
+  const fontSizePt = Math.min(28, Math.max(8, Math.floor((lineHeightIn * 72) / 1.35)));
+
+  return (
+    <main className="flex flex-col items-center gap-6 bg-muted/40 p-4 sm:p-8 print:block print:bg-white print:p-0">
+      <style>{`@page { size: ${poster.width}in ${poster.height}in; margin: 0; }`}</style>
+      <div className="flex w-full max-w-4xl flex-wrap items-end justify-between gap-4 print:hidden">
+        <div>
+          <h1 className="font-headline text-2xl">Seating Poster</h1>
+          <p className="text-sm text-muted-foreground">
+            Print at a copy shop at 100% scale. Text is {fontSizePt}pt at this size.
+            {stationery.unassigned > 0 && ` ${stationery.unassigned} confirmed guest${stationery.unassigned === 1 ? ' is' : 's are'} not on it because they have no table yet.`}
+          </p>
+        </div>
+        <div className="flex items-end gap-4">
+          <div className="space-y-1">
+            <Label>Size</Label>
+            <Select value={size} onValueChange={value => setSize(value as PosterSize)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(POSTER_SIZES) as PosterSize[]).map(key => (
+                  <SelectItem key={key} value={key}>{POSTER_SIZES[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Layout</Label>
+            <Select value={layout} onValueChange={value => setLayout(value as PosterLayout)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="tables">By table</SelectItem>
+                <SelectItem value="alphabetical">Alphabetical</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => window.print()} disabled={stationery.escortCards.length === 0}>
+            <Printer className="mr-2 h-4 w-4" />
+            Print / Save as PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="w-full overflow-auto print:overflow-visible">
+        <div
+          className="mx-auto flex flex-col bg-white text-black shadow-md print:shadow-none"
+          style={{ width: `${poster.width}in`, height: `${poster.height}in`, padding: `${POSTER_MARGIN}in` }}
+        >
+          <header className="flex flex-col items-center justify-center text-center" style={{ height: `${POSTER_HEADER}in` }}>
+            <p className="font-body text-[20pt] uppercase tracking-[0.3em]">Please find your seat</p>
+            <h2 className="mt-4 font-headline text-[56pt] leading-none">{wedding.name1} &amp; {wedding.name2}</h2>
+            {wedding.weddingDate && <p className="mt-4 font-body text-[18pt]">{format(wedding.weddingDate, 'MMMM d, yyyy')}</p>}
+          </header>
+          <div
+            className="flex-1 font-body"
+            style={{ columnCount: poster.columns, columnGap: '0.5in', columnFill: 'auto', fontSize: `${fontSizePt}pt`, lineHeight: 1.35 }}
+          >
+            {layout === 'tables'
+              ? stationery.tables.map(({ table, label, guests: tableGuests }) => (
+                  <section key={table.id} className="break-inside-avoid" style={{ paddingBottom: '1.35em' }}>
+                    <h3 className="font-headline font-semibold uppercase tracking-wider">{label}</h3>
+                    {[...tableGuests].sort((a, b) => compareBySurname(a.name, b.name)).map(guest => (
+                      <p key={guest.id}>{guest.name}</p>
+                    ))}
+                  </section>
+                ))
+              : stationery.escortCards.map(card => (
+                  <p key={card.guestId} className="flex justify-between gap-2 break-inside-avoid">
+                    <span className="truncate">{card.name}</span>
+                    <span className="shrink-0 font-semibold">{card.tableLabel}</span>
+                  </p>
+                ))}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { ArrowLeft, CalendarClock, CheckCircle2, Globe, Loader2, Mail, Pencil, Phone, PlusCircle, Receipt, Undo2, UserRound } from 'lucide-react';
+import { Header } from '@/components/header';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { VendorDialog } from '@/components/vendor-dialog';
+import { VENDOR_STATUS_BADGE } from '@/components/vendor-list';
+import { ExpenseDialog } from '@/components/expense-dialog';
+import { PaymentScheduleDialog } from '@/components/payment-schedule-dialog';
+import { RecordPaymentDialog } from '@/components/record-payment-dialog';
+import { AttachmentList } from '@/components/attachment-list';
+import { useUser } from '@/hooks/use-user';
+import { useWedding } from '@/hooks/use-wedding';
+import { useVendors } from '@/hooks/use-vendors';
+import { useAttachments } from '@/hooks/use-attachments';
+import { useBudget, type Expense, type Installment } from '@/hooks/use-budget';
+import { useToast } from '@/hooks/use-toast';
+import { PAYMENT_METHOD_LABELS } from '@/lib/payments';
+import { formatMoney } from '@/lib/currency';
+import { summarizeVendorExpenses, VENDOR_STATUS_LABELS } from '@/lib/vendors';
+
+export default function VendorPage() {
+  const { vendorId } = useParams<{ vendorId: string }>();
+  const { user, loading: userLoading } = useUser();
+  const { canEdit } = useWedding();
+  const { vendors, loading: vendorsLoading } = useVendors();
+  const { openAttachment } = useAttachments();
+  const { expenses, summary, loading: budgetLoading, clearPayment } = useBudget();
+  const { toast } = useToast();
+  const router = useRouter();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isExpenseOpen, setIsExpenseOpen] = useState(false);
+  const [scheduleExpense, setScheduleExpense] = useState<Expense | null>(null);
+  const [recording, setRecording] = useState<{ expense: Expense; installment: Installment } | null>(null);
+
+  const vendor = vendors.find(v => v.id === vendorId) ?? null;
+  const vendorExpenses = expenses
+    .filter(e => e.vendorId === vendorId)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  const payments = summarizeVendorExpenses(vendorExpenses);
+  const currency = summary?.currency ?? 'USD';
+
+  useEffect(() => {
+    if (!userLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, userLoading, router]);
+
+  const openReceipt = async (installment: Installment) => {
+    if (!installment.receipt) return;
+    try {
+      await openAttachment(installment.receipt.path);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Could not open the receipt.";
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  const handleClearPayment = async (expenseId: string, installmentId: string) => {
+    try {
+      await clearPayment(expenseId, installmentId);
+    } catch (error) {
+      console.error("Error clearing payment: ", error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not update payment status.' });
+    }
+  };
+
+  if (userLoading || vendorsLoading || budgetLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto max-w-5xl p-4 sm:p-6 lg:p-8">
+        <Button variant="ghost" asChild className="mb-4">
+          <Link href="/dashboard">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Link>
+        </Button>
+
+        {!vendor ? (
+          <p className="p-8 text-center text-muted-foreground">This vendor could not be found. It may have been deleted.</p>
+        ) : (
+          <div className="space-y-8">
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+              <div>
+                <h1 className="font-headline text-4xl">{vendor.name}</h1>
+                <div className="mt-2 flex items-center gap-2 text-muted-foreground">
+                  <span>{vendor.category}</span>
+                  <Badge variant={VENDOR_STATUS_BADGE[vendor.status]}>{VENDOR_STATUS_LABELS[vendor.status]}</Badge>
+                </div>
+              </div>
+              {canEdit && (
+                <Button variant="outline" onClick={() => setIsEditOpen(true)}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit Vendor
+                </Button>
+              )}
+            </div>
+
+            <div className="grid gap-8 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-headline text-2xl">Contact</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  {!vendor.contactName && !vendor.email && !vendor.phone && !vendor.website && (
+                    <p className="text-muted-foreground">No contact details yet.</p>
+                  )}
+                  {vendor.contactName && (
+                    <p className="flex items-center gap-2"><UserRound className="h-4 w-4 text-muted-foreground" />{vendor.contactName}</p>
+                  )}
+                  {vendor.email && (
+                    <a href={`mailto:${vendor.email}`} className="flex items-center gap-2 hover:underline"><Mail className="h-4 w-4 text-muted-foreground" />{vendor.email}</a>
+                  )}
+                  {vendor.phone && (
+                    <a href={`tel:${vendor.phone}`} className="flex items-center gap-2 hover:underline"><Phone className="h-4 w-4 text-muted-foreground" />{vendor.phone}</a>
+                  )}
+                  {vendor.website && (
+                    <a
+                      href={/^https?:\/\//i.test(vendor.website) ? vendor.website : `https://${vendor.website}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-2 hover:underline"
+                    >
+                      <Globe className="h-4 w-4 text-muted-foreground" />{vendor.website}
+                    </a>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-headline text-2xl">Quotes</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  {vendor.quotes.length === 0 ? (
+                    <p className="text-muted-foreground">No quotes recorded.</p>
+                  ) : vendor.quotes.map(quote => (
+                    <div key={quote.id} className="flex justify-between gap-4">
+                      <span>{quote.description || 'Quote'}</span>
+                      <span className="font-medium">{formatMoney(quote.amount, currency)}</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </div>
+
+            {vendor.notes && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-headline text-2xl">Notes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="whitespace-pre-wrap text-sm">{vendor.notes}</p>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader className="flex-row items-center justify-between">
+                <div>
+                  <CardTitle className="font-headline text-2xl">Payments</CardTitle>
+                  <CardDescription>
+                    {formatMoney(Math.round(payments.paid), currency)} paid of {formatMoney(Math.round(payments.total), currency)}
+                    {payments.nextPayment && ` · next payment of ${formatMoney(payments.nextPayment.amount, payments.nextPayment.currency)} due ${format(payments.nextPayment.dueDate, 'MMM d, yyyy')}`}
+                  </CardDescription>
+                </div>
+                {canEdit && (
+                  <Button variant="outline" onClick={() => setIsExpenseOpen(true)}>
+                    <PlusCircle className="mr-2 h-4 w-4" />
+                    Add Payment
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                {vendorExpenses.length === 0 ? (
+                  <p className="p-4 text-center text-sm text-muted-foreground">No expenses are linked to this vendor yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Payment</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Due Date</TableHead>
+                        <TableHead className="text-right">Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    {vendorExpenses.map(expense => (
+                      <TableBody key={expense.id}>
+                        <TableRow className="bg-muted/30 hover:bg-muted/30">
+                          <TableCell colSpan={3} className="font-medium">
+                            {expense.category} &middot; {formatMoney(expense.actual, expense.currency)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {canEdit && (
+                              <Button variant="ghost" size="sm" onClick={() => setScheduleExpense(expense)}>
+                                <CalendarClock className="mr-2 h-4 w-4" />
+                                Schedule
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                        {expense.payments.map(installment => (
+                          <TableRow key={installment.id} className={installment.paidDate ? 'bg-green-50/50' : ''}>
+                            <TableCell className="pl-8">
+                              {installment.label || 'Payment'}
+                              {installment.paidDate && (
+                                <span className="block text-xs text-muted-foreground">
+                                  Paid {format(installment.paidDate, 'MMM d, yyyy')}
+                                  {installment.method && ` by ${PAYMENT_METHOD_LABELS[installment.method].toLowerCase()}`}
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell>{formatMoney(installment.amount, expense.currency)}</TableCell>
+                            <TableCell>{format(installment.dueDate, 'MMM d, yyyy')}</TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex items-center justify-end gap-2">
+                                {installment.receipt && (
+                                  <Button variant="ghost" size="icon" onClick={() => openReceipt(installment)} aria-label={`Receipt ${installment.receipt.name}`}>
+                                    <Receipt className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                {installment.paidDate ? (
+                                  canEdit && (
+                                    <Button variant="ghost" size="icon" onClick={() => handleClearPayment(expense.id, installment.id)} aria-label="Mark as unpaid">
+                                      <Undo2 className="h-4 w-4" />
+                                    </Button>
+                                  )
+                                ) : (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => setRecording({ expense, installment })}
+                                    disabled={!canEdit}
+                                  >
+                                    <CheckCircle2 className="mr-2 h-4 w-4"/>
+                                    Record Payment
+                                  </Button>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    ))}
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="font-headline text-2xl">Contracts</CardTitle>
+                <CardDescription>Signed contracts, invoices and proposals.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AttachmentList
+                  target={{ owner: 'vendors', ownerId: vendor.id }}
+                  attachments={vendor.contracts}
+                  prompt="Drop contracts here"
+                  emptyText="No contracts attached."
+                />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+      <VendorDialog open={isEditOpen} onOpenChange={setIsEditOpen} vendor={vendor} />
+      <ExpenseDialog open={isExpenseOpen} onOpenChange={setIsExpenseOpen} defaultVendorId={vendor?.id ?? null} />
+      <PaymentScheduleDialog
+        open={!!scheduleExpense}
+        onOpenChange={(open) => !open && setScheduleExpense(null)}
+        expense={scheduleExpense}
+      />
+      <RecordPaymentDialog
+        open={!!recording}
+        onOpenChange={(open) => !open && setRecording(null)}
+        expense={recording?.expense ?? null}
+        installment={recording?.installment ?? null}
+      />
+    </div>
+  );
+}
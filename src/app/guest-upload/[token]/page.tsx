@@ -0,0 +1,248 @@
+"use client";
+
+import * as React from 'react';
+import Image from 'next/image';
+import { useParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { UploadCloud, CheckCircle, XCircle, Heart, Loader2 } from 'lucide-react';
+import { useDropzone, type FileRejection } from 'react-dropzone';
+import { Header } from '@/components/header';
+import { MAX_PHOTO_SIZE, PHOTO_FILE_TYPES, PHOTO_RENDITIONS, renderPhoto } from '@/lib/photos';
+import type { GuestUploadInfo } from '@/lib/upload-links';
+
+type UploadStatus = 'pending' | 'uploading' | 'done' | 'failed';
+
+interface SelectedFile {
+  id: string;
+  file: File;
+  preview: string;
+  status: UploadStatus;
+  error?: string;
+}
+
+export default function GuestUploadPage() {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [info, setInfo] = React.useState<GuestUploadInfo | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [files, setFiles] = React.useState<SelectedFile[]>([]);
+  const [uploaderName, setUploaderName] = React.useState('');
+  const [message, setMessage] = React.useState('');
+  const [pin, setPin] = React.useState('');
+  const [isUploading, setIsUploading] = React.useState(false);
+
+  React.useEffect(() => {
+    const loadLink = async () => {
+      try {
+        const response = await fetch(`/api/guest-upload/${encodeURIComponent(token)}`);
+        if (!response.ok) {
+          throw new Error(await response.text() || 'We could not load this upload link.');
+        }
+        setInfo(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'We could not load this upload link.');
+      }
+    };
+    loadLink();
+  }, [token]);
+
+  const onDrop = React.useCallback((acceptedFiles: File[], rejectedFiles: FileRejection[]) => {
+    rejectedFiles.forEach(({ file }) => {
+      toast({
+          variant: 'destructive',
+          title: 'File Not Added',
+          description: `"${file.name}" is not a photo or is larger than 20 MB.`,
+      });
+    });
+    setFiles(prev => [
+      ...prev,
+      ...acceptedFiles.map(file => ({ id: crypto.randomUUID(), file, preview: URL.createObjectURL(file), status: 'pending' as const })),
+    ]);
+  }, [toast]);
+
+  const remaining = info?.remainingUploads ?? null;
+  const pendingFiles = files.filter(f => f.status !== 'done');
+  const limitReached = remaining !== null && remaining <= 0;
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: PHOTO_FILE_TYPES,
+    disabled: limitReached || isUploading,
+    maxSize: MAX_PHOTO_SIZE,
+  });
+
+  const removeFile = (id: string) => {
+    setFiles(prev => {
+      const removed = prev.find(f => f.id === id);
+      if (removed) URL.revokeObjectURL(removed.preview);
+      return prev.filter(f => f.id !== id);
+    });
+  };
+
+  const setStatus = (id: string, status: UploadStatus, error?: string) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, status, error } : f));
+  };
+
+  // Renditions are made here, as they are for the couple's uploads, so the server only stores them.
+  const uploadFile = async ({ file }: SelectedFile) => {
+    const thumb = await renderPhoto(file, PHOTO_RENDITIONS.thumb.maxSize, PHOTO_RENDITIONS.thumb.quality);
+    const web = await renderPhoto(file, PHOTO_RENDITIONS.web.maxSize, PHOTO_RENDITIONS.web.quality);
+    const body = new FormData();
+    body.append('original', file.type ? file : new File([file], file.name, { type: 'image/heic' }));
+    body.append('web', web.blob, 'web.jpg');
+    body.append('thumb', thumb.blob, 'thumb.jpg');
+    body.append('width', String(web.width));
+    body.append('height', String(web.height));
+    body.append('uploaderName', uploaderName);
+    body.append('message', message);
+    body.append('pin', pin);
+    const response = await fetch(`/api/guest-upload/${encodeURIComponent(token)}`, { method: 'POST', body });
+    if (!response.ok) {
+      throw Object.assign(new Error(await response.text() || 'Upload failed.'), { status: response.status });
+    }
+    const { pending } = await response.json() as { pending: boolean };
+    return pending;
+  };
+
+  const handleUpload = async () => {
+    if (pendingFiles.length === 0) {
+      toast({ variant: 'destructive', title: 'No files selected', description: 'Please add some photos to upload.' });
+      return;
+    }
+    if (remaining !== null && pendingFiles.length > remaining) {
+      toast({ variant: 'destructive', title: 'Too Many Photos', description: `This link can take ${remaining} more photo(s).` });
+      return;
+    }
+    setIsUploading(true);
+    let uploaded = 0;
+    let held = 0;
+    for (const selected of pendingFiles) {
+      setStatus(selected.id, 'uploading');
+      try {
+        if (await uploadFile(selected)) held += 1;
+        uploaded += 1;
+        setStatus(selected.id, 'done');
+      } catch (err) {
+        const description = err instanceof Error ? err.message : 'Upload failed.';
+        setStatus(selected.id, 'failed', description);
+        // A wrong PIN or a link that just closed fails every remaining photo the same way.
+        const status = (err as { status?: number }).status;
+        if (status === 403 || status === 410) {
+          toast({ variant: 'destructive', title: 'Upload Stopped', description });
+          break;
+        }
+      }
+    }
+    setInfo(prev => prev && prev.remainingUploads !== null ? { ...prev, remainingUploads: prev.remainingUploads - uploaded } : prev);
+    setIsUploading(false);
+    if (uploaded > 0) {
+      toast({
+          title: 'Upload Successful!',
+          description: `Thank you for sharing ${uploaded === 1 ? 'your photo' : `${uploaded} photos`}.`
+            + (held > 0 ? ' The couple will review them before they appear in the album.' : ''),
+          action: (
+              <div className="p-1 rounded-full bg-green-500">
+                  <CheckCircle className="h-5 w-5 text-white" />
+              </div>
+          ),
+      });
+    }
+  };
+
+  const finished = files.filter(f => f.status === 'done' || f.status === 'failed').length;
+
+  return (
+    <div className="flex flex-col bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 sm:p-6 lg:p-8 flex items-center justify-center">
+        <Card className="w-full max-w-2xl shadow-xl">
+          {error ? (
+            <CardHeader className="text-center">
+              <CardTitle className="font-headline text-3xl">Link Not Available</CardTitle>
+              <CardDescription>{error}</CardDescription>
+            </CardHeader>
+          ) : !info ? (
+            <CardContent className="p-12">
+              <Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader className="text-center">
+                <Heart className="mx-auto h-10 w-10 text-primary" />
+                <CardTitle className="font-headline text-3xl">Share Your Photos</CardTitle>
+                <CardDescription>
+                  Add your photos to {info.coupleNames}&apos;s wedding album.
+                  {remaining !== null && ` This link can take ${remaining} more photo(s).`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="uploader-name">Your name (optional)</Label>
+                    <Input id="uploader-name" maxLength={80} value={uploaderName} onChange={e => setUploaderName(e.target.value)} />
+                  </div>
+                  {info.requiresPin && (
+                    <div className="space-y-2">
+                      <Label htmlFor="upload-pin">PIN</Label>
+                      <Input id="upload-pin" inputMode="numeric" autoComplete="off" maxLength={8} placeholder="From the couple" value={pin} onChange={e => setPin(e.target.value)} />
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="upload-message">A message for the couple (optional)</Label>
+                  <Textarea id="upload-message" rows={2} maxLength={500} value={message} onChange={e => setMessage(e.target.value)} />
+                </div>
+                <div>
+                  <div
+                    {...getRootProps()}
+                    className={`p-10 border-2 border-dashed rounded-lg text-center transition-colors ${
+                      isDragActive ? 'border-primary bg-primary/10' : 'border-border'
+                    } ${limitReached ? 'cursor-not-allowed bg-muted/50' : 'cursor-pointer hover:border-primary/50'}`}
+                  >
+                    <input {...getInputProps()} />
+                    <UploadCloud className="mx-auto h-12 w-12 text-muted-foreground" />
+                    <p className="mt-4">
+                      {limitReached ? 'This link has reached its photo limit.' : isDragActive ? 'Drop the files here...' : 'Drag & drop photos here, or click to select files'}
+                    </p>
+                  </div>
+                  <p className="text-xs text-muted-foreground text-center mt-2">Maximum file size: 20 MB.</p>
+                </div>
+
+                {files.length > 0 && (
+                  <div className="space-y-4">
+                    <h3 className="font-medium">Selected Photos ({files.length}):</h3>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                      {files.map(selected => (
+                        <div key={selected.id} className="relative group" title={selected.error}>
+                          <Image src={selected.preview} alt={selected.file.name} width={200} height={200} unoptimized className={`rounded-md object-cover aspect-square ${selected.status === 'done' ? 'opacity-60' : ''}`} />
+                          {selected.status === 'uploading' && <Loader2 className="absolute inset-0 m-auto h-8 w-8 animate-spin text-white" />}
+                          {selected.status === 'done' && <CheckCircle className="absolute inset-0 m-auto h-8 w-8 text-green-600" />}
+                          {selected.status === 'failed' && <XCircle className="absolute inset-0 m-auto h-8 w-8 text-destructive" />}
+                          {(selected.status === 'pending' || selected.status === 'failed') && !isUploading && (
+                            <button type="button" onClick={() => removeFile(selected.id)} className="absolute top-1 right-1 bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                              <XCircle className="h-4 w-4"/>
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    {isUploading && <Progress value={(finished / files.length) * 100} className="h-2" />}
+                    <Button onClick={handleUpload} disabled={isUploading || limitReached || pendingFiles.length === 0 || (info.requiresPin && !pin)} className="w-full">
+                      {isUploading ? <><Loader2 className="mr-2 h-4 w-4 animate-spin"/> Uploading...</> : `Upload ${pendingFiles.length} Photo(s)`}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,181 +0,0 @@
-
-"use client";
-
-import * as React from 'react';
-import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { useToast } from '@/hooks/use-toast';
-import { UploadCloud, CheckCircle, XCircle, Gem, Loader2 } from 'lucide-react';
-import { useDropzone } from 'react-dropzone';
-import { Header } from '@/components/header';
-import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { useSubscription } from '@/hooks/use-subscription';
-import { usePhotos } from '@/hooks/use-photos';
-
-interface UploadedFile extends File {
-  preview: string;
-}
-
-const FREE_TIER_LIMIT = 10;
-const MAX_FILE_SIZE_MB = 5;
-const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
-
-export default function GuestUploadPage() {
-  const { toast } = useToast();
-  const [files, setFiles] = React.useState<UploadedFile[]>([]);
-  const [isUploading, setIsUploading] = React.useState(false);
-  const { isPremium } = useSubscription();
-  const { photos, addPhoto } = usePhotos();
-
-  const onDrop = React.useCallback((acceptedFiles: File[], rejectedFiles: any[]) => {
-    if (rejectedFiles.length > 0) {
-      rejectedFiles.forEach(({ file }) => {
-        toast({
-            variant: 'destructive',
-            title: 'File Too Large',
-            description: `"${file.name}" is larger than the ${MAX_FILE_SIZE_MB}MB limit.`,
-        });
-      });
-    }
-
-    if (!isPremium && (files.length + photos.length + acceptedFiles.length) > FREE_TIER_LIMIT) {
-        toast({
-            variant: 'destructive',
-            title: 'Upload Limit Reached',
-            description: `The free plan is limited to ${FREE_TIER_LIMIT} photos. The couple can upgrade for unlimited uploads.`,
-        });
-        return;
-    }
-
-    const newFiles = acceptedFiles.map(file => Object.assign(file, {
-        preview: URL.createObjectURL(file)
-    }));
-    setFiles(prev => [...prev, ...newFiles]);
-  }, [files.length, isPremium, photos.length, toast]);
-
-  const limitReached = !isPremium && photos.length >= FREE_TIER_LIMIT;
-
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({
-    onDrop,
-    accept: { 'image/*': [] },
-    disabled: limitReached,
-    maxSize: MAX_FILE_SIZE_BYTES,
-  });
-
-  const removeFile = (fileName: string) => {
-    setFiles(prev => prev.filter(file => file.name !== fileName));
-  };
-  
-  const handleUpload = async () => {
-    if (files.length === 0) {
-      toast({ variant: 'destructive', title: 'No files selected', description: 'Please add some photos to upload.' });
-      return;
-    }
-    setIsUploading(true);
-    toast({ title: 'Uploading...', description: `Uploading ${files.length} photos.` });
-
-    const uploadPromises = files.map(file => {
-      return new Promise<void>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = async (e) => {
-          try {
-            if (e.target?.result) {
-              await addPhoto({
-                src: e.target.result as string,
-                alt: file.name,
-                hint: 'guest upload',
-              });
-            }
-            resolve();
-          } catch (error) {
-            reject(error);
-          }
-        };
-        reader.onerror = (error) => {
-            toast({ variant: 'destructive', title: 'Upload Failed', description: `Could not upload ${file.name}.` });
-            reject(error);
-        };
-        reader.readAsDataURL(file);
-      });
-    });
-
-    try {
-        await Promise.all(uploadPromises);
-        setFiles([]);
-        toast({
-            title: 'Upload Successful!',
-            description: 'Thank you for sharing your photos.',
-            action: (
-                <div className="p-1 rounded-full bg-green-500">
-                    <CheckCircle className="h-5 w-5 text-white" />
-                </div>
-            ),
-        });
-    } catch (error) {
-        console.error("Error uploading files: ", error);
-        toast({ variant: 'destructive', title: 'Upload Error', description: 'Some photos could not be uploaded.' });
-    } finally {
-        setIsUploading(false);
-    }
-  };
-  
-  return (
-    <div className="flex flex-col bg-background">
-      <Header />
-      <main className="flex-grow container mx-auto p-4 sm:p-6 lg:p-8 flex items-center justify-center">
-        <Card className="w-full max-w-2xl shadow-xl">
-          <CardHeader>
-            <CardTitle className="text-center font-headline text-3xl">Share Your Photos</CardTitle>
-            <CardDescription className="text-center">Upload your photos from the wedding!</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            {limitReached && (
-                <Alert variant="destructive">
-                    <Gem className="h-4 w-4" />
-                    <AlertTitle>Photo Limit Reached</AlertTitle>
-                    <AlertDescription>
-                        This wedding's photo album has reached the limit for the free plan. The couple can upgrade to allow for more photo uploads.
-                    </AlertDescription>
-                </Alert>
-            )}
-            <div>
-              <div
-                {...getRootProps()}
-                className={`p-10 border-2 border-dashed rounded-lg text-center transition-colors ${
-                  isDragActive ? 'border-primary bg-primary/10' : 'border-border'
-                } ${limitReached ? 'cursor-not-allowed bg-muted/50' : 'cursor-pointer hover:border-primary/50'}`}
-              >
-                <input {...getInputProps()} />
-                <UploadCloud className="mx-auto h-12 w-12 text-muted-foreground" />
-                <p className="mt-4">
-                  {isDragActive ? 'Drop the files here...' : 'Drag & drop photos here, or click to select files'}
-                </p>
-              </div>
-              <p className="text-xs text-muted-foreground text-center mt-2">Maximum file size: {MAX_FILE_SIZE_MB}MB.</p>
-            </div>
-            
-            {files.length > 0 && (
-              <div className="space-y-4">
-                <h3 className="font-medium">Selected Photos ({files.length}):</h3>
-                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
-                  {files.map(file => (
-                    <div key={file.name} className="relative group">
-                      <img src={file.preview} alt={file.name} className="rounded-md object-cover aspect-square" />
-                      <button onClick={() => removeFile(file.name)} className="absolute top-1 right-1 bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <XCircle className="h-4 w-4"/>
-                      </button>
-                    </div>
-                  ))}
-                </div>
-                <Button onClick={handleUpload} disabled={isUploading || limitReached} className="w-full">
-                  {isUploading ? <><Loader2 className="mr-2 h-4 w-4 animate-spin"/> Uploading...</> : `Upload ${files.length} Photo(s)`}
-                </Button>
-              </div>
-            )}
-
-          </CardContent>
-        </Card>
-      </main>
-    </div>
-  );
-}
@@ -0,0 +1,109 @@
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Header } from '@/components/header';
+import { useToast } from '@/hooks/use-toast';
+import { useUser } from '@/hooks/use-user';
+import { Loader2, Users } from 'lucide-react';
+
+export default function AcceptInvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading, getIdToken, sendVerificationEmail } = useUser();
+  const [isAccepting, setIsAccepting] = React.useState(false);
+  const [verificationSent, setVerificationSent] = React.useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    try {
+      const idToken = await getIdToken();
+      if (!idToken) {
+        throw new Error("Not authenticated.");
+      }
+      const response = await fetch('/api/weddings/invites/accept', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${idToken}`,
+        },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text() || 'Failed to accept the invite.');
+      }
+
+      toast({ title: "Welcome aboard!", description: "You now have access to this wedding plan." });
+      router.push('/dashboard');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "An unexpected error occurred.";
+      toast({ variant: 'destructive', title: 'Could not accept invite', description: message });
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  const handleSendVerification = async () => {
+    try {
+      await sendVerificationEmail();
+      setVerificationSent(true);
+      toast({ title: "Verification email sent", description: `Follow the link we sent to ${user?.email}, then accept the invite.` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "An unexpected error occurred.";
+      toast({ variant: 'destructive', title: 'Could not send the email', description: message });
+    }
+  };
+
+  return (
+    <div className="flex flex-col bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 sm:p-6 lg:p-8 flex items-center justify-center">
+        <Card className="w-full max-w-md shadow-xl text-center">
+          <CardHeader>
+            <Users className="mx-auto h-12 w-12 text-primary" />
+            <CardTitle className="font-headline text-3xl">You&apos;re Invited</CardTitle>
+            <CardDescription>You&apos;ve been invited to help plan a wedding on Wedly.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />
+            ) : user ? (
+              <>
+                <p className="text-sm text-muted-foreground">Signed in as {user.email}</p>
+                {!user.emailVerified && (
+                  <div className="space-y-2 text-sm text-muted-foreground">
+                    <p>Verify your email address before accepting, so we know this invite reached you.</p>
+                    <Button variant="outline" onClick={handleSendVerification} disabled={verificationSent} className="w-full">
+                      {verificationSent ? 'Verification Email Sent' : 'Send Verification Email'}
+                    </Button>
+                  </div>
+                )}
+                <Button onClick={handleAccept} disabled={isAccepting} className="w-full">
+                  {isAccepting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Accept Invite
+                </Button>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">Sign in or create an account with the email address this invite was sent to, then open this link again.</p>
+                <div className="flex gap-2">
+                  <Button asChild variant="outline" className="flex-1">
+                    <Link href="/login">Log in</Link>
+                  </Button>
+                  <Button asChild className="flex-1">
+                    <Link href="/signup">Sign up</Link>
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
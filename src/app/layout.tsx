@@ -4,10 +4,19 @@ import './globals.css';
 import { Toaster } from "@/components/ui/toaster";
 import { SubscriptionProvider } from '@/hooks/use-subscription';
 import { UserProvider } from '@/hooks/use-user';
+import { WeddingProvider } from '@/hooks/use-wedding';
+import { AttachmentProvider } from '@/hooks/use-attachments';
 import { PhotoProvider } from '@/hooks/use-photos';
+import { UploadLinkProvider } from '@/hooks/use-upload-links';
 import Link from 'next/link';
 import { GuestProvider } from '@/hooks/use-guests';
+import { SeatingProvider } from '@/hooks/use-seating';
 import { TaskProvider } from '@/hooks/use-tasks';
+import { BudgetProvider } from '@/hooks/use-budget';
+import { EventProvider } from '@/hooks/use-events';
+import { VendorProvider } from '@/hooks/use-vendors';
+import { ContributorProvider } from '@/hooks/use-contributors';
+import { AssistantProvider } from '@/hooks/use-assistant';
 import { Footer } from '@/components/footer';
 
 export const metadata: Metadata = {
@@ -34,19 +43,37 @@ export default function RootLayout({
       </head>
       <body className="font-body antialiased flex flex-col min-h-screen">
         <UserProvider>
-          <SubscriptionProvider>
-            <PhotoProvider>
-              <GuestProvider>
-                <TaskProvider>
-                  <div className="flex-grow">
-                    {children}
-                  </div>
-                  <Toaster />
-                  <Footer />
-                </TaskProvider>
-              </GuestProvider>
-            </PhotoProvider>
-          </SubscriptionProvider>
+          <WeddingProvider>
+            <SubscriptionProvider>
+              <AttachmentProvider>
+                <PhotoProvider>
+                  <UploadLinkProvider>
+                    <GuestProvider>
+                      <SeatingProvider>
+                        <TaskProvider>
+                          <BudgetProvider>
+                            <ContributorProvider>
+                              <VendorProvider>
+                                <EventProvider>
+                                  <AssistantProvider>
+                                    <div className="flex-grow">
+                                      {children}
+                                    </div>
+                                    <Toaster />
+                                    <Footer />
+                                  </AssistantProvider>
+                                </EventProvider>
+                              </VendorProvider>
+                            </ContributorProvider>
+                          </BudgetProvider>
+                        </TaskProvider>
+                      </SeatingProvider>
+                    </GuestProvider>
+                  </UploadLinkProvider>
+                </PhotoProvider>
+              </AttachmentProvider>
+            </SubscriptionProvider>
+          </WeddingProvider>
         </UserProvider>
       </body>
     </html>
@@ -0,0 +1,294 @@
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useForm, useFieldArray, type UseFormReturn } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Header } from '@/components/header';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle, Heart, Loader2, PlusCircle, X } from 'lucide-react';
+import type { RsvpInvitation, RsvpSubmission } from '@/lib/rsvp';
+
+const answerSchema = z.object({
+  rsvp: z.enum(['Confirmed', 'Declined'], { errorMap: () => ({ message: 'Please let us know if you can make it.' }) }),
+  meal: z.string().nullable(),
+  dietaryNotes: z.string().max(500),
+});
+
+const formSchema = z.object({
+  guests: z.array(answerSchema.extend({ id: z.string(), name: z.string() })),
+  plusOnes: z.array(answerSchema.extend({ name: z.string().trim().min(1, 'Please enter a name.') })),
+  message: z.string().max(1000),
+});
+
+type RsvpFormValues = z.infer<typeof formSchema>;
+
+interface AnswerFieldsProps {
+  form: UseFormReturn<RsvpFormValues>;
+  prefix: `guests.${number}` | `plusOnes.${number}`;
+  menuOptions: string[];
+}
+
+function AnswerFields({ form, prefix, menuOptions }: AnswerFieldsProps) {
+  const attending = form.watch(`${prefix}.rsvp`) === 'Confirmed';
+  return (
+    <div className="space-y-3">
+      <FormField
+        control={form.control}
+        name={`${prefix}.rsvp`}
+        render={({ field }) => (
+          <FormItem>
+            <FormControl>
+              <RadioGroup onValueChange={field.onChange} value={field.value} className="flex gap-6">
+                <FormItem className="flex items-center space-x-2 space-y-0">
+                  <FormControl><RadioGroupItem value="Confirmed" /></FormControl>
+                  <FormLabel className="font-normal">Joyfully accepts</FormLabel>
+                </FormItem>
+                <FormItem className="flex items-center space-x-2 space-y-0">
+                  <FormControl><RadioGroupItem value="Declined" /></FormControl>
+                  <FormLabel className="font-normal">Regretfully declines</FormLabel>
+                </FormItem>
+              </RadioGroup>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      {attending && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name={`${prefix}.meal`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Meal</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value ?? undefined}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a meal" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {menuOptions.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`${prefix}.dietaryNotes`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Dietary Notes</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. gluten free" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function RsvpPage() {
+  const { code } = useParams<{ code: string }>();
+  const [invitation, setInvitation] = React.useState<RsvpInvitation | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [submitted, setSubmitted] = React.useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<RsvpFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      guests: [],
+      plusOnes: [],
+      message: '',
+    },
+  });
+  const { fields: guestFields } = useFieldArray({ control: form.control, name: 'guests' });
+  const { fields: plusOneFields, append: appendPlusOne, remove: removePlusOne } = useFieldArray({ control: form.control, name: 'plusOnes' });
+
+  React.useEffect(() => {
+    const loadInvitation = async () => {
+      try {
+        const response = await fetch(`/api/rsvp/${encodeURIComponent(code)}`);
+        if (!response.ok) {
+          throw new Error(await response.text() || 'We could not load your invitation.');
+        }
+        const data: RsvpInvitation = await response.json();
+        setInvitation(data);
+        form.reset({
+          guests: data.guests.map(g => ({
+            id: g.id,
+            name: g.name,
+            // Pending guests must pick an answer before submitting.
+            rsvp: g.rsvp === 'Pending' ? undefined : g.rsvp,
+            meal: g.meal,
+            dietaryNotes: g.dietaryNotes,
+          })) as RsvpFormValues['guests'],
+          plusOnes: [],
+          message: data.message,
+        });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'We could not load your invitation.');
+      }
+    };
+    loadInvitation();
+  }, [code, form]);
+
+  async function onSubmit(values: RsvpFormValues) {
+    setIsSubmitting(true);
+    const submission: RsvpSubmission = {
+      guests: values.guests.map(({ id, rsvp, meal, dietaryNotes }) => ({ id, rsvp, meal, dietaryNotes })),
+      plusOnes: values.plusOnes,
+      message: values.message,
+    };
+    try {
+      const response = await fetch(`/api/rsvp/${encodeURIComponent(code)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(submission),
+      });
+      if (!response.ok) {
+        throw new Error(await response.text() || 'Your RSVP could not be saved.');
+      }
+      setSubmitted(true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Your RSVP could not be saved.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  const remainingPlusOnes = (invitation?.openPlusOnes ?? 0) - plusOneFields.length;
+
+  return (
+    <div className="flex flex-col bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 sm:p-6 lg:p-8 flex items-center justify-center">
+        <Card className="w-full max-w-2xl shadow-xl">
+          {error ? (
+            <CardHeader className="text-center">
+              <CardTitle className="font-headline text-3xl">Invitation Not Found</CardTitle>
+              <CardDescription>{error}</CardDescription>
+              <Button asChild variant="outline" className="mt-4 mx-auto">
+                <Link href="/rsvp">Try another code</Link>
+              </Button>
+            </CardHeader>
+          ) : !invitation ? (
+            <CardContent className="p-12">
+              <Loader2 className="mx-auto h-8 w-8 animate-spin text-primary" />
+            </CardContent>
+          ) : submitted ? (
+            <CardHeader className="text-center">
+              <CheckCircle className="mx-auto h-12 w-12 text-green-600" />
+              <CardTitle className="font-headline text-3xl">Thank You!</CardTitle>
+              <CardDescription>Your RSVP has been sent to {invitation.coupleNames}. You can come back to this page to make changes.</CardDescription>
+            </CardHeader>
+          ) : (
+            <>
+              <CardHeader className="text-center">
+                <Heart className="mx-auto h-10 w-10 text-primary" />
+                <CardTitle className="font-headline text-3xl">{invitation.coupleNames}</CardTitle>
+                <CardDescription>
+                  Kindly respond for {invitation.partyName}.
+                  {invitation.respondedAt && ' You have already responded; feel free to update your answers.'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                    {guestFields.map((guest, index) => (
+                      <div key={guest.id} className="space-y-3">
+                        <p className="font-medium">
+                          {guest.name}
+                          {invitation.guests[index]?.ageGroup === 'Child' && <Badge variant="outline" className="ml-2">Child</Badge>}
+                        </p>
+                        <AnswerFields form={form} prefix={`guests.${index}`} menuOptions={invitation.menuOptions} />
+                        <Separator />
+                      </div>
+                    ))}
+
+                    {plusOneFields.map((plusOne, index) => (
+                      <div key={plusOne.id} className="space-y-3">
+                        <div className="flex items-start gap-2">
+                          <FormField
+                            control={form.control}
+                            name={`plusOnes.${index}.name`}
+                            render={({ field }) => (
+                              <FormItem className="flex-grow">
+                                <FormLabel>Guest&apos;s Name</FormLabel>
+                                <FormControl>
+                                  <Input {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <Button type="button" variant="ghost" size="icon" className="mt-8" onClick={() => removePlusOne(index)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <AnswerFields form={form} prefix={`plusOnes.${index}`} menuOptions={invitation.menuOptions} />
+                        <Separator />
+                      </div>
+                    ))}
+
+                    {remainingPlusOnes > 0 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => appendPlusOne({ name: '', rsvp: 'Confirmed', meal: null, dietaryNotes: '' })}
+                      >
+                        <PlusCircle className="mr-2 h-4 w-4" />
+                        Bring a guest
+                      </Button>
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="message"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>A message for the couple (optional)</FormLabel>
+                          <FormControl>
+                            <Textarea rows={3} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="submit" disabled={isSubmitting} className="w-full">
+                      {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Send RSVP
+                    </Button>
+                  </form>
+                </Form>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
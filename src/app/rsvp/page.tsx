@@ -0,0 +1,66 @@
+"use client";
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Header } from '@/components/header';
+import { normalizeInviteCode } from '@/lib/rsvp';
+
+const formSchema = z.object({
+  code: z.string().min(4, { message: 'Please enter the code from your invitation.' }),
+});
+
+export default function RsvpLookupPage() {
+  const router = useRouter();
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      code: '',
+    },
+  });
+
+  function onSubmit(values: z.infer<typeof formSchema>) {
+    router.push(`/rsvp/${normalizeInviteCode(values.code)}`);
+  }
+
+  return (
+    <div className="flex flex-col bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 sm:p-6 lg:p-8 flex items-center justify-center">
+        <Card className="w-full max-w-md shadow-xl">
+          <CardHeader className="text-center">
+            <CardTitle className="font-headline text-3xl">RSVP</CardTitle>
+            <CardDescription>Enter the code printed on your invitation.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Invitation Code</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. K7MQ2XPA" className="uppercase tracking-widest" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full">Find My Invitation</Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import type { UseFormReturn } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import type { MailingAddress } from "@/lib/addresses";
+
+const FIELDS: { name: keyof MailingAddress; label: string; placeholder: string; className?: string }[] = [
+    { name: 'line1', label: 'Street Address', placeholder: 'e.g. 123 Main St', className: 'sm:col-span-2' },
+    { name: 'line2', label: 'Apartment, Suite, etc. (optional)', placeholder: 'e.g. Apt 4B', className: 'sm:col-span-2' },
+    { name: 'city', label: 'City', placeholder: 'e.g. Springfield' },
+    { name: 'region', label: 'State / Region', placeholder: 'e.g. IL' },
+    { name: 'postalCode', label: 'Postal Code', placeholder: 'e.g. 62704' },
+    { name: 'country', label: 'Country', placeholder: 'e.g. United States' },
+];
+
+/** Mailing address inputs for a form whose values are a `MailingAddress`. */
+export function AddressFields({ form }: { form: UseFormReturn<MailingAddress> }) {
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+      {FIELDS.map(({ name, label, placeholder, className }) => (
+        <FormField
+          key={name}
+          control={form.control}
+          name={name}
+          render={({ field }) => (
+            <FormItem className={className}>
+              <FormLabel>{label}</FormLabel>
+              <FormControl>
+                <Input placeholder={placeholder} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ))}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Users, Gem, Image as ImageIcon } from "lucide-react";
+import { LegacyPhotosCard } from "./legacy-photos-card";
 
 // Mock data for the admin dashboard
 const mockUsers = [
@@ -64,6 +65,8 @@ export function AdminDashboard() {
             </Card>
         </div>
 
+        <LegacyPhotosCard />
+
         <Card>
             <CardHeader>
                 <CardTitle className="font-headline text-2xl">Recent Users</CardTitle>
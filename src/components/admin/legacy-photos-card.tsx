@@ -0,0 +1,107 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useUser } from '@/hooks/use-user';
+import { useToast } from '@/hooks/use-toast';
+
+/** Moves or deletes photos left in the old global collection shared by every account. */
+export function LegacyPhotosCard() {
+  const { getIdToken } = useUser();
+  const { toast } = useToast();
+  const [count, setCount] = useState<number | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const callLegacyPhotosApi = useCallback(async <T,>(method: 'GET' | 'POST' | 'DELETE', body?: object): Promise<T> => {
+    const token = await getIdToken();
+    if (!token) throw new Error("Not authenticated.");
+    const response = await fetch('/api/admin/legacy-photos', {
+        method,
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+        throw new Error(await response.text() || 'Legacy photo request failed.');
+    }
+    return response.json();
+  }, [getIdToken]);
+
+  useEffect(() => {
+    callLegacyPhotosApi<{ count: number }>('GET')
+        .then(result => setCount(result.count))
+        .catch(error => console.error("Error counting legacy photos:", error));
+  }, [callLegacyPhotosApi]);
+
+  const run = async (action: () => Promise<{ title: string; remaining: number }>) => {
+    setWorking(true);
+    try {
+        const { title, remaining } = await action();
+        toast({ title });
+        setCount(remaining);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Could not update legacy photos.';
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    } finally {
+        setWorking(false);
+    }
+  };
+
+  const movePhotos = () => run(async () => {
+    const { moved, remaining } = await callLegacyPhotosApi<{ moved: number; remaining: number }>('POST');
+    return { title: `${moved} photos moved, ${remaining} without a known uploader left.`, remaining };
+  });
+
+  const deletePhotos = () => run(async () => {
+    const { deleted } = await callLegacyPhotosApi<{ deleted: number }>('DELETE');
+    return { title: `${deleted} photos deleted.`, remaining: 0 };
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl">Legacy Photos</CardTitle>
+        <CardDescription>
+          {count === null
+            ? 'Checking for photos from before per-wedding albums...'
+            : `${count} photos are still in the old shared album. Photos that record their uploader can be moved into the uploader's wedding; the rest can only be deleted.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-4">
+        <Button onClick={movePhotos} disabled={working || !count}>
+          {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Move to Uploaders&apos; Weddings
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" disabled={working || !count}>Delete All</Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {count} legacy photos?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The images are stored only in these documents, so they can&apos;t be recovered afterwards.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={deletePhotos}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
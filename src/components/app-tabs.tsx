@@ -10,14 +10,16 @@ import { GuestList } from '@/components/guest-list';
 import { VisionBoard } from '@/components/vision-board';
 import { SeatingChart } from '@/components/seating-chart';
 import { PhotoAlbum } from '@/components/photo-album';
-import { LayoutDashboard, CircleDollarSign, ListChecks, Users, GalleryHorizontal, Armchair, Camera } from 'lucide-react';
+import { WeddingCalendar } from '@/components/wedding-calendar';
+import { VendorList } from '@/components/vendor-list';
+import { LayoutDashboard, CircleDollarSign, ListChecks, Users, GalleryHorizontal, Armchair, Camera, CalendarDays, Store } from 'lucide-react';
 
 export function AppTabs() {
 
 
   return (
     <Tabs defaultValue="dashboard" className="w-full">
-      <TabsList className="grid w-full grid-cols-2 sm:grid-cols-7 h-auto bg-primary/10 rounded-lg">
+      <TabsList className="grid w-full grid-cols-2 sm:grid-cols-5 lg:grid-cols-9 h-auto bg-primary/10 rounded-lg">
         <TabsTrigger value="dashboard" className="py-3 text-sm data-[state=active]:bg-white data-[state=active]:text-primary-foreground data-[state=active]:shadow-md">
           <LayoutDashboard className="mr-2 h-5 w-5" />
           Dashboard
@@ -34,10 +36,18 @@ export function AppTabs() {
           <CircleDollarSign className="mr-2 h-5 w-5" />
           Budget
         </TabsTrigger>
+        <TabsTrigger value="vendors" className="py-3 text-sm data-[state=active]:bg-white data-[state=active]:text-primary-foreground data-[state=active]:shadow-md">
+          <Store className="mr-2 h-5 w-5" />
+          Vendors
+        </TabsTrigger>
         <TabsTrigger value="tasks" className="py-3 text-sm data-[state=active]:bg-white data-[state=active]:text-primary-foreground data-[state=active]:shadow-md">
           <ListChecks className="mr-2 h-5 w-5" />
           Tasks
         </TabsTrigger>
+        <TabsTrigger value="calendar" className="py-3 text-sm data-[state=active]:bg-white data-[state=active]:text-primary-foreground data-[state=active]:shadow-md">
+          <CalendarDays className="mr-2 h-5 w-5" />
+          Calendar
+        </TabsTrigger>
         <TabsTrigger value="guests" className="py-3 text-sm data-[state=active]:bg-white data-[state=active]:text-primary-foreground data-[state=active]:shadow-md">
           <Users className="mr-2 h-5 w-5" />
           Guest List
@@ -59,9 +69,15 @@ export function AppTabs() {
       <TabsContent value="budget" className="mt-6">
         <BudgetTracker />
       </TabsContent>
+      <TabsContent value="vendors" className="mt-6">
+        <VendorList />
+      </TabsContent>
       <TabsContent value="tasks" className="mt-6">
         <TaskManager />
       </TabsContent>
+      <TabsContent value="calendar" className="mt-6">
+        <WeddingCalendar />
+      </TabsContent>
       <TabsContent value="guests" className="mt-6">
         <GuestList />
       </TabsContent>
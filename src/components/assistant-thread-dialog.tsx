@@ -0,0 +1,95 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAssistant, type AssistantThread } from "@/hooks/use-assistant";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_THREAD_TITLE_LENGTH } from "@/lib/assistant-threads";
+
+const threadSchema = z.object({
+    title: z.string().trim().min(1, "Give the conversation a name").max(MAX_THREAD_TITLE_LENGTH),
+});
+
+type ThreadFormValues = z.infer<typeof threadSchema>;
+
+interface AssistantThreadDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    thread: AssistantThread | null;
+}
+
+export function AssistantThreadDialog({ open, onOpenChange, thread }: AssistantThreadDialogProps) {
+  const { renameThread } = useAssistant();
+  const { toast } = useToast();
+
+  const form = useForm<ThreadFormValues>({
+    resolver: zodResolver(threadSchema),
+    defaultValues: { title: thread?.title ?? '' },
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset({ title: thread?.title ?? '' });
+  }, [open, thread, form]);
+
+  async function onSave(values: ThreadFormValues) {
+    if (!thread) return;
+    try {
+        await renameThread(thread.id, values.title);
+        toast({ title: "Conversation renamed." });
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not rename the conversation.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rename Conversation</DialogTitle>
+          <DialogDescription>
+            Conversations are named after their first question until you rename them.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSave)} className="space-y-4 py-4">
+                <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Name</FormLabel>
+                            <FormControl>
+                                <Input maxLength={MAX_THREAD_TITLE_LENGTH} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">Cancel</Button>
+                    </DialogClose>
+                    <Button type="submit">Save Changes</Button>
+                </DialogFooter>
+            </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
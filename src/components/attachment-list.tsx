@@ -0,0 +1,131 @@
+"use client";
+
+import * as React from 'react';
+import { useDropzone } from 'react-dropzone';
+import { format } from 'date-fns';
+import { FileText, ImageIcon, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useAttachments, type Attachment, type AttachmentTarget } from '@/hooks/use-attachments';
+import { useWedding } from '@/hooks/use-wedding';
+import { useToast } from '@/hooks/use-toast';
+import { ATTACHMENT_FILE_TYPES, formatFileSize, MAX_ATTACHMENT_SIZE } from '@/lib/attachments';
+
+interface PendingUpload {
+  id: string;
+  name: string;
+  /** Uploaded fraction, from 0 to 1. */
+  progress: number;
+}
+
+interface AttachmentListProps {
+  target: AttachmentTarget;
+  attachments: Attachment[];
+  /** Shown in the drop zone, e.g. "Drop contracts here". */
+  prompt?: string;
+  emptyText?: string;
+}
+
+export function AttachmentList({ target, attachments, prompt = 'Drop files here', emptyText = 'No files attached.' }: AttachmentListProps) {
+  const { addAttachment, removeAttachment, openAttachment } = useAttachments();
+  const { canEdit } = useWedding();
+  const { toast } = useToast();
+  const [uploads, setUploads] = React.useState<PendingUpload[]>([]);
+
+  const onDrop = async (files: File[]) => {
+    const started = files.map(file => ({ id: crypto.randomUUID(), file }));
+    setUploads(prev => [...prev, ...started.map(({ id, file }) => ({ id, name: file.name, progress: 0 }))]);
+    const results = await Promise.allSettled(started.map(({ id, file }) =>
+      addAttachment(target, file, progress => setUploads(prev => prev.map(u => (u.id === id ? { ...u, progress } : u))))
+        .finally(() => setUploads(prev => prev.filter(u => u.id !== id)))
+    ));
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failure) {
+      const message = failure.reason instanceof Error ? failure.reason.message : 'Could not upload the file.';
+      toast({ variant: 'destructive', title: 'Upload failed', description: message });
+    } else {
+      toast({ title: files.length === 1 ? 'File uploaded.' : `${files.length} files uploaded.` });
+    }
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: ATTACHMENT_FILE_TYPES,
+    maxSize: MAX_ATTACHMENT_SIZE,
+    disabled: !canEdit,
+    onDropRejected: (rejections) => toast({
+      variant: 'destructive',
+      title: 'File not accepted',
+      description: `${rejections.map(r => r.file.name).join(', ')} must be a PDF, image or Word document under 10 MB.`,
+    }),
+  });
+
+  const handleOpen = async (attachment: Attachment) => {
+    try {
+      await openAttachment(attachment.path);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not open the file.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  const handleRemove = async (attachment: Attachment) => {
+    try {
+      await removeAttachment(target, attachment);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not remove the file.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {(attachments.length > 0 || uploads.length > 0) && (
+        <ul className="divide-y rounded-lg border">
+          {attachments.map(attachment => {
+            const Icon = attachment.contentType.startsWith('image/') ? ImageIcon : FileText;
+            return (
+              <li key={attachment.id} className="flex items-center gap-3 p-3 text-sm">
+                <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <button type="button" onClick={() => handleOpen(attachment)} className="block truncate font-medium hover:underline">
+                    {attachment.name}
+                  </button>
+                  <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size)} &middot; uploaded {format(attachment.uploadedAt, 'MMM d, yyyy')}</p>
+                </div>
+                {canEdit && (
+                  <Button type="button" variant="ghost" size="icon" onClick={() => handleRemove(attachment)} aria-label={`Remove ${attachment.name}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+          {uploads.map(upload => (
+            <li key={upload.id} className="space-y-2 p-3 text-sm">
+              <div className="flex justify-between gap-3">
+                <span className="truncate font-medium">{upload.name}</span>
+                <span className="text-muted-foreground">{Math.round(upload.progress * 100)}%</span>
+              </div>
+              <Progress value={upload.progress * 100} className="h-1" />
+            </li>
+          ))}
+        </ul>
+      )}
+      {canEdit ? (
+        <div
+          {...getRootProps()}
+          className={`flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed p-8 text-center transition-colors ${isDragActive ? 'border-primary bg-primary/10' : 'hover:border-primary/50'}`}
+        >
+          <input {...getInputProps()} />
+          <Upload className="mb-2 h-8 w-8 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            {prompt}, or click to choose files (PDF, image or Word, up to 10 MB).
+          </p>
+        </div>
+      ) : attachments.length === 0 && (
+        <p className="text-sm text-muted-foreground">{emptyText}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import type { Attachment, AttachmentTarget } from "@/hooks/use-attachments";
+import { AttachmentList } from "./attachment-list";
+
+interface AttachmentsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    title: string;
+    description: string;
+    target: AttachmentTarget | null;
+    /** Pass the live list so uploads show up as soon as they are saved. */
+    attachments: Attachment[];
+}
+
+export function AttachmentsDialog({ open, onOpenChange, title, description, target, attachments }: AttachmentsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        {target && <AttachmentList target={target} attachments={attachments} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
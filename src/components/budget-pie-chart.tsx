@@ -18,15 +18,20 @@ export interface BudgetItem {
 
 interface BudgetPieChartProps {
     data: BudgetItem[];
+    /** Drawn as an outer ring around `data`, e.g. actual spending around the planned allocation. */
+    compareTo?: BudgetItem[];
 }
 
 const COLORS = ["#FBCFE8", "#F0ABFC", "#E9D5FF", "#C4B5FD", "#A5B4FC", "#93C5FD", "#7DD3FC", "#67E8F9", "#99F6E4", "#A7F3D0"];
 
-export function BudgetPieChart({ data }: BudgetPieChartProps) {
-  const chartConfig = data.reduce((acc, item, index) => {
-    acc[item.name.toLowerCase()] = {
-        label: item.name,
-        color: COLORS[index % COLORS.length]
+export function BudgetPieChart({ data, compareTo }: BudgetPieChartProps) {
+  // Colour by name so a category keeps its colour in both rings.
+  const names = Array.from(new Set([...data, ...(compareTo ?? [])].map(item => item.name)));
+  const colorFor = (name: string) => COLORS[names.indexOf(name) % COLORS.length];
+  const chartConfig = names.reduce((acc, name) => {
+    acc[name.toLowerCase()] = {
+        label: name,
+        color: colorFor(name)
     };
     return acc;
   }, {} as any);
@@ -46,13 +51,28 @@ export function BudgetPieChart({ data }: BudgetPieChartProps) {
             data={data}
             dataKey="value"
             nameKey="name"
-            innerRadius={60}
-            strokeWidth={5}
+            innerRadius={compareTo ? 40 : 60}
+            outerRadius={compareTo ? 68 : undefined}
+            strokeWidth={compareTo ? 2 : 5}
           >
             {data.map((entry, index) => (
-                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                <Cell key={`cell-${index}`} fill={colorFor(entry.name)} />
             ))}
           </Pie>
+          {compareTo && (
+            <Pie
+              data={compareTo}
+              dataKey="value"
+              nameKey="name"
+              innerRadius={76}
+              outerRadius={100}
+              strokeWidth={2}
+            >
+              {compareTo.map((entry, index) => (
+                  <Cell key={`compare-${index}`} fill={colorFor(entry.name)} />
+              ))}
+            </Pie>
+          )}
           <ChartLegend content={<ChartLegendContent nameKey="name" />} />
         </PieChart>
       </ResponsiveContainer>
@@ -0,0 +1,145 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { PlusCircle, X } from "lucide-react";
+import { useBudget } from "@/hooks/use-budget";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney } from "@/lib/currency";
+import { MoneyInput } from "./money-input";
+
+const planSchema = z.object({
+    categories: z.array(z.object({
+        category: z.string().trim().min(1, "Category is required"),
+        planned: z.coerce.number().min(0, "Amount must be positive"),
+    })).refine(
+        categories => new Set(categories.map(c => c.category.toLowerCase())).size === categories.length,
+        "Each category can only be planned once",
+    ),
+});
+
+type PlanFormValues = z.infer<typeof planSchema>;
+
+interface BudgetPlanDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function BudgetPlanDialog({ open, onOpenChange }: BudgetPlanDialogProps) {
+  const { plan, summary, setCategoryPlan } = useBudget();
+  const { toast } = useToast();
+
+  const form = useForm<PlanFormValues>({
+    resolver: zodResolver(planSchema),
+    defaultValues: { categories: plan },
+  });
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "categories",
+  });
+  const total = form.watch("categories").reduce((sum, c) => sum + (Number(c.planned) || 0), 0);
+  const totalBudget = summary?.total ?? 0;
+  const currency = summary?.currency ?? 'USD';
+
+  // Read when the dialog opens so a collaborator's save doesn't discard edits.
+  const planRef = React.useRef(plan);
+  planRef.current = plan;
+
+  React.useEffect(() => {
+    if (open) form.reset({ categories: planRef.current });
+  }, [open, form]);
+
+  async function onSave(values: PlanFormValues) {
+    try {
+        await setCategoryPlan(values.categories);
+        toast({ title: "Budget plan saved." });
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not save the budget plan.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Budget Plan</DialogTitle>
+          <DialogDescription>
+            Set how much you expect to spend in each category.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSave)} className="space-y-4 py-4">
+                <div className="hidden grid-cols-[1fr_9rem_2.5rem] gap-2 text-sm font-medium sm:grid">
+                    <FormLabel>Category</FormLabel>
+                    <FormLabel>Planned</FormLabel>
+                </div>
+                {fields.map((item, index) => (
+                    <div key={item.id} className="grid grid-cols-1 gap-2 sm:grid-cols-[1fr_9rem_2.5rem]">
+                        <FormField
+                            control={form.control}
+                            name={`categories.${index}.category`}
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormControl>
+                                        <Input placeholder="e.g. Catering" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name={`categories.${index}.planned`}
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormControl>
+                                        <MoneyInput currency={currency} {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} aria-label="Remove category">
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </div>
+                ))}
+                <FormMessage>{form.formState.errors.categories?.root?.message ?? form.formState.errors.categories?.message}</FormMessage>
+                <div className="flex items-center justify-between">
+                    <Button type="button" variant="outline" size="sm" onClick={() => append({ category: "", planned: 0 })}>
+                        <PlusCircle className="mr-2 h-4 w-4" />
+                        Add Category
+                    </Button>
+                    <p className="text-sm">
+                        Total <span className={`font-bold ${total > totalBudget ? 'text-destructive' : ''}`}>{formatMoney(total, currency)}</span>
+                        <span className="text-muted-foreground"> of {formatMoney(totalBudget, currency)}</span>
+                    </p>
+                </div>
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">Cancel</Button>
+                    </DialogClose>
+                    <Button type="submit">Save Plan</Button>
+                </DialogFooter>
+            </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,13 +2,19 @@
 "use client";
 
 import { useState, useMemo, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { db } from '@/lib/firebase';
-import { collection, doc, onSnapshot, updateDoc, addDoc, Timestamp, runTransaction, setDoc } from 'firebase/firestore';
+import Link from 'next/link';
 import { budgetAllocationSuggestions } from '@/ai/flows/budget-allocation-suggestions';
 import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import {
   Card,
   CardContent,
@@ -18,18 +24,16 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import {
-    Dialog,
-    DialogContent,
-    DialogHeader,
-    DialogTitle,
-    DialogDescription,
-    DialogFooter,
-    DialogClose,
-} from '@/components/ui/dialog';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Input } from '@/components/ui/input';
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -39,114 +43,59 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Wand2, PlusCircle, Bell, CheckCircle2, Gem } from 'lucide-react';
-import { BudgetPieChart, type BudgetItem } from './budget-pie-chart';
+import { Loader2, Wand2, PlusCircle, Bell, CheckCircle2, Gem, Store, Unlink, CalendarClock, ListChecks, RefreshCw, HandCoins, Paperclip } from 'lucide-react';
+import { BudgetPieChart } from './budget-pie-chart';
 import { Badge } from './ui/badge';
-import { format } from 'date-fns';
+import { differenceInCalendarDays, format } from 'date-fns';
 import { useSubscription } from '@/hooks/use-subscription';
-import { useUser } from '@/hooks/use-user';
-
-export interface Expense {
-    id: string;
-    category: string;
-    estimated: number;
-    actual: number;
-    vendor: string;
-    dueDate: Date;
-    paid: boolean;
-    reminder: boolean;
-}
-
-const expenseSchema = z.object({
-    category: z.string().min(1, "Category is required"),
-    vendor: z.string().min(1, "Vendor is required"),
-    actual: z.coerce.number().min(0, "Amount must be positive"),
-    dueDate: z.coerce.date(),
-});
+import { useBudget, type Expense } from '@/hooks/use-budget';
+import { useWedding } from '@/hooks/use-wedding';
+import { useVendors } from '@/hooks/use-vendors';
+import { useContributors } from '@/hooks/use-contributors';
+import { summarizeContributions } from '@/lib/contributions';
+import { getVendorLink } from '@/lib/vendors';
+import { mergePlan, parseAllocations, type CategoryPlan } from '@/lib/budget-plan';
+import { CURRENCIES, currencyName, formatMoney, isCurrencyCode, type CurrencyCode } from '@/lib/currency';
+import { CategoryBudget } from './category-budget';
+import { Contributions } from './contributions';
+import { MoneyInput } from './money-input';
+import { AttachmentsDialog } from './attachments-dialog';
+import { ExpenseDialog } from './expense-dialog';
+import { PaymentScheduleDialog } from './payment-schedule-dialog';
+import { RecordPaymentDialog } from './record-payment-dialog';
+import { UpcomingPayments } from './upcoming-payments';
 
 
 export function BudgetTracker() {
-  const [suggestions, setSuggestions] = useState<BudgetItem[] | null>(null);
+  const [suggestions, setSuggestions] = useState<CategoryPlan[] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isAddExpenseOpen, setIsAddExpenseOpen] = useState(false);
-  const [totalBudget, setTotalBudget] = useState(0);
-  const [totalSpent, setTotalSpent] = useState(0);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [isDataLoading, setIsDataLoading] = useState(true);
-
+  const [scheduleExpense, setScheduleExpense] = useState<Expense | null>(null);
+  const [recordExpense, setRecordExpense] = useState<Expense | null>(null);
+  const [attachmentsExpenseId, setAttachmentsExpenseId] = useState<string | null>(null);
+  const [totalInput, setTotalInput] = useState('');
+  const [isReconciling, setIsReconciling] = useState(false);
   const { toast } = useToast();
   const { isPremium, openDialog } = useSubscription();
-  const { user, loading: userLoading } = useUser();
-  
-  const form = useForm<z.infer<typeof expenseSchema>>({
-    resolver: zodResolver(expenseSchema),
-    defaultValues: {
-      category: "",
-      vendor: "",
-      actual: 0,
-      dueDate: new Date(),
-    },
-  });
-
-  const budgetDocRef = useMemo(() => {
-    if (!user) return null;
-    return doc(db, 'users', user.uid, 'budget', 'summary');
-  }, [user]);
-
-  const expensesCollectionRef = useMemo(() => {
-    if (!user) return null;
-    return collection(db, 'users', user.uid, 'expenses');
-  }, [user]);
-
+  const { summary, expenses, plan, loading: isDataLoading, toggleReminder, setExpenseVendor, setExpensePayer, setTotalBudget, setCategoryPlan, setBaseCurrency, reconcileBudget } = useBudget();
+  const { vendors } = useVendors();
+  const { contributors } = useContributors();
+  const { canEdit } = useWedding();
+  const totalBudget = summary?.total ?? 0;
+  const totalSpent = summary?.spent ?? 0;
+  const currency = summary?.currency ?? 'USD';
+  const [isChangingCurrency, setIsChangingCurrency] = useState(false);
+  // Set while asking before a currency switch overwrites rates typed in by hand.
+  const [pendingCurrency, setPendingCurrency] = useState<CurrencyCode | null>(null);
+  const manualRateCount = expenses.filter(e => e.rateSource === 'manual').length;
+  const attachmentsExpense = expenses.find(e => e.id === attachmentsExpenseId) ?? null;
 
+  // Edited locally and saved on blur so each keystroke isn't a server round trip.
   useEffect(() => {
-    if (userLoading) {
-      setIsDataLoading(true);
-      return;
-    }
-    if (!user || !budgetDocRef || !expensesCollectionRef) {
-      setIsDataLoading(false);
-      return;
-    }
-
-    setIsDataLoading(true);
-
-    const unsubscribeBudget = onSnapshot(budgetDocRef, (doc) => {
-        if (doc.exists()) {
-            const data = doc.data();
-            setTotalBudget(data.total || 0);
-            setTotalSpent(data.spent || 0);
-        } else {
-            setTotalBudget(20000); // Default value
-            setTotalSpent(0);
-        }
-    }, (error) => {
-        console.error("Error fetching budget summary:", error);
-    });
-    
-    const unsubscribeExpenses = onSnapshot(expensesCollectionRef, (snapshot) => {
-        const expensesData = snapshot.docs.map(doc => {
-            const data = doc.data();
-            return {
-                id: doc.id,
-                ...data,
-                dueDate: (data.dueDate as Timestamp).toDate()
-            } as Expense;
-        });
-        setExpenses(expensesData);
-        setIsDataLoading(false);
-    }, (error) => {
-        console.error("Error fetching expenses:", error);
-        setIsDataLoading(false);
-    });
-
-    return () => {
-        unsubscribeBudget();
-        unsubscribeExpenses();
-    }
-  }, [user, userLoading, budgetDocRef, expensesCollectionRef]);
-
-
+    setTotalInput(String(totalBudget));
+  }, [totalBudget]);
+  
+  const contributedPaid = useMemo(() => summarizeContributions(contributors, expenses).contributed.paid, [contributors, expenses]);
   const remainingBudget = useMemo(() => totalBudget - totalSpent, [totalBudget, totalSpent]);
   const spentPercentage = useMemo(() => (totalBudget > 0 ? (totalSpent / totalBudget) * 100 : 0), [totalBudget, totalSpent]);
 
@@ -160,15 +109,11 @@ export function BudgetTracker() {
     try {
       const result = await budgetAllocationSuggestions({
         remainingBudget: remainingBudget,
-        currentExpenses: expenses.map(e => ({ category: e.category, actual: e.actual, vendor: e.vendor })),
+        currentExpenses: expenses.map(e => ({ category: e.category, actual: e.actual * e.exchangeRate, vendor: e.vendor })),
+        currency,
         priorityItems: 'Photography, good food, and an open bar',
       });
-      const parsedSuggestions = JSON.parse(result.suggestedAllocations);
-      const chartData = Object.entries(parsedSuggestions).map(([name, value]) => ({
-        name,
-        value: Number(String(value).replace(/[^0-9.-]+/g,"")),
-      }));
-      setSuggestions(chartData);
+      setSuggestions(parseAllocations(result.suggestedAllocations));
     } catch (error) {
       console.error('AI Budget Assistant Error:', error);
       toast({
@@ -181,97 +126,141 @@ export function BudgetTracker() {
     }
   }
 
-  const togglePaidStatus = async (id: string, currentStatus: boolean, amount: number) => {
-    if (!user || !budgetDocRef) return;
-    const expenseDocRef = doc(db, 'users', user.uid, 'expenses', id);
-    
-    try {
-        await runTransaction(db, async (transaction) => {
-            const budgetSummaryDoc = await transaction.get(budgetDocRef);
-            if (!budgetSummaryDoc.exists()) {
-                throw "Budget summary does not exist!";
-            }
-            const newSpent = currentStatus 
-                ? budgetSummaryDoc.data().spent - amount // un-paying
-                : budgetSummaryDoc.data().spent + amount; // paying
-            
-            transaction.update(budgetDocRef, { spent: newSpent });
-            transaction.update(expenseDocRef, { paid: !currentStatus });
-        });
-    } catch (e) {
-        console.error("Transaction failed: ", e);
-        toast({ variant: 'destructive', title: 'Error', description: 'Could not update payment status.'});
-    }
-  };
-  
-  const toggleReminder = async (id: string) => {
-    if (!user) return;
-    const expenseDocRef = doc(db, 'users', user.uid, 'expenses', id);
-    const expense = expenses.find(e => e.id === id);
-    if(expense) {
-        await updateDoc(expenseDocRef, { reminder: !expense.reminder });
-    }
-  };
-
-  async function handleAddExpense(values: z.infer<typeof expenseSchema>) {
-    if (!expensesCollectionRef) return;
-    await addDoc(expensesCollectionRef, {
-        ...values,
-        estimated: values.actual,
-        paid: false,
-        reminder: false,
-        dueDate: Timestamp.fromDate(values.dueDate),
-    });
-
+  const applySuggestions = async () => {
+    if (!suggestions) return;
+    await setCategoryPlan(mergePlan(plan, suggestions));
     toast({
-        title: "Expense Added",
-        description: `${values.category} for $${values.actual} has been added to your budget.`,
+      title: 'Budget Plan Updated',
+      description: 'Suggested categories were added to your plan. Categories you already planned were kept.',
     });
-    form.reset();
-    setIsAddExpenseOpen(false);
-  }
+  };
+
+  const renderStatus = (expense: Expense) => {
+    if (expense.paid) return <Badge variant="secondary">Paid</Badge>;
+    if (differenceInCalendarDays(expense.dueDate, new Date()) < 0) return <Badge variant="destructive">Overdue</Badge>;
+    const paidCount = expense.payments.filter(p => p.paidDate).length;
+    return <Badge variant="outline">{paidCount > 0 ? `${paidCount} of ${expense.payments.length} paid` : 'Due'}</Badge>;
+  };
 
-  const handleBudgetChange = async (newTotal: number) => {
-      setTotalBudget(newTotal);
-      if(budgetDocRef) {
-          await setDoc(budgetDocRef, { total: newTotal }, { merge: true });
+  const handleBudgetChange = async () => {
+      const newTotal = Number(totalInput);
+      if (totalInput === '' || !Number.isFinite(newTotal) || newTotal < 0) {
+        setTotalInput(String(totalBudget));
+        return;
+      }
+      if (newTotal === totalBudget) return;
+      try {
+        await setTotalBudget(newTotal);
+      } catch (error) {
+        console.error('Error saving total budget:', error);
+        toast({ variant: 'destructive', title: 'Error', description: 'Could not save your total budget.' });
       }
   }
 
-  if (isDataLoading || userLoading) {
+  const handleCurrencyChange = (value: string) => {
+    if (!isCurrencyCode(value) || value === currency) return;
+    if (manualRateCount > 0) {
+      setPendingCurrency(value);
+      return;
+    }
+    changeCurrency(value);
+  };
+
+  const changeCurrency = async (value: CurrencyCode) => {
+    setPendingCurrency(null);
+    setIsChangingCurrency(true);
+    try {
+      await setBaseCurrency(value);
+      toast({
+        title: 'Budget Currency Changed',
+        description: `Your budget is now in ${currencyName(value)}. Totals and exchange rates were converted at today's rates.`,
+      });
+    } catch (error) {
+      console.error('Error changing budget currency:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not change your budget currency.' });
+    } finally {
+      setIsChangingCurrency(false);
+    }
+  };
+
+  const handleReconcile = async () => {
+    setIsReconciling(true);
+    try {
+      const result = await reconcileBudget();
+      const drifted = result.previous !== null && (result.previous.spent !== result.spent || result.previous.committed !== result.committed);
+      toast({
+        title: 'Budget Reconciled',
+        description: result.repairedExpenseIds.length > 0 || drifted
+          ? `Totals recomputed from your expenses. ${result.repairedExpenseIds.length} expense(s) repaired.`
+          : 'Everything already matched your expenses.',
+      });
+    } catch (error) {
+      console.error('Error reconciling budget:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not reconcile your budget. Please try again.' });
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
+  if (isDataLoading) {
     return <div className="flex justify-center items-center p-8"><Loader2 className="h-8 w-8 animate-spin"/></div>
   }
 
   return (
     <div className="space-y-8">
       <Card>
-        <CardHeader>
-            <CardTitle className="font-headline text-2xl">Budget Overview</CardTitle>
-            <CardDescription>Set your total budget and see your progress.</CardDescription>
+        <CardHeader className="flex-row items-center justify-between">
+            <div>
+                <CardTitle className="font-headline text-2xl">Budget Overview</CardTitle>
+                <CardDescription>Set your total budget and see your progress.</CardDescription>
+            </div>
+            {canEdit && (
+                <Button variant="ghost" size="sm" onClick={handleReconcile} disabled={isReconciling}>
+                    {isReconciling ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                    Reconcile
+                </Button>
+            )}
         </CardHeader>
         <CardContent className="space-y-4">
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
                 <div className="grid gap-1.5">
                     <Label htmlFor="totalBudget" className="text-base">Total Budget</Label>
-                    <div className="relative">
-                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
-                        <Input
+                    <div className="flex gap-2">
+                        <MoneyInput
                             id="totalBudget"
-                            type="number"
-                            value={totalBudget}
-                            onChange={(e) => handleBudgetChange(Number(e.target.value))}
-                            className="w-48 pl-7 text-lg font-bold"
+                            currency={currency}
+                            value={totalInput}
+                            onChange={(e) => setTotalInput(e.target.value)}
+                            onBlur={handleBudgetChange}
+                            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                            disabled={!canEdit}
+                            className="w-48 text-lg font-bold"
                         />
+                        <Select value={currency} onValueChange={handleCurrencyChange} disabled={!canEdit || isChangingCurrency}>
+                            <SelectTrigger className="w-24" aria-label="Budget currency">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {CURRENCIES.map(code => (
+                                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
                     </div>
+                    {totalBudget === 0 && (
+                        <p className="text-xs text-muted-foreground">Set your total budget to see what&apos;s left to spend.</p>
+                    )}
                 </div>
                 <div className="text-right">
                     <p className="text-sm text-muted-foreground">Remaining</p>
-                    <p className="text-2xl font-bold text-green-600">${remainingBudget.toLocaleString()}</p>
+                    <p className="text-2xl font-bold text-green-600">{formatMoney(remainingBudget, currency)}</p>
                 </div>
             </div>
             <div>
                 <div className="flex justify-between mb-1 text-sm">
-                    <span className="font-medium text-muted-foreground">Spent: ${totalSpent.toLocaleString()}</span>
+                    <span className="font-medium text-muted-foreground">Spent: {formatMoney(totalSpent, currency)}
+                      {contributedPaid > 0 && ` (${formatMoney(Math.round(contributedPaid), currency)} from contributors)`}
+                    </span>
                     <span className="font-medium text-muted-foreground">{spentPercentage.toFixed(1)}%</span>
                 </div>
                 <Progress value={spentPercentage} className="h-3" />
@@ -287,7 +276,7 @@ export function BudgetTracker() {
                 <CardTitle className="font-headline text-2xl">Expense Tracker</CardTitle>
                 <CardDescription>Keep track of your wedding expenses.</CardDescription>
               </div>
-               <Button variant="outline" onClick={() => setIsAddExpenseOpen(true)}>
+               <Button variant="outline" onClick={() => setIsAddExpenseOpen(true)} disabled={!canEdit}>
                 <PlusCircle className="mr-2" />
                 Add Expense
               </Button>
@@ -297,8 +286,8 @@ export function BudgetTracker() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Category</TableHead>
-                    <TableHead>Actual</TableHead>
-                    <TableHead>Due Date</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Next Due</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -306,11 +295,36 @@ export function BudgetTracker() {
                 <TableBody>
                   {expenses.map((expense) => (
                     <TableRow key={expense.id} className={`${expense.paid ? 'bg-green-50/50' : ''}`}>
-                      <TableCell className="font-medium">{expense.category}<br/><span className="text-xs text-muted-foreground">{expense.vendor}</span></TableCell>
-                      <TableCell>${expense.actual.toLocaleString()}</TableCell>
-                      <TableCell>{format(expense.dueDate, 'MMM d, yyyy')}</TableCell>
+                      <TableCell className="font-medium">
+                        {expense.category}<br/>
+                        {expense.vendorId ? (
+                          <Link href={getVendorLink(expense.vendorId)} className="text-xs text-muted-foreground underline-offset-4 hover:underline">{expense.vendor}</Link>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">{expense.vendor}</span>
+                        )}
+                        {expense.payerId && (
+                          <span className="block text-xs text-primary">
+                            Paid by {contributors.find(c => c.id === expense.payerId)?.name ?? 'a contributor'}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {formatMoney(expense.actual, expense.currency)}
+                        {expense.currency !== currency && (
+                          <span className="block text-xs text-muted-foreground">&asymp; {formatMoney(Math.round(expense.actual * expense.exchangeRate), currency)}</span>
+                        )}
+                        {expense.estimated !== expense.actual && (
+                          <span className={`block text-xs ${expense.actual > expense.estimated ? 'text-destructive' : 'text-green-600'}`}>
+                            est. {formatMoney(expense.estimated, expense.currency)}
+                          </span>
+                        )}
+                        {expense.payments.length > 1 && (
+                          <span className="block text-xs text-muted-foreground">{expense.payments.length} payments</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{expense.paid ? <span className="text-muted-foreground">&mdash;</span> : format(expense.dueDate, 'MMM d, yyyy')}</TableCell>
                        <TableCell>
-                        <Badge variant={expense.paid ? 'secondary' : 'outline'}>{expense.paid ? 'Paid' : 'Due'}</Badge>
+                        {renderStatus(expense)}
                       </TableCell>
                       <TableCell className="text-right flex items-center justify-end gap-2">
                         <Button
@@ -324,12 +338,82 @@ export function BudgetTracker() {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => togglePaidStatus(expense.id, expense.paid, expense.actual)}
-                          disabled={expense.paid}
+                          onClick={() => setRecordExpense(expense)}
+                          disabled={expense.paid || !canEdit}
                         >
                           <CheckCircle2 className="mr-2 h-4 w-4"/>
-                          {expense.paid ? 'Paid' : 'Mark Paid'}
+                          {expense.paid ? 'Paid' : 'Record Payment'}
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size={expense.attachments.length > 0 ? 'sm' : 'icon'}
+                          onClick={() => setAttachmentsExpenseId(expense.id)}
+                          aria-label="Attachments"
+                        >
+                          <Paperclip className="h-4 w-4" />
+                          {expense.attachments.length > 0 && <span className="ml-1">{expense.attachments.length}</span>}
+                        </Button>
+                        {canEdit && (
+                          <Button variant="ghost" size="icon" onClick={() => setScheduleExpense(expense)} aria-label="Payment schedule">
+                            <CalendarClock className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canEdit && contributors.length > 0 && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" aria-label="Who is paying">
+                                <HandCoins className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuLabel>Paid By</DropdownMenuLabel>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem onClick={() => setExpensePayer(expense.id, null)} disabled={!expense.payerId}>
+                                Us
+                              </DropdownMenuItem>
+                              {contributors.map(contributor => (
+                                <DropdownMenuItem
+                                  key={contributor.id}
+                                  onClick={() => setExpensePayer(expense.id, contributor.id)}
+                                  disabled={expense.payerId === contributor.id}
+                                >
+                                  {contributor.name}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                        {canEdit && vendors.length > 0 && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" aria-label="Link to vendor">
+                                <Store className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuLabel>Link to Vendor</DropdownMenuLabel>
+                              <DropdownMenuSeparator />
+                              {vendors.map(vendor => (
+                                <DropdownMenuItem
+                                  key={vendor.id}
+                                  onClick={() => setExpenseVendor(expense.id, vendor)}
+                                  disabled={expense.vendorId === vendor.id}
+                                >
+                                  {vendor.name}
+                                </DropdownMenuItem>
+                              ))}
+                              {expense.vendorId && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem onClick={() => setExpenseVendor(expense.id, null)}>
+                                    <Unlink className="mr-2 h-4 w-4" />
+                                    Unlink
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -353,7 +437,7 @@ export function BudgetTracker() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-               <p className="text-sm text-muted-foreground">Based on your spending so far, let our AI help you plan how to best use your remaining <span className="font-bold text-foreground">${remainingBudget.toLocaleString()}</span>.</p>
+               <p className="text-sm text-muted-foreground">Based on your spending so far, let our AI help you plan how to best use your remaining <span className="font-bold text-foreground">{formatMoney(remainingBudget, currency)}</span>.</p>
                <Button onClick={getSuggestions} disabled={isLoading || !isPremium} className="w-full">
                 {isLoading ? (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -366,91 +450,55 @@ export function BudgetTracker() {
               {suggestions && (
                 <div className="mt-6">
                   <h3 className="font-bold text-center mb-2">Suggested Allocations</h3>
-                  <BudgetPieChart data={suggestions} />
+                  <BudgetPieChart data={suggestions.map(s => ({ name: s.category, value: s.planned }))} />
+                  <Button variant="outline" onClick={applySuggestions} disabled={!canEdit} className="mt-4 w-full">
+                    <ListChecks className="mr-2 h-4 w-4" />
+                    Add to Budget Plan
+                  </Button>
                 </div>
               )}
             </CardContent>
           </Card>
         </div>
       </div>
-       <Dialog open={isAddExpenseOpen} onOpenChange={setIsAddExpenseOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Add New Expense</DialogTitle>
-            <DialogDescription>
-              Enter the details of your new expense below.
-            </DialogDescription>
-          </DialogHeader>
-            <Form {...form}>
-            <form onSubmit={form.handleSubmit(handleAddExpense)} className="space-y-4 py-4">
-                <FormField
-                    control={form.control}
-                    name="category"
-                    render={({ field }) => (
-                        <FormItem>
-                        <FormLabel>Category</FormLabel>
-                        <FormControl>
-                            <Input placeholder="e.g. Catering" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                        </FormItem>
-                    )}
-                />
-                <FormField
-                    control={form.control}
-                    name="vendor"
-                    render={({ field }) => (
-                        <FormItem>
-                        <FormLabel>Vendor</FormLabel>
-                        <FormControl>
-                            <Input placeholder="e.g. Gourmet Delights" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                        </FormItem>
-                    )}
-                />
-                 <FormField
-                    control={form.control}
-                    name="actual"
-                    render={({ field }) => (
-                        <FormItem>
-                        <FormLabel>Amount</FormLabel>
-                        <FormControl>
-                             <div className="relative">
-                                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
-                                <Input type="number" placeholder="1200" {...field} className="pl-7"/>
-                            </div>
-                        </FormControl>
-                        <FormMessage />
-                        </FormItem>
-                    )}
-                />
-                 <FormField
-                    control={form.control}
-                    name="dueDate"
-                    render={({ field }) => (
-                        <FormItem>
-                        <FormLabel>Due Date</FormLabel>
-                        <FormControl>
-                            <Input type="date" {...field} 
-                             onChange={e => field.onChange(new Date(e.target.value))}
-                             value={field.value ? format(field.value, 'yyyy-MM-dd') : ''}
-                            />
-                        </FormControl>
-                        <FormMessage />
-                        </FormItem>
-                    )}
-                />
-                <DialogFooter>
-                    <DialogClose asChild>
-                    <Button type="button" variant="secondary">Cancel</Button>
-                    </DialogClose>
-                    <Button type="submit">Add Expense</Button>
-                </DialogFooter>
-            </form>
-            </Form>
-        </DialogContent>
-      </Dialog>
+      <CategoryBudget />
+      <Contributions />
+      <UpcomingPayments />
+      <ExpenseDialog open={isAddExpenseOpen} onOpenChange={setIsAddExpenseOpen} />
+      <PaymentScheduleDialog
+        open={!!scheduleExpense}
+        onOpenChange={(open) => !open && setScheduleExpense(null)}
+        expense={scheduleExpense}
+      />
+      <RecordPaymentDialog
+        open={!!recordExpense}
+        onOpenChange={(open) => !open && setRecordExpense(null)}
+        expense={recordExpense}
+        installment={recordExpense ? recordExpense.payments.find(p => !p.paidDate) ?? null : null}
+      />
+      <AttachmentsDialog
+        open={!!attachmentsExpense}
+        onOpenChange={(open) => !open && setAttachmentsExpenseId(null)}
+        title={`${attachmentsExpense?.vendor || attachmentsExpense?.category || 'Expense'} Attachments`}
+        description="Quotes, invoices and other documents for this expense."
+        target={attachmentsExpense && { owner: 'expenses', ownerId: attachmentsExpense.id }}
+        attachments={attachmentsExpense?.attachments ?? []}
+      />
+      <AlertDialog open={!!pendingCurrency} onOpenChange={(open) => !open && setPendingCurrency(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace your exchange rates?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {manualRateCount === 1 ? '1 expense has' : `${manualRateCount} expenses have`} an exchange rate you entered yourself.
+              Switching to {pendingCurrency && currencyName(pendingCurrency)} replaces hand-entered rates with today&apos;s.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingCurrency && changeCurrency(pendingCurrency)}>Switch Currency</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,89 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Copy, Loader2, RefreshCw } from "lucide-react";
+import { useWedding } from "@/hooks/use-wedding";
+import { useToast } from "@/hooks/use-toast";
+import { getCalendarFeedLink } from "@/lib/calendar";
+
+interface CalendarFeedDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function CalendarFeedDialog({ open, onOpenChange }: CalendarFeedDialogProps) {
+  const { wedding, canEdit, resetCalendarFeed } = useWedding();
+  const { toast } = useToast();
+  const [isResetting, setIsResetting] = React.useState(false);
+  const token = wedding?.calendarToken ?? null;
+
+  const handleReset = async () => {
+    setIsResetting(true);
+    try {
+        await resetCalendarFeed();
+        toast({
+            title: token ? "Calendar link reset." : "Calendar link created.",
+            description: token ? "The old link no longer works; subscribe again with the new one." : undefined,
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not create the calendar link.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    } finally {
+        setIsResetting(false);
+    }
+  };
+
+  const handleCopy = () => {
+    if (!token) return;
+    navigator.clipboard.writeText(getCalendarFeedLink(token));
+    toast({ title: "Calendar link copied!" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Subscribe in Your Calendar</DialogTitle>
+          <DialogDescription>
+            Add this link to Google Calendar, Apple Calendar or Outlook as a subscribed calendar to see task deadlines,
+            payment due dates and events alongside your own. Anyone with the link can see them, so keep it private.
+          </DialogDescription>
+        </DialogHeader>
+        {token ? (
+            <div className="flex items-center gap-2 py-2">
+                <Input readOnly value={getCalendarFeedLink(token)} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy calendar link">
+                    <Copy className="h-4 w-4" />
+                </Button>
+            </div>
+        ) : (
+            <p className="py-2 text-sm text-muted-foreground">
+                {canEdit ? "No calendar link has been created yet." : "Ask the couple or your planner to create a calendar link."}
+            </p>
+        )}
+        <DialogFooter>
+            {canEdit && (
+                <Button variant={token ? "outline" : "default"} onClick={handleReset} disabled={isResetting}>
+                    {isResetting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                    {token ? "Reset Link" : "Create Link"}
+                </Button>
+            )}
+            <DialogClose asChild>
+                <Button variant="secondary">Close</Button>
+            </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
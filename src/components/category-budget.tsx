@@ -0,0 +1,120 @@
+"use client";
+
+import * as React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Pencil } from 'lucide-react';
+import { useBudget } from '@/hooks/use-budget';
+import { useWedding } from '@/hooks/use-wedding';
+import { buildCategoryReport, type VarianceStatus } from '@/lib/budget-plan';
+import { formatMoney, type CurrencyCode } from '@/lib/currency';
+import { BudgetPieChart } from './budget-pie-chart';
+import { BudgetPlanDialog } from './budget-plan-dialog';
+
+const VARIANCE_BADGES: Record<VarianceStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  over: { label: 'Over', variant: 'destructive' },
+  'on-track': { label: 'On track', variant: 'secondary' },
+  under: { label: 'Under', variant: 'outline' },
+  unplanned: { label: 'Unplanned', variant: 'outline' },
+};
+
+const formatVariance = (variance: number, currency: CurrencyCode) =>
+  `${variance < 0 ? '-' : '+'}${formatMoney(Math.abs(Math.round(variance)), currency)}`;
+
+// Converted amounts carry fractions of a cent; whole units are plenty for a budget overview.
+const formatAmount = (amount: number, currency: CurrencyCode) => formatMoney(Math.round(amount), currency);
+
+export function CategoryBudget() {
+  const { plan, expenses, summary } = useBudget();
+  const currency = summary?.currency ?? 'USD';
+  const { canEdit } = useWedding();
+  const [isPlanOpen, setIsPlanOpen] = React.useState(false);
+
+  const { categories, totals } = React.useMemo(() => buildCategoryReport(plan, expenses), [plan, expenses]);
+  const plannedData = categories.filter(c => c.planned > 0).map(c => ({ name: c.category, value: c.planned }));
+  const committedData = categories.filter(c => c.committed > 0).map(c => ({ name: c.category, value: c.committed }));
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between">
+        <div>
+          <CardTitle className="font-headline text-2xl">Budget by Category</CardTitle>
+          <CardDescription>Compare what you planned with what you&apos;ve committed and paid.</CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setIsPlanOpen(true)} disabled={!canEdit}>
+          <Pencil className="mr-2 h-4 w-4" />
+          Edit Plan
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {categories.length === 0 ? (
+          <p className="p-4 text-center text-sm text-muted-foreground">
+            No budget plan yet. Add categories yourself or apply the AI Budget Assistant&apos;s suggestions.
+          </p>
+        ) : (
+          <Tabs defaultValue="table">
+            <TabsList>
+              <TabsTrigger value="table">Table</TabsTrigger>
+              <TabsTrigger value="chart">Planned vs. Actual</TabsTrigger>
+            </TabsList>
+            <TabsContent value="table">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Estimated</TableHead>
+                    <TableHead className="text-right">Committed</TableHead>
+                    <TableHead className="text-right">Paid</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {categories.map(row => (
+                    <TableRow key={row.category} className={row.status === 'over' ? 'bg-destructive/5' : ''}>
+                      <TableCell className="font-medium">{row.category}</TableCell>
+                      <TableCell className="text-right">
+                        {formatAmount(row.planned, currency)}
+                        {!row.fromPlan && row.planned > 0 && (
+                          <span className="block text-xs text-muted-foreground">from expenses</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatAmount(row.committed, currency)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(row.paid, currency)}</TableCell>
+                      <TableCell className={`text-right font-medium ${row.variance < 0 ? 'text-destructive' : 'text-green-600'}`}>
+                        {formatVariance(row.variance, currency)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={VARIANCE_BADGES[row.status].variant}>{VARIANCE_BADGES[row.status].label}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.planned, currency)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.committed, currency)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.paid, currency)}</TableCell>
+                    <TableCell className={`text-right ${totals.variance < 0 ? 'text-destructive' : 'text-green-600'}`}>
+                      {formatVariance(totals.variance, currency)}
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </TabsContent>
+            <TabsContent value="chart">
+              <BudgetPieChart data={plannedData} compareTo={committedData} />
+              <p className="mt-2 text-center text-xs text-muted-foreground">Inner ring: planned. Outer ring: committed.</p>
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+      <BudgetPlanDialog open={isPlanOpen} onOpenChange={setIsPlanOpen} />
+    </Card>
+  );
+}
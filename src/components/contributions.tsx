@@ -0,0 +1,138 @@
+"use client";
+
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MoreHorizontal, Pencil, PlusCircle, Trash2 } from 'lucide-react';
+import { useBudget } from '@/hooks/use-budget';
+import { useContributors, type Contributor } from '@/hooks/use-contributors';
+import { useWedding } from '@/hooks/use-wedding';
+import { summarizeContributions } from '@/lib/contributions';
+import { formatMoney } from '@/lib/currency';
+import { ContributorDialog } from './contributor-dialog';
+
+export function Contributions() {
+  const { expenses, summary } = useBudget();
+  const { contributors, deleteContributor } = useContributors();
+  const { canEdit } = useWedding();
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [editing, setEditing] = React.useState<Contributor | null>(null);
+  const currency = summary?.currency ?? 'USD';
+  const money = (amount: number) => formatMoney(Math.round(amount), currency);
+
+  const { rows, ours, contributed } = React.useMemo(
+    () => summarizeContributions(contributors, expenses),
+    [contributors, expenses],
+  );
+  const totalPaid = ours.paid + contributed.paid;
+  const contributedShare = totalPaid > 0 ? (contributed.paid / totalPaid) * 100 : 0;
+
+  const openDialog = (contributor: Contributor | null) => {
+    setEditing(contributor);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between">
+        <div>
+          <CardTitle className="font-headline text-2xl">Contributions</CardTitle>
+          <CardDescription>Who is paying for what, and how much has been given so far.</CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => openDialog(null)} disabled={!canEdit}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          Add Contributor
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="rounded-lg border p-4">
+            <p className="text-sm text-muted-foreground">Our money</p>
+            <p className="text-2xl font-bold">{money(ours.paid)}</p>
+            <p className="text-xs text-muted-foreground">paid of {money(ours.committed)} we&apos;re covering</p>
+          </div>
+          <div className="rounded-lg border p-4">
+            <p className="text-sm text-muted-foreground">Contributed money</p>
+            <p className="text-2xl font-bold">{money(contributed.paid)}</p>
+            <p className="text-xs text-muted-foreground">
+              paid of {money(contributed.committed)} covered &middot; {money(contributed.received)} of {money(contributed.pledged)} pledged received
+            </p>
+          </div>
+        </div>
+        {totalPaid > 0 && (
+          <div>
+            <div className="mb-1 flex justify-between text-sm text-muted-foreground">
+              <span>Contributors&apos; share of spending</span>
+              <span>{contributedShare.toFixed(0)}%</span>
+            </div>
+            <Progress value={contributedShare} className="h-2" />
+          </div>
+        )}
+        {rows.length === 0 ? (
+          <p className="p-4 text-center text-sm text-muted-foreground">
+            No contributors yet. Add family members who are helping pay, then choose who covers each expense.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Contributor</TableHead>
+                <TableHead className="text-right">Pledged</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Covering</TableHead>
+                <TableHead className="text-right">Paid</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ contributor, committed, paid }) => (
+                <TableRow key={contributor.id}>
+                  <TableCell className="font-medium">
+                    {contributor.name}
+                    {contributor.notes && <span className="block text-xs font-normal text-muted-foreground">{contributor.notes}</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{money(contributor.pledged)}</TableCell>
+                  <TableCell className={`text-right ${contributor.received < contributor.pledged ? 'text-muted-foreground' : 'text-green-600'}`}>
+                    {money(contributor.received)}
+                  </TableCell>
+                  <TableCell className={`text-right ${committed > contributor.pledged ? 'text-destructive' : ''}`}>{money(committed)}</TableCell>
+                  <TableCell className="text-right">{money(paid)}</TableCell>
+                  <TableCell className="text-right">
+                    {canEdit && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label={`Actions for ${contributor.name}`}>
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => openDialog(contributor)}>
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => deleteContributor(contributor.id)} className="text-destructive">
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      <ContributorDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} contributor={editing} />
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useContributors, type Contributor } from "@/hooks/use-contributors";
+import { useBudget } from "@/hooks/use-budget";
+import { useToast } from "@/hooks/use-toast";
+import { MoneyInput } from "./money-input";
+
+const contributorSchema = z.object({
+    name: z.string().trim().min(1, "Name is required"),
+    pledged: z.coerce.number().min(0, "Amount must be positive"),
+    received: z.coerce.number().min(0, "Amount must be positive"),
+    notes: z.string().max(2000),
+});
+
+type ContributorFormValues = z.infer<typeof contributorSchema>;
+
+const toFormValues = (contributor: Contributor | null): ContributorFormValues => ({
+    name: contributor?.name ?? '',
+    pledged: contributor?.pledged ?? 0,
+    received: contributor?.received ?? 0,
+    notes: contributor?.notes ?? '',
+});
+
+interface ContributorDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** The contributor to edit, or null to add a new one. */
+    contributor: Contributor | null;
+}
+
+export function ContributorDialog({ open, onOpenChange, contributor }: ContributorDialogProps) {
+  const { addContributor, updateContributor } = useContributors();
+  const { summary } = useBudget();
+  const currency = summary?.currency ?? 'USD';
+  const { toast } = useToast();
+
+  const form = useForm<ContributorFormValues>({
+    resolver: zodResolver(contributorSchema),
+    defaultValues: toFormValues(contributor),
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset(toFormValues(contributor));
+  }, [open, contributor, form]);
+
+  async function onSave(values: ContributorFormValues) {
+    const details = { ...values, notes: values.notes.trim() };
+    try {
+        if (contributor) {
+            await updateContributor(contributor.id, details);
+            toast({ title: "Contributor updated." });
+        } else {
+            await addContributor(details);
+            toast({ title: "Contributor added." });
+        }
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not save the contributor.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{contributor ? 'Edit Contributor' : 'New Contributor'}</DialogTitle>
+          <DialogDescription>
+            Record family or friends paying towards the wedding and how much they have given so far.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSave)} className="space-y-4 py-4">
+                <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Name</FormLabel>
+                            <FormControl>
+                                <Input placeholder="e.g. Bride's parents" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                        control={form.control}
+                        name="pledged"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Pledged</FormLabel>
+                                <FormControl>
+                                    <MoneyInput currency={currency} {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="received"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Received</FormLabel>
+                                <FormControl>
+                                    <MoneyInput currency={currency} {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                </div>
+                <FormField
+                    control={form.control}
+                    name="notes"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Notes</FormLabel>
+                            <FormControl>
+                                <Textarea placeholder="e.g. Covering the venue and flowers" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">Cancel</Button>
+                    </DialogClose>
+                    <Button type="submit">{contributor ? 'Save Changes' : 'Add Contributor'}</Button>
+                </DialogFooter>
+            </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,57 +6,43 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Users, ListChecks, Gem, Loader2 } from "lucide-react";
 import { VowGenerator } from './vow-generator';
 import { WeddingAssistant } from "./wedding-assistant";
-import { useUser } from "@/hooks/use-user";
+import { useWedding } from "@/hooks/use-wedding";
 import { useGuests } from "@/hooks/use-guests";
 import { useTasks } from "@/hooks/use-tasks";
-import { useEffect, useState } from "react";
-import { doc, onSnapshot } from "firebase/firestore";
-import { db } from "@/lib/firebase";
-
-interface BudgetSummary {
-    spent: number;
-    total: number;
-}
+import { useBudget } from "@/hooks/use-budget";
+import { summarizeGuests } from "@/lib/guest-stats";
+import { getTaskStatus } from "@/lib/timeline";
+import { differenceInCalendarDays } from "date-fns";
+import { formatMoney } from "@/lib/currency";
 
 export function DashboardOverview() {
-  const { user } = useUser();
-  const { guests } = useGuests();
+  const { wedding } = useWedding();
+  const { guests, parties } = useGuests();
   const { tasks } = useTasks();
-  const [budgetSummary, setBudgetSummary] = useState<BudgetSummary | null>(null);
-
-  useEffect(() => {
-    if (user?.uid) {
-        const budgetDocRef = doc(db, 'users', user.uid, 'budget', 'summary');
-        const unsubscribe = onSnapshot(budgetDocRef, (doc) => {
-            if (doc.exists()) {
-                const data = doc.data();
-                setBudgetSummary({ total: data.total, spent: data.spent });
-            }
-        });
-        return () => unsubscribe();
-    }
-  }, [user?.uid]);
+  const { summary: budgetSummary } = useBudget();
   
-  const guestSummary = {
-    confirmed: guests.filter(g => g.rsvp === 'Confirmed').length,
-    total: guests.length,
-  };
+  const guestSummary = summarizeGuests(guests, parties);
 
   const taskSummary = {
     remaining: tasks.filter(t => !t.completed).length,
-    overdue: tasks.filter(t => !t.completed && (t.dueDate.includes('months out') || t.dueDate.includes('weeks out'))).length,
+    overdue: tasks.filter(t => getTaskStatus(t) === 'overdue').length,
+    upcoming: tasks.filter(t => getTaskStatus(t) === 'upcoming').length,
   };
+  const daysToGo = wedding?.weddingDate ? differenceInCalendarDays(wedding.weddingDate, new Date()) : null;
   
   const budgetSpentPercent = budgetSummary && budgetSummary.total > 0 ? (budgetSummary.spent / budgetSummary.total) * 100 : 0;
 
-  if (!user?.name1) {
+  if (!wedding?.name1) {
     return null; // or a loading spinner
   }
 
   return (
     <div>
-      <h2 className="text-4xl font-headline mb-2 text-gray-800">Welcome, {user.name1} &amp; {user.name2}!</h2>
-      <p className="text-muted-foreground mb-8">Here's a snapshot of your wedding planning progress.</p>
+      <h2 className="text-4xl font-headline mb-2 text-gray-800">Welcome, {wedding.name1} &amp; {wedding.name2}!</h2>
+      <p className="text-muted-foreground mb-8">
+        {daysToGo !== null && daysToGo >= 0 && `${daysToGo === 0 ? 'Today is the big day!' : `${daysToGo} day${daysToGo === 1 ? '' : 's'} to go.`} `}
+        Here's a snapshot of your wedding planning progress.
+      </p>
       
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
         <Card className="hover:shadow-lg transition-shadow">
@@ -67,7 +53,7 @@ export function DashboardOverview() {
           <CardContent>
             {budgetSummary ? (
                 <>
-                    <div className="text-2xl font-bold">${budgetSummary.spent.toLocaleString()} / ${budgetSummary.total.toLocaleString()}</div>
+                    <div className="text-2xl font-bold">{formatMoney(budgetSummary.spent, budgetSummary.currency)} / {formatMoney(budgetSummary.total, budgetSummary.currency)}</div>
                     <p className="text-xs text-muted-foreground">{budgetSpentPercent.toFixed(0)}% of budget spent</p>
                 </>
             ) : (
@@ -81,8 +67,15 @@ export function DashboardOverview() {
             <Users className="h-5 w-5 text-primary" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{guestSummary.confirmed} / {guestSummary.total}</div>
-            <p className="text-xs text-muted-foreground">RSVPs confirmed</p>
+            <div className="text-2xl font-bold">{guestSummary.confirmed} / {guestSummary.totalGuests}</div>
+            <p className="text-xs text-muted-foreground">RSVPs confirmed &middot; {guestSummary.confirmedAdults} adults, {guestSummary.confirmedChildren} children</p>
+            <p className="text-xs text-muted-foreground">
+              {guestSummary.parties} invitations &middot; up to {guestSummary.maxHeadcount} attending
+              {guestSummary.openPlusOnes > 0 && ` (incl. ${guestSummary.openPlusOnes} unnamed plus-ones)`}
+            </p>
+            {guestSummary.guestsMissingAddress > 0 && (
+              <p className="text-xs text-destructive">{guestSummary.guestsMissingAddress} guests missing addresses</p>
+            )}
           </CardContent>
         </Card>
         <Card className="hover:shadow-lg transition-shadow">
@@ -92,7 +85,10 @@ export function DashboardOverview() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{taskSummary.remaining}</div>
-            <p className="text-xs text-muted-foreground">{taskSummary.overdue > 0 ? `${taskSummary.overdue} overdue` : "No tasks overdue"}</p>
+            <p className={`text-xs ${taskSummary.overdue > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {taskSummary.overdue > 0 ? `${taskSummary.overdue} overdue` : "No tasks overdue"}
+            </p>
+            <p className="text-xs text-muted-foreground">{taskSummary.upcoming} due in the next 30 days</p>
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,234 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useGuests, type Guest } from "@/hooks/use-guests";
+import { useWedding } from "@/hooks/use-wedding";
+import { useToast } from "@/hooks/use-toast";
+import { COMMON_ALLERGENS, DEFAULT_MENU_OPTIONS } from "@/lib/meals";
+
+// Radix Select items cannot have an empty value.
+const NO_MEAL = "none";
+
+const editGuestSchema = z.object({
+    rsvp: z.enum(['Confirmed', 'Pending', 'Declined']),
+    meal: z.string(),
+    allergies: z.array(z.string()),
+    otherAllergies: z.string().max(200),
+    dietaryNotes: z.string().max(500),
+    email: z.union([z.literal(''), z.string().trim().email("Please enter a valid email.")]),
+    phone: z.string().max(50),
+});
+
+type EditGuestValues = z.infer<typeof editGuestSchema>;
+
+const toFormValues = (guest: Guest | null): EditGuestValues => ({
+    rsvp: guest?.rsvp ?? 'Pending',
+    meal: guest?.meal ?? NO_MEAL,
+    allergies: guest?.allergies.filter(a => COMMON_ALLERGENS.includes(a)) ?? [],
+    otherAllergies: guest?.allergies.filter(a => !COMMON_ALLERGENS.includes(a)).join(', ') ?? '',
+    dietaryNotes: guest?.dietaryNotes ?? '',
+    email: guest?.email ?? '',
+    phone: guest?.phone ?? '',
+});
+
+interface EditGuestDialogProps {
+    guest: Guest | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function EditGuestDialog({ guest, onOpenChange }: EditGuestDialogProps) {
+  const { updateGuest } = useGuests();
+  const { wedding } = useWedding();
+  const { toast } = useToast();
+  const menuOptions = wedding?.menuOptions ?? DEFAULT_MENU_OPTIONS;
+
+  const form = useForm<EditGuestValues>({
+    resolver: zodResolver(editGuestSchema),
+    defaultValues: toFormValues(guest),
+  });
+
+  React.useEffect(() => {
+    form.reset(toFormValues(guest));
+  }, [guest, form]);
+
+  async function onSave(values: EditGuestValues) {
+    if (!guest) return;
+    const otherAllergies = values.otherAllergies.split(',').map(a => a.trim()).filter(Boolean);
+    await updateGuest(guest.id, {
+        rsvp: values.rsvp,
+        meal: values.meal === NO_MEAL ? null : values.meal,
+        allergies: [...new Set([...values.allergies, ...otherAllergies])],
+        dietaryNotes: values.dietaryNotes.trim(),
+        email: values.email.trim(),
+        phone: values.phone.trim(),
+    });
+    toast({ title: `${guest.name} updated.` });
+    onOpenChange(false);
+  }
+
+  // A meal picked before the menu changed is still shown so it is not silently lost.
+  const mealChoices = guest?.meal && !menuOptions.includes(guest.meal) ? [...menuOptions, guest.meal] : menuOptions;
+
+  return (
+    <Dialog open={!!guest} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Guest: {guest?.name}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSave)} className="space-y-4 py-4">
+                <FormField
+                    control={form.control}
+                    name="rsvp"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>RSVP Status</FormLabel>
+                            <FormControl>
+                                <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-4">
+                                    {(['Confirmed', 'Pending', 'Declined'] as const).map(status => (
+                                        <FormItem key={status} className="flex items-center space-x-2 space-y-0">
+                                            <FormControl>
+                                                <RadioGroupItem value={status} />
+                                            </FormControl>
+                                            <FormLabel className="font-normal">{status}</FormLabel>
+                                        </FormItem>
+                                    ))}
+                                </RadioGroup>
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="meal"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Meal</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Choose a meal" />
+                                    </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                    <SelectItem value={NO_MEAL}>Not selected</SelectItem>
+                                    {mealChoices.map(option => (
+                                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="allergies"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Allergies</FormLabel>
+                            <div className="grid grid-cols-2 gap-2">
+                                {COMMON_ALLERGENS.map(allergen => (
+                                    <FormItem key={allergen} className="flex items-center space-x-2 space-y-0">
+                                        <FormControl>
+                                            <Checkbox
+                                                checked={field.value.includes(allergen)}
+                                                onCheckedChange={(checked) => field.onChange(
+                                                    checked ? [...field.value, allergen] : field.value.filter(a => a !== allergen)
+                                                )}
+                                            />
+                                        </FormControl>
+                                        <FormLabel className="font-normal">{allergen}</FormLabel>
+                                    </FormItem>
+                                ))}
+                            </div>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="otherAllergies"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Other Allergies</FormLabel>
+                            <FormControl>
+                                <Input placeholder="e.g. Mustard, Celery" {...field} />
+                            </FormControl>
+                            <FormDescription>Separate multiple allergies with commas.</FormDescription>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="dietaryNotes"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Dietary Notes</FormLabel>
+                            <FormControl>
+                                <Textarea placeholder="e.g. Vegan, halal, no pork" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Email</FormLabel>
+                                <FormControl>
+                                    <Input type="email" placeholder="e.g. jane@example.com" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="phone"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Phone</FormLabel>
+                                <FormControl>
+                                    <Input type="tel" placeholder="e.g. 555-0100" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                </div>
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">Cancel</Button>
+                    </DialogClose>
+                    <Button type="submit">Save</Button>
+                </DialogFooter>
+            </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,243 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { format } from "date-fns";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { CalendarIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useEvents, type EventDetails, type WeddingEvent } from "@/hooks/use-events";
+import { useToast } from "@/hooks/use-toast";
+
+const eventSchema = z.object({
+    title: z.string().trim().min(1, "Title is required"),
+    date: z.date({ required_error: "Pick a date" }),
+    allDay: z.boolean(),
+    startTime: z.string(),
+    endTime: z.string(),
+    location: z.string().max(200),
+    notes: z.string().max(2000),
+}).refine(values => values.allDay || values.startTime, {
+    message: "Start time is required",
+    path: ["startTime"],
+}).refine(values => values.allDay || !values.endTime || values.endTime > values.startTime, {
+    message: "End time must be after the start time",
+    path: ["endTime"],
+});
+
+type EventFormValues = z.infer<typeof eventSchema>;
+
+const toFormValues = (event: WeddingEvent | null, defaultDate: Date | null): EventFormValues => ({
+    title: event?.title ?? '',
+    // Undefined until picked so the resolver reports the missing date.
+    date: event?.start ?? defaultDate ?? (undefined as unknown as Date),
+    allDay: event?.allDay ?? false,
+    startTime: event && !event.allDay ? format(event.start, 'HH:mm') : '',
+    endTime: event?.end && !event.allDay ? format(event.end, 'HH:mm') : '',
+    location: event?.location ?? '',
+    notes: event?.notes ?? '',
+});
+
+const atTime = (date: Date, time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const result = new Date(date);
+    result.setHours(hours, minutes, 0, 0);
+    return result;
+};
+
+interface EventDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** The event to edit, or null to create a new one. */
+    event: WeddingEvent | null;
+    /** Date to prefill when creating an event, e.g. the day clicked in the calendar. */
+    defaultDate?: Date | null;
+}
+
+export function EventDialog({ open, onOpenChange, event, defaultDate = null }: EventDialogProps) {
+  const { addEvent, updateEvent } = useEvents();
+  const { toast } = useToast();
+
+  const form = useForm<EventFormValues>({
+    resolver: zodResolver(eventSchema),
+    defaultValues: toFormValues(event, defaultDate),
+  });
+  const allDay = form.watch("allDay");
+
+  React.useEffect(() => {
+    if (open) form.reset(toFormValues(event, defaultDate));
+  }, [open, event, defaultDate, form]);
+
+  async function onSave(values: EventFormValues) {
+    const details: EventDetails = {
+        title: values.title,
+        start: values.allDay ? new Date(values.date.getFullYear(), values.date.getMonth(), values.date.getDate()) : atTime(values.date, values.startTime),
+        end: !values.allDay && values.endTime ? atTime(values.date, values.endTime) : null,
+        allDay: values.allDay,
+        location: values.location.trim(),
+        notes: values.notes.trim(),
+    };
+    try {
+        if (event) {
+            await updateEvent(event.id, details);
+            toast({ title: "Event updated." });
+        } else {
+            await addEvent(details);
+            toast({ title: "Event added." });
+        }
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not save the event.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{event ? 'Edit Event' : 'New Event'}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSave)} className="space-y-4 py-4">
+                <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Title</FormLabel>
+                            <FormControl>
+                                <Input placeholder="e.g. Rehearsal dinner" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="date"
+                    render={({ field }) => (
+                        <FormItem className="flex flex-col">
+                            <FormLabel>Date</FormLabel>
+                            <Popover>
+                                <PopoverTrigger asChild>
+                                    <FormControl>
+                                        <Button
+                                            variant="outline"
+                                            className={cn("justify-start text-left font-normal", !field.value && "text-muted-foreground")}
+                                        >
+                                            <CalendarIcon className="mr-2 h-4 w-4" />
+                                            {field.value ? format(field.value, 'PPP') : 'Pick a date'}
+                                        </Button>
+                                    </FormControl>
+                                </PopoverTrigger>
+                                <PopoverContent className="w-auto p-0" align="start">
+                                    <Calendar
+                                        mode="single"
+                                        selected={field.value}
+                                        onSelect={field.onChange}
+                                        defaultMonth={field.value}
+                                        initialFocus
+                                    />
+                                </PopoverContent>
+                            </Popover>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="allDay"
+                    render={({ field }) => (
+                        <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                            <FormControl>
+                                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                            </FormControl>
+                            <FormLabel className="font-normal">All day</FormLabel>
+                        </FormItem>
+                    )}
+                />
+                {!allDay && (
+                    <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                            control={form.control}
+                            name="startTime"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Starts</FormLabel>
+                                    <FormControl>
+                                        <Input type="time" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="endTime"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Ends</FormLabel>
+                                    <FormControl>
+                                        <Input type="time" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                    </div>
+                )}
+                <FormField
+                    control={form.control}
+                    name="location"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Location</FormLabel>
+                            <FormControl>
+                                <Input placeholder="e.g. The Boathouse" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="notes"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Notes</FormLabel>
+                            <FormControl>
+                                <Textarea rows={3} placeholder="Dress code, who's invited, parking" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">Cancel</Button>
+                    </DialogClose>
+                    <Button type="submit">{event ? 'Save' : 'Add Event'}</Button>
+                </DialogFooter>
+            </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+    DialogFooter,
+    DialogClose,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useBudget } from '@/hooks/use-budget';
+import { useVendors } from '@/hooks/use-vendors';
+import { useContributors } from '@/hooks/use-contributors';
+import { CURRENCIES, formatMoney, getExchangeRate, isCurrencyCode, type CurrencyCode, type RateSource } from '@/lib/currency';
+import { MoneyInput } from './money-input';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+// Radix Select items cannot have an empty value.
+const OTHER_VENDOR = "none";
+const OUR_MONEY = "none";
+
+const expenseSchema = z.object({
+    category: z.string().min(1, "Category is required"),
+    vendorId: z.string(),
+    vendor: z.string(),
+    payerId: z.string(),
+    estimated: z.string().refine(value => !value || Number(value) >= 0, "Estimate must be positive"),
+    actual: z.coerce.number().min(0, "Amount must be positive"),
+    currency: z.enum(CURRENCIES),
+    exchangeRate: z.coerce.number().positive("Exchange rate must be positive"),
+    dueDate: z.coerce.date(),
+}).refine(values => values.vendorId !== OTHER_VENDOR || values.vendor.trim(), {
+    message: "Vendor is required",
+    path: ["vendor"],
+});
+
+type ExpenseFormValues = z.infer<typeof expenseSchema>;
+
+interface ExpenseDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Vendor to preselect, e.g. when adding a payment from the vendor's page. */
+    defaultVendorId?: string | null;
+}
+
+export function ExpenseDialog({ open, onOpenChange, defaultVendorId = null }: ExpenseDialogProps) {
+  const { toast } = useToast();
+  const { addExpense, summary } = useBudget();
+  const baseCurrency = summary?.currency ?? 'USD';
+  const [rateSource, setRateSource] = React.useState<RateSource>('fallback');
+  const [isFetchingRate, setIsFetchingRate] = React.useState(false);
+  const { vendors } = useVendors();
+  const { contributors } = useContributors();
+
+  const defaultValues = React.useCallback((): ExpenseFormValues => {
+    const vendor = vendors.find(v => v.id === defaultVendorId);
+    return {
+        category: vendor?.category ?? "",
+        vendorId: vendor?.id ?? OTHER_VENDOR,
+        vendor: "",
+        payerId: OUR_MONEY,
+        estimated: "",
+        actual: 0,
+        currency: baseCurrency,
+        exchangeRate: 1,
+        dueDate: new Date(),
+    };
+  }, [vendors, defaultVendorId, baseCurrency]);
+
+  const form = useForm<ExpenseFormValues>({
+    resolver: zodResolver(expenseSchema),
+    defaultValues: defaultValues(),
+  });
+  const vendorId = form.watch("vendorId");
+  const expenseCurrency = form.watch("currency");
+  const isForeign = expenseCurrency !== baseCurrency;
+
+  // Read when the dialog opens so vendor list updates don't wipe a half-filled form.
+  const defaultValuesRef = React.useRef(defaultValues);
+  defaultValuesRef.current = defaultValues;
+
+  React.useEffect(() => {
+    if (open) {
+        form.reset(defaultValuesRef.current());
+        setRateSource('fallback');
+    }
+  }, [open, form]);
+
+  const fetchRate = async (from: CurrencyCode) => {
+    if (from === baseCurrency) {
+        form.setValue("exchangeRate", 1);
+        return;
+    }
+    setIsFetchingRate(true);
+    const { rate, source } = await getExchangeRate(from, baseCurrency);
+    form.setValue("exchangeRate", Number(rate.toFixed(6)));
+    setRateSource(source);
+    setIsFetchingRate(false);
+  };
+
+  const handleCurrencyChange = (value: string) => {
+    if (!isCurrencyCode(value)) return;
+    form.setValue("currency", value);
+    fetchRate(value);
+  };
+
+  const handleVendorChange = (id: string) => {
+    form.setValue("vendorId", id);
+    const vendor = vendors.find(v => v.id === id);
+    if (vendor && !form.getValues("category")) form.setValue("category", vendor.category);
+  };
+
+  async function handleAddExpense(values: ExpenseFormValues) {
+    const vendor = vendors.find(v => v.id === values.vendorId);
+    await addExpense({
+        category: values.category,
+        vendor: vendor?.name ?? values.vendor.trim(),
+        vendorId: vendor?.id ?? null,
+        payerId: values.payerId === OUR_MONEY ? null : values.payerId,
+        actual: values.actual,
+        currency: expenseCurrency,
+        exchangeRate: isForeign ? { rate: values.exchangeRate, source: rateSource, date: new Date() } : null,
+        // Without a separate estimate the item is taken to have come in as budgeted.
+        estimated: values.estimated ? Number(values.estimated) : values.actual,
+        dueDate: values.dueDate,
+    });
+
+    toast({
+        title: "Expense Added",
+        description: `${values.category} for ${formatMoney(values.actual, expenseCurrency)} has been added to your budget.`,
+    });
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add New Expense</DialogTitle>
+            <DialogDescription>
+              Enter the details of your new expense below.
+            </DialogDescription>
+          </DialogHeader>
+            <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleAddExpense)} className="space-y-4 py-4">
+                <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                        <FormItem>
+                        <FormLabel>Category</FormLabel>
+                        <FormControl>
+                            <Input placeholder="e.g. Catering" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="vendorId"
+                    render={({ field }) => (
+                        <FormItem>
+                        <FormLabel>Vendor</FormLabel>
+                        <Select value={field.value} onValueChange={handleVendorChange}>
+                            <FormControl>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                                {vendors.map(vendor => (
+                                    <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                                ))}
+                                <SelectItem value={OTHER_VENDOR}>Someone else&hellip;</SelectItem>
+                            </SelectContent>
+                        </Select>
+                        <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                {vendorId === OTHER_VENDOR && (
+                    <FormField
+                        control={form.control}
+                        name="vendor"
+                        render={({ field }) => (
+                            <FormItem>
+                            <FormLabel>Vendor Name</FormLabel>
+                            <FormControl>
+                                <Input placeholder="e.g. Gourmet Delights" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                )}
+                {contributors.length > 0 && (
+                    <FormField
+                        control={form.control}
+                        name="payerId"
+                        render={({ field }) => (
+                            <FormItem>
+                            <FormLabel>Paid By</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                    <SelectItem value={OUR_MONEY}>Us</SelectItem>
+                                    {contributors.map(contributor => (
+                                        <SelectItem key={contributor.id} value={contributor.id}>{contributor.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                )}
+                <div className="grid grid-cols-[7rem_1fr_1fr] gap-4">
+                    <FormField
+                        control={form.control}
+                        name="currency"
+                        render={({ field }) => (
+                            <FormItem>
+                            <FormLabel>Currency</FormLabel>
+                            <Select value={field.value} onValueChange={handleCurrencyChange}>
+                                <FormControl>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                    {CURRENCIES.map(code => (
+                                        <SelectItem key={code} value={code}>{code}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="estimated"
+                        render={({ field }) => (
+                            <FormItem>
+                            <FormLabel>Estimate</FormLabel>
+                            <FormControl>
+                                <MoneyInput currency={expenseCurrency} placeholder="Same as amount" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="actual"
+                        render={({ field }) => (
+                            <FormItem>
+                            <FormLabel>Amount</FormLabel>
+                            <FormControl>
+                                <MoneyInput currency={expenseCurrency} placeholder="1200" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                </div>
+                {isForeign && (
+                    <FormField
+                        control={form.control}
+                        name="exchangeRate"
+                        render={({ field }) => (
+                            <FormItem>
+                            <FormLabel>Exchange Rate</FormLabel>
+                            <div className="flex items-center gap-2">
+                                <span className="whitespace-nowrap text-sm text-muted-foreground">1 {expenseCurrency} =</span>
+                                <FormControl>
+                                    <Input
+                                        type="number"
+                                        step="any"
+                                        {...field}
+                                        onChange={e => {
+                                            field.onChange(e);
+                                            setRateSource('manual');
+                                        }}
+                                    />
+                                </FormControl>
+                                <span className="text-sm text-muted-foreground">{baseCurrency}</span>
+                                <Button type="button" variant="ghost" size="icon" onClick={() => fetchRate(expenseCurrency)} disabled={isFetchingRate} aria-label="Fetch current rate">
+                                    {isFetchingRate ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                                </Button>
+                            </div>
+                            <FormDescription>
+                                {rateSource === 'manual' ? 'Entered by hand.' : rateSource === 'provider' ? "Today's rate." : 'Approximate rate; enter the one your bank gives you for accuracy.'}
+                            </FormDescription>
+                            <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                )}
+                 <FormField
+                    control={form.control}
+                    name="dueDate"
+                    render={({ field }) => (
+                        <FormItem>
+                        <FormLabel>Due Date</FormLabel>
+                        <FormControl>
+                            <Input type="date" {...field}
+                             onChange={e => field.onChange(new Date(e.target.value))}
+                             value={field.value ? format(field.value, 'yyyy-MM-dd') : ''}
+                            />
+                        </FormControl>
+                        <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <DialogFooter>
+                    <DialogClose asChild>
+                    <Button type="button" variant="secondary">Cancel</Button>
+                    </DialogClose>
+                    <Button type="submit">Add Expense</Button>
+                </DialogFooter>
+            </form>
+            </Form>
+        </DialogContent>
+    </Dialog>
+  );
+}
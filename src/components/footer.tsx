@@ -8,7 +8,7 @@ export function Footer() {
   const { user } = useUser();
 
   return (
-    <footer className="text-center p-4 text-muted-foreground text-sm border-t">
+    <footer className="text-center p-4 text-muted-foreground text-sm border-t print:hidden">
       <div className="container mx-auto flex justify-between items-center">
         <p>Wedly &copy; {new Date().getFullYear()}</p>
         <div className="flex gap-4">
@@ -0,0 +1,300 @@
+"use client";
+
+import * as React from "react";
+import { useDropzone } from "react-dropzone";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileUp, Loader2 } from "lucide-react";
+import { useGuests, type NewGuest, type NewParty } from "@/hooks/use-guests";
+import { useToast } from "@/hooks/use-toast";
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  buildImportRows,
+  guessColumnMapping,
+  readSpreadsheet,
+  type ColumnMapping,
+  type ImportRow,
+} from "@/lib/guest-import";
+
+// Radix Select items cannot have an empty value.
+const NOT_IMPORTED = "none";
+
+type Step = 'upload' | 'map' | 'preview';
+
+interface GuestImportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+/** Rows sharing a party name become one invitation; everyone else gets their own. */
+const toParties = (rows: ImportRow[]) => {
+    const byParty = new Map<string, ImportRow[]>();
+    rows.forEach(row => {
+        const key = row.party ? `party:${row.party.toLowerCase()}` : `row:${row.rowNumber}`;
+        byParty.set(key, [...(byParty.get(key) ?? []), row]);
+    });
+    return [...byParty.values()].map(members => {
+        const party: NewParty = {
+            name: members[0].party || members[0].name,
+            group: members[0].group,
+            plusOnesAllowed: 0,
+            address: members.find(row => row.address)?.address ?? null,
+        };
+        const guests: NewGuest[] = members.map(row => ({
+            name: row.name,
+            group: row.group,
+            rsvp: row.rsvp,
+            table: null,
+            seat: null,
+            ageGroup: 'Adult',
+            isPlusOne: false,
+            meal: null,
+            dietaryNotes: '',
+            allergies: [],
+            email: row.email,
+            phone: row.phone,
+        }));
+        return { party, members: guests };
+    });
+};
+
+export function GuestImportDialog({ open, onOpenChange }: GuestImportDialogProps) {
+  const { guests, importParties } = useGuests();
+  const { toast } = useToast();
+  const [step, setStep] = React.useState<Step>('upload');
+  const [fileName, setFileName] = React.useState("");
+  const [sheet, setSheet] = React.useState<string[][]>([]);
+  const [mapping, setMapping] = React.useState<ColumnMapping | null>(null);
+  const [hasHeaderRow, setHasHeaderRow] = React.useState(true);
+  const [includeDuplicates, setIncludeDuplicates] = React.useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = React.useState(false);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName("");
+    setSheet([]);
+    setMapping(null);
+    setHasHeaderRow(true);
+    setIncludeDuplicates(new Set());
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const onDrop = React.useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+    try {
+        const rows = await readSpreadsheet(file);
+        if (rows.length === 0) throw new Error("That file has no rows.");
+        const guessed = guessColumnMapping(rows[0]);
+        setFileName(file.name);
+        setSheet(rows);
+        setMapping(guessed);
+        setHasHeaderRow(guessed.name !== null);
+        setStep('map');
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not read that file.";
+        toast({ variant: 'destructive', title: 'Import Failed', description: message });
+    }
+  }, [toast]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    multiple: false,
+    accept: {
+        'text/csv': ['.csv'],
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+    },
+  });
+
+  const columnCount = Math.max(0, ...sheet.map(row => row.length));
+  const columnLabel = (index: number) =>
+    hasHeaderRow && sheet[0]?.[index] ? sheet[0][index] : `Column ${index + 1}`;
+
+  const rows = React.useMemo(
+    () => (mapping && step === 'preview' ? buildImportRows(sheet, mapping, guests, hasHeaderRow) : []),
+    [sheet, mapping, guests, hasHeaderRow, step],
+  );
+  const invalidRows = rows.filter(r => r.errors.length > 0);
+  const rowsToImport = rows.filter(r =>
+    r.errors.length === 0 && (!r.duplicateOf || includeDuplicates.has(r.rowNumber)));
+
+  const toggleDuplicate = (rowNumber: number, include: boolean) => {
+    setIncludeDuplicates(prev => {
+        const next = new Set(prev);
+        if (include) next.add(rowNumber); else next.delete(rowNumber);
+        return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (rowsToImport.length === 0) return;
+    setIsImporting(true);
+    try {
+        await importParties(toParties(rowsToImport));
+        toast({
+            title: "Guests Imported",
+            description: `${rowsToImport.length} guest${rowsToImport.length === 1 ? '' : 's'} added to your guest list.`,
+        });
+        handleOpenChange(false);
+    } catch (error) {
+        console.error("Error importing guests: ", error);
+        toast({ variant: 'destructive', title: 'Import Failed', description: 'Some guests could not be imported. Please try again.' });
+    } finally {
+        setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Guests</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && "Upload a CSV or Excel (.xlsx) file with one guest per row."}
+            {step === 'map' && `Match the columns in ${fileName} to guest details.`}
+            {step === 'preview' && "Review the guests before importing. Rows with errors are skipped."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+            <div {...getRootProps()} className={`flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed p-10 text-center ${isDragActive ? 'border-primary bg-primary/10' : 'border-muted-foreground/30'}`}>
+                <input {...getInputProps()} />
+                <FileUp className="mb-2 h-10 w-10 text-muted-foreground" />
+                <p className="text-muted-foreground">Drag a file here, or click to choose one.</p>
+            </div>
+        )}
+
+        {step === 'map' && mapping && (
+            <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                    <Checkbox id="hasHeaderRow" checked={hasHeaderRow} onCheckedChange={(checked) => setHasHeaderRow(checked === true)} />
+                    <Label htmlFor="hasHeaderRow" className="font-normal">The first row contains column names</Label>
+                </div>
+                <div className="grid max-h-[60vh] grid-cols-1 gap-3 overflow-y-auto sm:grid-cols-2">
+                    {IMPORT_FIELDS.map(field => (
+                        <div key={field} className="space-y-1">
+                            <Label>{IMPORT_FIELD_LABELS[field]}{field === 'name' && ' *'}</Label>
+                            <Select
+                                value={mapping[field] === null ? NOT_IMPORTED : String(mapping[field])}
+                                onValueChange={(value) => setMapping({ ...mapping, [field]: value === NOT_IMPORTED ? null : Number(value) })}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={NOT_IMPORTED}>Don&apos;t import</SelectItem>
+                                    {Array.from({ length: columnCount }, (_, index) => (
+                                        <SelectItem key={index} value={String(index)}>{columnLabel(index)}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        {step === 'preview' && (
+            <div className="space-y-2">
+                <div className="flex flex-wrap gap-2 text-sm">
+                    <Badge>{rowsToImport.length} to import</Badge>
+                    {invalidRows.length > 0 && <Badge variant="destructive">{invalidRows.length} with errors</Badge>}
+                    {rows.some(r => r.duplicateOf) && (
+                        <Badge variant="secondary">{rows.filter(r => r.duplicateOf).length} possible duplicates</Badge>
+                    )}
+                </div>
+                <ScrollArea className="h-80 rounded-md border">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="w-12">Row</TableHead>
+                                <TableHead>Name</TableHead>
+                                <TableHead>Group</TableHead>
+                                <TableHead>RSVP</TableHead>
+                                <TableHead>Status</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {rows.map(row => (
+                                <TableRow key={row.rowNumber}>
+                                    <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                                    <TableCell>
+                                        {row.name || <span className="text-muted-foreground">—</span>}
+                                        {row.party && <p className="text-xs text-muted-foreground">{row.party}</p>}
+                                    </TableCell>
+                                    <TableCell>{row.group}</TableCell>
+                                    <TableCell>{row.rsvp}</TableCell>
+                                    <TableCell>
+                                        {row.errors.length > 0 ? (
+                                            <span className="text-xs text-destructive">{row.errors.join(' ')}</span>
+                                        ) : row.duplicateOf ? (
+                                            <div className="flex items-center space-x-2">
+                                                <Checkbox
+                                                    id={`dup-${row.rowNumber}`}
+                                                    checked={includeDuplicates.has(row.rowNumber)}
+                                                    onCheckedChange={(checked) => toggleDuplicate(row.rowNumber, checked === true)}
+                                                />
+                                                <Label htmlFor={`dup-${row.rowNumber}`} className="text-xs font-normal">
+                                                    Looks like {row.duplicateOf} &mdash; import anyway
+                                                </Label>
+                                            </div>
+                                        ) : (
+                                            <span className="text-xs text-muted-foreground">Ready</span>
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </ScrollArea>
+            </div>
+        )}
+
+        <DialogFooter>
+            {step === 'map' && (
+                <>
+                    <Button type="button" variant="secondary" onClick={reset}>Back</Button>
+                    <Button type="button" onClick={() => setStep('preview')} disabled={mapping?.name === null}>
+                        Preview
+                    </Button>
+                </>
+            )}
+            {step === 'preview' && (
+                <>
+                    <Button type="button" variant="secondary" onClick={() => setStep('map')} disabled={isImporting}>Back</Button>
+                    <Button type="button" onClick={handleImport} disabled={isImporting || rowsToImport.length === 0}>
+                        {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Import {rowsToImport.length} Guest{rowsToImport.length === 1 ? '' : 's'}
+                    </Button>
+                </>
+            )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -30,12 +30,25 @@ import {
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { PlusCircle, MoreHorizontal, Trash2, Loader2 } from "lucide-react";
-import { useGuests, type Guest } from "@/hooks/use-guests";
+import { Checkbox } from "@/components/ui/checkbox";
+import { PlusCircle, MoreHorizontal, Trash2, Loader2, UserPlus, X, Link as LinkIcon, MessageSquare, UtensilsCrossed, FileDown, FileUp, Printer, MapPin, Mail, QrCode } from "lucide-react";
+import Link from "next/link";
+import { useGuests, type Guest, type Party } from "@/hooks/use-guests";
+import { useWedding } from "@/hooks/use-wedding";
+import { getRsvpLink } from "@/lib/rsvp";
+import { buildCatererReport, catererReportToCsv } from "@/lib/caterer-report";
+import { downloadFile } from "@/lib/csv";
+import { guestListToCsv } from "@/lib/guest-import";
+import { buildMailingLabels, formatAddress, getAddressFormLink, isAddressComplete, mailingLabelsToCsv } from "@/lib/addresses";
+import { summarizeGuests } from "@/lib/guest-stats";
+import { EditGuestDialog } from "./edit-guest-dialog";
+import { MenuOptionsDialog } from "./menu-options-dialog";
+import { GuestImportDialog } from "./guest-import-dialog";
+import { PartyAddressDialog } from "./party-address-dialog";
+import { QrCodeDialog } from "./qr-code-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "./ui/form";
 
@@ -54,73 +67,322 @@ const getRsvpVariant = (rsvp: string) => {
 };
 
 const addGuestSchema = z.object({
-    name: z.string().min(1, "Name is required"),
+    partyName: z.string().optional(),
     group: z.string().min(1, "Group is required"),
+    plusOnesAllowed: z.coerce.number().int().min(0).max(5),
+    members: z.array(z.object({
+        name: z.string().min(1, "Name is required"),
+        isChild: z.boolean(),
+    })).min(1, "Add at least one person"),
 });
 
+const describeParty = (members: Guest[]) => {
+    const children = members.filter(g => g.ageGroup === 'Child').length;
+    const adults = members.length - children;
+    const parts = [`${adults} adult${adults === 1 ? '' : 's'}`];
+    if (children > 0) parts.push(`${children} child${children === 1 ? '' : 'ren'}`);
+    return parts.join(', ');
+};
+
 export function GuestList() {
-  const { guests, loading, addGuest, updateGuestRsvp, deleteGuest } = useGuests();
-  const [isEditRsvpOpen, setIsEditRsvpOpen] = React.useState(false);
+  const { guests, parties, loading, addParty, addPlusOne, ensureInviteCode, deleteGuest } = useGuests();
+  const { wedding, canEdit } = useWedding();
   const [isAddGuestOpen, setIsAddGuestOpen] = React.useState(false);
+  const [isMenuOpen, setIsMenuOpen] = React.useState(false);
+  const [isImportOpen, setIsImportOpen] = React.useState(false);
+  const [addressParty, setAddressParty] = React.useState<Party | null>(null);
+  const [rsvpQr, setRsvpQr] = React.useState<{ party: Party; link: string } | null>(null);
   const [selectedGuest, setSelectedGuest] = React.useState<Guest | null>(null);
-  const [tempRsvp, setTempRsvp] = React.useState<Guest['rsvp'] | undefined>(undefined);
+  const [plusOneParty, setPlusOneParty] = React.useState<Party | null>(null);
+  const [plusOneName, setPlusOneName] = React.useState("");
   const { toast } = useToast();
 
   const form = useForm<z.infer<typeof addGuestSchema>>({
     resolver: zodResolver(addGuestSchema),
     defaultValues: {
-      name: "",
+      partyName: "",
       group: "",
+      plusOnesAllowed: 0,
+      members: [{ name: "", isChild: false }],
     },
   });
+  const { fields: memberFields, append: appendMember, remove: removeMember } = useFieldArray({
+    control: form.control,
+    name: "members",
+  });
+
+  const guestsByParty = React.useMemo(() => {
+    const byParty = new Map<string, Guest[]>();
+    guests.forEach(g => {
+        if (!g.partyId) return;
+        byParty.set(g.partyId, [...(byParty.get(g.partyId) ?? []), g]);
+    });
+    return byParty;
+  }, [guests]);
+  const { guestsMissingAddress, partiesMissingAddress } = summarizeGuests(guests, parties);
+  const unassignedGuests = guests.filter(g => !g.partyId || !parties.some(p => p.id === g.partyId));
 
   const handleDeleteGuest = async (guestId: string) => {
     await deleteGuest(guestId);
     toast({ title: "Guest removed." });
   };
 
-  const handleEditClick = (guest: Guest) => {
-    setSelectedGuest(guest);
-    setTempRsvp(guest.rsvp);
-    setIsEditRsvpOpen(true);
+  const handleDownloadCatererReport = () => {
+    if (!wedding) return;
+    const report = buildCatererReport(guests, wedding.menuOptions);
+    downloadFile('caterer-report.csv', catererReportToCsv(report));
   };
-  
-  const handleSaveRsvp = async () => {
-    if (selectedGuest && tempRsvp) {
-      await updateGuestRsvp(selectedGuest.id, tempRsvp);
-      toast({ title: `RSVP for ${selectedGuest.name} updated.` });
+
+  const handleExportGuests = () => {
+    downloadFile('guest-list.csv', guestListToCsv(guests, parties));
+  };
+
+  const handleExportMailingLabels = () => {
+    downloadFile('mailing-labels.csv', mailingLabelsToCsv(buildMailingLabels(parties)));
+  };
+
+  const handleCopyAddressLink = async (party: Party) => {
+    try {
+        const code = await ensureInviteCode(party.id);
+        navigator.clipboard.writeText(getAddressFormLink(code));
+        toast({ title: "Address form link copied!", description: `Send it to ${party.name} so they can fill in their mailing address.` });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not create the address form link.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
     }
-    setIsEditRsvpOpen(false);
-    setSelectedGuest(null);
   };
   
   async function onAddGuest(values: z.infer<typeof addGuestSchema>) {
-    await addGuest({
-        name: values.name,
-        group: values.group,
-        rsvp: 'Pending',
-        table: null,
-    });
+    const partyName = values.partyName?.trim()
+        || (values.members.length === 1 && values.plusOnesAllowed > 0 ? `${values.members[0].name} + guest` : values.members[0].name);
+    await addParty(
+        { name: partyName, group: values.group, plusOnesAllowed: values.plusOnesAllowed, address: null },
+        values.members.map(member => ({
+            name: member.name,
+            group: values.group,
+            rsvp: 'Pending',
+            table: null,
+            seat: null,
+            ageGroup: member.isChild ? 'Child' : 'Adult',
+            isPlusOne: false,
+            meal: null,
+            dietaryNotes: '',
+            allergies: [],
+            email: '',
+            phone: '',
+        })),
+    );
     toast({
-        title: "Guest Added",
-        description: `${values.name} has been added to your guest list.`,
+        title: "Guests Added",
+        description: `${partyName} has been added to your guest list.`,
     });
     form.reset();
     setIsAddGuestOpen(false);
   }
 
+  const handleAddPlusOne = async () => {
+    if (!plusOneParty || plusOneName.trim() === "") return;
+    try {
+        await addPlusOne(plusOneParty.id, plusOneName.trim());
+        toast({ title: `${plusOneName.trim()} added to ${plusOneParty.name}.` });
+        setPlusOneParty(null);
+        setPlusOneName("");
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not add plus-one.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  const handleCopyRsvpLink = async (party: Party) => {
+    try {
+        const code = await ensureInviteCode(party.id);
+        navigator.clipboard.writeText(getRsvpLink(code));
+        toast({ title: "RSVP link copied!", description: `Send it to ${party.name} so they can respond online.` });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not create RSVP link.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  const handleShowRsvpQr = async (party: Party) => {
+    try {
+        const code = await ensureInviteCode(party.id);
+        setRsvpQr({ party, link: getRsvpLink(code) });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not create RSVP link.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  const renderGuestRow = (guest: Guest, indent: boolean) => (
+    <TableRow key={guest.id}>
+      <TableCell className={`font-medium ${indent ? 'pl-8' : ''}`}>
+        {guest.name}
+        {guest.ageGroup === 'Child' && <Badge variant="outline" className="ml-2">Child</Badge>}
+        {guest.isPlusOne && <Badge variant="outline" className="ml-2">Plus-one</Badge>}
+        {(guest.allergies.length > 0 || guest.dietaryNotes) && (
+            <p className="text-xs font-normal text-destructive">
+                {[...guest.allergies, guest.dietaryNotes].filter(Boolean).join(' · ')}
+            </p>
+        )}
+      </TableCell>
+      <TableCell className="hidden sm:table-cell text-muted-foreground">{guest.group}</TableCell>
+      <TableCell>
+        <Badge variant={getRsvpVariant(guest.rsvp) as any}>{guest.rsvp}</Badge>
+      </TableCell>
+      <TableCell className="hidden md:table-cell text-muted-foreground">{guest.meal ?? '—'}</TableCell>
+      <TableCell className="hidden sm:table-cell text-right text-muted-foreground">{guest.table ?? 'N/A'}</TableCell>
+      <TableCell className="text-right">
+         <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" disabled={!canEdit}>
+                    <MoreHorizontal className="h-4 w-4" />
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => setSelectedGuest(guest)}>
+                    Edit Guest
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleDeleteGuest(guest.id)} className="text-destructive">
+                    <Trash2 className="mr-2 h-4 w-4"/>
+                    Delete
+                </DropdownMenuItem>
+            </DropdownMenuContent>
+        </DropdownMenu>
+      </TableCell>
+    </TableRow>
+  );
+
+  const renderPartyRows = (party: Party) => {
+    const members = guestsByParty.get(party.id) ?? [];
+    const openPlusOnes = Math.max(0, party.plusOnesAllowed - members.filter(g => g.isPlusOne).length);
+    return (
+      <React.Fragment key={party.id}>
+        <TableRow className="bg-muted/40 hover:bg-muted/40">
+          <TableCell colSpan={5}>
+            <span className="font-semibold">{party.name}</span>
+            <span className="ml-2 text-xs text-muted-foreground">{describeParty(members)}</span>
+            {openPlusOnes > 0 && (
+                <span className="ml-2 text-xs text-muted-foreground">&middot; {openPlusOnes} plus-one{openPlusOnes === 1 ? '' : 's'} open</span>
+            )}
+            {party.respondedAt && (
+                <span className="ml-2 text-xs text-muted-foreground">&middot; responded online</span>
+            )}
+            <p className="mt-1 text-xs text-muted-foreground">
+                <MapPin className="mr-1 inline h-3 w-3" />
+                {isAddressComplete(party.address)
+                    ? formatAddress(party.address)
+                    : <span className="text-destructive">Missing mailing address</span>}
+            </p>
+            {party.rsvpMessage && (
+                <p className="mt-1 text-xs italic text-muted-foreground">
+                    <MessageSquare className="mr-1 inline h-3 w-3" />
+                    {party.rsvpMessage}
+                </p>
+            )}
+          </TableCell>
+          <TableCell className="text-right">
+             <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" disabled={!canEdit}>
+                        <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => handleCopyRsvpLink(party)}>
+                        <LinkIcon className="mr-2 h-4 w-4"/>
+                        Copy RSVP Link
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleShowRsvpQr(party)}>
+                        <QrCode className="mr-2 h-4 w-4"/>
+                        RSVP QR Code
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setAddressParty(party)}>
+                        <MapPin className="mr-2 h-4 w-4"/>
+                        Edit Address
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleCopyAddressLink(party)}>
+                        <Mail className="mr-2 h-4 w-4"/>
+                        Copy Address Form Link
+                    </DropdownMenuItem>
+                    {openPlusOnes > 0 && (
+                        <DropdownMenuItem onClick={() => setPlusOneParty(party)}>
+                            <UserPlus className="mr-2 h-4 w-4"/>
+                            Name Plus-one
+                        </DropdownMenuItem>
+                    )}
+                </DropdownMenuContent>
+            </DropdownMenu>
+          </TableCell>
+        </TableRow>
+        {members.map(guest => renderGuestRow(guest, true))}
+      </React.Fragment>
+    );
+  };
+
   return (
     <>
       <Card>
-        <CardHeader className="flex flex-row items-center justify-between">
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4">
           <div>
             <CardTitle className="font-headline text-2xl">Guest List</CardTitle>
-            <CardDescription>Manage your invited guests and track RSVPs.</CardDescription>
+            <CardDescription>
+                Manage your invited guests and track RSVPs.
+                {partiesMissingAddress > 0 && (
+                    <span className="ml-1 text-destructive">
+                        {guestsMissingAddress} guest{guestsMissingAddress === 1 ? '' : 's'} on {partiesMissingAddress} invitation{partiesMissingAddress === 1 ? '' : 's'} missing addresses.
+                    </span>
+                )}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsMenuOpen(true)} disabled={!canEdit}>
+                <UtensilsCrossed className="mr-2 h-4 w-4" />
+                Menu
+            </Button>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button variant="outline">
+                        <FileDown className="mr-2 h-4 w-4" />
+                        Export
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={handleExportGuests}>
+                        <FileDown className="mr-2 h-4 w-4"/>
+                        Guest List (CSV)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleDownloadCatererReport}>
+                        <FileDown className="mr-2 h-4 w-4"/>
+                        Caterer Report (CSV)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                        <Link href="/dashboard/caterer-report" target="_blank">
+                            <Printer className="mr-2 h-4 w-4"/>
+                            Caterer Report (Print / PDF)
+                        </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleExportMailingLabels}>
+                        <FileDown className="mr-2 h-4 w-4"/>
+                        Mailing Labels (CSV)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                        <Link href="/dashboard/mailing-labels" target="_blank">
+                            <Printer className="mr-2 h-4 w-4"/>
+                            Mailing Labels (Avery 5160 PDF)
+                        </Link>
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} disabled={!canEdit}>
+                <FileUp className="mr-2 h-4 w-4" />
+                Import
+            </Button>
+            <Button onClick={() => setIsAddGuestOpen(true)} disabled={!canEdit}>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add Guests
+            </Button>
           </div>
-          <Button onClick={() => setIsAddGuestOpen(true)}>
-            <PlusCircle className="mr-2 h-4 w-4" />
-            Add Guest
-          </Button>
         </CardHeader>
         <CardContent>
           <Table>
@@ -129,6 +391,7 @@ export function GuestList() {
                 <TableHead>Name</TableHead>
                 <TableHead className="hidden sm:table-cell">Group</TableHead>
                 <TableHead>RSVP Status</TableHead>
+                <TableHead className="hidden md:table-cell">Meal</TableHead>
                 <TableHead className="hidden sm:table-cell text-right">Table</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
@@ -136,93 +399,87 @@ export function GuestList() {
             <TableBody>
               {loading ? (
                 <TableRow>
-                    <TableCell colSpan={5} className="text-center">
+                    <TableCell colSpan={6} className="text-center">
                         <Loader2 className="mx-auto h-6 w-6 animate-spin text-muted-foreground" />
                     </TableCell>
                 </TableRow>
-              ) : guests.map((guest) => (
-                <TableRow key={guest.id}>
-                  <TableCell className="font-medium">{guest.name}</TableCell>
-                  <TableCell className="hidden sm:table-cell text-muted-foreground">{guest.group}</TableCell>
-                  <TableCell>
-                    <Badge variant={getRsvpVariant(guest.rsvp) as any}>{guest.rsvp}</Badge>
-                  </TableCell>
-                  <TableCell className="hidden sm:table-cell text-right text-muted-foreground">{guest.table ?? 'N/A'}</TableCell>
-                  <TableCell className="text-right">
-                     <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                            <Button variant="ghost" size="icon">
-                                <MoreHorizontal className="h-4 w-4" />
-                            </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                            <DropdownMenuItem onClick={() => handleEditClick(guest)}>
-                                Edit RSVP
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handleDeleteGuest(guest.id)} className="text-destructive">
-                                <Trash2 className="mr-2 h-4 w-4"/>
-                                Delete
-                            </DropdownMenuItem>
-                        </DropdownMenuContent>
-                    </DropdownMenu>
-                  </TableCell>
-                </TableRow>
-              ))}
+              ) : (
+                <>
+                  {parties.map(renderPartyRows)}
+                  {unassignedGuests.map(guest => renderGuestRow(guest, false))}
+                </>
+              )}
             </TableBody>
           </Table>
         </CardContent>
       </Card>
       
-      <Dialog open={isEditRsvpOpen} onOpenChange={setIsEditRsvpOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Edit Guest: {selectedGuest?.name}</DialogTitle>
-          </DialogHeader>
-          <div className="py-4">
-            <Label>RSVP Status</Label>
-            <RadioGroup
-                value={tempRsvp}
-                onValueChange={(value) => setTempRsvp(value as Guest['rsvp'])}
-                className="mt-2"
-            >
-                <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="Confirmed" id="r1" />
-                    <Label htmlFor="r1">Confirmed</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="Pending" id="r2" />
-                    <Label htmlFor="r2">Pending</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="Declined" id="r3" />
-                    <Label htmlFor="r3">Declined</Label>
-                </div>
-            </RadioGroup>
-          </div>
-          <DialogFooter>
-            <DialogClose asChild>
-              <Button type="button" variant="secondary">Cancel</Button>
-            </DialogClose>
-            <Button type="button" onClick={handleSaveRsvp}>Save</Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <EditGuestDialog guest={selectedGuest} onOpenChange={(open) => !open && setSelectedGuest(null)} />
+      <MenuOptionsDialog open={isMenuOpen} onOpenChange={setIsMenuOpen} />
+      <GuestImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+      <PartyAddressDialog party={addressParty} onOpenChange={(open) => !open && setAddressParty(null)} />
+      <QrCodeDialog
+        open={!!rsvpQr}
+        onOpenChange={(open) => !open && setRsvpQr(null)}
+        title={rsvpQr ? `RSVP for ${rsvpQr.party.name}` : ''}
+        description="Print this on the invitation so guests can scan it to respond online."
+        value={rsvpQr?.link ?? ''}
+        fileName="rsvp-qr"
+      />
       <Dialog open={isAddGuestOpen} onOpenChange={setIsAddGuestOpen}>
         <DialogContent>
             <DialogHeader>
-                <DialogTitle>Add New Guest</DialogTitle>
-                <DialogDescription>Enter the details for your new guest.</DialogDescription>
+                <DialogTitle>Add New Guests</DialogTitle>
+                <DialogDescription>Add everyone who shares an invitation, such as a couple or a family.</DialogDescription>
             </DialogHeader>
             <Form {...form}>
                 <form onSubmit={form.handleSubmit(onAddGuest)} className="space-y-4 py-4">
+                    <div className="space-y-2">
+                        <Label>Who is invited?</Label>
+                        {memberFields.map((member, index) => (
+                            <div key={member.id} className="flex items-start gap-2">
+                                <FormField
+                                    control={form.control}
+                                    name={`members.${index}.name`}
+                                    render={({ field }) => (
+                                        <FormItem className="flex-grow">
+                                            <FormControl>
+                                                <Input placeholder="e.g. John Doe" {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                                <FormField
+                                    control={form.control}
+                                    name={`members.${index}.isChild`}
+                                    render={({ field }) => (
+                                        <FormItem className="flex items-center space-x-2 space-y-0 h-10">
+                                            <FormControl>
+                                                <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                                            </FormControl>
+                                            <FormLabel className="font-normal">Child</FormLabel>
+                                        </FormItem>
+                                    )}
+                                />
+                                <Button type="button" variant="ghost" size="icon" onClick={() => removeMember(index)} disabled={memberFields.length === 1}>
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                        <Button type="button" variant="outline" size="sm" onClick={() => appendMember({ name: "", isChild: false })}>
+                            <PlusCircle className="mr-2 h-4 w-4" />
+                            Add Person
+                        </Button>
+                    </div>
                     <FormField
                         control={form.control}
-                        name="name"
+                        name="partyName"
                         render={({ field }) => (
                             <FormItem>
-                                <FormLabel>Full Name</FormLabel>
+                                <FormLabel>Invitation Name (optional)</FormLabel>
                                 <FormControl>
-                                    <Input placeholder="e.g. John Doe" {...field} />
+                                    <Input placeholder="e.g. The Smiths" {...field} />
                                 </FormControl>
                                 <FormMessage />
                             </FormItem>
@@ -241,16 +498,47 @@ export function GuestList() {
                             </FormItem>
                         )}
                     />
+                    <FormField
+                        control={form.control}
+                        name="plusOnesAllowed"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Plus-ones Allowed</FormLabel>
+                                <FormControl>
+                                    <Input type="number" min={0} max={5} {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
                     <DialogFooter>
                         <DialogClose asChild>
                             <Button type="button" variant="secondary">Cancel</Button>
                         </DialogClose>
-                        <Button type="submit">Add Guest</Button>
+                        <Button type="submit">Add Guests</Button>
                     </DialogFooter>
                 </form>
             </Form>
         </DialogContent>
       </Dialog>
+      <Dialog open={!!plusOneParty} onOpenChange={(open) => !open && setPlusOneParty(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Name Plus-one</DialogTitle>
+            <DialogDescription>Who is {plusOneParty?.name} bringing?</DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Label htmlFor="plusOneName">Full Name</Label>
+            <Input id="plusOneName" value={plusOneName} onChange={(e) => setPlusOneName(e.target.value)} className="mt-2" />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="secondary">Cancel</Button>
+            </DialogClose>
+            <Button type="button" onClick={handleAddPlusOne}>Add</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
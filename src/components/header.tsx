@@ -2,8 +2,9 @@
 
 "use client"
 
+import * as React from 'react';
 import Link from 'next/link';
-import { Heart, Gem, LogOut, User as UserIcon, LayoutDashboard } from 'lucide-react';
+import { Heart, Gem, LogOut, User as UserIcon, LayoutDashboard, Users, Check, CalendarHeart } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -17,11 +18,17 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useSubscription } from '@/hooks/use-subscription';
 import { UpgradeDialog } from './upgrade-dialog';
 import { useUser } from '@/hooks/use-user';
+import { useWedding } from '@/hooks/use-wedding';
+import { WeddingTeamDialog } from './wedding-team-dialog';
+import { WeddingDateDialog } from './wedding-date-dialog';
 import { useRouter } from 'next/navigation';
 
 export function Header() {
   const { isPremium, openDialog } = useSubscription();
   const { user, signOutUser } = useUser();
+  const { wedding, weddings, canEdit, switchWedding } = useWedding();
+  const [isTeamOpen, setIsTeamOpen] = React.useState(false);
+  const [isDateOpen, setIsDateOpen] = React.useState(false);
   const router = useRouter();
 
   const handleSignOut = async () => {
@@ -81,6 +88,31 @@ export function Header() {
                     <UserIcon className="mr-2 h-4 w-4" />
                     <span>Profile</span>
                   </DropdownMenuItem>
+                  {wedding && (
+                    <DropdownMenuItem onClick={() => setIsTeamOpen(true)}>
+                      <Users className="mr-2 h-4 w-4" />
+                      <span>Wedding Team</span>
+                    </DropdownMenuItem>
+                  )}
+                  {wedding && canEdit && (
+                    <DropdownMenuItem onClick={() => setIsDateOpen(true)}>
+                      <CalendarHeart className="mr-2 h-4 w-4" />
+                      <span>Wedding Date</span>
+                    </DropdownMenuItem>
+                  )}
+                  {weddings.length > 1 && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel className="text-xs text-muted-foreground">Switch wedding</DropdownMenuLabel>
+                      {weddings.map((w) => (
+                        <DropdownMenuItem key={w.id} onClick={() => switchWedding(w.id)}>
+                          <Check className={`mr-2 h-4 w-4 ${w.id === wedding?.id ? 'opacity-100' : 'opacity-0'}`} />
+                          <span>{w.name1} & {w.name2}</span>
+                        </DropdownMenuItem>
+                      ))}
+                      <DropdownMenuSeparator />
+                    </>
+                  )}
                   <DropdownMenuItem onClick={handleSignOut}>
                     <LogOut className="mr-2 h-4 w-4"/>
                     <span>Log out</span>
@@ -92,6 +124,8 @@ export function Header() {
         </div>
       </div>
       <UpgradeDialog />
+      <WeddingTeamDialog open={isTeamOpen} onOpenChange={setIsTeamOpen} />
+      <WeddingDateDialog open={isDateOpen} onOpenChange={setIsDateOpen} />
     </header>
   );
 }
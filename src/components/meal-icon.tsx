@@ -0,0 +1,19 @@
+import { Baby, Beef, Drumstick, Fish, Leaf, Sprout, Utensils, type LucideIcon } from 'lucide-react';
+
+// Menu options are free text, so match on the words couples tend to use.
+const MEAL_ICONS: { pattern: RegExp; icon: LucideIcon }[] = [
+  { pattern: /vegan|plant/i, icon: Sprout },
+  { pattern: /fish|salmon|cod|bass|halibut|sea|shrimp|prawn|lobster/i, icon: Fish },
+  { pattern: /chicken|poultry|duck|turkey/i, icon: Drumstick },
+  { pattern: /beef|steak|lamb|pork|filet|short rib|meat/i, icon: Beef },
+  { pattern: /veg|salad|risotto|pasta/i, icon: Leaf },
+  { pattern: /kid|child/i, icon: Baby },
+];
+
+export const mealIconFor = (meal: string): LucideIcon =>
+  MEAL_ICONS.find(({ pattern }) => pattern.test(meal))?.icon ?? Utensils;
+
+export function MealIcon({ meal, className }: { meal: string; className?: string }) {
+  const Icon = mealIconFor(meal);
+  return <Icon className={className} aria-label={meal} />;
+}
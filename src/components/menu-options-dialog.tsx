@@ -0,0 +1,99 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { PlusCircle, X } from "lucide-react";
+import { useWedding } from "@/hooks/use-wedding";
+import { useToast } from "@/hooks/use-toast";
+
+interface MenuOptionsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function MenuOptionsDialog({ open, onOpenChange }: MenuOptionsDialogProps) {
+  const { wedding, updateMenuOptions } = useWedding();
+  const { toast } = useToast();
+  const [options, setOptions] = React.useState<string[]>([]);
+  const [newOption, setNewOption] = React.useState("");
+
+  React.useEffect(() => {
+    if (open) setOptions(wedding?.menuOptions ?? []);
+  }, [open, wedding]);
+
+  const handleAdd = () => {
+    const option = newOption.trim();
+    if (option === "" || options.some(o => o.toLowerCase() === option.toLowerCase())) return;
+    setOptions([...options, option]);
+    setNewOption("");
+  };
+
+  const handleSave = async () => {
+    if (options.length === 0) {
+        toast({ variant: 'destructive', title: 'Error', description: 'Add at least one meal option.' });
+        return;
+    }
+    try {
+        await updateMenuOptions(options);
+        toast({ title: "Menu updated." });
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not update the menu.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Menu Options</DialogTitle>
+          <DialogDescription>The meals guests can choose from when they RSVP.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 py-4">
+            {options.map(option => (
+                <div key={option} className="flex items-center justify-between rounded-md border px-3 py-2">
+                    <span>{option}</span>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => setOptions(options.filter(o => o !== option))}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+            ))}
+            <div className="flex gap-2 pt-2">
+                <Input
+                    placeholder="e.g. Chicken"
+                    value={newOption}
+                    onChange={(e) => setNewOption(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            handleAdd();
+                        }
+                    }}
+                />
+                <Button type="button" variant="outline" onClick={handleAdd}>
+                    <PlusCircle className="mr-2 h-4 w-4" />
+                    Add
+                </Button>
+            </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="secondary">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import * as React from 'react';
+import { Input } from '@/components/ui/input';
+import { currencySymbol, type CurrencyCode } from '@/lib/currency';
+
+interface MoneyInputProps extends Omit<React.ComponentProps<"input">, 'type'> {
+    currency: CurrencyCode;
+}
+
+/** A number input prefixed with the currency's symbol, which can be several characters wide. */
+export const MoneyInput = React.forwardRef<HTMLInputElement, MoneyInputProps>(
+  ({ currency, className, style, ...props }, ref) => {
+    const symbol = currencySymbol(currency);
+    return (
+      <div className="relative">
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">{symbol}</span>
+        <Input
+          ref={ref}
+          type="number"
+          className={className}
+          style={{ paddingLeft: `${1.25 + symbol.length * 0.5}rem`, ...style }}
+          {...props}
+        />
+      </div>
+    );
+  }
+);
+MoneyInput.displayName = "MoneyInput";
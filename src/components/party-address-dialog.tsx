@@ -0,0 +1,68 @@
+"use client";
+
+import * as React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import { AddressFields } from "./address-fields";
+import { useGuests, type Party } from "@/hooks/use-guests";
+import { useToast } from "@/hooks/use-toast";
+import { EMPTY_ADDRESS, mailingAddressSchema, type MailingAddress } from "@/lib/addresses";
+
+interface PartyAddressDialogProps {
+    party: Party | null;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function PartyAddressDialog({ party, onOpenChange }: PartyAddressDialogProps) {
+  const { updateParty } = useGuests();
+  const { toast } = useToast();
+
+  const form = useForm<MailingAddress>({
+    resolver: zodResolver(mailingAddressSchema),
+    defaultValues: party?.address ?? EMPTY_ADDRESS,
+  });
+
+  React.useEffect(() => {
+    form.reset(party?.address ?? EMPTY_ADDRESS);
+  }, [party, form]);
+
+  async function onSave(address: MailingAddress) {
+    if (!party) return;
+    await updateParty(party.id, { address });
+    toast({ title: `Address for ${party.name} saved.` });
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={!!party} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Mailing Address</DialogTitle>
+          <DialogDescription>Where the invitation for {party?.name} should be sent.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSave)} className="space-y-4 py-4">
+            <AddressFields form={form} />
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="secondary">Cancel</Button>
+              </DialogClose>
+              <Button type="submit">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { addMonths, format } from "date-fns";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { PlusCircle, X } from "lucide-react";
+import { useBudget, type Expense, type Installment } from "@/hooks/use-budget";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney } from "@/lib/currency";
+import { MoneyInput } from "./money-input";
+
+const scheduleSchema = z.object({
+    payments: z.array(z.object({
+        id: z.string(),
+        label: z.string().trim(),
+        amount: z.coerce.number().min(0, "Amount must be positive"),
+        dueDate: z.coerce.date(),
+    })).min(1, "Add at least one payment"),
+    exchangeRate: z.coerce.number().positive("Exchange rate must be positive"),
+});
+
+type ScheduleFormValues = z.infer<typeof scheduleSchema>;
+
+const toFormValues = (expense: Expense | null): ScheduleFormValues => ({
+    payments: (expense?.payments ?? []).map(({ id, label, amount, dueDate }) => ({ id, label, amount, dueDate })),
+    exchangeRate: expense?.exchangeRate ?? 1,
+});
+
+interface PaymentScheduleDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    expense: Expense | null;
+}
+
+export function PaymentScheduleDialog({ open, onOpenChange, expense }: PaymentScheduleDialogProps) {
+  const { updateSchedule, setExchangeRate, summary } = useBudget();
+  const baseCurrency = summary?.currency ?? 'USD';
+  const currency = expense?.currency ?? baseCurrency;
+  const { toast } = useToast();
+
+  const form = useForm<ScheduleFormValues>({
+    resolver: zodResolver(scheduleSchema),
+    defaultValues: toFormValues(expense),
+  });
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "payments",
+    keyName: "key",
+  });
+  const watchedPayments = form.watch("payments");
+  const total = watchedPayments.reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
+
+  // Read when the dialog opens so a payment recorded elsewhere doesn't discard edits.
+  const expenseRef = React.useRef(expense);
+  expenseRef.current = expense;
+
+  React.useEffect(() => {
+    if (open) form.reset(toFormValues(expenseRef.current));
+  }, [open, form]);
+
+  const findSaved = (id: string) => expense?.payments.find(p => p.id === id);
+
+  const addInstallment = () => {
+    const last = watchedPayments[watchedPayments.length - 1];
+    append({
+        id: crypto.randomUUID(),
+        label: watchedPayments.length === 0 ? 'Deposit' : `Installment ${watchedPayments.length}`,
+        amount: 0,
+        dueDate: last ? addMonths(new Date(last.dueDate), 1) : new Date(),
+    });
+  };
+
+  async function onSave(values: ScheduleFormValues) {
+    if (!expense) return;
+    // Payment details come from the saved schedule; this form only edits the plan.
+    const payments: Installment[] = values.payments.map(p => {
+        const saved = findSaved(p.id);
+        return {
+            ...p,
+            paidDate: saved?.paidDate ?? null,
+            method: saved?.method ?? null,
+            receipt: saved?.receipt ?? null,
+        };
+    });
+    try {
+        await updateSchedule(expense.id, payments);
+        if (currency !== baseCurrency && values.exchangeRate !== expense.exchangeRate) {
+            await setExchangeRate(expense.id, { rate: values.exchangeRate, source: 'manual', date: new Date() });
+        }
+        toast({ title: "Payment schedule saved." });
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not save the payment schedule.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Payment Schedule</DialogTitle>
+          <DialogDescription>
+            Split {expense?.vendor || expense?.category || 'this expense'} into a deposit and installments as set out in the contract.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSave)} className="space-y-4 py-4">
+                <div className="hidden grid-cols-[1fr_8rem_10rem_2.5rem] gap-2 text-sm font-medium sm:grid">
+                    <FormLabel>Payment</FormLabel>
+                    <FormLabel>Amount</FormLabel>
+                    <FormLabel>Due Date</FormLabel>
+                </div>
+                {fields.map((payment, index) => {
+                    const saved = findSaved(payment.id);
+                    const isPaid = !!saved?.paidDate;
+                    return (
+                        <div key={payment.key} className="space-y-1">
+                            <div className="grid grid-cols-1 gap-2 sm:grid-cols-[1fr_8rem_10rem_2.5rem]">
+                                <FormField
+                                    control={form.control}
+                                    name={`payments.${index}.label`}
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormControl>
+                                                <Input placeholder="e.g. Deposit" {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                                <FormField
+                                    control={form.control}
+                                    name={`payments.${index}.amount`}
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormControl>
+                                                <MoneyInput currency={currency} {...field} disabled={isPaid} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                                <FormField
+                                    control={form.control}
+                                    name={`payments.${index}.dueDate`}
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormControl>
+                                                <Input type="date" {...field}
+                                                 onChange={e => field.onChange(new Date(e.target.value))}
+                                                 value={field.value ? format(new Date(field.value), 'yyyy-MM-dd') : ''}
+                                                />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => remove(index)}
+                                    disabled={isPaid}
+                                    aria-label="Remove payment"
+                                >
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            </div>
+                            {isPaid && saved?.paidDate && (
+                                <Badge variant="secondary">Paid {format(saved.paidDate, 'MMM d, yyyy')}</Badge>
+                            )}
+                        </div>
+                    );
+                })}
+                <FormMessage>{form.formState.errors.payments?.root?.message ?? form.formState.errors.payments?.message}</FormMessage>
+                <div className="flex items-center justify-between">
+                    <Button type="button" variant="outline" size="sm" onClick={addInstallment}>
+                        <PlusCircle className="mr-2 h-4 w-4" />
+                        Add Payment
+                    </Button>
+                    <p className="text-sm">
+                        Total <span className="font-bold">{formatMoney(total, currency)}</span>
+                        {expense && total !== expense.actual && (
+                            <span className="text-muted-foreground"> (was {formatMoney(expense.actual, currency)})</span>
+                        )}
+                    </p>
+                </div>
+                {expense && currency !== baseCurrency && (
+                    <FormField
+                        control={form.control}
+                        name="exchangeRate"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Exchange Rate</FormLabel>
+                                <div className="flex items-center gap-2">
+                                    <span className="whitespace-nowrap text-sm text-muted-foreground">1 {currency} =</span>
+                                    <FormControl>
+                                        <Input type="number" step="any" {...field} className="w-32" />
+                                    </FormControl>
+                                    <span className="text-sm text-muted-foreground">{baseCurrency}</span>
+                                </div>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                )}
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">Cancel</Button>
+                    </DialogClose>
+                    <Button type="submit">Save Schedule</Button>
+                </DialogFooter>
+            </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
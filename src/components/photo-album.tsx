@@ -4,29 +4,29 @@
 import * as React from 'react';
 import Image from 'next/image';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Upload, Link as LinkIcon, Download, Copy, Gem } from 'lucide-react';
+import { Upload, Download, Gem, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useSubscription } from '@/hooks/use-subscription';
 import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { Progress } from './ui/progress';
 import { usePhotos } from '@/hooks/use-photos';
-
-const FREE_TIER_LIMIT = 10;
+import { useWedding } from '@/hooks/use-wedding';
+import { FREE_PHOTO_LIMIT } from '@/lib/photos';
+import { UploadLinks } from './upload-links';
+import { PhotoModeration } from './photo-moderation';
 
 export function PhotoAlbum() {
   const fileInputRef = React.useRef<HTMLInputElement>(null);
   const { toast } = useToast();
-  const [guestUploadLink, setGuestUploadLink] = React.useState('');
   const { isPremium, openDialog } = useSubscription();
-  const { photos, addPhoto } = usePhotos();
-
-  const limitReached = !isPremium && photos.length >= FREE_TIER_LIMIT;
+  const { photos, pendingPhotos, addPhoto } = usePhotos();
+  const { canEdit } = useWedding();
+  const [uploadProgress, setUploadProgress] = React.useState<number | null>(null);
 
-  React.useEffect(() => {
-    // Generate a unique link when the component mounts
-    setGuestUploadLink(`${window.location.origin}/guest-upload?id=${Math.random().toString(36).substring(2, 10)}`);
-  }, []);
+  // Pending guest uploads count towards the plan limit too.
+  const photoCount = photos.length + pendingPhotos.length;
+  const limitReached = !isPremium && photoCount >= FREE_PHOTO_LIMIT;
 
   const handleUploadClick = () => {
     if (limitReached) {
@@ -36,65 +36,42 @@ export function PhotoAlbum() {
     fileInputRef.current?.click();
   };
   
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (files) {
-        if (!isPremium && (photos.length + files.length) > FREE_TIER_LIMIT) {
-             toast({
-                variant: 'destructive',
-                title: 'Upload Limit Reached',
-                description: `The free plan is limited to ${FREE_TIER_LIMIT} photos. You can upgrade for unlimited uploads.`,
-            });
-            return;
-        }
-
-        Array.from(files).forEach(file => {
-            const reader = new FileReader();
-            reader.onload = (e) => {
-                if (e.target?.result) {
-                     addPhoto({
-                        src: e.target.result as string,
-                        alt: file.name,
-                        hint: 'user upload'
-                    });
-                }
-            };
-            reader.readAsDataURL(file);
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Clear the input so choosing the same file again still triggers a change.
+    event.target.value = '';
+    if (files.length === 0) return;
+    if (!isPremium && (photoCount + files.length) > FREE_PHOTO_LIMIT) {
+         toast({
+            variant: 'destructive',
+            title: 'Upload Limit Reached',
+            description: `The free plan is limited to ${FREE_PHOTO_LIMIT} photos. You can upgrade for unlimited uploads.`,
         });
+        return;
     }
-  };
 
-  const copyToClipboard = () => {
-    navigator.clipboard.writeText(guestUploadLink);
-    toast({
-        title: "Link Copied!",
-        description: "The guest upload link has been copied to your clipboard.",
-    });
+    setUploadProgress(0);
+    const failed: string[] = [];
+    for (const [index, file] of files.entries()) {
+        try {
+            await addPhoto(file, { alt: file.name, hint: 'user upload' }, fraction => setUploadProgress((index + fraction) / files.length));
+        } catch (error) {
+            console.error(`Error uploading ${file.name}:`, error);
+            failed.push(file.name);
+        }
+    }
+    setUploadProgress(null);
+    if (failed.length > 0) {
+        toast({ variant: 'destructive', title: 'Upload Error', description: `Could not upload ${failed.join(', ')}.` });
+    } else {
+        toast({ title: files.length === 1 ? 'Photo uploaded.' : `${files.length} photos uploaded.` });
+    }
   };
 
   return (
     <div>
-        <Card className="mb-8 shadow-md">
-            <CardHeader>
-                <CardTitle className="font-headline text-2xl">Share Your Album</CardTitle>
-                <CardDescription>Share the link or QR code below with your guests so they can upload their photos directly to your album!</CardDescription>
-            </CardHeader>
-            <CardContent className="flex flex-col md:flex-row items-center gap-6">
-                <div className="flex-shrink-0">
-                    <Image src={`https://api.qrserver.com/v1/create-qr-code/?size=150x150&data=${encodeURIComponent(guestUploadLink)}`} alt="QR Code for guest upload" width={150} height={150} data-ai-hint="qr code" />
-                </div>
-                <div className="flex-grow w-full space-y-4">
-                    <p className="text-sm text-muted-foreground">Your unique guest upload link:</p>
-                    <div className="flex items-center gap-2">
-                        <LinkIcon className="h-5 w-5 text-muted-foreground" />
-                        <Input value={guestUploadLink} readOnly className="bg-muted" />
-                        <Button variant="outline" size="icon" onClick={copyToClipboard}>
-                            <Copy className="h-4 w-4" />
-                        </Button>
-                    </div>
-                </div>
-            </CardContent>
-        </Card>
+        <UploadLinks />
+        {canEdit && <PhotoModeration />}
 
         <div className="flex flex-col sm:flex-row gap-4 justify-between items-start mb-8">
             <div>
@@ -103,9 +80,9 @@ export function PhotoAlbum() {
             </div>
              <div className="flex gap-2">
                 <Input type="file" ref={fileInputRef} className="hidden" accept="image/*" multiple onChange={handleFileChange} />
-                <Button variant="outline" onClick={handleUploadClick} disabled={limitReached}>
-                    <Upload className="mr-2" />
-                    Upload Your Photos
+                <Button variant="outline" onClick={handleUploadClick} disabled={limitReached || uploadProgress !== null}>
+                    {uploadProgress !== null ? <Loader2 className="mr-2 animate-spin" /> : <Upload className="mr-2" />}
+                    {uploadProgress !== null ? `Uploading ${Math.round(uploadProgress * 100)}%` : 'Upload Your Photos'}
                 </Button>
                 <Button>
                     <Download className="mr-2" />
@@ -114,6 +91,8 @@ export function PhotoAlbum() {
             </div>
         </div>
 
+        {uploadProgress !== null && <Progress value={uploadProgress * 100} className="mb-8 h-2" />}
+
         {limitReached && (
             <Alert className="mb-8">
                 <Gem className="h-4 w-4" />
@@ -127,16 +106,24 @@ export function PhotoAlbum() {
 
         <div className="columns-2 sm:columns-3 md:columns-4 lg:columns-5 gap-4 space-y-4">
             {photos.map((image) => (
-                <div key={image.id} className="overflow-hidden rounded-lg shadow-md break-inside-avoid">
-                    <Image 
-                        src={image.src} 
-                        alt={image.alt} 
-                        data-ai-hint={image.hint} 
-                        width={600} 
-                        height={600} 
-                        className="object-cover w-full h-auto hover:scale-105 transition-transform duration-300 ease-in-out" 
+                <a key={image.id} href={image.webUrl} target="_blank" rel="noopener noreferrer" className="block overflow-hidden rounded-lg shadow-md break-inside-avoid">
+                    {/* Thumbnails are already sized for the grid, so they skip the image optimizer. */}
+                    <Image
+                        src={image.thumbUrl}
+                        alt={image.alt}
+                        data-ai-hint={image.hint}
+                        width={image.width ?? 600}
+                        height={image.height ?? 600}
+                        unoptimized
+                        className="object-cover w-full h-auto hover:scale-105 transition-transform duration-300 ease-in-out"
                     />
-                </div>
+                    {(image.uploaderName || image.message) && (
+                        <div className="bg-card px-3 py-2 text-xs">
+                            {image.uploaderName && <p className="font-medium">by {image.uploaderName}</p>}
+                            {image.message && <p className="text-muted-foreground">{image.message}</p>}
+                        </div>
+                    )}
+                </a>
             ))}
         </div>
     </div>
@@ -0,0 +1,134 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { useWedding } from "@/hooks/use-wedding";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_PHOTO_MODERATION, HOLDABLE_FILE_TYPES, type PhotoModerationRules } from "@/lib/photo-moderation";
+
+interface PhotoModerationDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function PhotoModerationDialog({ open, onOpenChange }: PhotoModerationDialogProps) {
+  const { wedding, updatePhotoModeration } = useWedding();
+  const { toast } = useToast();
+  const [rules, setRules] = React.useState<PhotoModerationRules>(DEFAULT_PHOTO_MODERATION);
+  const [largerThan, setLargerThan] = React.useState("");
+  const [uploaders, setUploaders] = React.useState("");
+
+  React.useEffect(() => {
+    if (!open) return;
+    const current = wedding?.photoModeration ?? DEFAULT_PHOTO_MODERATION;
+    setRules(current);
+    setLargerThan(current.holdLargerThanMb?.toString() ?? "");
+    setUploaders(current.holdUploaders.join("\n"));
+  }, [open, wedding]);
+
+  const toggleFileType = (type: string, checked: boolean) => {
+    setRules(prev => ({
+        ...prev,
+        holdFileTypes: checked ? [...prev.holdFileTypes, type] : prev.holdFileTypes.filter(t => t !== type),
+    }));
+  };
+
+  const handleSave = async () => {
+    const size = largerThan.trim() === "" ? null : Number(largerThan);
+    if (size !== null && (!Number.isFinite(size) || size <= 0)) {
+        toast({ variant: 'destructive', title: 'Error', description: 'Enter a size in MB, or leave it blank.' });
+        return;
+    }
+    try {
+        await updatePhotoModeration({
+            ...rules,
+            holdLargerThanMb: size,
+            holdUploaders: uploaders.split("\n").map(name => name.trim()).filter(Boolean),
+        });
+        toast({ title: "Moderation rules updated." });
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not update the rules.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Photo Moderation</DialogTitle>
+          <DialogDescription>
+            Choose which guest uploads wait for your approval. Photos you upload yourself are always published.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6 py-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="hold-all">Review every guest upload</Label>
+            <Switch
+              id="hold-all"
+              checked={rules.holdAllGuestUploads}
+              onCheckedChange={checked => setRules(prev => ({ ...prev, holdAllGuestUploads: checked }))}
+            />
+          </div>
+          <fieldset disabled={rules.holdAllGuestUploads} className="space-y-4 disabled:opacity-50">
+            <p className="text-sm text-muted-foreground">Otherwise, only hold uploads that match any of these:</p>
+            <div className="space-y-2">
+              <Label>File types</Label>
+              <div className="flex flex-wrap gap-4">
+                {HOLDABLE_FILE_TYPES.map(({ type, label }) => (
+                  <div key={type} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`hold-${type}`}
+                      checked={rules.holdFileTypes.includes(type)}
+                      onCheckedChange={checked => toggleFileType(type, checked === true)}
+                      disabled={rules.holdAllGuestUploads}
+                    />
+                    <Label htmlFor={`hold-${type}`} className="font-normal">{label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="hold-size">Larger than (MB)</Label>
+              <Input id="hold-size" inputMode="decimal" placeholder="No limit" value={largerThan} onChange={e => setLargerThan(e.target.value)} />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="hold-anonymous"
+                checked={rules.holdAnonymous}
+                onCheckedChange={checked => setRules(prev => ({ ...prev, holdAnonymous: checked === true }))}
+                disabled={rules.holdAllGuestUploads}
+              />
+              <Label htmlFor="hold-anonymous" className="font-normal">Guests who don&apos;t leave their name</Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="hold-uploaders">Uploaders (one name per line)</Label>
+              <Textarea id="hold-uploaders" rows={3} value={uploaders} onChange={e => setUploaders(e.target.value)} />
+            </div>
+          </fieldset>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="secondary">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleSave}>Save Rules</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import * as React from 'react';
+import Image from 'next/image';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Check, Settings2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { usePhotos } from '@/hooks/use-photos';
+import { PhotoModerationDialog } from './photo-moderation-dialog';
+
+/** Guest uploads waiting for the couple's approval before they join the album. */
+export function PhotoModeration() {
+  const { pendingPhotos, approvePhotos, rejectPhotos } = usePhotos();
+  const { toast } = useToast();
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+  const [isRulesOpen, setIsRulesOpen] = React.useState(false);
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  // Drop selections for photos another editor has already handled.
+  React.useEffect(() => {
+    setSelected(prev => {
+      const pendingIds = new Set(pendingPhotos.map(p => p.id));
+      const next = new Set([...prev].filter(id => pendingIds.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [pendingPhotos]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+
+  const moderate = async (action: 'approve' | 'reject', ids: string[]) => {
+    if (ids.length === 0) return;
+    setIsWorking(true);
+    try {
+        if (action === 'approve') {
+            await approvePhotos(ids);
+        } else {
+            await rejectPhotos(ids);
+        }
+        const count = ids.length === 1 ? 'Photo' : `${ids.length} photos`;
+        toast({ title: action === 'approve' ? `${count} approved.` : `${count} rejected and deleted.` });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Could not update the photos.';
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    } finally {
+        setIsWorking(false);
+    }
+  };
+
+  const selectedIds = [...selected];
+
+  return (
+    <Card className="mb-8 shadow-md">
+      <CardHeader className="flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle className="font-headline text-2xl">Waiting for Approval ({pendingPhotos.length})</CardTitle>
+          <CardDescription>Guest uploads appear in your album once you approve them. Rejected photos are deleted.</CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setIsRulesOpen(true)}>
+          <Settings2 className="mr-2 h-4 w-4" />
+          Rules
+        </Button>
+      </CardHeader>
+      {pendingPhotos.length > 0 && (
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Button size="sm" onClick={() => moderate('approve', pendingPhotos.map(p => p.id))} disabled={isWorking}>
+              <Check className="mr-2 h-4 w-4" />
+              Approve All
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => moderate('approve', selectedIds)} disabled={isWorking || selected.size === 0}>
+              Approve Selected ({selected.size})
+            </Button>
+            <Button size="sm" variant="outline" className="text-destructive" onClick={() => moderate('reject', selectedIds)} disabled={isWorking || selected.size === 0}>
+              Reject Selected
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6">
+            {pendingPhotos.map(photo => (
+              <div key={photo.id} className="space-y-2 rounded-lg border p-2">
+                <div className="relative">
+                  <a href={photo.webUrl} target="_blank" rel="noopener noreferrer">
+                    <Image
+                      src={photo.thumbUrl}
+                      alt={photo.alt}
+                      width={photo.width ?? 300}
+                      height={photo.height ?? 300}
+                      unoptimized
+                      className="aspect-square w-full rounded-md object-cover"
+                    />
+                  </a>
+                  <Checkbox
+                    checked={selected.has(photo.id)}
+                    onCheckedChange={checked => toggle(photo.id, checked === true)}
+                    aria-label={`Select ${photo.alt}`}
+                    className="absolute left-2 top-2 bg-white"
+                  />
+                </div>
+                <div className="text-xs">
+                  <p className="truncate font-medium">{photo.uploaderName ?? 'Anonymous guest'}</p>
+                  <p className="text-muted-foreground">{formatDistanceToNow(photo.createdAt, { addSuffix: true })}</p>
+                  {photo.message && <p className="line-clamp-2 text-muted-foreground">{photo.message}</p>}
+                  {photo.holdReason && <Badge variant="outline" className="mt-1">{photo.holdReason}</Badge>}
+                </div>
+                <div className="flex gap-1">
+                  <Button size="sm" variant="outline" className="flex-1" onClick={() => moderate('approve', [photo.id])} disabled={isWorking} aria-label="Approve">
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" className="flex-1 text-destructive" onClick={() => moderate('reject', [photo.id])} disabled={isWorking} aria-label="Reject">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      )}
+      <PhotoModerationDialog open={isRulesOpen} onOpenChange={setIsRulesOpen} />
+    </Card>
+  );
+}
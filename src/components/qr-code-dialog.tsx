@@ -0,0 +1,74 @@
+"use client";
+
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/csv';
+import { encodeQrCode, qrCodeToPng, qrCodeToSvg } from '@/lib/qr-code';
+import { QrCodeSvg } from './qr-code';
+
+interface QrCodeDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    title: string;
+    description: string;
+    value: string;
+    /** Download name without extension. */
+    fileName: string;
+    /** Extra actions shown beside the downloads. */
+    children?: React.ReactNode;
+}
+
+export function QrCodeDialog({ open, onOpenChange, title, description, value, fileName, children }: QrCodeDialogProps) {
+  const { toast } = useToast();
+
+  const downloadSvg = () => {
+    downloadFile(`${fileName}.svg`, qrCodeToSvg(encodeQrCode(value)), 'image/svg+xml');
+  };
+
+  const downloadPng = async () => {
+    try {
+        downloadFile(`${fileName}.png`, await qrCodeToPng(encodeQrCode(value), 20));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Could not create the image.';
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        {value && (
+          <div className="flex flex-col items-center gap-4 py-4">
+            <QrCodeSvg value={value} title={title} className="h-60 w-60" />
+            <p className="break-all text-center text-xs text-muted-foreground">{value}</p>
+          </div>
+        )}
+        <DialogFooter className="gap-2 sm:justify-center">
+          <Button type="button" variant="outline" onClick={downloadSvg} disabled={!value}>
+            <Download className="mr-2 h-4 w-4" />
+            SVG
+          </Button>
+          <Button type="button" variant="outline" onClick={downloadPng} disabled={!value}>
+            <Download className="mr-2 h-4 w-4" />
+            PNG
+          </Button>
+          {children}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
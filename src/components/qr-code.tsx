@@ -0,0 +1,42 @@
+"use client";
+
+import * as React from 'react';
+import { encodeQrCode, qrCodePath, qrLogoBox, type QrErrorCorrection } from '@/lib/qr-code';
+
+interface QrCodeSvgProps {
+    value: string;
+    /** Defaults to 'H' with a logo and 'M' without. */
+    errorCorrection?: QrErrorCorrection;
+    logo?: { href: string; scale?: number };
+    className?: string;
+    title?: string;
+}
+
+/** A QR code drawn as inline SVG, so it stays sharp at any size and in print. */
+export function QrCodeSvg({ value, errorCorrection, logo, className, title }: QrCodeSvgProps) {
+  const level = errorCorrection ?? (logo ? 'H' : 'M');
+  const qr = React.useMemo(() => encodeQrCode(value, level), [value, level]);
+  const margin = 4;
+  const dimension = qr.size + margin * 2;
+  const box = logo ? qrLogoBox(qr, margin, logo.scale) : null;
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={title ?? 'QR code'}
+      className={className}
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={qrCodePath(qr, margin)} fill="#000000" />
+      {logo && box && (
+        <>
+          <rect x={box.x - box.padding} y={box.y - box.padding} width={box.size + box.padding * 2} height={box.size + box.padding * 2} fill="#ffffff" />
+          <image href={logo.href} x={box.x} y={box.y} width={box.size} height={box.size} preserveAspectRatio="xMidYMid meet" />
+        </>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { format } from "date-fns";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2 } from "lucide-react";
+import { useBudget, type Expense, type Installment } from "@/hooks/use-budget";
+import { useToast } from "@/hooks/use-toast";
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from "@/lib/payments";
+import { validateAttachment } from "@/lib/attachments";
+import { formatMoney } from "@/lib/currency";
+
+const recordSchema = z.object({
+    paidDate: z.coerce.date(),
+    method: z.enum(PAYMENT_METHODS),
+    receipt: z.instanceof(File).nullable().refine(file => !file || validateAttachment(file) === null, "Receipts must be a PDF or image under 10 MB"),
+});
+
+type RecordFormValues = z.infer<typeof recordSchema>;
+
+interface RecordPaymentDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    expense: Expense | null;
+    installment: Installment | null;
+}
+
+export function RecordPaymentDialog({ open, onOpenChange, expense, installment }: RecordPaymentDialogProps) {
+  const { recordPayment } = useBudget();
+  const { toast } = useToast();
+
+  const form = useForm<RecordFormValues>({
+    resolver: zodResolver(recordSchema),
+    defaultValues: { paidDate: new Date(), method: 'card', receipt: null },
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset({ paidDate: new Date(), method: installment?.method ?? 'card', receipt: null });
+  }, [open, installment, form]);
+
+  async function onSave(values: RecordFormValues) {
+    if (!expense || !installment) return;
+    try {
+        await recordPayment(expense.id, installment.id, values);
+        toast({
+            title: "Payment recorded.",
+            description: `${formatMoney(installment.amount, expense.currency)} to ${expense.vendor || expense.category} marked as paid.`,
+        });
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not record the payment.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          {expense && installment && (
+            <DialogDescription>
+              {installment.label || 'Payment'} of {formatMoney(installment.amount, expense.currency)} to {expense.vendor || expense.category}, due {format(installment.dueDate, 'MMM d, yyyy')}.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSave)} className="space-y-4 py-4">
+                <FormField
+                    control={form.control}
+                    name="paidDate"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Paid On</FormLabel>
+                            <FormControl>
+                                <Input type="date" {...field}
+                                 onChange={e => field.onChange(new Date(e.target.value))}
+                                 value={field.value ? format(field.value, 'yyyy-MM-dd') : ''}
+                                />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="method"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Method</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                    {PAYMENT_METHODS.map(method => (
+                                        <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="receipt"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Receipt (optional)</FormLabel>
+                            <FormControl>
+                                <Input
+                                    type="file"
+                                    accept="application/pdf,image/*"
+                                    onChange={e => field.onChange(e.target.files?.[0] ?? null)}
+                                />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">Cancel</Button>
+                    </DialogClose>
+                    <Button type="submit" disabled={form.formState.isSubmitting}>
+                        {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Mark as Paid
+                    </Button>
+                </DialogFooter>
+            </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,53 +1,255 @@
-
 "use client";
 
 import * as React from 'react';
-import { seatingChartSuggestions, type SeatingChartSuggestionsOutput } from '@/ai/flows/seating-chart-suggestions';
+import Link from 'next/link';
+import { seatingChartSuggestions } from '@/ai/flows/seating-chart-suggestions';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Wand2, Armchair, Gem } from 'lucide-react';
+import { Loader2, Wand2, Armchair, Gem, Lock, MoreHorizontal, Pencil, PlusCircle, Printer, Redo2, Save, Settings2, Shuffle, Trash2, Undo2, X } from 'lucide-react';
 import { Badge } from './ui/badge';
 import { useSubscription } from '@/hooks/use-subscription';
+import { useGuests, type Guest } from '@/hooks/use-guests';
+import { useSeating, type SeatAssignment, type SeatingAssignments, type SeatingTable, type TableLayout, type TableLayouts } from '@/hooks/use-seating';
+import { useDraftHistory } from '@/hooks/use-draft-history';
+import { useWedding } from '@/hooks/use-wedding';
+import {
+  applyTableLayouts,
+  assignmentsFromChart,
+  changedAssignments,
+  changedTableLayouts,
+  currentAssignments,
+  isSeatLocked,
+  lockedAssignments,
+  placeGuest,
+  seatableGuests,
+  seatGuests,
+  summarizeSeating,
+  tableLabel,
+  tableLayouts,
+  UNSEATED,
+} from '@/lib/seating';
+import { DEFAULT_SOLVER_OPTIONS, evaluateSeating, solveSeating, type SeatingSolverOptions } from '@/lib/seating-solver';
+import { TableDialog } from './table-dialog';
+import { SeatingFloorPlan } from './seating-floor-plan';
+import { SeatingIssues } from './seating-issues';
+import { SeatingRulesDialog } from './seating-rules-dialog';
+import { SeatingSolverDialog, type SolverStart } from './seating-solver-dialog';
+
+const UNSEATED_VALUE = 'unseated';
 
-const guests = [
-  { name: 'Alice Johnson', group: "Bride's Family" },
-  { name: 'Bob Williams', group: "Bride's Family" },
-  { name: 'Charlie Brown', group: "Groom's Friends" },
-  { name: 'Diana Miller', group: "Bride's Friends" },
-  { name: 'Ethan Davis', group: "Groom's Family" },
-  { name: 'Fiona Garcia', group: 'Work Colleagues' },
-  { name: 'George Rodriguez', group: 'Work Colleagues' },
-  { name: 'Hannah Smith', group: "Groom's Family" },
-  { name: 'Ian Taylor', group: "Bride's Friends" },
-  { name: 'Jane Wilson', group: "Groom's Friends" },
-  { name: 'Karen Moore', group: "Bride's Family" },
-  { name: 'Leo Anderson', group: "Groom's Family" },
+const PRINTABLES = [
+  { href: '/dashboard/escort-cards', label: 'Escort Cards' },
+  { href: '/dashboard/place-cards', label: 'Place Cards' },
+  { href: '/dashboard/seating-poster', label: 'Seating Poster' },
+  { href: '/dashboard/caterer-sheet', label: "Caterer's Table Sheet" },
 ];
 
+/** Unsaved seating: where guests sit, and where tables stand with which seats locked. */
+interface SeatingDraft {
+  assignments: SeatingAssignments;
+  layouts: TableLayouts;
+}
+
+interface GuestSeatProps {
+  guest: Guest;
+  table: number | null;
+  tables: SeatingTable[];
+  disabled: boolean;
+  locked?: boolean;
+  onMove: (table: number | null) => void;
+}
+
+function GuestSeat({ guest, table, tables, disabled, locked = false, onMove }: GuestSeatProps) {
+  return (
+    <li className="flex items-center justify-between gap-2">
+      <div className="min-w-0">
+        <p className="flex items-center gap-1 truncate">
+          {locked && <Lock className="h-3.5 w-3.5 shrink-0 text-primary" aria-label="Locked seat" />}
+          {guest.name}
+        </p>
+        {guest.group && <Badge variant="secondary" className="mt-1">{guest.group}</Badge>}
+      </div>
+      <Select
+        value={table === null ? UNSEATED_VALUE : String(table)}
+        onValueChange={value => onMove(value === UNSEATED_VALUE ? null : Number(value))}
+        disabled={disabled || locked}
+      >
+        <SelectTrigger className="h-8 w-32 shrink-0" aria-label={`Table for ${guest.name}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNSEATED_VALUE}>Unseated</SelectItem>
+          {tables.map(t => (
+            <SelectItem key={t.id} value={String(t.number)}>{tableLabel(t)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </li>
+  );
+}
+
 export function SeatingChart() {
-  const [seatingChart, setSeatingChart] = React.useState<SeatingChartSuggestionsOutput['seatingChart'] | null>(null);
-  const [isLoading, setIsLoading] = React.useState(false);
-  const { toast } = useToast();
+  const { guests } = useGuests();
+  const { tables: savedTables, rules, deleteTable, saveAssignments, saveTableLayouts } = useSeating();
+  const { canEdit } = useWedding();
   const { isPremium, openDialog } = useSubscription();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [isTableDialogOpen, setIsTableDialogOpen] = React.useState(false);
+  const [editingTable, setEditingTable] = React.useState<SeatingTable | null>(null);
+  const [isRulesOpen, setIsRulesOpen] = React.useState(false);
+  const [isSolverOpen, setIsSolverOpen] = React.useState(false);
+  const [solverOptions, setSolverOptions] = React.useState<SeatingSolverOptions>(DEFAULT_SOLVER_OPTIONS);
+
+  const confirmed = React.useMemo(() => seatableGuests(guests), [guests]);
+  const guestsById = React.useMemo(() => new Map(confirmed.map(g => [g.id, g])), [confirmed]);
+  const saved = React.useMemo<SeatingDraft>(() => ({
+    assignments: seatGuests(savedTables, currentAssignments(guests)),
+    layouts: tableLayouts(savedTables),
+  }), [savedTables, guests]);
+  const history = useDraftHistory<SeatingDraft>(saved);
+  const { isDraft, undo, redo, reset } = history;
+  const { layouts } = history.value;
+  const tables = React.useMemo(
+    () => (isDraft ? applyTableLayouts(savedTables, layouts) : savedTables),
+    [isDraft, savedTables, layouts],
+  );
+  // Guests who confirm while a draft is open join it unseated; those who decline leave it.
+  const assignments = React.useMemo(
+    () => (isDraft ? Object.fromEntries(confirmed.map(g => [g.id, history.value.assignments[g.id] ?? UNSEATED])) : saved.assignments),
+    [isDraft, history.value.assignments, saved.assignments, confirmed],
+  );
+  const { occupancy, unseated, seats } = React.useMemo(() => summarizeSeating(tables, assignments), [tables, assignments]);
+  const pendingChanges = React.useMemo(
+    () => (isDraft ? changedAssignments(guests, assignments).length + changedTableLayouts(savedTables, layouts).length : 0),
+    [isDraft, guests, assignments, savedTables, layouts],
+  );
+  const evaluation = React.useMemo(
+    () => evaluateSeating(guests, tables, rules, assignments, solverOptions),
+    [guests, tables, rules, assignments, solverOptions],
+  );
+  const tablesByNumber = React.useMemo(() => new Map(tables.map(t => [t.number, t])), [tables]);
+
+  const byName = (ids: string[]) =>
+    ids.map(id => guestsById.get(id)).filter((g): g is Guest => !!g).sort((a, b) => a.name.localeCompare(b.name));
+
+  const isLocked = ({ table, seat }: SeatAssignment) => {
+    const seatingTable = table === null ? undefined : tablesByNumber.get(table);
+    return !!seatingTable && isSeatLocked(seatingTable, seat);
+  };
+
+  const setAssignments = (next: SeatingAssignments) => history.set({ assignments: next, layouts });
+
+  const moveGuest = (guestId: string, to: SeatAssignment) => {
+    setAssignments(placeGuest(tables, assignments, guestId, to));
+  };
+
+  const layoutTable = (table: SeatingTable, layout: Partial<TableLayout>) => {
+    const current = { x: table.x, y: table.y, lockedSeats: table.lockedSeats };
+    history.set({ assignments, layouts: { ...layouts, [table.id]: { ...current, ...layout } } });
+  };
+
+  React.useEffect(() => {
+    if (!canEdit) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+        const target = event.target as HTMLElement | null;
+        if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+        if (!(event.metaKey || event.ctrlKey)) return;
+        const key = event.key.toLowerCase();
+        if (key === 'z' && !event.shiftKey) {
+            event.preventDefault();
+            undo();
+        } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+            event.preventDefault();
+            redo();
+        }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [canEdit, undo, redo]);
+
+  const openTableDialog = (table: SeatingTable | null) => {
+    setEditingTable(table);
+    setIsTableDialogOpen(true);
+  };
+
+  const handleDeleteTable = async (table: SeatingTable) => {
+    try {
+        await deleteTable(table.id);
+        toast({ title: `${tableLabel(table)} removed.`, description: 'Its guests are now unseated.' });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Could not remove the table.';
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+        const moved = await saveAssignments(assignments);
+        const changedTables = await saveTableLayouts(layouts);
+        reset();
+        const summary = [
+            moved > 0 && `${moved} guest${moved === 1 ? '' : 's'} moved`,
+            changedTables > 0 && `${changedTables} table${changedTables === 1 ? '' : 's'} updated`,
+        ];
+        toast({ title: 'Seating saved.', description: `${summary.filter(Boolean).join(', ')}.` });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Could not save the seating.';
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  // Guests in locked seats stay put; the suggestion only fills the seats around them.
+  const fetchAiSuggestion = async (locked: SeatingAssignments) => {
+    const lockedPerTable = new Map<number, number>();
+    Object.values(locked).forEach(({ table }) => {
+        if (table !== null) lockedPerTable.set(table, (lockedPerTable.get(table) ?? 0) + 1);
+    });
+    const result = await seatingChartSuggestions({
+        guests: confirmed.filter(g => !(g.id in locked)).map(g => ({ name: g.name, group: g.group })),
+        tables: tables
+            .map(t => ({ table: t.number, capacity: t.capacity - (lockedPerTable.get(t.number) ?? 0) }))
+            .filter(t => t.capacity > 0),
+    });
+    return assignmentsFromChart(result.seatingChart, guests, tables, locked);
+  };
+
+  const hasSomethingToSeat = () => {
+    if (tables.length > 0 && confirmed.length > 0) return true;
+    toast({ variant: 'destructive', title: 'Nothing to seat', description: 'Add tables and confirm some guests first.' });
+    return false;
+  };
 
   const handleGenerateChart = async () => {
     if (!isPremium) {
         openDialog();
         return;
     }
+    if (!hasSomethingToSeat()) return;
     setIsLoading(true);
-    setSeatingChart(null);
     try {
-      const uniqueGroups = [...new Set(guests.map(g => g.group))];
-      const tableCount = uniqueGroups.length;
-
-      const result = await seatingChartSuggestions({
-        guests: guests.map(g => ({ name: g.name, group: g.group })),
-        tables: tableCount,
-        guestsPerTable: 6,
+      const suggested = await fetchAiSuggestion(lockedAssignments(tables, assignments));
+      setAssignments(suggested);
+      const left = Object.values(suggested).filter(({ seat }) => seat === null).length;
+      toast({
+        title: 'Suggestion ready.',
+        description: `Review it, then save.${left > 0 ? ` ${left} guest${left === 1 ? ' was' : 's were'} left unseated.` : ''}`,
       });
-      setSeatingChart(result.seatingChart);
     } catch (error) {
       console.error('AI Seating Chart Error:', error);
       toast({
@@ -60,77 +262,214 @@ export function SeatingChart() {
     }
   };
 
+  const handleArrange = async (start: SolverStart, options: SeatingSolverOptions) => {
+    if (start === 'ai' && !isPremium) {
+        openDialog();
+        return;
+    }
+    if (!hasSomethingToSeat()) return;
+    const locked = lockedAssignments(tables, assignments);
+    try {
+        const base = start === 'current' ? assignments : start === 'ai' ? await fetchAiSuggestion(locked) : locked;
+        // Let the dialog show its spinner before the solver takes over the main thread.
+        await new Promise(resolve => setTimeout(resolve, 0));
+        const arranged = solveSeating({ guests, tables, rules, start: base, options });
+        const before = evaluateSeating(guests, tables, rules, assignments, options).score;
+        const after = evaluateSeating(guests, tables, rules, arranged, options);
+        setSolverOptions(options);
+        setAssignments(arranged);
+        setIsSolverOpen(false);
+        toast({
+            title: 'Seating arranged.',
+            description: `Score ${Math.round(before)} → ${Math.round(after.score)} with ${after.violations.length} issue${after.violations.length === 1 ? '' : 's'} left. Review it, then save.`,
+        });
+    } catch (error) {
+        console.error('Seating solver error:', error);
+        const message = error instanceof Error ? error.message : 'Could not arrange the seating.';
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
   return (
     <div>
         <div className="flex flex-col sm:flex-row gap-4 justify-between items-start mb-8">
             <div>
-                <h2 className="text-4xl font-headline text-gray-800">AI Seating Assistant</h2>
-                <p className="text-muted-foreground">Let AI help you arrange the perfect seating plan.</p>
+                <h2 className="text-4xl font-headline text-gray-800">Seating Chart</h2>
+                <p className="text-muted-foreground">
+                    {confirmed.length} confirmed guests &middot; {seats} seats at {tables.length} tables &middot; {unseated.length} unseated
+                </p>
             </div>
-            <Button onClick={handleGenerateChart} disabled={isLoading || !isPremium} size="lg">
-                {isLoading ? (
-                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                ) : (
-                    <Wand2 className="mr-2 h-5 w-5" />
+            <div className="flex flex-wrap gap-2">
+                {canEdit && tables.length > 0 && (
+                    <div className="flex">
+                        <Button variant="outline" size="icon" className="rounded-r-none" onClick={undo} disabled={!history.canUndo || isSaving} aria-label="Undo" title="Undo (Ctrl+Z)">
+                            <Undo2 className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="icon" className="-ml-px rounded-l-none" onClick={redo} disabled={!history.canRedo || isSaving} aria-label="Redo" title="Redo (Ctrl+Shift+Z)">
+                            <Redo2 className="h-4 w-4" />
+                        </Button>
+                    </div>
                 )}
-                Generate Seating Chart
-            </Button>
-        </div>
-
-        {!isPremium && (
-            <Card className="text-center py-20 px-6 bg-muted/20 border-dashed border-2 mb-8">
-                <Gem className="mx-auto h-12 w-12 text-primary/50" />
-                <h3 className="mt-4 text-xl font-semibold">Unlock the AI Seating Assistant</h3>
-                <p className="mt-2 text-muted-foreground">Upgrade to our Pro plan to automatically generate seating charts based on your guest list and groups.</p>
-                <Button onClick={openDialog} className="mt-4">
-                    <Gem className="mr-2 h-4 w-4" />
-                    Upgrade to Pro
+                {isDraft && (
+                    <>
+                        <Button variant="outline" onClick={reset} disabled={isSaving}>
+                            <X className="mr-2 h-4 w-4" />
+                            Discard
+                        </Button>
+                        <Button onClick={handleSave} disabled={isSaving || pendingChanges === 0}>
+                            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                            Save Seating{pendingChanges > 0 && ` (${pendingChanges})`}
+                        </Button>
+                    </>
+                )}
+                <Button variant="outline" onClick={() => openTableDialog(null)} disabled={!canEdit}>
+                    <PlusCircle className="mr-2 h-4 w-4" />
+                    Add Tables
+                </Button>
+                <Button variant="outline" onClick={() => setIsRulesOpen(true)} disabled={!canEdit}>
+                    <Settings2 className="mr-2 h-4 w-4" />
+                    Rules{rules.length > 0 && ` (${rules.length})`}
+                </Button>
+                <Button variant="outline" onClick={() => setIsSolverOpen(true)} disabled={!canEdit}>
+                    <Shuffle className="mr-2 h-4 w-4" />
+                    Auto-Arrange
+                </Button>
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="outline" disabled={tables.length === 0}>
+                            <Printer className="mr-2 h-4 w-4" />
+                            Print
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                        {isDraft && (
+                            <>
+                                <DropdownMenuLabel className="max-w-56 font-normal text-muted-foreground">
+                                    Prints use your saved seating. Save your changes first to include them.
+                                </DropdownMenuLabel>
+                                <DropdownMenuSeparator />
+                            </>
+                        )}
+                        {PRINTABLES.map(({ href, label }) => (
+                            <DropdownMenuItem key={href} asChild>
+                                <Link href={href} target="_blank">{label}</Link>
+                            </DropdownMenuItem>
+                        ))}
+                    </DropdownMenuContent>
+                </DropdownMenu>
+                <Button onClick={handleGenerateChart} disabled={isLoading || !canEdit}>
+                    {isLoading ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : isPremium ? (
+                        <Wand2 className="mr-2 h-4 w-4" />
+                    ) : (
+                        <Gem className="mr-2 h-4 w-4" />
+                    )}
+                    Suggest with AI
                 </Button>
-            </Card>
-        )}
-
-        {isLoading && (
-            <div className="text-center p-8">
-                <Loader2 className="mx-auto h-12 w-12 text-primary animate-spin" />
-                <p className="mt-4 text-muted-foreground">Analyzing guest list and arranging tables...</p>
             </div>
-        )}
+        </div>
 
-        {seatingChart && isPremium ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {seatingChart.map((table) => (
-                    <Card key={table.table} className="shadow-lg">
-                        <CardHeader>
-                            <CardTitle className="flex items-center gap-3 font-headline text-2xl">
-                                <Armchair className="h-6 w-6 text-primary" />
-                                Table {table.table}
-                            </CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                            <ul className="space-y-3">
-                                {table.guests.map((guestName) => {
-                                    const guestInfo = guests.find(g => g.name === guestName);
-                                    return (
-                                        <li key={guestName} className="flex items-center justify-between">
-                                            <span>{guestName}</span>
-                                            {guestInfo && <Badge variant="secondary">{guestInfo.group}</Badge>}
-                                        </li>
-                                    );
-                                })}
-                            </ul>
-                        </CardContent>
-                    </Card>
-                ))}
-            </div>
+        {tables.length === 0 ? (
+            <Card className="text-center py-20 px-6 bg-muted/20 border-dashed border-2">
+                <Armchair className="mx-auto h-12 w-12 text-muted-foreground" />
+                <h3 className="mt-4 text-xl font-semibold">Set up your tables</h3>
+                <p className="mt-2 text-muted-foreground">Add the tables at your venue and how many guests each one seats, then place your confirmed guests.</p>
+            </Card>
         ) : (
-            !isLoading && isPremium && (
-                 <Card className="text-center py-20 px-6 bg-muted/20 border-dashed border-2">
-                    <Armchair className="mx-auto h-12 w-12 text-muted-foreground" />
-                    <h3 className="mt-4 text-xl font-semibold">Ready to create your seating plan?</h3>
-                    <p className="mt-2 text-muted-foreground">Click the "Generate Seating Chart" button to get started.</p>
-                </Card>
-            )
+            <>
+                <SeatingIssues evaluation={evaluation} />
+                <Tabs defaultValue="floor-plan">
+                    <TabsList className="mb-6">
+                        <TabsTrigger value="floor-plan">Floor Plan</TabsTrigger>
+                        <TabsTrigger value="tables">Tables</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="floor-plan">
+                        <SeatingFloorPlan
+                            tables={tables}
+                            occupancy={occupancy}
+                            unseated={unseated}
+                            assignments={assignments}
+                            guestsById={guestsById}
+                            canEdit={canEdit}
+                            onPlace={moveGuest}
+                            onLayoutTable={layoutTable}
+                            onEditTable={openTableDialog}
+                            onDeleteTable={handleDeleteTable}
+                        />
+                    </TabsContent>
+                    <TabsContent value="tables">
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                            <Card className="shadow-lg border-dashed">
+                                <CardHeader>
+                                    <CardTitle className="font-headline text-2xl">Unseated</CardTitle>
+                                    <CardDescription>{unseated.length} confirmed guest{unseated.length === 1 ? '' : 's'} without a table.</CardDescription>
+                                </CardHeader>
+                                <CardContent>
+                                    <ul className="space-y-3">
+                                        {byName(unseated).map(guest => (
+                                            <GuestSeat key={guest.id} guest={guest} table={null} tables={tables} disabled={!canEdit} onMove={table => moveGuest(guest.id, { table, seat: null })} />
+                                        ))}
+                                    </ul>
+                                </CardContent>
+                            </Card>
+                            {occupancy.map(({ table, guestIds, overCapacity }) => (
+                                <Card key={table.id} className="shadow-lg">
+                                    <CardHeader className="flex-row items-start justify-between space-y-0">
+                                        <div>
+                                            <CardTitle className="flex items-center gap-3 font-headline text-2xl">
+                                                <Armchair className="h-6 w-6 text-primary" />
+                                                {tableLabel(table)}
+                                            </CardTitle>
+                                            <CardDescription className={overCapacity ? 'text-destructive' : undefined}>
+                                                {guestIds.length} of {table.capacity} seats{overCapacity && ' — over capacity'}
+                                            </CardDescription>
+                                        </div>
+                                        {canEdit && (
+                                            <DropdownMenu>
+                                                <DropdownMenuTrigger asChild>
+                                                    <Button variant="ghost" size="icon" aria-label={`Actions for ${tableLabel(table)}`}>
+                                                        <MoreHorizontal className="h-4 w-4" />
+                                                    </Button>
+                                                </DropdownMenuTrigger>
+                                                <DropdownMenuContent align="end">
+                                                    <DropdownMenuItem onClick={() => openTableDialog(table)}>
+                                                        <Pencil className="mr-2 h-4 w-4" />
+                                                        Edit
+                                                    </DropdownMenuItem>
+                                                    <DropdownMenuItem onClick={() => handleDeleteTable(table)} className="text-destructive">
+                                                        <Trash2 className="mr-2 h-4 w-4" />
+                                                        Remove
+                                                    </DropdownMenuItem>
+                                                </DropdownMenuContent>
+                                            </DropdownMenu>
+                                        )}
+                                    </CardHeader>
+                                    <CardContent>
+                                        <ul className="space-y-3">
+                                            {byName(guestIds).map(guest => (
+                                                <GuestSeat
+                                                    key={guest.id}
+                                                    guest={guest}
+                                                    table={table.number}
+                                                    tables={tables}
+                                                    disabled={!canEdit}
+                                                    locked={isLocked(assignments[guest.id])}
+                                                    onMove={number => moveGuest(guest.id, { table: number, seat: null })}
+                                                />
+                                            ))}
+                                        </ul>
+                                    </CardContent>
+                                </Card>
+                            ))}
+                        </div>
+                    </TabsContent>
+                </Tabs>
+            </>
         )}
+        <TableDialog open={isTableDialogOpen} onOpenChange={setIsTableDialogOpen} table={editingTable} />
+        <SeatingRulesDialog open={isRulesOpen} onOpenChange={setIsRulesOpen} />
+        <SeatingSolverDialog open={isSolverOpen} onOpenChange={setIsSolverOpen} isPremium={isPremium} onArrange={handleArrange} />
     </div>
   );
 }
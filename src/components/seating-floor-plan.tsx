@@ -0,0 +1,378 @@
+"use client";
+
+import * as React from 'react';
+import { DragDropContext, Droppable, Draggable, DropResult } from 'react-beautiful-dnd';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Lock, LockOpen, Pencil, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SeatAssignment, SeatingAssignments, SeatingTable, TableLayout } from '@/hooks/use-seating';
+import type { Guest } from '@/hooks/use-guests';
+import {
+  isSeatLocked,
+  tableLabel,
+  TABLE_SHAPE_LABELS,
+  UNSEATED,
+  type TableOccupancy,
+} from '@/lib/seating';
+import {
+  clampToFloor,
+  FLOOR_HEIGHT,
+  FLOOR_WIDTH,
+  SEAT_SIZE,
+  tableGeometry,
+  tablePosition,
+  type Point,
+} from '@/lib/floor-plan';
+
+const UNSEATED_LIST = 'unseated';
+const seatDroppableId = (table: number, seat: number) => `seat:${table}:${seat}`;
+
+function parseDroppableId(droppableId: string): SeatAssignment | null {
+  if (droppableId === UNSEATED_LIST) return UNSEATED;
+  const [kind, table, seat] = droppableId.split(':');
+  if (kind !== 'seat') return null;
+  return { table: Number(table), seat: Number(seat) };
+}
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+interface TableMove {
+  tableId: string;
+  pointerX: number;
+  pointerY: number;
+  origin: Point;
+  moved: boolean;
+}
+
+interface SeatingFloorPlanProps {
+  tables: SeatingTable[];
+  occupancy: TableOccupancy[];
+  unseated: string[];
+  assignments: SeatingAssignments;
+  guestsById: Map<string, Guest>;
+  canEdit: boolean;
+  onPlace: (guestId: string, to: SeatAssignment) => void;
+  /** Moves a table or changes its locked seats in the draft. */
+  onLayoutTable: (table: SeatingTable, layout: Partial<TableLayout>) => void;
+  onEditTable: (table: SeatingTable) => void;
+  onDeleteTable: (table: SeatingTable) => void;
+}
+
+/** Tables laid out as in the room; guests are dragged from the waiting list onto seats. */
+export function SeatingFloorPlan({
+  tables,
+  occupancy,
+  unseated,
+  assignments,
+  guestsById,
+  canEdit,
+  onPlace,
+  onLayoutTable,
+  onEditTable,
+  onDeleteTable,
+}: SeatingFloorPlanProps) {
+  const [selectedTableId, setSelectedTableId] = React.useState<string | null>(null);
+  const [movingTo, setMovingTo] = React.useState<{ tableId: string; point: Point } | null>(null);
+  const moveRef = React.useRef<TableMove | null>(null);
+
+  const positions = React.useMemo(
+    () => new Map(tables.map((table, index) => [table.id, tablePosition(table, index)])),
+    [tables],
+  );
+  const selected = occupancy.find(o => o.table.id === selectedTableId) ?? null;
+
+  // Guests at a full table have nowhere to sit yet, so they wait alongside the unseated.
+  const waiting = React.useMemo(() => {
+    const overflow = occupancy.flatMap(({ table, overflow }) => overflow.map(guestId => ({ guestId, table })));
+    return [...unseated.map(guestId => ({ guestId, table: null as SeatingTable | null })), ...overflow]
+      .filter(({ guestId }) => guestsById.has(guestId))
+      .sort((a, b) => (guestsById.get(a.guestId)?.name ?? '').localeCompare(guestsById.get(b.guestId)?.name ?? ''));
+  }, [occupancy, unseated, guestsById]);
+
+  const onDragEnd = (result: DropResult) => {
+    const { draggableId, destination } = result;
+    if (!destination) return;
+    const to = parseDroppableId(destination.droppableId);
+    const from = assignments[draggableId];
+    if (!to || !from) return;
+    if (to.table === null && from.table === null) return;
+    if (to.table === from.table && to.seat === from.seat) return;
+    onPlace(draggableId, to);
+  };
+
+  const startTableMove = (event: React.PointerEvent<HTMLDivElement>, table: SeatingTable) => {
+    if (event.button !== 0) return;
+    if (!canEdit) {
+        setSelectedTableId(table.id);
+        return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    moveRef.current = {
+        tableId: table.id,
+        pointerX: event.clientX,
+        pointerY: event.clientY,
+        origin: positions.get(table.id) as Point,
+        moved: false,
+    };
+  };
+
+  const continueTableMove = (event: React.PointerEvent<HTMLDivElement>, table: SeatingTable) => {
+    const move = moveRef.current;
+    if (!move || move.tableId !== table.id) return;
+    const dx = event.clientX - move.pointerX;
+    const dy = event.clientY - move.pointerY;
+    if (!move.moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+    move.moved = true;
+    const point = clampToFloor({ x: move.origin.x + dx, y: move.origin.y + dy }, tableGeometry(table.shape, table.capacity));
+    setMovingTo({ tableId: table.id, point });
+  };
+
+  const endTableMove = (table: SeatingTable) => {
+    const move = moveRef.current;
+    moveRef.current = null;
+    if (!move || move.tableId !== table.id) return;
+    if (!move.moved) {
+        setSelectedTableId(table.id);
+        return;
+    }
+    onLayoutTable(table, movingTo?.tableId === table.id ? movingTo.point : move.origin);
+    setMovingTo(null);
+  };
+
+  const toggleLock = (table: SeatingTable, seat: number) => {
+    const lockedSeats = table.lockedSeats.includes(seat)
+        ? table.lockedSeats.filter(s => s !== seat)
+        : [...table.lockedSeats, seat].sort((a, b) => a - b);
+    onLayoutTable(table, { lockedSeats });
+  };
+
+  return (
+    <DragDropContext onDragEnd={onDragEnd}>
+      <div className="grid gap-6 lg:grid-cols-[18rem_1fr]">
+        <div className="space-y-6">
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="font-headline text-2xl">Waiting for a Seat</CardTitle>
+              <CardDescription>
+                {canEdit ? 'Drag a guest onto a seat, or back here to unseat them.' : `${waiting.length} guests without a seat.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Droppable droppableId={UNSEATED_LIST} isDropDisabled={!canEdit}>
+                {(provided, snapshot) => (
+                  <ul
+                    ref={provided.innerRef}
+                    {...provided.droppableProps}
+                    className={cn(
+                      'max-h-[28rem] min-h-24 space-y-2 overflow-y-auto rounded-md border border-dashed p-2',
+                      snapshot.isDraggingOver && 'bg-primary/10',
+                    )}
+                  >
+                    {waiting.map(({ guestId, table }, index) => {
+                      const guest = guestsById.get(guestId) as Guest;
+                      return (
+                        <Draggable key={guestId} draggableId={guestId} index={index} isDragDisabled={!canEdit}>
+                          {(provided) => (
+                            <li
+                              ref={provided.innerRef}
+                              {...provided.draggableProps}
+                              {...provided.dragHandleProps}
+                              className="rounded-md border bg-card px-3 py-2 text-sm shadow-sm"
+                            >
+                              <p className="truncate font-medium">{guest.name}</p>
+                              <div className="mt-1 flex flex-wrap gap-1">
+                                {guest.group && <Badge variant="secondary">{guest.group}</Badge>}
+                                {table && <Badge variant="destructive">{tableLabel(table)} is full</Badge>}
+                              </div>
+                            </li>
+                          )}
+                        </Draggable>
+                      );
+                    })}
+                    {provided.placeholder}
+                    {waiting.length === 0 && (
+                      <li className="py-6 text-center text-sm text-muted-foreground">Everyone has a seat.</li>
+                    )}
+                  </ul>
+                )}
+              </Droppable>
+            </CardContent>
+          </Card>
+
+          {selected && (
+            <Card className="shadow-lg">
+              <CardHeader className="flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="font-headline text-2xl">{tableLabel(selected.table)}</CardTitle>
+                  <CardDescription>
+                    {TABLE_SHAPE_LABELS[selected.table.shape]} &middot; {selected.guestIds.length} of {selected.table.capacity} seats
+                  </CardDescription>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => setSelectedTableId(null)} aria-label="Close table details">
+                  <X className="h-4 w-4" />
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ol className="space-y-1 text-sm">
+                  {selected.seats.map((guestId, seat) => {
+                    const locked = isSeatLocked(selected.table, seat);
+                    return (
+                      <li key={seat} className="flex items-center justify-between gap-2">
+                        <span className="truncate">
+                          <span className="text-muted-foreground">{seat + 1}.</span>{' '}
+                          {guestId ? guestsById.get(guestId)?.name : <span className="text-muted-foreground">Empty</span>}
+                        </span>
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 shrink-0"
+                            onClick={() => toggleLock(selected.table, seat)}
+                            disabled={!guestId && !locked}
+                            aria-label={locked ? `Unlock seat ${seat + 1}` : `Lock seat ${seat + 1}`}
+                          >
+                            {locked ? <Lock className="h-4 w-4 text-primary" /> : <LockOpen className="h-4 w-4 text-muted-foreground" />}
+                          </Button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => onEditTable(selected.table)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => {
+                        setSelectedTableId(null);
+                        onDeleteTable(selected.table);
+                      }}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Remove
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="overflow-auto rounded-lg border bg-muted/20 shadow-inner">
+          <div
+            className="relative bg-[radial-gradient(circle,hsl(var(--border))_1px,transparent_1px)] [background-size:20px_20px]"
+            style={{ width: FLOOR_WIDTH, height: FLOOR_HEIGHT }}
+          >
+            {occupancy.map(({ table, seats, overflow, overCapacity }) => {
+              const geometry = tableGeometry(table.shape, table.capacity);
+              const center = movingTo?.tableId === table.id ? movingTo.point : (positions.get(table.id) as Point);
+              const full = seats.every(Boolean);
+              return (
+                <div
+                  key={table.id}
+                  className="absolute"
+                  style={{
+                    left: center.x - geometry.outerWidth / 2,
+                    top: center.y - geometry.outerHeight / 2,
+                    width: geometry.outerWidth,
+                    height: geometry.outerHeight,
+                  }}
+                >
+                  <div
+                    role="button"
+                    tabIndex={0}
+                    aria-label={`${tableLabel(table)}, ${seats.filter(Boolean).length + overflow.length} of ${table.capacity} seats taken`}
+                    onPointerDown={event => startTableMove(event, table)}
+                    onPointerMove={event => continueTableMove(event, table)}
+                    onPointerUp={() => endTableMove(table)}
+                    onPointerCancel={() => endTableMove(table)}
+                    onKeyDown={event => {
+                        if (event.key === 'Enter' || event.key === ' ') setSelectedTableId(table.id);
+                    }}
+                    className={cn(
+                      'absolute flex touch-none select-none flex-col items-center justify-center border-2 bg-card text-center shadow-md',
+                      canEdit ? 'cursor-move' : 'cursor-pointer',
+                      table.shape === 'round' ? 'rounded-full' : 'rounded-md',
+                      overCapacity ? 'border-destructive bg-destructive/10' : full ? 'border-amber-500' : 'border-primary/40',
+                      selectedTableId === table.id && 'ring-2 ring-primary ring-offset-2',
+                    )}
+                    style={{
+                      left: (geometry.outerWidth - geometry.width) / 2,
+                      top: (geometry.outerHeight - geometry.height) / 2,
+                      width: geometry.width,
+                      height: geometry.height,
+                    }}
+                  >
+                    <span className="max-w-full truncate px-1 text-xs font-semibold">{tableLabel(table)}</span>
+                    <span className={cn('text-xs', overCapacity ? 'font-semibold text-destructive' : 'text-muted-foreground')}>
+                      {overCapacity ? `${overflow.length} over` : `${seats.filter(Boolean).length}/${table.capacity}`}
+                    </span>
+                  </div>
+                  {geometry.seats.map((offset, seat) => {
+                    const guestId = seats[seat];
+                    const guest = guestId ? guestsById.get(guestId) : undefined;
+                    const locked = isSeatLocked(table, seat);
+                    return (
+                      <Droppable
+                        key={seat}
+                        droppableId={seatDroppableId(table.number, seat)}
+                        isDropDisabled={!canEdit || locked}
+                      >
+                        {(provided, snapshot) => (
+                          <div
+                            ref={provided.innerRef}
+                            {...provided.droppableProps}
+                            title={guest ? guest.name : `Seat ${seat + 1}`}
+                            className={cn(
+                              'absolute overflow-hidden rounded-full border-2 border-dashed bg-background',
+                              snapshot.isDraggingOver ? 'border-primary bg-primary/20' : 'border-muted-foreground/30',
+                            )}
+                            style={{
+                              left: geometry.outerWidth / 2 + offset.x - SEAT_SIZE / 2,
+                              top: geometry.outerHeight / 2 + offset.y - SEAT_SIZE / 2,
+                              width: SEAT_SIZE,
+                              height: SEAT_SIZE,
+                            }}
+                          >
+                            {guestId && guest && (
+                              <Draggable draggableId={guestId} index={0} isDragDisabled={!canEdit || locked}>
+                                {(provided) => (
+                                  <div
+                                    ref={provided.innerRef}
+                                    {...provided.draggableProps}
+                                    {...provided.dragHandleProps}
+                                    aria-label={`${guest.name}, ${tableLabel(table)} seat ${seat + 1}`}
+                                    className={cn(
+                                      'flex items-center justify-center rounded-full text-xs font-semibold text-primary-foreground',
+                                      locked ? 'bg-primary/70' : 'bg-primary',
+                                    )}
+                                    style={{ ...provided.draggableProps.style, width: SEAT_SIZE - 4, height: SEAT_SIZE - 4 }}
+                                  >
+                                    {locked ? <Lock className="h-3.5 w-3.5" /> : initials(guest.name)}
+                                  </div>
+                                )}
+                              </Draggable>
+                            )}
+                            {provided.placeholder}
+                          </div>
+                        )}
+                      </Droppable>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </DragDropContext>
+  );
+}
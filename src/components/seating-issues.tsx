@@ -0,0 +1,56 @@
+"use client";
+
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, CheckCircle2, Info } from 'lucide-react';
+import { SEATING_PENALTIES, type SeatingEvaluation } from '@/lib/seating-solver';
+
+const COLLAPSED_COUNT = 5;
+
+/** The seating check: a chart's score and the wishes it breaks, worst first. */
+export function SeatingIssues({ evaluation }: { evaluation: SeatingEvaluation }) {
+  const [showAll, setShowAll] = React.useState(false);
+  const { score, violations } = evaluation;
+  const shown = showAll ? violations : violations.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <Card className="mb-8 shadow-md">
+      <CardHeader className="flex-row items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2 font-headline text-2xl">
+            {violations.length === 0 ? <CheckCircle2 className="h-6 w-6 text-green-600" /> : <AlertTriangle className="h-6 w-6 text-amber-500" />}
+            Seating Check
+          </CardTitle>
+          <CardDescription>
+            {violations.length === 0
+                ? 'No broken rules. Lower scores are better; mixing groups adds a little.'
+                : `${violations.length} issue${violations.length === 1 ? '' : 's'} found. Lower scores are better.`}
+          </CardDescription>
+        </div>
+        <Badge variant="outline" className="shrink-0 text-base">Score {Math.round(score)}</Badge>
+      </CardHeader>
+      {violations.length > 0 && (
+        <CardContent className="space-y-2">
+          <ul className="space-y-2 text-sm">
+            {shown.map((violation, index) => (
+              <li key={`${violation.kind}-${index}`} className="flex items-start gap-2">
+                {violation.penalty >= SEATING_PENALTIES.together
+                    ? <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+                    : <Info className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />}
+                <span className="flex-1">{violation.message}</span>
+                <span className="shrink-0 text-muted-foreground">+{violation.penalty}</span>
+              </li>
+            ))}
+          </ul>
+          {violations.length > COLLAPSED_COUNT && (
+            <Button variant="link" className="h-auto p-0" onClick={() => setShowAll(prev => !prev)}>
+              {showAll ? 'Show fewer' : `Show all ${violations.length}`}
+            </Button>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
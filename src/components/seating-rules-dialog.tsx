@@ -0,0 +1,164 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Trash2 } from "lucide-react";
+import { useGuests } from "@/hooks/use-guests";
+import { useSeating } from "@/hooks/use-seating";
+import { useToast } from "@/hooks/use-toast";
+import { SEATING_RULE_KINDS, SEATING_RULE_LABELS, seatableGuests, type SeatingRuleKind } from "@/lib/seating";
+
+interface SeatingRulesDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+/** Who must sit together, who must be kept apart and who needs a seat near an exit. */
+export function SeatingRulesDialog({ open, onOpenChange }: SeatingRulesDialogProps) {
+  const { guests } = useGuests();
+  const { rules, addRule, deleteRule } = useSeating();
+  const { toast } = useToast();
+  const [kind, setKind] = React.useState<SeatingRuleKind>('together');
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+  const [note, setNote] = React.useState("");
+  const [search, setSearch] = React.useState("");
+
+  React.useEffect(() => {
+    if (!open) return;
+    setKind('together');
+    setSelected(new Set());
+    setNote("");
+    setSearch("");
+  }, [open]);
+
+  const confirmed = React.useMemo(
+    () => [...seatableGuests(guests)].sort((a, b) => a.name.localeCompare(b.name)),
+    [guests],
+  );
+  const names = React.useMemo(() => new Map(guests.map(g => [g.id, g.name])), [guests]);
+  const matches = confirmed.filter(g => g.name.toLowerCase().includes(search.trim().toLowerCase()));
+  const minimum = kind === 'near-exit' ? 1 : 2;
+
+  const toggle = (guestId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(guestId); else next.delete(guestId);
+      return next;
+    });
+  };
+
+  const handleAdd = async () => {
+    try {
+        await addRule({ kind, guestIds: [...selected], note: note.trim() });
+        toast({ title: "Seating rule added." });
+        setSelected(new Set());
+        setNote("");
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not add the rule.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    try {
+        await deleteRule(ruleId);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not remove the rule.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Seating Rules</DialogTitle>
+          <DialogDescription>
+            Auto-Arrange follows these rules and the seating check flags any chart that breaks them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-6 py-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Current rules</Label>
+            {rules.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No rules yet.</p>
+            ) : (
+              <ul className="max-h-80 space-y-2 overflow-y-auto">
+                {rules.map(rule => (
+                  <li key={rule.id} className="flex items-start justify-between gap-2 rounded-md border p-2 text-sm">
+                    <div className="min-w-0">
+                      <Badge variant="secondary">{SEATING_RULE_LABELS[rule.kind]}</Badge>
+                      <p className="mt-1">{rule.guestIds.map(id => names.get(id) ?? 'Removed guest').join(', ')}</p>
+                      {rule.note && <p className="text-muted-foreground">{rule.note}</p>}
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => handleDelete(rule.id)} aria-label="Remove rule">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>New rule</Label>
+              <Select value={kind} onValueChange={value => setKind(value as SeatingRuleKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEATING_RULE_KINDS.map(k => (
+                    <SelectItem key={k} value={k}>{SEATING_RULE_LABELS[k]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-search">Guests ({selected.size} selected)</Label>
+              <Input id="rule-search" placeholder="Search confirmed guests..." value={search} onChange={e => setSearch(e.target.value)} />
+              <div className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2">
+                {matches.map(guest => (
+                  <div key={guest.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`rule-guest-${guest.id}`}
+                      checked={selected.has(guest.id)}
+                      onCheckedChange={checked => toggle(guest.id, checked === true)}
+                    />
+                    <Label htmlFor={`rule-guest-${guest.id}`} className="font-normal">{guest.name}</Label>
+                  </div>
+                ))}
+                {matches.length === 0 && <p className="text-sm text-muted-foreground">No confirmed guests match.</p>}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-note">Note (optional)</Label>
+              <Input id="rule-note" placeholder="e.g. Uses a wheelchair" value={note} onChange={e => setNote(e.target.value)} />
+            </div>
+            <Button type="button" className="w-full" onClick={handleAdd} disabled={selected.size < minimum}>
+              Add Rule
+            </Button>
+          </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="secondary">Done</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
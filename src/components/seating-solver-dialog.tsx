@@ -0,0 +1,99 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Gem, Loader2 } from "lucide-react";
+import { DEFAULT_SOLVER_OPTIONS, type SeatingSolverOptions } from "@/lib/seating-solver";
+
+export type SolverStart = 'current' | 'ai' | 'empty';
+
+const START_LABELS: Record<SolverStart, string> = {
+    current: 'Improve the current chart',
+    ai: 'Improve an AI suggestion',
+    empty: 'Start from scratch',
+};
+
+interface SeatingSolverDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    isPremium: boolean;
+    onArrange: (start: SolverStart, options: SeatingSolverOptions) => Promise<void>;
+}
+
+export function SeatingSolverDialog({ open, onOpenChange, isPremium, onArrange }: SeatingSolverDialogProps) {
+  const [start, setStart] = React.useState<SolverStart>('current');
+  const [options, setOptions] = React.useState<SeatingSolverOptions>(DEFAULT_SOLVER_OPTIONS);
+  const [isArranging, setIsArranging] = React.useState(false);
+
+  const handleArrange = async () => {
+    setIsArranging(true);
+    try {
+        await onArrange(start, options);
+    } finally {
+        setIsArranging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Auto-Arrange</DialogTitle>
+          <DialogDescription>
+            Seats every confirmed guest it can without overfilling a table, following your seating rules. Guests in locked seats stay put. It runs on this device, and the same guests and rules always give the same chart.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6 py-4">
+          <RadioGroup value={start} onValueChange={value => setStart(value as SolverStart)} className="space-y-2">
+            {(Object.keys(START_LABELS) as SolverStart[]).map(value => (
+              <div key={value} className="flex items-center space-x-2">
+                <RadioGroupItem value={value} id={`solver-start-${value}`} />
+                <Label htmlFor={`solver-start-${value}`} className="flex items-center gap-2 font-normal">
+                  {START_LABELS[value]}
+                  {value === 'ai' && !isPremium && <Gem className="h-4 w-4 text-primary" aria-label="Pro feature" />}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="solver-households" className="font-normal">Keep households together</Label>
+            <Switch
+              id="solver-households"
+              checked={options.keepHouseholds}
+              onCheckedChange={checked => setOptions(prev => ({ ...prev, keepHouseholds: checked }))}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="solver-groups" className="font-normal">Seat guests with their group</Label>
+            <Switch
+              id="solver-groups"
+              checked={options.groupAffinity}
+              onCheckedChange={checked => setOptions(prev => ({ ...prev, groupAffinity: checked }))}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="secondary">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleArrange} disabled={isArranging}>
+            {isArranging && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Arrange
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSeating, type SeatingTable } from "@/hooks/use-seating";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_TABLE_CAPACITY, MAX_TABLE_CAPACITY, TABLE_SHAPES, TABLE_SHAPE_LABELS } from "@/lib/seating";
+
+const tableSchema = z.object({
+    name: z.string().trim().max(60),
+    count: z.coerce.number().int().min(1, "Add at least one table").max(100),
+    capacity: z.coerce.number().int().min(1, "A table needs at least one seat").max(MAX_TABLE_CAPACITY, `At most ${MAX_TABLE_CAPACITY} seats`),
+    shape: z.enum(TABLE_SHAPES),
+    nearExit: z.boolean(),
+});
+
+type TableFormValues = z.infer<typeof tableSchema>;
+
+const toFormValues = (table: SeatingTable | null): TableFormValues => ({
+    name: table?.name ?? '',
+    count: 1,
+    capacity: table?.capacity ?? DEFAULT_TABLE_CAPACITY,
+    shape: table?.shape ?? 'round',
+    nearExit: table?.nearExit ?? false,
+});
+
+interface TableDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** The table to edit, or null to add new tables. */
+    table: SeatingTable | null;
+}
+
+export function TableDialog({ open, onOpenChange, table }: TableDialogProps) {
+  const { addTables, updateTable } = useSeating();
+  const { toast } = useToast();
+
+  const form = useForm<TableFormValues>({
+    resolver: zodResolver(tableSchema),
+    defaultValues: toFormValues(table),
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset(toFormValues(table));
+  }, [open, table, form]);
+
+  async function onSave(values: TableFormValues) {
+    try {
+        if (table) {
+            await updateTable(table.id, { name: values.name, capacity: values.capacity, shape: values.shape, nearExit: values.nearExit });
+            toast({ title: "Table updated." });
+        } else {
+            await addTables(values.count, { capacity: values.capacity, shape: values.shape, nearExit: values.nearExit });
+            toast({ title: values.count === 1 ? "Table added." : `${values.count} tables added.` });
+        }
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not save the table.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{table ? `Edit Table ${table.number}` : 'Add Tables'}</DialogTitle>
+          <DialogDescription>
+            {table ? 'Give the table a name or change its shape and how many guests it seats.' : 'New tables are numbered after your existing ones.'}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSave)} className="space-y-4 py-4">
+                {table ? (
+                    <FormField
+                        control={form.control}
+                        name="name"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Name (optional)</FormLabel>
+                                <FormControl>
+                                    <Input placeholder={`Table ${table.number}`} {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                ) : (
+                    <FormField
+                        control={form.control}
+                        name="count"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Number of tables</FormLabel>
+                                <FormControl>
+                                    <Input type="number" min={1} {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                )}
+                <FormField
+                    control={form.control}
+                    name="shape"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Shape</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                    {TABLE_SHAPES.map(shape => (
+                                        <SelectItem key={shape} value={shape}>{TABLE_SHAPE_LABELS[shape]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="capacity"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Seats per table</FormLabel>
+                            <FormControl>
+                                <Input type="number" min={1} max={MAX_TABLE_CAPACITY} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="nearExit"
+                    render={({ field }) => (
+                        <FormItem className="flex items-center space-x-2 space-y-0">
+                            <FormControl>
+                                <Checkbox checked={field.value} onCheckedChange={checked => field.onChange(checked === true)} />
+                            </FormControl>
+                            <FormLabel className="font-normal">Near an exit (for guests who need an accessible seat)</FormLabel>
+                        </FormItem>
+                    )}
+                />
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">Cancel</Button>
+                    </DialogClose>
+                    <Button type="submit">{table ? 'Save Changes' : 'Add Tables'}</Button>
+                </DialogFooter>
+            </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
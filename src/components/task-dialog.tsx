@@ -0,0 +1,306 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { format } from "date-fns";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { CalendarIcon, PlusCircle, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useTasks, type Task, type TaskDetails } from "@/hooks/use-tasks";
+import { useWedding } from "@/hooks/use-wedding";
+import { useToast } from "@/hooks/use-toast";
+import { PRIORITY_LABELS, TASK_CATEGORIES, TASK_PRIORITIES } from "@/lib/tasks";
+import { AttachmentList } from "./attachment-list";
+
+// Radix Select items cannot have an empty value.
+const UNASSIGNED = "none";
+
+const taskSchema = z.object({
+    title: z.string().trim().min(1, "Title is required"),
+    dueDate: z.date().nullable(),
+    assigneeId: z.string(),
+    priority: z.enum(TASK_PRIORITIES),
+    category: z.string(),
+    notes: z.string().max(2000),
+    subtasks: z.array(z.object({
+        id: z.string(),
+        title: z.string().trim().min(1, "Step cannot be empty"),
+        completed: z.boolean(),
+    })),
+});
+
+type TaskFormValues = z.infer<typeof taskSchema>;
+
+const toFormValues = (task: Task | null): TaskFormValues => ({
+    title: task?.title ?? '',
+    dueDate: task?.dueDate ?? null,
+    assigneeId: task?.assigneeId ?? UNASSIGNED,
+    priority: task?.priority ?? 'medium',
+    category: task?.category ?? 'Other',
+    notes: task?.notes ?? '',
+    subtasks: task?.subtasks ?? [],
+});
+
+interface TaskDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** The task to edit, or null to create a new one. */
+    task: Task | null;
+}
+
+export function TaskDialog({ open, onOpenChange, task }: TaskDialogProps) {
+  const { tasks, addTask, updateTask } = useTasks();
+  // Uploads save straight away, so show the live list rather than the one the dialog opened with.
+  const attachments = tasks.find(t => t.id === task?.id)?.attachments ?? [];
+  const { wedding } = useWedding();
+  const { toast } = useToast();
+
+  const form = useForm<TaskFormValues>({
+    resolver: zodResolver(taskSchema),
+    defaultValues: toFormValues(task),
+  });
+  const { fields: subtaskFields, append: appendSubtask, remove: removeSubtask } = useFieldArray({
+    control: form.control,
+    name: "subtasks",
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset(toFormValues(task));
+  }, [open, task, form]);
+
+  async function onSave(values: TaskFormValues) {
+    const dueDateChanged = values.dueDate?.getTime() !== task?.dueDate?.getTime();
+    const details: TaskDetails = {
+        title: values.title,
+        dueDate: values.dueDate,
+        // Picking a date by hand pins the task; otherwise it keeps following the wedding date.
+        offsetDays: dueDateChanged ? null : task?.offsetDays ?? null,
+        assigneeId: values.assigneeId === UNASSIGNED ? null : values.assigneeId,
+        priority: values.priority,
+        category: values.category,
+        notes: values.notes.trim(),
+        subtasks: values.subtasks,
+    };
+    if (task) {
+        await updateTask(task.id, details);
+        toast({ title: "Task updated." });
+    } else {
+        const { title, ...rest } = details;
+        await addTask(title, rest);
+        toast({ title: "Task added." });
+    }
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{task ? 'Edit Task' : 'New Task'}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSave)} className="space-y-4 py-4">
+                <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Title</FormLabel>
+                            <FormControl>
+                                <Input placeholder="e.g. Book the florist" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    <FormField
+                        control={form.control}
+                        name="dueDate"
+                        render={({ field }) => (
+                            <FormItem className="flex flex-col">
+                                <FormLabel>Due Date</FormLabel>
+                                <Popover>
+                                    <PopoverTrigger asChild>
+                                        <FormControl>
+                                            <Button
+                                                variant="outline"
+                                                className={cn("justify-start text-left font-normal", !field.value && "text-muted-foreground")}
+                                            >
+                                                <CalendarIcon className="mr-2 h-4 w-4" />
+                                                {field.value ? format(field.value, 'PPP') : 'No due date'}
+                                            </Button>
+                                        </FormControl>
+                                    </PopoverTrigger>
+                                    <PopoverContent className="w-auto p-0" align="start">
+                                        <Calendar
+                                            mode="single"
+                                            selected={field.value ?? undefined}
+                                            onSelect={(date) => field.onChange(date ?? null)}
+                                            defaultMonth={field.value ?? undefined}
+                                            initialFocus
+                                        />
+                                    </PopoverContent>
+                                </Popover>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="assigneeId"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Assignee</FormLabel>
+                                <Select value={field.value} onValueChange={field.onChange}>
+                                    <FormControl>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                                        {Object.entries(wedding?.members ?? {}).map(([uid, member]) => (
+                                            <SelectItem key={uid} value={uid}>{member.displayName || member.email}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="priority"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Priority</FormLabel>
+                                <Select value={field.value} onValueChange={field.onChange}>
+                                    <FormControl>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                        {TASK_PRIORITIES.map(priority => (
+                                            <SelectItem key={priority} value={priority}>{PRIORITY_LABELS[priority]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="category"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Category</FormLabel>
+                                <Select value={field.value} onValueChange={field.onChange}>
+                                    <FormControl>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                        {TASK_CATEGORIES.map(category => (
+                                            <SelectItem key={category} value={category}>{category}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <FormLabel>Steps</FormLabel>
+                    {subtaskFields.map((subtask, index) => (
+                        <div key={subtask.id} className="flex items-start gap-2">
+                            <FormField
+                                control={form.control}
+                                name={`subtasks.${index}.completed`}
+                                render={({ field }) => (
+                                    <FormItem className="flex h-10 items-center space-y-0">
+                                        <FormControl>
+                                            <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                                        </FormControl>
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name={`subtasks.${index}.title`}
+                                render={({ field }) => (
+                                    <FormItem className="flex-grow">
+                                        <FormControl>
+                                            <Input placeholder="e.g. Get three quotes" {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <Button type="button" variant="ghost" size="icon" onClick={() => removeSubtask(index)}>
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    ))}
+                    <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => appendSubtask({ id: crypto.randomUUID(), title: '', completed: false })}
+                    >
+                        <PlusCircle className="mr-2 h-4 w-4" />
+                        Add Step
+                    </Button>
+                </div>
+                <FormField
+                    control={form.control}
+                    name="notes"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Notes</FormLabel>
+                            <FormControl>
+                                <Textarea rows={3} placeholder="Contacts, links, anything worth remembering" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                {task && (
+                    <div className="space-y-2">
+                        <FormLabel>Attachments</FormLabel>
+                        <AttachmentList target={{ owner: 'tasks', ownerId: task.id }} attachments={attachments} />
+                    </div>
+                )}
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">Cancel</Button>
+                    </DialogClose>
+                    <Button type="submit">{task ? 'Save' : 'Add Task'}</Button>
+                </DialogFooter>
+            </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
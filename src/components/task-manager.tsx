@@ -7,68 +7,227 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Loader2, PlusCircle } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CalendarHeart, GripVertical, ListChecks, Loader2, MoreHorizontal, NotebookPen, Paperclip, Pencil, PlusCircle, Trash2, UserRound } from 'lucide-react';
+import { DragDropContext, Droppable, Draggable, DropResult } from 'react-beautiful-dnd';
+import { format } from 'date-fns';
 import { useTasks, type Task } from '@/hooks/use-tasks';
+import { useWedding } from '@/hooks/use-wedding';
+import { useUser } from '@/hooks/use-user';
+import { isTaskInView, PRIORITY_LABELS, TASK_VIEWS, TASK_VIEW_LABELS, type TaskView } from '@/lib/tasks';
+import { getTaskStatus, type TaskStatus } from '@/lib/timeline';
+import { WeddingDateDialog } from './wedding-date-dialog';
+import { TaskDialog } from './task-dialog';
+
+const STATUS_BADGE: Record<TaskStatus, { variant: 'default' | 'secondary' | 'destructive' | 'outline'; label?: string }> = {
+  completed: { variant: 'secondary' },
+  overdue: { variant: 'destructive', label: 'Overdue' },
+  upcoming: { variant: 'default', label: 'Due soon' },
+  later: { variant: 'outline' },
+  unscheduled: { variant: 'outline' },
+};
+
+const formatDueDate = (task: Task) => {
+  const label = STATUS_BADGE[getTaskStatus(task)].label;
+  if (!task.dueDate) return 'No due date';
+  const date = format(task.dueDate, 'MMM d, yyyy');
+  return label ? `${label} \u00b7 ${date}` : date;
+};
 
 export function TaskManager() {
   const [newTaskTitle, setNewTaskTitle] = React.useState("");
-  const { tasks, loading, addTask, toggleTask } = useTasks();
+  const { tasks, loading, addTask, toggleTask, deleteTask, reorderTasks } = useTasks();
+  const { wedding, canEdit } = useWedding();
+  const { user } = useUser();
+  const [isDateOpen, setIsDateOpen] = React.useState(false);
+  const [view, setView] = React.useState<TaskView>('all');
+  const [dialogTask, setDialogTask] = React.useState<Task | null>(null);
+  const [isTaskDialogOpen, setIsTaskDialogOpen] = React.useState(false);
+
+  const visibleTasks = tasks.filter(task => isTaskInView(task, view, user?.uid ?? null));
+  // Indices only line up with the stored order when nothing is filtered out.
+  const canReorder = canEdit && view === 'all';
 
   const handleAddTask = (e: React.FormEvent) => {
     e.preventDefault();
     if (newTaskTitle.trim() === "") return;
 
-    addTask(newTaskTitle.trim());
+    addTask(newTaskTitle.trim(), view === 'mine' && user ? { assigneeId: user.uid } : undefined);
     setNewTaskTitle("");
   };
 
+  const openTaskDialog = (task: Task | null) => {
+    setDialogTask(task);
+    setIsTaskDialogOpen(true);
+  };
+
+  const onDragEnd = (result: DropResult) => {
+    const { source, destination } = result;
+    if (!destination || source.index === destination.index) return;
+
+    const reordered = Array.from(tasks);
+    const [moved] = reordered.splice(source.index, 1);
+    reordered.splice(destination.index, 0, moved);
+    reorderTasks(reordered.map(t => t.id));
+  };
+
+  const assigneeName = (task: Task) => {
+    if (!task.assigneeId) return null;
+    if (task.assigneeId === user?.uid) return 'You';
+    const member = wedding?.members[task.assigneeId];
+    return member ? member.displayName || member.email : null;
+  };
+
+  const renderTask = (task: Task) => {
+    const completedSteps = task.subtasks.filter(s => s.completed).length;
+    const assignee = assigneeName(task);
+    return (
+      <>
+        <Checkbox
+            id={`task-${task.id}`}
+            checked={task.completed}
+            onCheckedChange={() => toggleTask(task.id, !task.completed)}
+            disabled={!canEdit}
+            aria-label={`Mark "${task.title}" as complete`}
+        />
+        <div className="flex-1 space-y-1">
+            <label
+              htmlFor={`task-${task.id}`}
+              className={`text-sm font-medium leading-none ${task.completed ? 'line-through text-muted-foreground' : ''} cursor-pointer`}
+            >
+              {task.title}
+            </label>
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+              <span>{task.category}</span>
+              {task.priority !== 'medium' && (
+                <span className={task.priority === 'high' ? 'font-medium text-destructive' : ''}>
+                  {PRIORITY_LABELS[task.priority]} priority
+                </span>
+              )}
+              {assignee && (
+                <span className="flex items-center gap-1"><UserRound className="h-3 w-3" />{assignee}</span>
+              )}
+              {task.subtasks.length > 0 && (
+                <span className="flex items-center gap-1"><ListChecks className="h-3 w-3" />{completedSteps}/{task.subtasks.length} steps</span>
+              )}
+              {task.notes && (
+                <span className="flex items-center gap-1" title={task.notes}><NotebookPen className="h-3 w-3" />Notes</span>
+              )}
+              {task.attachments.length > 0 && (
+                <span className="flex items-center gap-1"><Paperclip className="h-3 w-3" />{task.attachments.length}</span>
+              )}
+            </div>
+        </div>
+        <Badge variant={STATUS_BADGE[getTaskStatus(task)].variant} className="hidden sm:inline-flex">{formatDueDate(task)}</Badge>
+        {canEdit && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => openTaskDialog(task)}>
+                <Pencil className="mr-2 h-4 w-4"/>
+                Edit
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => deleteTask(task.id)} className="text-destructive">
+                <Trash2 className="mr-2 h-4 w-4"/>
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </>
+    );
+  };
+
   return (
     <Card>
       <CardHeader>
         <CardTitle className="font-headline text-2xl">Wedding Checklist</CardTitle>
-        <CardDescription>Stay on top of your wedding planning with this timeline.</CardDescription>
+        <CardDescription>
+          {wedding?.weddingDate
+            ? `Stay on top of your wedding planning. The big day is ${format(wedding.weddingDate, 'PPP')}.`
+            : 'Stay on top of your wedding planning with this timeline.'}
+        </CardDescription>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleAddTask} className="flex items-center gap-2 mb-4">
-            <Input
-                placeholder="Add a new to-do..."
-                value={newTaskTitle}
-                onChange={(e) => setNewTaskTitle(e.target.value)}
-                className="flex-grow"
-            />
-            <Button type="submit" variant="outline">
-                <PlusCircle className="mr-2 h-4 w-4" />
-                Add Task
+        {!wedding?.weddingDate && canEdit && (
+          <div className="mb-4 flex flex-col items-start justify-between gap-2 rounded-lg border border-dashed p-4 sm:flex-row sm:items-center">
+            <p className="text-sm text-muted-foreground">Set your wedding date to turn this checklist into a dated timeline.</p>
+            <Button variant="outline" size="sm" onClick={() => setIsDateOpen(true)}>
+              <CalendarHeart className="mr-2 h-4 w-4" />
+              Set Wedding Date
             </Button>
-        </form>
-        <div className="space-y-4">
-          {loading ? (
-             <div className="flex items-center justify-center p-8">
-                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
-            </div>
-          ) : (
-            tasks.map((task) => (
-                <div key={task.id} className="flex items-center space-x-4 p-3 rounded-lg hover:bg-primary/5 transition-colors">
-                <Checkbox
-                    id={`task-${task.id}`}
-                    checked={task.completed}
-                    onCheckedChange={() => toggleTask(task.id, !task.completed)}
-                    aria-label={`Mark "${task.title}" as complete`}
-                />
-                <div className="flex-1">
-                    <label
-                    htmlFor={`task-${task.id}`}
-                    className={`text-sm font-medium leading-none ${task.completed ? 'line-through text-muted-foreground' : ''} cursor-pointer`}
-                    >
-                    {task.title}
-                    </label>
+          </div>
+        )}
+        {canEdit && (
+          <form onSubmit={handleAddTask} className="flex items-center gap-2 mb-4">
+              <Input
+                  placeholder="Add a new to-do..."
+                  value={newTaskTitle}
+                  onChange={(e) => setNewTaskTitle(e.target.value)}
+                  className="flex-grow"
+              />
+              <Button type="submit" variant="outline">
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  Add Task
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => openTaskDialog(null)}>
+                  More options
+              </Button>
+          </form>
+        )}
+        <Tabs value={view} onValueChange={(value) => setView(value as TaskView)} className="mb-4">
+          <TabsList>
+            {TASK_VIEWS.map(v => (
+              <TabsTrigger key={v} value={v}>{TASK_VIEW_LABELS[v]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        {loading ? (
+           <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : visibleTasks.length === 0 ? (
+          <p className="p-8 text-center text-sm text-muted-foreground">No tasks here.</p>
+        ) : (
+          <DragDropContext onDragEnd={onDragEnd}>
+            <Droppable droppableId="task-list">
+              {(provided) => (
+                <div ref={provided.innerRef} {...provided.droppableProps} className="space-y-2">
+                  {visibleTasks.map((task, index) => (
+                    <Draggable key={task.id} draggableId={task.id} index={index} isDragDisabled={!canReorder}>
+                      {(provided) => (
+                        <div
+                          ref={provided.innerRef}
+                          {...provided.draggableProps}
+                          className="flex items-center space-x-4 p-3 rounded-lg bg-card hover:bg-primary/5 transition-colors"
+                        >
+                          <div {...provided.dragHandleProps} className={canReorder ? 'cursor-grab text-muted-foreground' : 'hidden'}>
+                            <GripVertical className="h-4 w-4" />
+                          </div>
+                          {renderTask(task)}
+                        </div>
+                      )}
+                    </Draggable>
+                  ))}
+                  {provided.placeholder}
                 </div>
-                <Badge variant={task.completed ? "secondary" : "outline"} className="hidden sm:inline-flex">{task.dueDate}</Badge>
-                </div>
-            ))
-          )}
-        </div>
+              )}
+            </Droppable>
+          </DragDropContext>
+        )}
       </CardContent>
+      <WeddingDateDialog open={isDateOpen} onOpenChange={setIsDateOpen} />
+      <TaskDialog open={isTaskDialogOpen} onOpenChange={setIsTaskDialogOpen} task={dialogTask} />
     </Card>
   );
 }
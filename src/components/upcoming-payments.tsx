@@ -0,0 +1,101 @@
+"use client";
+
+import * as React from 'react';
+import { format, startOfMonth } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle2 } from 'lucide-react';
+import { useBudget, type Expense, type Installment } from '@/hooks/use-budget';
+import { useWedding } from '@/hooks/use-wedding';
+import { CASH_FLOW_WINDOW_DAYS, getUpcomingPayments, type UpcomingPayment } from '@/lib/payments';
+import { formatMoney } from '@/lib/currency';
+import { RecordPaymentDialog } from './record-payment-dialog';
+
+export function UpcomingPayments() {
+  const { expenses, summary } = useBudget();
+  const currency = summary?.currency ?? 'USD';
+  const { canEdit } = useWedding();
+  const [recording, setRecording] = React.useState<{ expense: Expense; installment: Installment } | null>(null);
+
+  const upcoming = getUpcomingPayments(expenses);
+  const overdue = upcoming.filter(p => p.overdue);
+  const months = upcoming
+    .filter(p => !p.overdue)
+    .reduce<{ month: Date; payments: UpcomingPayment[] }[]>((groups, payment) => {
+      const month = startOfMonth(payment.installment.dueDate);
+      const last = groups[groups.length - 1];
+      if (last && last.month.getTime() === month.getTime()) {
+        last.payments.push(payment);
+      } else {
+        groups.push({ month, payments: [payment] });
+      }
+      return groups;
+    }, []);
+  // Subtotals mix currencies, so they are shown in the budget's.
+  const sumInBase = (payments: UpcomingPayment[]) =>
+    formatMoney(Math.round(payments.reduce((sum, p) => sum + p.installment.amount * p.exchangeRate, 0)), currency);
+
+  const openRecord = (payment: UpcomingPayment) => {
+    const expense = expenses.find(e => e.id === payment.expenseId);
+    if (expense) setRecording({ expense, installment: payment.installment });
+  };
+
+  const renderPayment = (payment: UpcomingPayment) => (
+    <div key={`${payment.expenseId}-${payment.installment.id}`} className="flex items-center gap-4 rounded-lg p-2 hover:bg-primary/5">
+      <div className="w-20 text-sm text-muted-foreground">{format(payment.installment.dueDate, 'MMM d')}</div>
+      <div className="flex-1">
+        <p className="text-sm font-medium">{payment.vendor || payment.category}</p>
+        <p className="text-xs text-muted-foreground">{payment.installment.label || 'Payment'} &middot; {payment.category}</p>
+      </div>
+      {payment.overdue && <Badge variant="destructive">Overdue</Badge>}
+      <div className="w-28 text-right font-medium">{formatMoney(payment.installment.amount, payment.currency)}</div>
+      {canEdit && (
+        <Button variant="ghost" size="icon" onClick={() => openRecord(payment)} aria-label="Record payment">
+          <CheckCircle2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl">Upcoming Payments</CardTitle>
+        <CardDescription>
+          {sumInBase(upcoming)} due over the next {CASH_FLOW_WINDOW_DAYS} days
+          {overdue.length > 0 && `, including ${overdue.length} overdue`}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {upcoming.length === 0 && (
+          <p className="p-4 text-center text-sm text-muted-foreground">No payments due in the next {CASH_FLOW_WINDOW_DAYS} days.</p>
+        )}
+        {overdue.length > 0 && (
+          <div>
+            <div className="mb-2 flex justify-between text-sm font-semibold text-destructive">
+              <span>Overdue</span>
+              <span>{sumInBase(overdue)}</span>
+            </div>
+            {overdue.map(renderPayment)}
+          </div>
+        )}
+        {months.map(({ month, payments }) => (
+          <div key={month.toISOString()}>
+            <div className="mb-2 flex justify-between text-sm font-semibold">
+              <span>{format(month, 'MMMM yyyy')}</span>
+              <span>{sumInBase(payments)}</span>
+            </div>
+            {payments.map(renderPayment)}
+          </div>
+        ))}
+      </CardContent>
+      <RecordPaymentDialog
+        open={!!recording}
+        onOpenChange={(open) => !open && setRecording(null)}
+        expense={recording?.expense ?? null}
+        installment={recording?.installment ?? null}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { format, endOfDay, startOfToday } from "date-fns";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { CalendarIcon, Loader2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useUploadLinks } from "@/hooks/use-upload-links";
+import { useToast } from "@/hooks/use-toast";
+import { UPLOAD_PIN_PATTERN } from "@/lib/upload-links";
+
+const uploadLinkFormSchema = z.object({
+    label: z.string().trim().min(1, "Give the link a name").max(80),
+    pin: z.string().refine(pin => pin === '' || UPLOAD_PIN_PATTERN.test(pin), "PIN must be 4 to 8 digits"),
+    expiresOn: z.date().optional(),
+    maxUploads: z.string().refine(max => max === '' || (/^\d+$/.test(max) && Number(max) >= 1 && Number(max) <= 10000), "Enter a number from 1 to 10,000"),
+});
+
+type UploadLinkFormValues = z.infer<typeof uploadLinkFormSchema>;
+
+const defaultValues: UploadLinkFormValues = { label: '', pin: '', expiresOn: undefined, maxUploads: '' };
+
+interface UploadLinkDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function UploadLinkDialog({ open, onOpenChange }: UploadLinkDialogProps) {
+  const { createUploadLink } = useUploadLinks();
+  const { toast } = useToast();
+
+  const form = useForm<UploadLinkFormValues>({
+    resolver: zodResolver(uploadLinkFormSchema),
+    defaultValues,
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset(defaultValues);
+  }, [open, form]);
+
+  async function onSave(values: UploadLinkFormValues) {
+    try {
+        await createUploadLink({
+            label: values.label,
+            pin: values.pin || null,
+            // The link works through the whole of the chosen day.
+            expiresAt: values.expiresOn ? endOfDay(values.expiresOn) : null,
+            maxUploads: values.maxUploads ? Number(values.maxUploads) : null,
+        });
+        toast({ title: "Upload link created." });
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not create the upload link.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Upload Link</DialogTitle>
+          <DialogDescription>
+            Anyone with this link can add photos to your album, so you can protect it with a PIN, an end date or a photo limit.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSave)} className="space-y-4 py-4">
+                <FormField
+                    control={form.control}
+                    name="label"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Name</FormLabel>
+                            <FormControl>
+                                <Input placeholder="e.g. Reception tables" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                        control={form.control}
+                        name="pin"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>PIN (optional)</FormLabel>
+                                <FormControl>
+                                    <Input inputMode="numeric" autoComplete="off" maxLength={8} placeholder="4 to 8 digits" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="maxUploads"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Photo limit (optional)</FormLabel>
+                                <FormControl>
+                                    <Input inputMode="numeric" placeholder="Unlimited" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                </div>
+                <FormField
+                    control={form.control}
+                    name="expiresOn"
+                    render={({ field }) => (
+                        <FormItem className="flex flex-col">
+                            <FormLabel>Last day (optional)</FormLabel>
+                            <div className="flex gap-2">
+                                <Popover>
+                                    <PopoverTrigger asChild>
+                                        <FormControl>
+                                            <Button
+                                                variant="outline"
+                                                className={cn("flex-grow justify-start text-left font-normal", !field.value && "text-muted-foreground")}
+                                            >
+                                                <CalendarIcon className="mr-2 h-4 w-4" />
+                                                {field.value ? format(field.value, 'PPP') : 'Never expires'}
+                                            </Button>
+                                        </FormControl>
+                                    </PopoverTrigger>
+                                    <PopoverContent className="w-auto p-0" align="start">
+                                        <Calendar
+                                            mode="single"
+                                            selected={field.value}
+                                            onSelect={field.onChange}
+                                            disabled={{ before: startOfToday() }}
+                                            defaultMonth={field.value}
+                                            initialFocus
+                                        />
+                                    </PopoverContent>
+                                </Popover>
+                                {field.value && (
+                                    <Button type="button" variant="ghost" size="icon" onClick={() => field.onChange(undefined)}>
+                                        <X className="h-4 w-4" />
+                                    </Button>
+                                )}
+                            </div>
+                            <FormDescription>Guests can upload until the end of this day.</FormDescription>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">Cancel</Button>
+                    </DialogClose>
+                    <Button type="submit" disabled={form.formState.isSubmitting}>
+                        {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Create Link
+                    </Button>
+                </DialogFooter>
+            </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
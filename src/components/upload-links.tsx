@@ -0,0 +1,219 @@
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Ban, Copy, KeyRound, Lock, MoreHorizontal, PlusCircle, Printer, QrCode } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useWedding } from '@/hooks/use-wedding';
+import { useUploadLinks, type UploadLink } from '@/hooks/use-upload-links';
+import { getGuestUploadLink, UPLOAD_LINK_STATUS_LABELS, UPLOAD_PIN_PATTERN, uploadLinkStatus } from '@/lib/upload-links';
+import { UploadLinkDialog } from './upload-link-dialog';
+import { QrCodeDialog } from './qr-code-dialog';
+
+function PinDialog({ link, onOpenChange }: { link: UploadLink | null; onOpenChange: (open: boolean) => void }) {
+  const { setUploadLinkPin } = useUploadLinks();
+  const { toast } = useToast();
+  const [pin, setPin] = React.useState('');
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (link) setPin('');
+  }, [link]);
+
+  const save = async (newPin: string | null) => {
+    if (!link) return;
+    setIsSaving(true);
+    try {
+        await setUploadLinkPin(link.id, newPin);
+        toast({ title: newPin ? 'PIN updated.' : 'PIN removed.' });
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Could not update the PIN.';
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!link} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{link?.hasPin ? 'Change PIN' : 'Set a PIN'}</DialogTitle>
+          <DialogDescription>
+            Guests will need this PIN to upload through &quot;{link?.label}&quot;. Setting a new PIN also unlocks the link after too many wrong attempts.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 py-4">
+          <Label htmlFor="upload-link-pin">New PIN</Label>
+          <Input id="upload-link-pin" inputMode="numeric" autoComplete="off" maxLength={8} placeholder="4 to 8 digits" value={pin} onChange={e => setPin(e.target.value)} />
+        </div>
+        <DialogFooter>
+          {link?.hasPin && (
+            <Button type="button" variant="outline" onClick={() => save(null)} disabled={isSaving}>Remove PIN</Button>
+          )}
+          <DialogClose asChild>
+            <Button type="button" variant="secondary">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={() => save(pin)} disabled={isSaving || !UPLOAD_PIN_PATTERN.test(pin)}>Save PIN</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** The couple's guest upload links, with their limits and what is left of them. */
+export function UploadLinks() {
+  const { uploadLinks, loading, revokeUploadLink } = useUploadLinks();
+  const { canEdit } = useWedding();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [pinLink, setPinLink] = React.useState<UploadLink | null>(null);
+  const [qrLink, setQrLink] = React.useState<UploadLink | null>(null);
+
+  const copyLink = (link: UploadLink) => {
+    navigator.clipboard.writeText(getGuestUploadLink(link.token));
+    toast({
+        title: "Link Copied!",
+        description: "The guest upload link has been copied to your clipboard.",
+    });
+  };
+
+  const revoke = async (link: UploadLink) => {
+    try {
+        await revokeUploadLink(link.id);
+        toast({ title: 'Link revoked.', description: `"${link.label}" no longer accepts uploads.` });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Could not revoke the link.';
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  return (
+    <Card className="mb-8 shadow-md">
+      <CardHeader className="flex-row items-center justify-between">
+        <div>
+          <CardTitle className="font-headline text-2xl">Share Your Album</CardTitle>
+          <CardDescription>Create links or QR codes for your guests so they can upload their photos directly to your album.</CardDescription>
+        </div>
+        {canEdit && (
+          <Button variant="outline" onClick={() => setIsDialogOpen(true)}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            New Link
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!loading && uploadLinks.length === 0 ? (
+          <p className="p-4 text-center text-sm text-muted-foreground">
+            No upload links yet. Create one for each table or group so you can limit or revoke them separately.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Link</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Photos</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {uploadLinks.map(link => {
+                const status = uploadLinkStatus(link);
+                return (
+                  <TableRow key={link.id}>
+                    <TableCell className="font-medium">
+                      {link.label}
+                      {link.hasPin && <Lock className="ml-2 inline h-3 w-3 text-muted-foreground" aria-label="PIN protected" />}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status === 'active' ? 'default' : 'secondary'}>{UPLOAD_LINK_STATUS_LABELS[status]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {link.uploadCount}{link.maxUploads !== null && ` / ${link.maxUploads}`}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{link.expiresAt ? format(link.expiresAt, 'PP') : 'Never'}</TableCell>
+                    <TableCell className="text-right">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label={`Actions for ${link.label}`}>
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => copyLink(link)} disabled={status === 'revoked'}>
+                            <Copy className="mr-2 h-4 w-4" />
+                            Copy link
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setQrLink(link)} disabled={status === 'revoked'}>
+                            <QrCode className="mr-2 h-4 w-4" />
+                            Show QR code
+                          </DropdownMenuItem>
+                          {canEdit && status !== 'revoked' && (
+                            <>
+                              <DropdownMenuItem onClick={() => setPinLink(link)}>
+                                <KeyRound className="mr-2 h-4 w-4" />
+                                {link.hasPin ? 'Change PIN' : 'Set PIN'}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => revoke(link)} className="text-destructive">
+                                <Ban className="mr-2 h-4 w-4" />
+                                Revoke
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      <UploadLinkDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} />
+      <PinDialog link={pinLink} onOpenChange={open => !open && setPinLink(null)} />
+      <QrCodeDialog
+        open={!!qrLink}
+        onOpenChange={open => !open && setQrLink(null)}
+        title={qrLink?.label ?? ''}
+        description="Guests can scan this code to open the upload page."
+        value={qrLink ? getGuestUploadLink(qrLink.token) : ''}
+        fileName="photo-upload-qr"
+      >
+        {qrLink && (
+          <Button asChild variant="outline">
+            <Link href={`/dashboard/photo-poster/${qrLink.id}`} target="_blank">
+              <Printer className="mr-2 h-4 w-4" />
+              Poster
+            </Link>
+          </Button>
+        )}
+      </QrCodeDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { PlusCircle, X } from "lucide-react";
+import { useVendors, type Vendor, type VendorDetails } from "@/hooks/use-vendors";
+import { useToast } from "@/hooks/use-toast";
+import { useBudget } from "@/hooks/use-budget";
+import { VENDOR_CATEGORIES, VENDOR_STATUSES, VENDOR_STATUS_LABELS } from "@/lib/vendors";
+import { MoneyInput } from "./money-input";
+
+const vendorSchema = z.object({
+    name: z.string().trim().min(1, "Name is required"),
+    category: z.string(),
+    status: z.enum(VENDOR_STATUSES),
+    contactName: z.string().trim(),
+    email: z.string().trim().email("Enter a valid email").or(z.literal('')),
+    phone: z.string().trim(),
+    website: z.string().trim(),
+    quotes: z.array(z.object({
+        id: z.string(),
+        description: z.string().trim(),
+        amount: z.coerce.number().min(0, "Amount must be positive"),
+    })),
+    notes: z.string().max(5000),
+});
+
+type VendorFormValues = z.infer<typeof vendorSchema>;
+
+const toFormValues = (vendor: Vendor | null): VendorFormValues => ({
+    name: vendor?.name ?? '',
+    category: vendor?.category ?? 'Other',
+    status: vendor?.status ?? 'researching',
+    contactName: vendor?.contactName ?? '',
+    email: vendor?.email ?? '',
+    phone: vendor?.phone ?? '',
+    website: vendor?.website ?? '',
+    quotes: vendor?.quotes ?? [],
+    notes: vendor?.notes ?? '',
+});
+
+interface VendorDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** The vendor to edit, or null to create a new one. */
+    vendor: Vendor | null;
+}
+
+export function VendorDialog({ open, onOpenChange, vendor }: VendorDialogProps) {
+  const { addVendor, updateVendor } = useVendors();
+  const { summary } = useBudget();
+  const { toast } = useToast();
+
+  const form = useForm<VendorFormValues>({
+    resolver: zodResolver(vendorSchema),
+    defaultValues: toFormValues(vendor),
+  });
+  const { fields: quoteFields, append: appendQuote, remove: removeQuote } = useFieldArray({
+    control: form.control,
+    name: "quotes",
+  });
+
+  React.useEffect(() => {
+    if (open) form.reset(toFormValues(vendor));
+  }, [open, vendor, form]);
+
+  async function onSave(values: VendorFormValues) {
+    const details: VendorDetails = { ...values, notes: values.notes.trim() };
+    try {
+        if (vendor) {
+            await updateVendor(vendor.id, details);
+            toast({ title: "Vendor updated." });
+        } else {
+            await addVendor(details);
+            toast({ title: "Vendor added." });
+        }
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not save the vendor.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{vendor ? 'Edit Vendor' : 'New Vendor'}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSave)} className="space-y-4 py-4">
+                <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Name</FormLabel>
+                            <FormControl>
+                                <Input placeholder="e.g. Gourmet Delights" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    <FormField
+                        control={form.control}
+                        name="category"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Category</FormLabel>
+                                <Select value={field.value} onValueChange={field.onChange}>
+                                    <FormControl>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                        {VENDOR_CATEGORIES.map(category => (
+                                            <SelectItem key={category} value={category}>{category}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="status"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Status</FormLabel>
+                                <Select value={field.value} onValueChange={field.onChange}>
+                                    <FormControl>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                        {VENDOR_STATUSES.map(status => (
+                                            <SelectItem key={status} value={status}>{VENDOR_STATUS_LABELS[status]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="contactName"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Contact</FormLabel>
+                                <FormControl>
+                                    <Input placeholder="e.g. Maria Lopez" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="phone"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Phone</FormLabel>
+                                <FormControl>
+                                    <Input type="tel" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Email</FormLabel>
+                                <FormControl>
+                                    <Input type="email" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="website"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>Website</FormLabel>
+                                <FormControl>
+                                    <Input placeholder="https://" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <FormLabel>Quotes</FormLabel>
+                    {quoteFields.map((quote, index) => (
+                        <div key={quote.id} className="flex items-start gap-2">
+                            <FormField
+                                control={form.control}
+                                name={`quotes.${index}.description`}
+                                render={({ field }) => (
+                                    <FormItem className="flex-grow">
+                                        <FormControl>
+                                            <Input placeholder="e.g. Full-day package" {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name={`quotes.${index}.amount`}
+                                render={({ field }) => (
+                                    <FormItem className="w-32">
+                                        <FormControl>
+                                            <MoneyInput currency={summary?.currency ?? 'USD'} {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                            <Button type="button" variant="ghost" size="icon" onClick={() => removeQuote(index)}>
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    ))}
+                    <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => appendQuote({ id: crypto.randomUUID(), description: '', amount: 0 })}
+                    >
+                        <PlusCircle className="mr-2 h-4 w-4" />
+                        Add Quote
+                    </Button>
+                </div>
+                <FormField
+                    control={form.control}
+                    name="notes"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Notes</FormLabel>
+                            <FormControl>
+                                <Textarea rows={3} placeholder="What's included, deposit terms, impressions" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <DialogFooter>
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">Cancel</Button>
+                    </DialogClose>
+                    <Button type="submit">{vendor ? 'Save' : 'Add Vendor'}</Button>
+                </DialogFooter>
+            </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, MoreHorizontal, Paperclip, Pencil, PlusCircle, Trash2 } from 'lucide-react';
+import { useVendors, type Vendor, type VendorStatus } from '@/hooks/use-vendors';
+import { useBudget } from '@/hooks/use-budget';
+import { formatMoney } from '@/lib/currency';
+import { useWedding } from '@/hooks/use-wedding';
+import { getVendorLink, lowestQuote, summarizeVendorExpenses, VENDOR_STATUSES, VENDOR_STATUS_LABELS } from '@/lib/vendors';
+import { VendorDialog } from './vendor-dialog';
+
+export const VENDOR_STATUS_BADGE: Record<VendorStatus, 'default' | 'secondary' | 'outline'> = {
+  researching: 'outline',
+  quoted: 'secondary',
+  booked: 'default',
+};
+
+export function VendorList() {
+  const { vendors, loading, deleteVendor } = useVendors();
+  const { expenses, summary } = useBudget();
+  const currency = summary?.currency ?? 'USD';
+  const { canEdit } = useWedding();
+  const [filter, setFilter] = React.useState<VendorStatus | 'all'>('all');
+  const [dialogVendor, setDialogVendor] = React.useState<Vendor | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+
+  const visibleVendors = vendors.filter(v => filter === 'all' || v.status === filter);
+
+  const openVendorDialog = (vendor: Vendor | null) => {
+    setDialogVendor(vendor);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between">
+        <div>
+          <CardTitle className="font-headline text-2xl">Vendors</CardTitle>
+          <CardDescription>
+            {vendors.filter(v => v.status === 'booked').length} of {vendors.length} vendors booked.
+          </CardDescription>
+        </div>
+        {canEdit && (
+          <Button variant="outline" onClick={() => openVendorDialog(null)}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Add Vendor
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as VendorStatus | 'all')} className="mb-4">
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            {VENDOR_STATUSES.map(status => (
+              <TabsTrigger key={status} value={status}>{VENDOR_STATUS_LABELS[status]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : visibleVendors.length === 0 ? (
+          <p className="p-8 text-center text-sm text-muted-foreground">No vendors here yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Quote</TableHead>
+                <TableHead>Paid / Total</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleVendors.map(vendor => {
+                const quote = lowestQuote(vendor.quotes);
+                const payments = summarizeVendorExpenses(expenses.filter(e => e.vendorId === vendor.id));
+                return (
+                  <TableRow key={vendor.id}>
+                    <TableCell>
+                      <Link href={getVendorLink(vendor.id)} className="font-medium underline-offset-4 hover:underline">{vendor.name}</Link>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span>{vendor.category}</span>
+                        {vendor.contracts.length > 0 && (
+                          <span className="flex items-center gap-1"><Paperclip className="h-3 w-3" />{vendor.contracts.length}</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={VENDOR_STATUS_BADGE[vendor.status]}>{VENDOR_STATUS_LABELS[vendor.status]}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {quote === null ? <span className="text-muted-foreground">&mdash;</span> : formatMoney(quote, currency)}
+                      {vendor.quotes.length > 1 && <span className="text-xs text-muted-foreground"> ({vendor.quotes.length} quotes)</span>}
+                    </TableCell>
+                    <TableCell>
+                      {payments.total > 0
+                        ? `${formatMoney(Math.round(payments.paid), currency)} / ${formatMoney(Math.round(payments.total), currency)}`
+                        : <span className="text-muted-foreground">&mdash;</span>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {canEdit && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => openVendorDialog(vendor)}>
+                              <Pencil className="mr-2 h-4 w-4"/>
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => deleteVendor(vendor.id)} className="text-destructive">
+                              <Trash2 className="mr-2 h-4 w-4"/>
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      <VendorDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} vendor={dialogVendor} />
+    </Card>
+  );
+}
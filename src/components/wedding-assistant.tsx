@@ -10,27 +10,52 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Bot, Send } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Bot, Send, Plus, Pencil, Trash2 } from 'lucide-react';
 import { ScrollArea } from './ui/scroll-area';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import { cn } from '@/lib/utils';
 import { useUser } from '@/hooks/use-user';
+import { useAssistant } from '@/hooks/use-assistant';
+import { AssistantThreadDialog } from './assistant-thread-dialog';
+import { MAX_QUESTION_LENGTH, MIN_QUESTION_LENGTH } from '@/lib/assistant-threads';
 
 const formSchema = z.object({
-  question: z.string().min(5, { message: "Please ask a complete question." }),
+  question: z.string().trim()
+    .min(MIN_QUESTION_LENGTH, { message: "Please ask a complete question." })
+    .max(MAX_QUESTION_LENGTH, { message: "That question is too long." }),
 });
 
-interface Message {
-    role: 'user' | 'assistant';
-    text: string;
+/** A turn still on its way: shown until the saved copies arrive from Firestore. */
+interface PendingTurn {
+    threadId: string;
+    question: string;
+    answer: string;
+    /** How many messages the thread had when the question was sent. */
+    baseCount: number;
+    /** Id of the saved answer, known once streaming finishes. */
+    messageId: string | null;
+    error: string | null;
 }
 
 export function WeddingAssistant() {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [pending, setPending] = useState<PendingTurn | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [renameOpen, setRenameOpen] = useState(false);
   const { toast } = useToast();
   const { user } = useUser();
+  const {
+    threads,
+    activeThreadId,
+    setActiveThreadId,
+    messages,
+    messagesLoading,
+    createThread,
+    deleteThread,
+    askAssistant,
+  } = useAssistant();
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const activeThread = threads.find(t => t.id === activeThreadId) ?? null;
 
 
   const form = useForm<z.infer<typeof formSchema>>({
@@ -45,7 +70,14 @@ export function WeddingAssistant() {
     if (scrollAreaRef.current) {
         scrollAreaRef.current.scrollTo({ top: scrollAreaRef.current.scrollHeight, behavior: 'smooth' });
     }
-  }, [messages]);
+  }, [messages, pending]);
+
+  // Drop the streamed copy once the saved answer shows up.
+  useEffect(() => {
+    if (pending?.messageId && messages.some(m => m.id === pending.messageId)) {
+        setPending(null);
+    }
+  }, [messages, pending]);
 
   async function onSubmit(values: z.infer<typeof formSchema>) {
     if (!user) {
@@ -59,33 +91,52 @@ export function WeddingAssistant() {
 
     setIsLoading(true);
     const question = values.question;
-    setMessages(prev => [...prev, { role: 'user', text: question }]);
     form.reset();
 
     try {
-      const response = await fetch('/api/wedding-assistant', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ question: question, userId: user.uid }),
+      const threadId = activeThreadId ?? await createThread();
+      const baseCount = threadId === activeThreadId ? messages.length : 0;
+      setPending({ threadId, question, answer: '', baseCount, messageId: null, error: null });
+      const messageId = await askAssistant(threadId, question, answer => {
+        setPending(prev => prev && { ...prev, answer });
       });
-
-      if (!response.ok) {
-        throw new Error('The assistant is currently unavailable. Please try again later.');
-      }
-      
-      const result = await response.json();
-      setMessages(prev => [...prev, { role: 'assistant', text: result.answer }]);
+      setPending(prev => prev && { ...prev, messageId });
 
     } catch (error: any) {
       console.error('AI Assistant Error:', error);
-      setMessages(prev => [...prev, { role: 'assistant', text: error.message || 'The assistant is currently unavailable. Please try again later.' }]);
+      const message = error.message || 'The assistant is currently unavailable. Please try again later.';
+      setPending(prev => prev && { ...prev, error: message });
     } finally {
       setIsLoading(false);
     }
   }
 
+  async function handleNewThread() {
+    try {
+      setPending(null);
+      await createThread();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not start a conversation.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  }
+
+  async function handleDeleteThread() {
+    if (!activeThread) return;
+    try {
+      setPending(null);
+      await deleteThread(activeThread.id);
+      toast({ title: 'Conversation deleted.' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not delete the conversation.';
+      toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  }
+
+  const pendingHere = pending && pending.threadId === activeThreadId ? pending : null;
+  const showPendingQuestion = !!pendingHere && messages.length <= pendingHere.baseCount;
+  const pendingAnswer = pendingHere?.error ?? pendingHere?.answer ?? '';
+
   return (
     <Card className="h-full flex flex-col">
       <CardHeader>
@@ -94,13 +145,46 @@ export function WeddingAssistant() {
           AI Wedding Assistant
         </CardTitle>
         <CardDescription>
-          Ask me anything about your wedding plan!
+          Ask me anything about your wedding plan! I remember what we talked about in each conversation.
         </CardDescription>
+        <div className="flex items-center gap-2 pt-2">
+          <Select
+            value={activeThreadId ?? ''}
+            onValueChange={threadId => { setPending(null); setActiveThreadId(threadId); }}
+            disabled={isLoading || threads.length === 0}
+          >
+            <SelectTrigger className="flex-grow min-w-0">
+              <SelectValue placeholder="New conversation" />
+            </SelectTrigger>
+            <SelectContent>
+              {threads.map(thread => (
+                <SelectItem key={thread.id} value={thread.id}>{thread.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" className="shrink-0" onClick={handleNewThread} disabled={isLoading || (!!activeThread && messages.length === 0)}>
+            <Plus className="h-4 w-4" />
+            <span className="sr-only">New conversation</span>
+          </Button>
+          <Button variant="outline" size="icon" className="shrink-0" onClick={() => setRenameOpen(true)} disabled={isLoading || !activeThread}>
+            <Pencil className="h-4 w-4" />
+            <span className="sr-only">Rename conversation</span>
+          </Button>
+          <Button variant="outline" size="icon" className="shrink-0" onClick={handleDeleteThread} disabled={isLoading || !activeThread}>
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Delete conversation</span>
+          </Button>
+        </div>
       </CardHeader>
       <CardContent className="flex-grow flex flex-col gap-4">
         <ScrollArea className="flex-grow h-64 pr-4" ref={scrollAreaRef}>
            <div className="space-y-4">
-            {messages.length === 0 && (
+            {messagesLoading && (
+                <div className="flex justify-center pt-10">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+            )}
+            {!messagesLoading && messages.length === 0 && !pendingHere && (
                 <div className="text-center text-muted-foreground pt-10">
                     <p>I can answer questions like:</p>
                     <ul className="text-sm list-inside list-disc mt-2">
@@ -110,8 +194,8 @@ export function WeddingAssistant() {
                     </ul>
                 </div>
             )}
-            {messages.map((message, index) => (
-              <div key={index} className={cn("flex items-start gap-3", message.role === 'user' ? 'justify-end' : '')}>
+            {messages.map(message => (
+              <div key={message.id} className={cn("flex items-start gap-3", message.role === 'user' ? 'justify-end' : '')}>
                 {message.role === 'assistant' && (
                     <Avatar className="h-8 w-8 bg-primary text-primary-foreground">
                         <AvatarFallback>AI</AvatarFallback>
@@ -121,17 +205,26 @@ export function WeddingAssistant() {
                     "p-3 rounded-lg max-w-sm",
                     message.role === 'user' ? 'bg-muted' : 'bg-primary/10'
                 )}>
-                  <p className="text-sm">{message.text}</p>
+                  <p className="text-sm whitespace-pre-wrap">{message.text}</p>
                 </div>
               </div>
             ))}
-            {isLoading && (
+            {showPendingQuestion && (
+                <div className="flex items-start gap-3 justify-end">
+                    <div className="p-3 rounded-lg max-w-sm bg-muted">
+                        <p className="text-sm whitespace-pre-wrap">{pendingHere.question}</p>
+                    </div>
+                </div>
+            )}
+            {pendingHere && (
                 <div className="flex items-start gap-3">
                     <Avatar className="h-8 w-8 bg-primary text-primary-foreground">
                         <AvatarFallback>AI</AvatarFallback>
                     </Avatar>
-                     <div className="p-3 rounded-lg bg-primary/10">
-                        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                    <div className="p-3 rounded-lg max-w-sm bg-primary/10">
+                        {pendingAnswer
+                            ? <p className="text-sm whitespace-pre-wrap">{pendingAnswer}</p>
+                            : <Loader2 className="h-5 w-5 animate-spin text-primary" />}
                     </div>
                 </div>
             )}
@@ -160,6 +253,7 @@ export function WeddingAssistant() {
             </Form>
         </div>
       </CardContent>
+      <AssistantThreadDialog open={renameOpen} onOpenChange={setRenameOpen} thread={activeThread} />
     </Card>
   );
 }
@@ -0,0 +1,256 @@
+"use client";
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CalendarPlus, ChevronLeft, ChevronRight, Link2, Loader2, MapPin, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+} from 'date-fns';
+import { cn } from '@/lib/utils';
+import { useWedding } from '@/hooks/use-wedding';
+import { useTasks } from '@/hooks/use-tasks';
+import { useBudget } from '@/hooks/use-budget';
+import { useEvents, type WeddingEvent } from '@/hooks/use-events';
+import { buildCalendarEntries, CALENDAR_KIND_LABELS, type CalendarEntry, type CalendarEntryKind } from '@/lib/calendar';
+import { EventDialog } from './event-dialog';
+import { CalendarFeedDialog } from './calendar-feed-dialog';
+
+const KIND_STYLES: Record<CalendarEntryKind, string> = {
+  wedding: 'bg-primary text-primary-foreground',
+  event: 'bg-accent text-accent-foreground',
+  task: 'bg-primary/15',
+  payment: 'bg-secondary text-secondary-foreground',
+};
+
+/** Entries shown per day in the month grid before collapsing into "+N more". */
+const MAX_DAY_ENTRIES = 3;
+
+const formatTime = (entry: CalendarEntry) =>
+  entry.allDay ? 'All day' : `${format(entry.start, 'p')}${entry.end ? ` – ${format(entry.end, 'p')}` : ''}`;
+
+export function WeddingCalendar() {
+  const { weddingId, wedding, canEdit } = useWedding();
+  const { tasks, loading: tasksLoading } = useTasks();
+  const { expenses, loading: budgetLoading } = useBudget();
+  const { events, loading: eventsLoading, deleteEvent } = useEvents();
+  const [month, setMonth] = React.useState(() => startOfMonth(new Date()));
+  const [dialogEvent, setDialogEvent] = React.useState<WeddingEvent | null>(null);
+  const [dialogDate, setDialogDate] = React.useState<Date | null>(null);
+  const [isEventDialogOpen, setIsEventDialogOpen] = React.useState(false);
+  const [isFeedOpen, setIsFeedOpen] = React.useState(false);
+
+  const entries = React.useMemo(
+    () => buildCalendarEntries({ weddingId: weddingId ?? '', weddingDate: wedding?.weddingDate ?? null, tasks, expenses, events }),
+    [weddingId, wedding?.weddingDate, tasks, expenses, events],
+  );
+  const days = eachDayOfInterval({ start: startOfWeek(month), end: endOfWeek(endOfMonth(month)) });
+  const agenda = entries.filter(entry => entry.start >= startOfDay(new Date()));
+  const agendaDays = agenda.reduce<{ day: Date; entries: CalendarEntry[] }[]>((groups, entry) => {
+    const last = groups[groups.length - 1];
+    if (last && isSameDay(last.day, entry.start)) {
+      last.entries.push(entry);
+    } else {
+      groups.push({ day: startOfDay(entry.start), entries: [entry] });
+    }
+    return groups;
+  }, []);
+
+  const openEventDialog = (event: WeddingEvent | null, date: Date | null = null) => {
+    setDialogEvent(event);
+    setDialogDate(date);
+    setIsEventDialogOpen(true);
+  };
+
+  const findEvent = (entry: CalendarEntry) =>
+    entry.kind === 'event' ? events.find(e => `event-${e.id}` === entry.id) ?? null : null;
+
+  const renderEntryActions = (entry: CalendarEntry) => {
+    const event = findEvent(entry);
+    if (!event || !canEdit) return null;
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => openEventDialog(event)}>
+            <Pencil className="mr-2 h-4 w-4"/>
+            Edit
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => deleteEvent(event.id)} className="text-destructive">
+            <Trash2 className="mr-2 h-4 w-4"/>
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
+  const loading = tasksLoading || budgetLoading || eventsLoading;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between sm:space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="font-headline text-2xl">Calendar</CardTitle>
+          <CardDescription>Task deadlines, vendor payments and wedding-weekend events in one place.</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsFeedOpen(true)}>
+            <Link2 className="mr-2 h-4 w-4" />
+            Subscribe
+          </Button>
+          {canEdit && (
+            <Button onClick={() => openEventDialog(null)}>
+              <CalendarPlus className="mr-2 h-4 w-4" />
+              Add Event
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Tabs defaultValue="month">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+              <TabsList>
+                <TabsTrigger value="month">Month</TabsTrigger>
+                <TabsTrigger value="agenda">Agenda</TabsTrigger>
+              </TabsList>
+              <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                {(Object.keys(KIND_STYLES) as CalendarEntryKind[]).map(kind => (
+                  <span key={kind} className="flex items-center gap-1">
+                    <span className={cn('h-3 w-3 rounded-sm', KIND_STYLES[kind])} />
+                    {CALENDAR_KIND_LABELS[kind]}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <TabsContent value="month">
+              <div className="mb-2 flex items-center justify-between">
+                <Button variant="ghost" size="icon" onClick={() => setMonth(m => subMonths(m, 1))} aria-label="Previous month">
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <div className="flex items-center gap-2">
+                  <h3 className="font-headline text-lg">{format(month, 'MMMM yyyy')}</h3>
+                  {!isSameMonth(month, new Date()) && (
+                    <Button variant="link" size="sm" onClick={() => setMonth(startOfMonth(new Date()))}>Today</Button>
+                  )}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => setMonth(m => addMonths(m, 1))} aria-label="Next month">
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-7 overflow-hidden rounded-lg border text-xs">
+                {days.slice(0, 7).map(day => (
+                  <div key={day.toISOString()} className="border-b bg-muted/50 p-2 text-center font-medium text-muted-foreground">
+                    {format(day, 'EEE')}
+                  </div>
+                ))}
+                {days.map(day => {
+                  const dayEntries = entries.filter(entry => isSameDay(entry.start, day));
+                  return (
+                    <div
+                      key={day.toISOString()}
+                      className={cn(
+                        'min-h-24 border-b border-r p-1 [&:nth-child(7n)]:border-r-0',
+                        !isSameMonth(day, month) && 'bg-muted/30 text-muted-foreground',
+                        canEdit && 'cursor-pointer hover:bg-primary/5',
+                      )}
+                      onClick={() => canEdit && openEventDialog(null, day)}
+                    >
+                      <div className={cn('mb-1 flex h-6 w-6 items-center justify-center rounded-full', isToday(day) && 'bg-primary font-bold text-primary-foreground')}>
+                        {format(day, 'd')}
+                      </div>
+                      <div className="space-y-1">
+                        {dayEntries.slice(0, MAX_DAY_ENTRIES).map(entry => {
+                          const event = findEvent(entry);
+                          return (
+                            <div
+                              key={entry.id}
+                              title={`${entry.title} · ${formatTime(entry)}`}
+                              className={cn('truncate rounded px-1 py-0.5', KIND_STYLES[entry.kind], entry.done && 'line-through opacity-60')}
+                              onClick={(e) => {
+                                // Only events are edited here; tasks and payments have their own tabs.
+                                e.stopPropagation();
+                                if (event && canEdit) openEventDialog(event);
+                              }}
+                            >
+                              {!entry.allDay && `${format(entry.start, 'p')} `}{entry.title}
+                            </div>
+                          );
+                        })}
+                        {dayEntries.length > MAX_DAY_ENTRIES && (
+                          <div className="px-1 text-muted-foreground">+{dayEntries.length - MAX_DAY_ENTRIES} more</div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </TabsContent>
+            <TabsContent value="agenda">
+              {agendaDays.length === 0 ? (
+                <p className="p-8 text-center text-sm text-muted-foreground">Nothing coming up.</p>
+              ) : (
+                <div className="space-y-6">
+                  {agendaDays.map(({ day, entries: dayEntries }) => (
+                    <div key={day.toISOString()}>
+                      <h3 className="mb-2 text-sm font-semibold">
+                        {isToday(day) ? 'Today' : format(day, 'EEEE, MMMM d, yyyy')}
+                      </h3>
+                      <div className="space-y-2">
+                        {dayEntries.map(entry => (
+                          <div key={entry.id} className="flex items-center gap-4 rounded-lg p-3 hover:bg-primary/5">
+                            <span className={cn('h-3 w-3 shrink-0 rounded-sm', KIND_STYLES[entry.kind])} />
+                            <div className="flex-1 space-y-1">
+                              <p className={cn('text-sm font-medium leading-none', entry.done && 'line-through text-muted-foreground')}>{entry.title}</p>
+                              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                                <span>{CALENDAR_KIND_LABELS[entry.kind]}</span>
+                                <span>{formatTime(entry)}</span>
+                                {entry.location && (
+                                  <span className="flex items-center gap-1"><MapPin className="h-3 w-3" />{entry.location}</span>
+                                )}
+                              </div>
+                            </div>
+                            {renderEntryActions(entry)}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+      <EventDialog open={isEventDialogOpen} onOpenChange={setIsEventDialogOpen} event={dialogEvent} defaultDate={dialogDate} />
+      <CalendarFeedDialog open={isFeedOpen} onOpenChange={setIsFeedOpen} />
+    </Card>
+  );
+}
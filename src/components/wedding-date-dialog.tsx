@@ -0,0 +1,85 @@
+"use client";
+
+import * as React from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { useWedding } from "@/hooks/use-wedding";
+import { useToast } from "@/hooks/use-toast";
+
+interface WeddingDateDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function WeddingDateDialog({ open, onOpenChange }: WeddingDateDialogProps) {
+  const { wedding, updateWeddingDate } = useWedding();
+  const { toast } = useToast();
+  const [date, setDate] = React.useState<Date | undefined>(undefined);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (open) setDate(wedding?.weddingDate ?? undefined);
+  }, [open, wedding]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+        await updateWeddingDate(date ?? null);
+        toast({
+            title: "Wedding date saved.",
+            description: date ? `Your checklist has been scheduled for ${format(date, 'PPP')}.` : "Your checklist is no longer scheduled.",
+        });
+        onOpenChange(false);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not save the wedding date.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Wedding Date</DialogTitle>
+          <DialogDescription>Task due dates are counted back from this date and move with it.</DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-center py-2">
+          <Calendar
+            mode="single"
+            selected={date}
+            onSelect={setDate}
+            defaultMonth={date}
+            initialFocus
+          />
+        </div>
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button type="button" variant="ghost" onClick={() => setDate(undefined)} disabled={!date || isSaving}>
+            Clear
+          </Button>
+          <div className="flex gap-2">
+            <DialogClose asChild>
+              <Button type="button" variant="secondary">Cancel</Button>
+            </DialogClose>
+            <Button type="button" onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import * as React from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Copy, Mail, Trash2, UserPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUser } from "@/hooks/use-user";
+import { useWedding, getInviteLink, type WeddingInvite, type WeddingRole } from "@/hooks/use-wedding";
+import { ROLE_LABELS } from "@/lib/weddings";
+
+const inviteSchema = z.object({
+    email: z.string().email("Please enter a valid email."),
+    role: z.enum(['partner', 'planner', 'viewer']),
+});
+
+interface WeddingTeamDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function WeddingTeamDialog({ open, onOpenChange }: WeddingTeamDialogProps) {
+  const { user } = useUser();
+  const { wedding, canManage, invites, inviteMember, revokeInvite, updateMemberRole, removeMember } = useWedding();
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof inviteSchema>>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: {
+      email: "",
+      role: "partner",
+    },
+  });
+
+  const copyLink = (link: string) => {
+    navigator.clipboard.writeText(link);
+    toast({ title: "Invite link copied!" });
+  };
+
+  const mailtoLink = (invite: WeddingInvite) => {
+    const subject = `Join our wedding plan on Wedly`;
+    const body = `You've been invited to help plan ${wedding?.name1} & ${wedding?.name2}'s wedding as ${ROLE_LABELS[invite.role]}.\n\nAccept the invite here: ${getInviteLink(invite.id)}`;
+    return `mailto:${invite.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+  };
+
+  async function onInvite(values: z.infer<typeof inviteSchema>) {
+    try {
+        const link = await inviteMember(values.email, values.role);
+        copyLink(link);
+        toast({
+            title: "Invite Created",
+            description: `The invite link for ${values.email} has been copied to your clipboard.`,
+        });
+        form.reset();
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not create the invite.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  }
+
+  const handleRoleChange = async (uid: string, role: Exclude<WeddingRole, 'owner'>) => {
+    try {
+        await updateMemberRole(uid, role);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not update the role.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  const handleRemove = async (uid: string) => {
+    try {
+        await removeMember(uid);
+        toast({ title: "Member removed." });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Could not remove the member.";
+        toast({ variant: 'destructive', title: 'Error', description: message });
+    }
+  };
+
+  if (!wedding) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Wedding Team</DialogTitle>
+          <DialogDescription>Everyone here can see {wedding.name1} &amp; {wedding.name2}&apos;s plan.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {Object.entries(wedding.members).map(([uid, member]) => (
+            <div key={uid} className="flex items-center justify-between gap-2">
+              <div>
+                <p className="text-sm font-medium">{member.displayName}{uid === user?.uid && ' (you)'}</p>
+                <p className="text-xs text-muted-foreground">{member.email}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                {canManage && member.role !== 'owner' ? (
+                  <>
+                    <Select value={member.role} onValueChange={(role) => handleRoleChange(uid, role as Exclude<WeddingRole, 'owner'>)}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="partner">{ROLE_LABELS.partner}</SelectItem>
+                        <SelectItem value="planner">{ROLE_LABELS.planner}</SelectItem>
+                        <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="icon" onClick={() => handleRemove(uid)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {canManage && (
+          <>
+            <Separator />
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onInvite)} className="flex flex-col sm:flex-row sm:items-end gap-2">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem className="flex-grow">
+                      <FormLabel>Invite by email</FormLabel>
+                      <FormControl>
+                        <Input placeholder="partner@example.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="role"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Role</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="partner">{ROLE_LABELS.partner}</SelectItem>
+                          <SelectItem value="planner">{ROLE_LABELS.planner}</SelectItem>
+                          <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit">
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  Invite
+                </Button>
+              </form>
+            </Form>
+
+            {invites.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Pending invites</p>
+                {invites.map((invite) => (
+                  <div key={invite.id} className="flex items-center justify-between gap-2">
+                    <div>
+                      <p className="text-sm">{invite.email}</p>
+                      <p className="text-xs text-muted-foreground">{ROLE_LABELS[invite.role]}</p>
+                    </div>
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="icon" onClick={() => copyLink(getInviteLink(invite.id))}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" asChild>
+                        <a href={mailtoLink(invite)}>
+                          <Mail className="h-4 w-4" />
+                        </a>
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => revokeInvite(invite.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
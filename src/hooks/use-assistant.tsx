@@ -0,0 +1,201 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { useWedding } from './use-wedding';
+import { useUser } from './use-user';
+import { db } from '@/lib/firebase';
+import { addDoc, collection, deleteDoc, doc, getDocs, onSnapshot, query, orderBy, updateDoc, writeBatch, type DocumentData, type Timestamp } from 'firebase/firestore';
+import { DEFAULT_THREAD_TITLE, MAX_THREAD_TITLE_LENGTH, type AssistantMessage, type AssistantThread } from '@/lib/assistant-threads';
+
+export type { AssistantMessage, AssistantThread } from '@/lib/assistant-threads';
+
+// Firestore caps a batch at 500 writes.
+const THREAD_BATCH_SIZE = 450;
+
+interface AssistantContextType {
+  threads: AssistantThread[];
+  loading: boolean;
+  /** The open thread, or null before the first one is started. */
+  activeThreadId: string | null;
+  setActiveThreadId: (threadId: string | null) => void;
+  /** Messages in the open thread, oldest first. */
+  messages: AssistantMessage[];
+  messagesLoading: boolean;
+  createThread: () => Promise<string>;
+  renameThread: (threadId: string, title: string) => Promise<void>;
+  /** Removes the thread and every message in it. */
+  deleteThread: (threadId: string) => Promise<void>;
+  /**
+   * Asks Welly a question in the thread, calling `onText` with the answer so far as it
+   * streams in. Resolves to the id the saved answer will have.
+   */
+  askAssistant: (threadId: string, question: string, onText: (text: string) => void) => Promise<string>;
+}
+
+const AssistantContext = createContext<AssistantContextType | undefined>(undefined);
+
+const toAssistantThread = (id: string, data: DocumentData): AssistantThread => ({
+    id,
+    title: data.title || DEFAULT_THREAD_TITLE,
+    createdBy: data.createdBy ?? '',
+    createdAt: (data.createdAt as Timestamp | undefined)?.toDate() ?? new Date(),
+    updatedAt: (data.updatedAt as Timestamp | undefined)?.toDate() ?? new Date(),
+});
+
+const toAssistantMessage = (id: string, data: DocumentData): AssistantMessage => ({
+    id,
+    role: data.role === 'assistant' ? 'assistant' : 'user',
+    text: data.text ?? '',
+    createdAt: (data.createdAt as Timestamp | undefined)?.toDate() ?? new Date(),
+});
+
+export const AssistantProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [threads, setThreads] = useState<AssistantThread[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<AssistantMessage[]>([]);
+  const [messagesLoading, setMessagesLoading] = useState(false);
+  const { weddingId, loading: weddingLoading } = useWedding();
+  const { user, getIdToken } = useUser();
+
+  const threadsCollectionRef = useMemo(() => {
+    if (!weddingId) return null;
+    return collection(db, 'weddings', weddingId, 'assistantThreads');
+  }, [weddingId]);
+
+  useEffect(() => {
+    setActiveThreadId(null);
+    if (weddingLoading) {
+        setLoading(true);
+        return;
+    }
+    if (!threadsCollectionRef) {
+        setThreads([]);
+        setLoading(false);
+        return;
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(query(threadsCollectionRef, orderBy('updatedAt', 'desc')), (snapshot) => {
+        setThreads(snapshot.docs.map(threadDoc => toAssistantThread(threadDoc.id, threadDoc.data())));
+        setLoading(false);
+    }, (error) => {
+        console.error("Error fetching assistant threads:", error);
+        setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [weddingLoading, threadsCollectionRef]);
+
+  // Reopen the latest conversation, and move off a thread once it has been deleted.
+  useEffect(() => {
+    if (loading) return;
+    if (!activeThreadId || !threads.some(t => t.id === activeThreadId)) {
+        setActiveThreadId(threads[0]?.id ?? null);
+    }
+  }, [loading, threads, activeThreadId]);
+
+  useEffect(() => {
+    if (!threadsCollectionRef || !activeThreadId) {
+        setMessages([]);
+        setMessagesLoading(false);
+        return;
+    }
+
+    setMessagesLoading(true);
+    const messagesRef = collection(threadsCollectionRef, activeThreadId, 'messages');
+    const unsubscribe = onSnapshot(query(messagesRef, orderBy('createdAt', 'asc')), (snapshot) => {
+        setMessages(snapshot.docs.map(messageDoc => toAssistantMessage(messageDoc.id, messageDoc.data())));
+        setMessagesLoading(false);
+    }, (error) => {
+        console.error("Error fetching assistant messages:", error);
+        setMessagesLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [threadsCollectionRef, activeThreadId]);
+
+  const createThread = async () => {
+    if (!threadsCollectionRef) throw new Error("No active wedding.");
+    const now = new Date();
+    const threadRef = await addDoc(threadsCollectionRef, {
+        title: DEFAULT_THREAD_TITLE,
+        createdBy: user?.uid ?? '',
+        createdAt: now,
+        updatedAt: now,
+    });
+    setActiveThreadId(threadRef.id);
+    return threadRef.id;
+  };
+
+  const renameThread = async (threadId: string, title: string) => {
+    if (!threadsCollectionRef) throw new Error("No active wedding.");
+    await updateDoc(doc(threadsCollectionRef, threadId), {
+        title: title.trim().slice(0, MAX_THREAD_TITLE_LENGTH) || DEFAULT_THREAD_TITLE,
+    });
+  };
+
+  const deleteThread = async (threadId: string) => {
+    if (!threadsCollectionRef) throw new Error("No active wedding.");
+    const threadRef = doc(threadsCollectionRef, threadId);
+    const messagesSnapshot = await getDocs(collection(threadRef, 'messages'));
+    for (let i = 0; i < messagesSnapshot.docs.length; i += THREAD_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        messagesSnapshot.docs.slice(i, i + THREAD_BATCH_SIZE).forEach(messageDoc => batch.delete(messageDoc.ref));
+        await batch.commit();
+    }
+    await deleteDoc(threadRef);
+  };
+
+  const askAssistant = async (threadId: string, question: string, onText: (text: string) => void) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const token = await getIdToken();
+    if (!token) throw new Error("Not authenticated.");
+    const response = await fetch('/api/wedding-assistant', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify({ question, weddingId, threadId }),
+    });
+    if (!response.ok || !response.body) {
+        throw new Error('The assistant is currently unavailable. Please try again later.');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        text += decoder.decode(value, { stream: true });
+        onText(text);
+    }
+    return response.headers.get('X-Message-Id') ?? '';
+  };
+
+  const value = {
+    threads,
+    loading,
+    activeThreadId,
+    setActiveThreadId,
+    messages,
+    messagesLoading,
+    createThread,
+    renameThread,
+    deleteThread,
+    askAssistant,
+  };
+
+  return (
+    <AssistantContext.Provider value={value}>
+      {children}
+    </AssistantContext.Provider>
+  );
+};
+
+export const useAssistant = () => {
+  const context = useContext(AssistantContext);
+  if (context === undefined) {
+    throw new Error('useAssistant must be used within an AssistantProvider');
+  }
+  return context;
+};
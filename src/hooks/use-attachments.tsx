@@ -0,0 +1,172 @@
+"use client";
+
+import React, { createContext, useContext } from 'react';
+import { useWedding } from './use-wedding';
+import { useUser } from './use-user';
+import { db, storage } from '@/lib/firebase';
+import { arrayUnion, doc, runTransaction, Timestamp, type DocumentData } from 'firebase/firestore';
+import { deleteObject, ref, uploadBytesResumable } from 'firebase/storage';
+import {
+    ATTACHMENT_FIELDS,
+    attachmentContentType,
+    attachmentPath,
+    validateAttachment,
+    weddingIdFromPath,
+    type Attachment,
+    type AttachmentTarget,
+} from '@/lib/attachments';
+
+export type { Attachment, AttachmentOwner, AttachmentTarget } from '@/lib/attachments';
+
+/** Called with the uploaded fraction, from 0 to 1. */
+export type UploadProgress = (fraction: number) => void;
+
+interface AttachmentContextType {
+  /** Writes raw data to a path under the active wedding. */
+  uploadFile: (path: string, data: Blob, onProgress?: UploadProgress) => Promise<void>;
+  /** Uploads a file for a document without recording it, e.g. a payment receipt. */
+  storeFile: (target: AttachmentTarget, file: File, onProgress?: UploadProgress) => Promise<Attachment>;
+  deleteFile: (path: string) => Promise<void>;
+  /** Uploads a file and adds it to the target document's attachment list. */
+  addAttachment: (target: AttachmentTarget, file: File, onProgress?: UploadProgress) => Promise<Attachment>;
+  removeAttachment: (target: AttachmentTarget, attachment: Attachment) => Promise<void>;
+  getAttachmentUrl: (path: string) => Promise<string>;
+  /** Opens a stored file in a new tab through a signed URL. */
+  openAttachment: (path: string) => Promise<void>;
+}
+
+const AttachmentContext = createContext<AttachmentContextType | undefined>(undefined);
+
+/** Reads an attachment list as stored on its owning document. */
+export const toAttachments = (data: DocumentData[] | undefined): Attachment[] =>
+    (data ?? []).map(a => ({
+        id: a.id,
+        name: a.name,
+        path: a.path,
+        contentType: a.contentType ?? '',
+        size: a.size ?? 0,
+        uploadedAt: (a.uploadedAt as Timestamp | undefined)?.toDate() ?? new Date(),
+    }));
+
+export const AttachmentProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { weddingId } = useWedding();
+  const { getIdToken } = useUser();
+
+  const ownerRef = (weddingId: string, { owner, ownerId }: AttachmentTarget) =>
+    doc(db, 'weddings', weddingId, owner, ownerId);
+
+  const uploadFile = async (path: string, data: Blob, onProgress?: UploadProgress) => {
+    if (!weddingId || weddingIdFromPath(path) !== weddingId) throw new Error("Files must be stored under the active wedding.");
+    const task = uploadBytesResumable(ref(storage, path), data, { contentType: data.type });
+    if (onProgress) {
+        task.on('state_changed', snapshot => onProgress(snapshot.bytesTransferred / snapshot.totalBytes));
+    }
+    await task;
+  };
+
+  const storeFile = async (target: AttachmentTarget, file: File, onProgress?: UploadProgress) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const problem = validateAttachment(file);
+    if (problem) throw new Error(problem);
+
+    const contentType = attachmentContentType(file) ?? file.type;
+
+    const id = crypto.randomUUID();
+    const path = attachmentPath(weddingId, target, id, file.name);
+    await uploadFile(path, file.slice(0, file.size, contentType), onProgress);
+    return { id, name: file.name, path, contentType, size: file.size, uploadedAt: new Date() };
+  };
+
+  const deleteFile = async (path: string) => {
+    // A missing file shouldn't block removing the entry that pointed at it.
+    await deleteObject(ref(storage, path)).catch(error => console.error("Error deleting file:", error));
+  };
+
+  const addAttachment = async (target: AttachmentTarget, file: File, onProgress?: UploadProgress) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const attachment = await storeFile(target, file, onProgress);
+    try {
+        await runTransaction(db, async transaction => {
+            const ownerDoc = await transaction.get(ownerRef(weddingId, target));
+            if (!ownerDoc.exists()) throw new Error("This item no longer exists.");
+            transaction.update(ownerDoc.ref, {
+                [ATTACHMENT_FIELDS[target.owner]]: arrayUnion({ ...attachment, uploadedAt: Timestamp.fromDate(attachment.uploadedAt) }),
+            });
+        });
+    } catch (error) {
+        await deleteFile(attachment.path);
+        throw error;
+    }
+    return attachment;
+  };
+
+  const removeAttachment = async (target: AttachmentTarget, attachment: Attachment) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const field = ATTACHMENT_FIELDS[target.owner];
+    // Removed by id, since older entries carry fields this client no longer reads.
+    await runTransaction(db, async transaction => {
+        const ownerDoc = await transaction.get(ownerRef(weddingId, target));
+        if (!ownerDoc.exists()) return;
+        const remaining = (ownerDoc.data()[field] ?? []).filter((a: DocumentData) => a.id !== attachment.id);
+        transaction.update(ownerDoc.ref, { [field]: remaining });
+    });
+    await deleteFile(attachment.path);
+  };
+
+  const getAttachmentUrl = async (path: string) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const token = await getIdToken();
+    if (!token) throw new Error("Not authenticated.");
+    const response = await fetch('/api/weddings/attachments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify({ weddingId, path }),
+    });
+    if (!response.ok) {
+        throw new Error(await response.text() || 'Could not open the file.');
+    }
+    const { url } = await response.json();
+    return url as string;
+  };
+
+  const openAttachment = async (path: string) => {
+    // Opened before the request so the browser still treats it as a user action.
+    const tab = window.open('', '_blank');
+    try {
+        const url = await getAttachmentUrl(path);
+        if (tab) {
+            tab.opener = null;
+            tab.location.href = url;
+        } else {
+            window.location.href = url;
+        }
+    } catch (error) {
+        tab?.close();
+        throw error;
+    }
+  };
+
+  const value = {
+    uploadFile,
+    storeFile,
+    deleteFile,
+    addAttachment,
+    removeAttachment,
+    getAttachmentUrl,
+    openAttachment,
+  };
+
+  return (
+    <AttachmentContext.Provider value={value}>
+      {children}
+    </AttachmentContext.Provider>
+  );
+};
+
+export const useAttachments = () => {
+  const context = useContext(AttachmentContext);
+  if (context === undefined) {
+    throw new Error('useAttachments must be used within an AttachmentProvider');
+  }
+  return context;
+};
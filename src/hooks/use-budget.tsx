@@ -0,0 +1,385 @@
+
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { useWedding } from './use-wedding';
+import { useUser } from './use-user';
+import { toAttachments, useAttachments, type Attachment } from './use-attachments';
+import { db } from '@/lib/firebase';
+import { collection, doc, onSnapshot, updateDoc, addDoc, Timestamp, type DocumentData } from 'firebase/firestore';
+import type { CategoryPlan } from '@/lib/budget-plan';
+import type { BudgetReconciliation, BudgetTotals } from '@/lib/budget-admin';
+import { DEFAULT_CURRENCY, toCurrencyCode, toExchangeRate, type CurrencyCode, type ExchangeRate, type RateSource } from '@/lib/currency';
+import { sortInstallments, summarizeSchedule, toInstallments, type Installment, type PaymentMethod } from '@/lib/payments';
+
+export type { Installment, PaymentMethod, PaymentReceipt } from '@/lib/payments';
+export type { CategoryPlan } from '@/lib/budget-plan';
+export type { BudgetReconciliation } from '@/lib/budget-admin';
+export type { CurrencyCode, ExchangeRate } from '@/lib/currency';
+
+export interface Expense {
+    id: string;
+    category: string;
+    /** What was budgeted for this item before it was quoted. */
+    estimated: number;
+    /** Sum of the scheduled payments. */
+    actual: number;
+    /** Currency the estimate and payments are in. */
+    currency: CurrencyCode;
+    /** Units of the budget currency per unit of `currency`; 1 when they are the same. */
+    exchangeRate: number;
+    rateSource: RateSource | null;
+    rateDate: Date | null;
+    /** Vendor name as entered; kept in sync with the linked vendor when there is one. */
+    vendor: string;
+    vendorId: string | null;
+    /** Contributor covering this expense, or null when the couple pays it themselves. */
+    payerId: string | null;
+    /** Due date of the next unpaid payment, or the last one once everything is paid. */
+    dueDate: Date;
+    /** True once every scheduled payment has been made. */
+    paid: boolean;
+    reminder: boolean;
+    /** Deposit and installments, soonest first. */
+    payments: Installment[];
+    /** Quotes, invoices and other documents; managed through the attachment service. */
+    attachments: Attachment[];
+}
+
+export type NewExpense = Pick<Expense, 'category' | 'estimated' | 'actual' | 'currency' | 'vendor' | 'vendorId' | 'payerId' | 'dueDate'> & {
+    /** Rate to the budget currency; leave null for expenses in the budget currency. */
+    exchangeRate: ExchangeRate | null;
+};
+
+export interface PaymentRecord {
+    paidDate: Date;
+    method: PaymentMethod;
+    receipt: File | null;
+}
+
+/** Amounts are in the budget's base currency; spent and committed are kept up to date by the server. */
+export interface BudgetSummary extends BudgetTotals {
+    total: number;
+    currency: CurrencyCode;
+}
+
+interface BudgetContextType {
+  summary: BudgetSummary | null;
+  expenses: Expense[];
+  /** Planned spend per category. */
+  plan: CategoryPlan[];
+  loading: boolean;
+  addExpense: (expense: NewExpense) => Promise<void>;
+  updateSchedule: (expenseId: string, payments: Installment[]) => Promise<void>;
+  recordPayment: (expenseId: string, installmentId: string, record: PaymentRecord) => Promise<void>;
+  clearPayment: (expenseId: string, installmentId: string) => Promise<void>;
+  toggleReminder: (expenseId: string) => Promise<void>;
+  setExpenseVendor: (expenseId: string, vendor: { id: string; name: string } | null) => Promise<void>;
+  setExpensePayer: (expenseId: string, contributorId: string | null) => Promise<void>;
+  setTotalBudget: (total: number) => Promise<void>;
+  setCategoryPlan: (plan: CategoryPlan[]) => Promise<void>;
+  setExchangeRate: (expenseId: string, rate: ExchangeRate) => Promise<void>;
+  setBaseCurrency: (currency: CurrencyCode) => Promise<void>;
+  reconcileBudget: () => Promise<BudgetReconciliation>;
+  /** Has the server recompute the stored summary, e.g. after contributors change. */
+  refreshSummary: () => Promise<void>;
+}
+
+const BudgetContext = createContext<BudgetContextType | undefined>(undefined);
+
+const toExpense = (id: string, data: Record<string, unknown>): Expense => {
+    const payments = sortInstallments(toInstallments(data));
+    const { actual, paid, dueDate } = summarizeSchedule(payments);
+    return {
+        ...data,
+        id,
+        vendorId: (data.vendorId as string | undefined) ?? null,
+        payerId: (data.payerId as string | undefined) ?? null,
+        currency: toCurrencyCode(data.currency),
+        exchangeRate: toExchangeRate(data),
+        rateSource: (data.rateSource as RateSource | undefined) ?? null,
+        rateDate: (data.rateDate as Timestamp | undefined)?.toDate() ?? null,
+        attachments: toAttachments(data.attachments as DocumentData[] | undefined),
+        payments,
+        actual,
+        paid,
+        dueDate,
+    } as Expense;
+};
+
+const serializeInstallment = (payment: Installment) => ({
+    ...payment,
+    dueDate: Timestamp.fromDate(payment.dueDate),
+    paidDate: payment.paidDate ? Timestamp.fromDate(payment.paidDate) : null,
+});
+
+const serializeRate = (rate: ExchangeRate | null) => ({
+    exchangeRate: rate?.rate ?? 1,
+    rateSource: rate?.source ?? null,
+    rateDate: rate ? Timestamp.fromDate(rate.date) : null,
+});
+
+export const BudgetProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [total, setTotal] = useState<number | null>(null);
+  const [plan, setPlan] = useState<CategoryPlan[]>([]);
+  const [currency, setCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
+  const [totals, setTotals] = useState<BudgetTotals>({ spent: 0, committed: 0 });
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { weddingId, loading: weddingLoading } = useWedding();
+  const { getIdToken } = useUser();
+  const { storeFile, deleteFile } = useAttachments();
+
+  const budgetDocRef = useMemo(() => {
+    if (!weddingId) return null;
+    return doc(db, 'weddings', weddingId, 'budget', 'summary');
+  }, [weddingId]);
+
+  const expensesCollectionRef = useMemo(() => {
+    if (!weddingId) return null;
+    return collection(db, 'weddings', weddingId, 'expenses');
+  }, [weddingId]);
+
+  useEffect(() => {
+    if (weddingLoading) {
+        setLoading(true);
+        return;
+    }
+    if (!budgetDocRef || !expensesCollectionRef) {
+        setTotal(null);
+        setPlan([]);
+        setExpenses([]);
+        setLoading(false);
+        return;
+    }
+
+    setLoading(true);
+
+    const unsubscribeBudget = onSnapshot(budgetDocRef, (budgetDoc) => {
+        if (budgetDoc.exists()) {
+            setTotal(budgetDoc.data().total || 0);
+            setPlan(budgetDoc.data().plan ?? []);
+            setCurrency(toCurrencyCode(budgetDoc.data().currency));
+            setTotals({ spent: budgetDoc.data().spent ?? 0, committed: budgetDoc.data().committed ?? 0 });
+        } else {
+            setTotal(0);
+            setPlan([]);
+            setCurrency(DEFAULT_CURRENCY);
+            setTotals({ spent: 0, committed: 0 });
+        }
+    }, (error) => {
+        console.error("Error fetching budget summary:", error);
+    });
+
+    const unsubscribeExpenses = onSnapshot(expensesCollectionRef, (snapshot) => {
+        setExpenses(snapshot.docs.map(expenseDoc => toExpense(expenseDoc.id, expenseDoc.data())));
+        setLoading(false);
+    }, (error) => {
+        console.error("Error fetching expenses:", error);
+        setLoading(false);
+    });
+
+    return () => {
+        unsubscribeBudget();
+        unsubscribeExpenses();
+    }
+  }, [weddingLoading, budgetDocRef, expensesCollectionRef]);
+
+  const summary = useMemo<BudgetSummary | null>(
+    () => (total === null ? null : { total, ...totals, currency }),
+    [total, totals, currency],
+  );
+
+  // The budget summary is only ever written by the server, which derives spent and committed from the full expense list.
+  const callBudgetApi = async <T,>(path: string, method: 'POST' | 'PATCH', body: object = {}): Promise<T> => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const token = await getIdToken();
+    if (!token) throw new Error("Not authenticated.");
+    const response = await fetch(path, {
+        method,
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify({ ...body, weddingId }),
+    });
+    if (!response.ok) {
+        throw new Error(await response.text() || 'Budget request failed.');
+    }
+    return response.json();
+  };
+
+  // The expense itself is already saved, and reconciling repairs a missed refresh.
+  const refreshSummary = async () => {
+    try {
+        await callBudgetApi('/api/weddings/budget', 'POST');
+    } catch (error) {
+        console.error("Error refreshing budget summary:", error);
+    }
+  };
+
+  const addExpense = async (expense: NewExpense) => {
+    if (!expensesCollectionRef) throw new Error("No active wedding.");
+    const payment: Installment = {
+        id: crypto.randomUUID(),
+        label: 'Payment',
+        amount: expense.actual,
+        dueDate: expense.dueDate,
+        paidDate: null,
+        method: null,
+        receipt: null,
+    };
+    const { exchangeRate, ...fields } = expense;
+    await addDoc(expensesCollectionRef, {
+        ...fields,
+        ...serializeRate(exchangeRate),
+        paid: false,
+        reminder: false,
+        dueDate: Timestamp.fromDate(expense.dueDate),
+        payments: [serializeInstallment(payment)],
+    });
+    await refreshSummary();
+  };
+
+  /**
+   * Saves an expense's schedule together with the figures derived from it, then has
+   * the server refresh the budget summary for readers outside the app such as the assistant.
+   */
+  const updateSchedule = async (expenseId: string, payments: Installment[]) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const expense = expenses.find(e => e.id === expenseId);
+    if (!expense) return;
+    const { actual, paid, dueDate } = summarizeSchedule(payments);
+
+    await updateDoc(doc(db, 'weddings', weddingId, 'expenses', expenseId), {
+        payments: payments.map(serializeInstallment),
+        actual,
+        paid,
+        dueDate: Timestamp.fromDate(dueDate),
+    });
+    await refreshSummary();
+
+    const removed = expense.payments.filter(p => !payments.some(q => q.id === p.id));
+    await Promise.all(removed.flatMap(p => p.receipt ? [deleteFile(p.receipt.path)] : []));
+  };
+
+  const recordPayment = async (expenseId: string, installmentId: string, record: PaymentRecord) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const expense = expenses.find(e => e.id === expenseId);
+    const installment = expense?.payments.find(p => p.id === installmentId);
+    if (!expense || !installment) return;
+
+    let receipt = installment.receipt;
+    if (record.receipt) {
+        const { name, path } = await storeFile({ owner: 'expenses', ownerId: expenseId }, record.receipt);
+        receipt = { name, path };
+    }
+    await updateSchedule(expenseId, expense.payments.map(p => (
+        p.id === installmentId ? { ...p, paidDate: record.paidDate, method: record.method, receipt } : p
+    )));
+  };
+
+  const clearPayment = async (expenseId: string, installmentId: string) => {
+    const expense = expenses.find(e => e.id === expenseId);
+    const installment = expense?.payments.find(p => p.id === installmentId);
+    if (!expense || !installment) return;
+    await updateSchedule(expenseId, expense.payments.map(p => (
+        p.id === installmentId ? { ...p, paidDate: null, method: null, receipt: null } : p
+    )));
+    if (installment.receipt) await deleteFile(installment.receipt.path);
+  };
+
+  const toggleReminder = async (expenseId: string) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const expense = expenses.find(e => e.id === expenseId);
+    if (expense) {
+        await updateDoc(doc(db, 'weddings', weddingId, 'expenses', expenseId), { reminder: !expense.reminder });
+    }
+  };
+
+  const setExpenseVendor = async (expenseId: string, vendor: { id: string; name: string } | null) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    // Unlinking keeps the name so the expense still says who it was for.
+    await updateDoc(
+        doc(db, 'weddings', weddingId, 'expenses', expenseId),
+        vendor ? { vendorId: vendor.id, vendor: vendor.name } : { vendorId: null },
+    );
+  };
+
+  const setExpensePayer = async (expenseId: string, contributorId: string | null) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    await updateDoc(doc(db, 'weddings', weddingId, 'expenses', expenseId), { payerId: contributorId });
+    await refreshSummary();
+  };
+
+  const setTotalBudget = async (newTotal: number) => {
+    const previous = total;
+    setTotal(newTotal);
+    try {
+        await callBudgetApi('/api/weddings/budget', 'PATCH', { total: newTotal });
+    } catch (error) {
+        setTotal(previous);
+        throw error;
+    }
+  };
+
+  const setExchangeRate = async (expenseId: string, rate: ExchangeRate) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    await updateDoc(doc(db, 'weddings', weddingId, 'expenses', expenseId), serializeRate(rate));
+    await refreshSummary();
+  };
+
+  /**
+   * Switches the budget to another currency. The server converts the total and plan and
+   * gives every expense a fresh rate to the new currency, replacing any typed in by hand.
+   */
+  const setBaseCurrency = async (newCurrency: CurrencyCode) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    if (newCurrency === currency) return;
+    await callBudgetApi('/api/weddings/budget', 'PATCH', { currency: newCurrency });
+  };
+
+  const reconcileBudget = () => callBudgetApi<BudgetReconciliation>('/api/weddings/budget/reconcile', 'POST');
+
+  const setCategoryPlan = async (categoryPlan: CategoryPlan[]) => {
+    const previous = plan;
+    setPlan(categoryPlan);
+    try {
+        await callBudgetApi('/api/weddings/budget', 'PATCH', { plan: categoryPlan });
+    } catch (error) {
+        setPlan(previous);
+        throw error;
+    }
+  };
+
+  const value = {
+    summary,
+    expenses,
+    plan,
+    loading,
+    addExpense,
+    updateSchedule,
+    recordPayment,
+    clearPayment,
+    toggleReminder,
+    setExpenseVendor,
+    setExpensePayer,
+    setTotalBudget,
+    setCategoryPlan,
+    setExchangeRate,
+    setBaseCurrency,
+    reconcileBudget,
+    refreshSummary,
+  };
+
+  return (
+    <BudgetContext.Provider value={value}>
+      {children}
+    </BudgetContext.Provider>
+  );
+};
+
+export const useBudget = () => {
+  const context = useContext(BudgetContext);
+  if (context === undefined) {
+    throw new Error('useBudget must be used within a BudgetProvider');
+  }
+  return context;
+};
@@ -0,0 +1,122 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { useWedding } from './use-wedding';
+import { useBudget } from './use-budget';
+import { db } from '@/lib/firebase';
+import { collection, doc, onSnapshot, addDoc, updateDoc, getDocs, query, orderBy, writeBatch, Timestamp, type DocumentData } from 'firebase/firestore';
+
+/** Someone paying towards the wedding, e.g. a set of parents. Amounts are in the budget currency. */
+export interface Contributor {
+    id: string;
+    name: string;
+    pledged: number;
+    /** Money actually handed over so far. */
+    received: number;
+    notes: string;
+    createdAt: Date;
+}
+
+export type ContributorDetails = Pick<Contributor, 'name' | 'pledged' | 'received' | 'notes'>;
+
+interface ContributorContextType {
+  contributors: Contributor[];
+  loading: boolean;
+  addContributor: (contributor: ContributorDetails) => Promise<void>;
+  updateContributor: (contributorId: string, contributor: ContributorDetails) => Promise<void>;
+  deleteContributor: (contributorId: string) => Promise<void>;
+}
+
+const ContributorContext = createContext<ContributorContextType | undefined>(undefined);
+
+const toContributor = (id: string, data: DocumentData): Contributor => ({
+    id,
+    name: data.name,
+    pledged: data.pledged ?? 0,
+    received: data.received ?? 0,
+    notes: data.notes ?? '',
+    createdAt: (data.createdAt as Timestamp | undefined)?.toDate() ?? new Date(),
+});
+
+export const ContributorProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [contributors, setContributors] = useState<Contributor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { weddingId, loading: weddingLoading } = useWedding();
+  // Pledged and received totals are part of the budget summary.
+  const { refreshSummary } = useBudget();
+
+  const contributorsCollectionRef = useMemo(() => {
+    if (!weddingId) return null;
+    return collection(db, 'weddings', weddingId, 'contributors');
+  }, [weddingId]);
+
+  useEffect(() => {
+    if (weddingLoading) {
+        setLoading(true);
+        return;
+    }
+    if (!contributorsCollectionRef) {
+        setContributors([]);
+        setLoading(false);
+        return;
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(query(contributorsCollectionRef, orderBy('createdAt', 'asc')), (snapshot) => {
+        setContributors(snapshot.docs.map(contributorDoc => toContributor(contributorDoc.id, contributorDoc.data())));
+        setLoading(false);
+    }, (error) => {
+        console.error("Error fetching contributors:", error);
+        setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [weddingLoading, contributorsCollectionRef]);
+
+  const addContributor = async (contributor: ContributorDetails) => {
+    if (!contributorsCollectionRef) throw new Error("No active wedding.");
+    await addDoc(contributorsCollectionRef, { ...contributor, createdAt: new Date() });
+    await refreshSummary();
+  };
+
+  const updateContributor = async (contributorId: string, contributor: ContributorDetails) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    await updateDoc(doc(db, 'weddings', weddingId, 'contributors', contributorId), { ...contributor });
+    await refreshSummary();
+  };
+
+  const deleteContributor = async (contributorId: string) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const expensesSnapshot = await getDocs(collection(db, 'weddings', weddingId, 'expenses'));
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'weddings', weddingId, 'contributors', contributorId));
+    // Whatever they were covering falls back to the couple.
+    expensesSnapshot.docs
+        .filter(d => d.data().payerId === contributorId)
+        .forEach(d => batch.update(d.ref, { payerId: null }));
+    await batch.commit();
+    await refreshSummary();
+  };
+
+  const value = {
+    contributors,
+    loading,
+    addContributor,
+    updateContributor,
+    deleteContributor,
+  };
+
+  return (
+    <ContributorContext.Provider value={value}>
+      {children}
+    </ContributorContext.Provider>
+  );
+};
+
+export const useContributors = () => {
+  const context = useContext(ContributorContext);
+  if (context === undefined) {
+    throw new Error('useContributors must be used within a ContributorProvider');
+  }
+  return context;
+};
@@ -0,0 +1,54 @@
+import * as React from "react"
+
+const HISTORY_LIMIT = 100
+
+interface DraftHistory<T> {
+  past: T[]
+  draft: T | null
+  future: T[]
+}
+
+const EMPTY_HISTORY = { past: [], draft: null, future: [] }
+
+/**
+ * An unsaved draft of `saved` with undo and redo. `value` is the draft when there
+ * is one and `saved` otherwise; `reset` drops the draft and its history.
+ */
+export function useDraftHistory<T>(saved: T) {
+  const [history, setHistory] = React.useState<DraftHistory<T>>(EMPTY_HISTORY)
+
+  const set = React.useCallback((next: T) => {
+    setHistory(({ past, draft }) => ({
+      past: [...past, draft ?? saved].slice(-HISTORY_LIMIT),
+      draft: next,
+      future: [],
+    }))
+  }, [saved])
+
+  const undo = React.useCallback(() => {
+    setHistory(({ past, draft, future }) => {
+      if (past.length === 0 || draft === null) return { past, draft, future }
+      return { past: past.slice(0, -1), draft: past[past.length - 1], future: [draft, ...future] }
+    })
+  }, [])
+
+  const redo = React.useCallback(() => {
+    setHistory(({ past, draft, future }) => {
+      if (future.length === 0) return { past, draft, future }
+      return { past: [...past, draft ?? saved], draft: future[0], future: future.slice(1) }
+    })
+  }, [saved])
+
+  const reset = React.useCallback(() => setHistory(EMPTY_HISTORY), [])
+
+  return {
+    value: history.draft ?? saved,
+    isDraft: history.draft !== null,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  }
+}
@@ -0,0 +1,110 @@
+
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { useWedding } from './use-wedding';
+import { db } from '@/lib/firebase';
+import { collection, doc, onSnapshot, addDoc, updateDoc, deleteDoc, query, orderBy, Timestamp } from 'firebase/firestore';
+import type { WeddingEvent } from '@/lib/calendar';
+
+export type { WeddingEvent } from '@/lib/calendar';
+
+export type EventDetails = Omit<WeddingEvent, 'id'>;
+
+interface EventContextType {
+  events: WeddingEvent[];
+  loading: boolean;
+  addEvent: (event: EventDetails) => Promise<void>;
+  updateEvent: (eventId: string, event: EventDetails) => Promise<void>;
+  deleteEvent: (eventId: string) => Promise<void>;
+}
+
+const EventContext = createContext<EventContextType | undefined>(undefined);
+
+const toFirestore = (event: EventDetails) => ({
+    ...event,
+    start: Timestamp.fromDate(event.start),
+    end: event.end ? Timestamp.fromDate(event.end) : null,
+});
+
+export const EventProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [events, setEvents] = useState<WeddingEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { weddingId, loading: weddingLoading } = useWedding();
+
+  const eventsCollectionRef = useMemo(() => {
+    if (!weddingId) return null;
+    return collection(db, 'weddings', weddingId, 'events');
+  }, [weddingId]);
+
+  useEffect(() => {
+    if (weddingLoading) {
+        setLoading(true);
+        return;
+    }
+    if (!eventsCollectionRef) {
+        setEvents([]);
+        setLoading(false);
+        return;
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(query(eventsCollectionRef, orderBy('start', 'asc')), (snapshot) => {
+        setEvents(snapshot.docs.map(eventDoc => {
+            const data = eventDoc.data();
+            return {
+                id: eventDoc.id,
+                title: data.title,
+                start: (data.start as Timestamp).toDate(),
+                end: data.end ? (data.end as Timestamp).toDate() : null,
+                allDay: data.allDay ?? false,
+                location: data.location ?? '',
+                notes: data.notes ?? '',
+            };
+        }));
+        setLoading(false);
+    }, (error) => {
+        console.error("Error fetching events:", error);
+        setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [weddingLoading, eventsCollectionRef]);
+
+  const addEvent = async (event: EventDetails) => {
+    if (!eventsCollectionRef) throw new Error("No active wedding.");
+    await addDoc(eventsCollectionRef, toFirestore(event));
+  };
+
+  const updateEvent = async (eventId: string, event: EventDetails) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    await updateDoc(doc(db, 'weddings', weddingId, 'events', eventId), toFirestore(event));
+  };
+
+  const deleteEvent = async (eventId: string) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    await deleteDoc(doc(db, 'weddings', weddingId, 'events', eventId));
+  };
+
+  const value = {
+    events,
+    loading,
+    addEvent,
+    updateEvent,
+    deleteEvent,
+  };
+
+  return (
+    <EventContext.Provider value={value}>
+      {children}
+    </EventContext.Provider>
+  );
+};
+
+export const useEvents = () => {
+  const context = useContext(EventContext);
+  if (context === undefined) {
+    throw new Error('useEvents must be used within an EventProvider');
+  }
+  return context;
+};
@@ -1,10 +1,12 @@
 
 "use client";
 
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { useUser } from './use-user';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { useWedding } from './use-wedding';
 import { db } from '@/lib/firebase';
-import { collection, addDoc, onSnapshot, query, orderBy, doc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { collection, addDoc, onSnapshot, query, orderBy, doc, updateDoc, deleteDoc, writeBatch, runTransaction, type Timestamp } from 'firebase/firestore';
+import { generateInviteCode } from '@/lib/rsvp';
+import { toMailingAddress, type MailingAddress } from '@/lib/addresses';
 
 export interface Guest {
     id: string;
@@ -12,13 +14,52 @@ export interface Guest {
     rsvp: 'Confirmed' | 'Pending' | 'Declined';
     group: string;
     table: number | null;
+    /** Seat index at `table` on the floor plan. */
+    seat: number | null;
+    partyId: string | null;
+    ageGroup: 'Adult' | 'Child';
+    isPlusOne: boolean;
+    meal: string | null;
+    dietaryNotes: string;
+    allergies: string[];
+    email: string;
+    phone: string;
 }
 
+/**
+ * An invitation: the household or couple that receives one invite, e.g.
+ * "The Smiths" or "Alex + guest". Each person in it is a separate `Guest`.
+ */
+export interface Party {
+    id: string;
+    name: string;
+    group: string;
+    plusOnesAllowed: number;
+    /** Code guests use on the public RSVP page; also the id of its inviteCodes/{code} lookup doc. */
+    inviteCode: string | null;
+    rsvpMessage: string;
+    respondedAt: Date | null;
+    address: MailingAddress | null;
+}
+
+export type NewGuest = Omit<Guest, 'id' | 'partyId'>;
+export type NewParty = Omit<Party, 'id' | 'inviteCode' | 'rsvpMessage' | 'respondedAt'>;
+
+// Firestore caps a batch at 500 writes; leave headroom for a party's extra docs.
+const IMPORT_BATCH_SIZE = 450;
+
 interface GuestContextType {
   guests: Guest[];
+  parties: Party[];
   loading: boolean;
   addGuest: (guest: Omit<Guest, 'id'>) => Promise<void>;
+  addParty: (party: NewParty, members: NewGuest[]) => Promise<void>;
+  importParties: (entries: { party: NewParty; members: NewGuest[] }[]) => Promise<void>;
+  addPlusOne: (partyId: string, name: string) => Promise<void>;
+  updateParty: (partyId: string, updates: Partial<NewParty>) => Promise<void>;
+  ensureInviteCode: (partyId: string) => Promise<string>;
   updateGuestRsvp: (guestId: string, rsvp: Guest['rsvp']) => Promise<void>;
+  updateGuest: (guestId: string, updates: Partial<Omit<Guest, 'id'>>) => Promise<void>;
   deleteGuest: (guestId: string) => Promise<void>;
 }
 
@@ -26,29 +67,53 @@ const GuestContext = createContext<GuestContextType | undefined>(undefined);
 
 export const GuestProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [guests, setGuests] = useState<Guest[]>([]);
+  const [parties, setParties] = useState<Party[]>([]);
   const [loading, setLoading] = useState(true);
-  const { user } = useUser();
+  const { weddingId, canEdit } = useWedding();
+  // Guests this session already tried to move into a party, so a failing one isn't retried on every snapshot.
+  const partyMigrationAttempts = useRef(new Set<string>());
 
   const getGuestsCollection = useCallback(() => {
-    if (!user) return null;
-    return collection(db, 'users', user.uid, 'guests');
-  }, [user]);
+    if (!weddingId) return null;
+    return collection(db, 'weddings', weddingId, 'guests');
+  }, [weddingId]);
+
+  const getPartiesCollection = useCallback(() => {
+    if (!weddingId) return null;
+    return collection(db, 'weddings', weddingId, 'parties');
+  }, [weddingId]);
 
   useEffect(() => {
     const guestsCollection = getGuestsCollection();
-    if (!guestsCollection) {
+    const partiesCollection = getPartiesCollection();
+    if (!guestsCollection || !partiesCollection) {
         setGuests([]);
+        setParties([]);
         setLoading(false);
         return;
     }
 
     setLoading(true);
     const q = query(guestsCollection, orderBy("name", "asc"));
-    
+
     const unsubscribe = onSnapshot(q, (querySnapshot) => {
       const guestsData: Guest[] = [];
       querySnapshot.forEach((doc) => {
-        guestsData.push({ id: doc.id, ...doc.data() } as Guest);
+        const data = doc.data();
+        // Guests created before parties existed have none of the household fields.
+        guestsData.push({
+            id: doc.id,
+            ...data,
+            partyId: data.partyId ?? null,
+            seat: data.seat ?? null,
+            ageGroup: data.ageGroup ?? 'Adult',
+            isPlusOne: data.isPlusOne ?? false,
+            meal: data.meal ?? null,
+            dietaryNotes: data.dietaryNotes ?? '',
+            allergies: data.allergies ?? [],
+            email: data.email ?? '',
+            phone: data.phone ?? '',
+        } as Guest);
       });
       setGuests(guestsData);
       setLoading(false);
@@ -57,12 +122,68 @@ export const GuestProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         setLoading(false);
     });
 
-    return () => unsubscribe();
-  }, [getGuestsCollection]);
+    const unsubscribeParties = onSnapshot(query(partiesCollection, orderBy("name", "asc")), (querySnapshot) => {
+      setParties(querySnapshot.docs.map(doc => {
+          const data = doc.data();
+          return {
+              id: doc.id,
+              ...data,
+              plusOnesAllowed: data.plusOnesAllowed ?? 0,
+              inviteCode: data.inviteCode ?? null,
+              rsvpMessage: data.rsvpMessage ?? '',
+              respondedAt: (data.respondedAt as Timestamp | undefined)?.toDate() ?? null,
+              address: toMailingAddress(data.address),
+          } as Party;
+      }));
+    }, (error) => {
+        console.error("Error fetching parties from Firestore: ", error);
+    });
+
+    return () => {
+        unsubscribe();
+        unsubscribeParties();
+    };
+  }, [getGuestsCollection, getPartiesCollection]);
+
+  // Guests added before parties existed each become a party of one, so they can get an RSVP
+  // code and an address and be seated as a household. A transaction makes sure two editors
+  // racing on the same guest create only one party.
+  const migrateLegacyGuests = async (legacy: Guest[]) => {
+    const partiesCollection = getPartiesCollection();
+    if (!weddingId || !partiesCollection) return;
+    for (const guest of legacy) {
+        const guestRef = doc(db, 'weddings', weddingId, 'guests', guest.id);
+        try {
+            await runTransaction(db, async transaction => {
+                const current = await transaction.get(guestRef);
+                if (!current.exists() || current.data().partyId) return;
+                const partyRef = doc(partiesCollection);
+                const inviteCode = generateInviteCode();
+                const party: NewParty = { name: guest.name, group: guest.group ?? '', plusOnesAllowed: 0, address: null };
+                transaction.set(partyRef, { ...party, inviteCode, rsvpMessage: '', respondedAt: null });
+                transaction.set(doc(db, 'inviteCodes', inviteCode), { weddingId, partyId: partyRef.id });
+                transaction.update(guestRef, { partyId: partyRef.id });
+            });
+        } catch (error) {
+            console.error(`Error moving guest ${guest.id} into a party:`, error);
+        }
+    }
+  };
+  // Read from the effect so it only reruns when the guest list or role changes.
+  const migrateLegacyGuestsRef = useRef(migrateLegacyGuests);
+  migrateLegacyGuestsRef.current = migrateLegacyGuests;
+
+  useEffect(() => {
+    if (!canEdit || loading) return;
+    const legacy = guests.filter(g => !g.partyId && !partyMigrationAttempts.current.has(g.id));
+    if (legacy.length === 0) return;
+    legacy.forEach(g => partyMigrationAttempts.current.add(g.id));
+    migrateLegacyGuestsRef.current(legacy);
+  }, [guests, loading, canEdit]);
 
   const addGuest = async (guest: Omit<Guest, 'id'>) => {
     const guestsCollection = getGuestsCollection();
-    if (!guestsCollection) throw new Error("User not authenticated.");
+    if (!guestsCollection) throw new Error("No active wedding.");
     try {
         await addDoc(guestsCollection, guest);
     } catch (error) {
@@ -70,9 +191,104 @@ export const GuestProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
   };
 
+  const addParty = async (party: NewParty, members: NewGuest[]) => {
+    const guestsCollection = getGuestsCollection();
+    const partiesCollection = getPartiesCollection();
+    if (!weddingId || !guestsCollection || !partiesCollection) throw new Error("No active wedding.");
+    try {
+        const batch = writeBatch(db);
+        const partyRef = doc(partiesCollection);
+        const inviteCode = generateInviteCode();
+        batch.set(partyRef, { ...party, inviteCode, rsvpMessage: '', respondedAt: null });
+        batch.set(doc(db, 'inviteCodes', inviteCode), { weddingId, partyId: partyRef.id });
+        members.forEach(member => {
+            batch.set(doc(guestsCollection), { ...member, partyId: partyRef.id });
+        });
+        await batch.commit();
+    } catch (error) {
+        console.error("Error adding party to Firestore: ", error);
+    }
+  };
+
+  const importParties = async (entries: { party: NewParty; members: NewGuest[] }[]) => {
+    const guestsCollection = getGuestsCollection();
+    const partiesCollection = getPartiesCollection();
+    if (!weddingId || !guestsCollection || !partiesCollection) throw new Error("No active wedding.");
+
+    let batch = writeBatch(db);
+    let writes = 0;
+    for (const { party, members } of entries) {
+        // Never split a party across batches so a failed commit cannot orphan guests.
+        if (writes + members.length + 2 > IMPORT_BATCH_SIZE) {
+            await batch.commit();
+            batch = writeBatch(db);
+            writes = 0;
+        }
+        const partyRef = doc(partiesCollection);
+        const inviteCode = generateInviteCode();
+        batch.set(partyRef, { ...party, inviteCode, rsvpMessage: '', respondedAt: null });
+        batch.set(doc(db, 'inviteCodes', inviteCode), { weddingId, partyId: partyRef.id });
+        members.forEach(member => {
+            batch.set(doc(guestsCollection), { ...member, partyId: partyRef.id });
+        });
+        writes += members.length + 2;
+    }
+    if (writes > 0) {
+        await batch.commit();
+    }
+  };
+
+  const addPlusOne = async (partyId: string, name: string) => {
+    const party = parties.find(p => p.id === partyId);
+    if (!party) throw new Error("Party not found.");
+    const namedPlusOnes = guests.filter(g => g.partyId === partyId && g.isPlusOne).length;
+    if (namedPlusOnes >= party.plusOnesAllowed) {
+        throw new Error(`${party.name} has no plus-ones left.`);
+    }
+    await addGuest({
+        name,
+        group: party.group,
+        rsvp: 'Pending',
+        table: null,
+        seat: null,
+        partyId,
+        ageGroup: 'Adult',
+        isPlusOne: true,
+        meal: null,
+        dietaryNotes: '',
+        allergies: [],
+        email: '',
+        phone: '',
+    });
+  };
+
+  const updateParty = async (partyId: string, updates: Partial<NewParty>) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    try {
+        await updateDoc(doc(db, 'weddings', weddingId, 'parties', partyId), updates);
+    } catch (error) {
+        console.error("Error updating party: ", error);
+    }
+  };
+
+  // Parties created before RSVP codes existed get one the first time it is needed.
+  const ensureInviteCode = async (partyId: string) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const party = parties.find(p => p.id === partyId);
+    if (!party) throw new Error("Party not found.");
+    if (party.inviteCode) return party.inviteCode;
+
+    const inviteCode = generateInviteCode();
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'weddings', weddingId, 'parties', partyId), { inviteCode });
+    batch.set(doc(db, 'inviteCodes', inviteCode), { weddingId, partyId });
+    await batch.commit();
+    return inviteCode;
+  };
+
   const updateGuestRsvp = async (guestId: string, rsvp: Guest['rsvp']) => {
-    if (!user) throw new Error("User not authenticated.");
-    const guestDocRef = doc(db, 'users', user.uid, 'guests', guestId);
+    if (!weddingId) throw new Error("No active wedding.");
+    const guestDocRef = doc(db, 'weddings', weddingId, 'guests', guestId);
     try {
         await updateDoc(guestDocRef, { rsvp });
     } catch (error) {
@@ -80,11 +296,32 @@ export const GuestProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
   }
 
+  const updateGuest = async (guestId: string, updates: Partial<Omit<Guest, 'id'>>) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const guestDocRef = doc(db, 'weddings', weddingId, 'guests', guestId);
+    try {
+        await updateDoc(guestDocRef, updates);
+    } catch (error) {
+        console.error("Error updating guest: ", error);
+    }
+  }
+
   const deleteGuest = async (guestId: string) => {
-    if (!user) throw new Error("User not authenticated.");
-    const guestDocRef = doc(db, 'users', user.uid, 'guests', guestId);
+    if (!weddingId) throw new Error("No active wedding.");
+    const guest = guests.find(g => g.id === guestId);
+    const guestDocRef = doc(db, 'weddings', weddingId, 'guests', guestId);
     try {
         await deleteDoc(guestDocRef);
+        // Remove the party once its last member is gone.
+        if (guest?.partyId && !guests.some(g => g.partyId === guest.partyId && g.id !== guestId)) {
+            const party = parties.find(p => p.id === guest.partyId);
+            const batch = writeBatch(db);
+            batch.delete(doc(db, 'weddings', weddingId, 'parties', guest.partyId));
+            if (party?.inviteCode) {
+                batch.delete(doc(db, 'inviteCodes', party.inviteCode));
+            }
+            await batch.commit();
+        }
     } catch (error) {
         console.error("Error deleting guest: ", error);
     }
@@ -92,9 +329,16 @@ export const GuestProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const value = {
     guests,
+    parties,
     loading,
     addGuest,
+    addParty,
+    importParties,
+    addPlusOne,
+    updateParty,
+    ensureInviteCode,
     updateGuestRsvp,
+    updateGuest,
     deleteGuest,
   };
 
@@ -1,63 +1,232 @@
-
 "use client";
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { db } from '@/lib/firebase';
-import { collection, addDoc, onSnapshot, query, orderBy } from 'firebase/firestore';
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef } from 'react';
+import { useWedding } from './use-wedding';
+import { useUser } from './use-user';
+import { useAttachments, type UploadProgress } from './use-attachments';
+import { db, storage } from '@/lib/firebase';
+import { collection, doc, onSnapshot, query, orderBy, setDoc, runTransaction, deleteField, writeBatch, type DocumentData, type Timestamp } from 'firebase/firestore';
+import { getDownloadURL, ref } from 'firebase/storage';
+import {
+    fileExtension,
+    isDataUri,
+    isPhotoType,
+    MAX_PHOTO_SIZE,
+    PHOTO_RENDITIONS,
+    photoPath,
+    renderPhoto,
+    type PhotoFiles,
+} from '@/lib/photos';
+import type { PhotoStatus } from '@/lib/photo-moderation';
 
-interface Photo {
+export interface Photo {
   id: string;
-  src: string;
   alt: string;
   hint: string;
+  /** Size of the web rendition, or null for photos not yet moved to Storage. */
+  width: number | null;
+  height: number | null;
+  /** Small image for the album grid. */
+  thumbUrl: string;
+  /** Screen-sized image for viewing. */
+  webUrl: string;
+  originalUrl: string;
+  /** Null until a legacy inline photo has been migrated. */
+  files: PhotoFiles | null;
+  /** Set for photos sent in by guests through an upload link. */
+  uploaderName: string | null;
+  message: string;
+  uploadLinkId: string | null;
+  status: PhotoStatus;
+  /** Which moderation rule held a pending guest upload. */
+  holdReason: string | null;
   createdAt: Date;
 }
 
+export interface PhotoDetails {
+  alt: string;
+  hint: string;
+}
+
 interface PhotoContextType {
+  /** Approved photos, the only ones shown in the album. */
   photos: Photo[];
-  addPhoto: (photo: Omit<Photo, 'id' | 'createdAt'>) => Promise<void>;
+  /** Guest uploads waiting for approval. */
+  pendingPhotos: Photo[];
+  addPhoto: (file: File, details: PhotoDetails, onProgress?: UploadProgress) => Promise<void>;
+  approvePhotos: (photoIds: string[]) => Promise<void>;
+  /** Deletes the photos along with their files. */
+  rejectPhotos: (photoIds: string[]) => Promise<void>;
 }
 
 const PhotoContext = createContext<PhotoContextType | undefined>(undefined);
 
+const toPhoto = (id: string, data: DocumentData): Photo => {
+    const files = (data.files as PhotoFiles | undefined) ?? null;
+    // Photos from before Storage kept the whole image inline.
+    const legacySrc = isDataUri(data.src) ? data.src : '';
+    return {
+        id,
+        alt: data.alt ?? '',
+        hint: data.hint ?? '',
+        width: data.width ?? null,
+        height: data.height ?? null,
+        thumbUrl: files?.thumb.url ?? legacySrc,
+        webUrl: files?.web.url ?? legacySrc,
+        originalUrl: files?.original.url ?? legacySrc,
+        files,
+        uploaderName: data.uploaderName ?? null,
+        message: data.message ?? '',
+        uploadLinkId: data.uploadLinkId ?? null,
+        // Photos from before moderation existed were all published.
+        status: data.status === 'pending' ? 'pending' : 'approved',
+        holdReason: data.holdReason ?? null,
+        createdAt: (data.createdAt as Timestamp | undefined)?.toDate() ?? new Date(),
+    };
+};
+
 export const PhotoProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [allPhotos, setAllPhotos] = useState<Photo[]>([]);
+  const { weddingId, canEdit } = useWedding();
+  const { user } = useUser();
+  const { uploadFile, deleteFile } = useAttachments();
+  // Photos this session already tried to migrate, so a failing one isn't retried on every snapshot.
+  const migrationAttempts = useRef(new Set<string>());
+
+  const photosCollectionRef = useMemo(() => {
+    if (!weddingId) return null;
+    return collection(db, 'weddings', weddingId, 'photos');
+  }, [weddingId]);
 
   useEffect(() => {
-    const q = query(collection(db, "photos"), orderBy("createdAt", "desc"));
-    
+    if (!photosCollectionRef) {
+        setAllPhotos([]);
+        return;
+    }
+    const q = query(photosCollectionRef, orderBy("createdAt", "desc"));
+
     const unsubscribe = onSnapshot(q, (querySnapshot) => {
-      const photosData: Photo[] = [];
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        photosData.push({
-            id: doc.id,
-            ...data,
-            createdAt: data.createdAt.toDate(), // Convert Firestore Timestamp to JS Date
-        } as Photo);
-      });
-      setPhotos(photosData);
+      setAllPhotos(querySnapshot.docs.map(photoDoc => toPhoto(photoDoc.id, photoDoc.data())));
     }, (error) => {
         console.error("Error fetching photos from Firestore: ", error);
     });
 
     return () => unsubscribe();
-  }, []);
+  }, [photosCollectionRef]);
+
+  const photos = useMemo(() => allPhotos.filter(p => p.status === 'approved'), [allPhotos]);
+  const pendingPhotos = useMemo(() => allPhotos.filter(p => p.status === 'pending'), [allPhotos]);
 
-  const addPhoto = async (photo: Omit<Photo, 'id' | 'createdAt'>) => {
+  /**
+   * Uploads the original with its renditions; progress is weighted by bytes. Each call gets
+   * its own folder, so a failed or duplicate upload can be cleaned up without touching
+   * files another session saved.
+   */
+  const storePhoto = async (source: Blob, extension: string, onProgress?: UploadProgress) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const folderId = crypto.randomUUID();
+    const thumb = await renderPhoto(source, PHOTO_RENDITIONS.thumb.maxSize, PHOTO_RENDITIONS.thumb.quality);
+    const web = await renderPhoto(source, PHOTO_RENDITIONS.web.maxSize, PHOTO_RENDITIONS.web.quality);
+    const uploads = [
+        { key: 'original', path: photoPath(weddingId, folderId, 'original', extension), blob: source },
+        { key: 'web', path: photoPath(weddingId, folderId, 'web', 'jpg'), blob: web.blob },
+        { key: 'thumb', path: photoPath(weddingId, folderId, 'thumb', 'jpg'), blob: thumb.blob },
+    ] as const;
+
+    const totalBytes = uploads.reduce((sum, u) => sum + u.blob.size, 0);
+    const sent = uploads.map(() => 0);
     try {
-        await addDoc(collection(db, "photos"), {
-            ...photo,
-            createdAt: new Date(),
-        });
+        const files = await Promise.all(uploads.map(async ({ key, path, blob }, index) => {
+            await uploadFile(path, blob, fraction => {
+                sent[index] = fraction * blob.size;
+                onProgress?.(sent.reduce((sum, bytes) => sum + bytes, 0) / totalBytes);
+            });
+            return [key, { path, url: await getDownloadURL(ref(storage, path)) }] as const;
+        }));
+        return { files: Object.fromEntries(files) as PhotoFiles, width: web.width, height: web.height };
     } catch (error) {
-        console.error("Error adding photo to Firestore: ", error);
+        await Promise.all(uploads.map(u => deleteFile(u.path)));
+        throw error;
     }
   };
 
+  const addPhoto = async (file: File, details: PhotoDetails, onProgress?: UploadProgress) => {
+    if (!photosCollectionRef) throw new Error("No active wedding.");
+    if (!isPhotoType(file.type)) throw new Error(`${file.name} is not a supported photo.`);
+    if (file.size > MAX_PHOTO_SIZE) throw new Error(`${file.name} is larger than 20 MB.`);
+
+    const photoRef = doc(photosCollectionRef);
+    const { files, width, height } = await storePhoto(file, fileExtension(file.name), onProgress);
+    try {
+        await setDoc(photoRef, { ...details, files, width, height, status: 'approved', createdAt: new Date() });
+    } catch (error) {
+        await Promise.all(Object.values(files).map(f => deleteFile(f.path)));
+        throw error;
+    }
+  };
+
+  const approvePhotos = async (photoIds: string[]) => {
+    if (!photosCollectionRef || !user) throw new Error("No active wedding.");
+    const batch = writeBatch(db);
+    photoIds.forEach(id => batch.update(doc(photosCollectionRef, id), {
+        status: 'approved',
+        moderatedBy: user.uid,
+        moderatedAt: new Date(),
+    }));
+    await batch.commit();
+  };
+
+  const rejectPhotos = async (photoIds: string[]) => {
+    if (!photosCollectionRef) throw new Error("No active wedding.");
+    const rejected = allPhotos.filter(p => photoIds.includes(p.id));
+    const batch = writeBatch(db);
+    rejected.forEach(p => batch.delete(doc(photosCollectionRef, p.id)));
+    await batch.commit();
+    await Promise.all(rejected.flatMap(p => Object.values(p.files ?? {}).map(f => deleteFile(f.path))));
+  };
+
+  // Moves photos saved as inline data URIs into Storage. A transaction makes sure two
+  // editors racing on the same photo keep only one copy.
+  const migratePhotos = async (legacy: Photo[]) => {
+    if (!photosCollectionRef) return;
+    for (const photo of legacy) {
+        const photoRef = doc(photosCollectionRef, photo.id);
+        try {
+            const source = await (await fetch(photo.originalUrl)).blob();
+            const extension = source.type.split('/')[1]?.replace('jpeg', 'jpg') || 'jpg';
+            const { files, width, height } = await storePhoto(source, extension);
+            const migrated = await runTransaction(db, async transaction => {
+                const current = await transaction.get(photoRef);
+                if (!current.exists() || current.data().files) return false;
+                transaction.update(photoRef, { files, width, height, src: deleteField() });
+                return true;
+            });
+            if (!migrated) {
+                await Promise.all(Object.values(files).map(f => deleteFile(f.path)));
+            }
+        } catch (error) {
+            console.error(`Error moving photo ${photo.id} to Storage:`, error);
+        }
+    }
+  };
+  // Read from the effect so it only reruns when the photo list or role changes.
+  const migratePhotosRef = useRef(migratePhotos);
+  migratePhotosRef.current = migratePhotos;
+
+  useEffect(() => {
+    if (!canEdit) return;
+    const legacy = allPhotos.filter(p => !p.files && !migrationAttempts.current.has(p.id));
+    if (legacy.length === 0) return;
+    legacy.forEach(p => migrationAttempts.current.add(p.id));
+    migratePhotosRef.current(legacy);
+  }, [allPhotos, canEdit]);
+
   const value = {
     photos,
+    pendingPhotos,
     addPhoto,
+    approvePhotos,
+    rejectPhotos,
   };
 
   return (
@@ -0,0 +1,207 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { useWedding } from './use-wedding';
+import { useGuests } from './use-guests';
+import { db } from '@/lib/firebase';
+import { addDoc, collection, doc, onSnapshot, query, orderBy, updateDoc, deleteDoc, writeBatch, type DocumentData } from 'firebase/firestore';
+import {
+    changedAssignments,
+    changedTableLayouts,
+    nextTableNumbers,
+    type NewSeatingRule,
+    type NewSeatingTable,
+    type SeatAssignment,
+    type SeatingAssignments,
+    type SeatingRule,
+    type SeatingTable,
+    type TableLayouts,
+} from '@/lib/seating';
+import { defaultTablePosition } from '@/lib/floor-plan';
+
+export type { SeatingTable, SeatingAssignments, SeatAssignment, SeatingRule, TableLayout, TableLayouts, TableShape } from '@/lib/seating';
+
+// Firestore caps a batch at 500 writes.
+const SEATING_BATCH_SIZE = 450;
+
+interface SeatingContextType {
+  tables: SeatingTable[];
+  rules: SeatingRule[];
+  loading: boolean;
+  addTables: (count: number, table: NewTableDetails) => Promise<void>;
+  updateTable: (tableId: string, updates: TableUpdate) => Promise<void>;
+  /** Removes the table and unseats everyone at it. */
+  deleteTable: (tableId: string) => Promise<void>;
+  /** Writes each changed assignment to the guest's `table` and `seat` fields. */
+  saveAssignments: (assignments: SeatingAssignments) => Promise<number>;
+  /** Writes each changed table position and set of locked seats. */
+  saveTableLayouts: (layouts: TableLayouts) => Promise<number>;
+  addRule: (rule: NewSeatingRule) => Promise<void>;
+  deleteRule: (ruleId: string) => Promise<void>;
+}
+
+type NewTableDetails = Pick<SeatingTable, 'capacity' | 'shape' | 'nearExit'>;
+type TableUpdate = Partial<Pick<SeatingTable, 'name' | 'capacity' | 'shape' | 'nearExit'>>;
+
+const SeatingContext = createContext<SeatingContextType | undefined>(undefined);
+
+const toSeatingTable = (id: string, data: DocumentData): SeatingTable => ({
+    id,
+    number: data.number,
+    name: data.name ?? '',
+    capacity: data.capacity ?? 0,
+    shape: data.shape ?? 'round',
+    x: data.x ?? null,
+    y: data.y ?? null,
+    lockedSeats: data.lockedSeats ?? [],
+    nearExit: data.nearExit ?? false,
+});
+
+const toSeatingRule = (id: string, data: DocumentData): SeatingRule => ({
+    id,
+    kind: data.kind,
+    guestIds: data.guestIds ?? [],
+    note: data.note ?? '',
+});
+
+export const SeatingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [tables, setTables] = useState<SeatingTable[]>([]);
+  const [rules, setRules] = useState<SeatingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { weddingId, loading: weddingLoading } = useWedding();
+  const { guests } = useGuests();
+
+  const tablesCollectionRef = useMemo(() => {
+    if (!weddingId) return null;
+    return collection(db, 'weddings', weddingId, 'tables');
+  }, [weddingId]);
+
+  const rulesCollectionRef = useMemo(() => {
+    if (!weddingId) return null;
+    return collection(db, 'weddings', weddingId, 'seatingRules');
+  }, [weddingId]);
+
+  useEffect(() => {
+    if (weddingLoading) {
+        setLoading(true);
+        return;
+    }
+    if (!tablesCollectionRef || !rulesCollectionRef) {
+        setTables([]);
+        setRules([]);
+        setLoading(false);
+        return;
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(query(tablesCollectionRef, orderBy('number', 'asc')), (snapshot) => {
+        setTables(snapshot.docs.map(tableDoc => toSeatingTable(tableDoc.id, tableDoc.data())));
+        setLoading(false);
+    }, (error) => {
+        console.error("Error fetching tables:", error);
+        setLoading(false);
+    });
+
+    const unsubscribeRules = onSnapshot(query(rulesCollectionRef, orderBy('createdAt', 'asc')), (snapshot) => {
+        setRules(snapshot.docs.map(ruleDoc => toSeatingRule(ruleDoc.id, ruleDoc.data())));
+    }, (error) => {
+        console.error("Error fetching seating rules:", error);
+    });
+
+    return () => {
+        unsubscribe();
+        unsubscribeRules();
+    };
+  }, [weddingLoading, tablesCollectionRef, rulesCollectionRef]);
+
+  const writeGuestSeats = async (updates: ({ guestId: string } & SeatAssignment)[]) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    for (let i = 0; i < updates.length; i += SEATING_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        updates.slice(i, i + SEATING_BATCH_SIZE).forEach(({ guestId, table, seat }) => {
+            batch.update(doc(db, 'weddings', weddingId, 'guests', guestId), { table, seat });
+        });
+        await batch.commit();
+    }
+  };
+
+  const addTables = async (count: number, details: NewTableDetails) => {
+    if (!tablesCollectionRef) throw new Error("No active wedding.");
+    const batch = writeBatch(db);
+    nextTableNumbers(tables, count).forEach((number, i) => {
+        const { x, y } = defaultTablePosition(tables.length + i);
+        const table: NewSeatingTable = { ...details, number, name: '', x, y, lockedSeats: [] };
+        batch.set(doc(tablesCollectionRef), { ...table, createdAt: new Date() });
+    });
+    await batch.commit();
+  };
+
+  const updateTable = async (tableId: string, updates: TableUpdate) => {
+    if (!tablesCollectionRef) throw new Error("No active wedding.");
+    await updateDoc(doc(tablesCollectionRef, tableId), updates);
+  };
+
+  const deleteTable = async (tableId: string) => {
+    if (!tablesCollectionRef) throw new Error("No active wedding.");
+    const table = tables.find(t => t.id === tableId);
+    if (!table) return;
+    await deleteDoc(doc(tablesCollectionRef, tableId));
+    await writeGuestSeats(guests.filter(g => g.table === table.number).map(g => ({ guestId: g.id, table: null, seat: null })));
+  };
+
+  const saveAssignments = async (assignments: SeatingAssignments) => {
+    const changes = changedAssignments(guests, assignments);
+    await writeGuestSeats(changes);
+    return changes.length;
+  };
+
+  const saveTableLayouts = async (layouts: TableLayouts) => {
+    if (!tablesCollectionRef) throw new Error("No active wedding.");
+    const changes = changedTableLayouts(tables, layouts);
+    for (let i = 0; i < changes.length; i += SEATING_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        changes.slice(i, i + SEATING_BATCH_SIZE).forEach(({ tableId, x, y, lockedSeats }) => {
+            batch.update(doc(tablesCollectionRef, tableId), { x, y, lockedSeats });
+        });
+        await batch.commit();
+    }
+    return changes.length;
+  };
+
+  const addRule = async (rule: NewSeatingRule) => {
+    if (!rulesCollectionRef) throw new Error("No active wedding.");
+    await addDoc(rulesCollectionRef, { ...rule, createdAt: new Date() });
+  };
+
+  const deleteRule = async (ruleId: string) => {
+    if (!rulesCollectionRef) throw new Error("No active wedding.");
+    await deleteDoc(doc(rulesCollectionRef, ruleId));
+  };
+
+  const value = {
+    tables,
+    rules,
+    loading,
+    addTables,
+    updateTable,
+    deleteTable,
+    saveAssignments,
+    saveTableLayouts,
+    addRule,
+    deleteRule,
+  };
+
+  return (
+    <SeatingContext.Provider value={value}>
+      {children}
+    </SeatingContext.Provider>
+  );
+};
+
+export const useSeating = () => {
+  const context = useContext(SeatingContext);
+  if (context === undefined) {
+    throw new Error('useSeating must be used within a SeatingProvider');
+  }
+  return context;
+};
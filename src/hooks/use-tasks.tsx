@@ -1,37 +1,45 @@
 
 "use client";
 
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import { useUser } from './use-user';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { useWedding } from './use-wedding';
+import { toAttachments, useAttachments, type Attachment } from './use-attachments';
 import { db } from '@/lib/firebase';
-import { collection, addDoc, onSnapshot, query, orderBy, doc, updateDoc, writeBatch } from 'firebase/firestore';
+import { collection, addDoc, onSnapshot, query, orderBy, doc, updateDoc, deleteDoc, writeBatch, Timestamp } from 'firebase/firestore';
+import { dueDateFromOffset, parseLegacyOffset } from '@/lib/timeline';
+import type { Subtask, TaskPriority } from '@/lib/tasks';
+
+export type { Subtask, TaskPriority } from '@/lib/tasks';
 
 export interface Task {
     id: string;
     title: string;
-    dueDate: string;
+    dueDate: Date | null;
+    /** Days before the wedding; tasks with an offset are rescheduled when the wedding date moves. */
+    offsetDays: number | null;
     completed: boolean;
+    /** Position in the checklist; lower comes first. */
+    order: number;
+    /** uid of the wedding member responsible, if any. */
+    assigneeId: string | null;
+    priority: TaskPriority;
+    category: string;
+    notes: string;
+    subtasks: Subtask[];
+    /** Managed through the attachment service rather than saved with the task. */
+    attachments: Attachment[];
     createdAt: Date;
 }
 
-const initialTasks = [
-  { title: 'Set a date and book venue', dueDate: '12 months out', completed: true },
-  { title: 'Finalize guest list', dueDate: '10 months out', completed: true },
-  { title: 'Book photographer and videographer', dueDate: '9 months out', completed: true },
-  { title: 'Hire a caterer', dueDate: '8 months out', completed: false },
-  { title: 'Send save-the-dates', dueDate: '6-8 months out', completed: false },
-  { title: 'Purchase wedding attire', dueDate: '6 months out', completed: true },
-  { title: 'Book entertainment', dueDate: '5 months out', completed: false },
-  { title: 'Order invitations', dueDate: '4 months out', completed: false },
-  { title: 'Finalize menu and floral selections', dueDate: '3 months out', completed: false },
-  { title: 'Apply for marriage license', dueDate: '1 month out', completed: false },
-  { title: 'Confirm final details with vendors', dueDate: '1-2 weeks out', completed: false },
-];
+export type TaskDetails = Omit<Task, 'id' | 'completed' | 'order' | 'attachments' | 'createdAt'>;
 
 interface TaskContextType {
   tasks: Task[];
   loading: boolean;
-  addTask: (title: string) => Promise<void>;
+  addTask: (title: string, details?: Partial<Omit<TaskDetails, 'title'>>) => Promise<void>;
+  updateTask: (taskId: string, updates: Partial<TaskDetails>) => Promise<void>;
+  deleteTask: (taskId: string) => Promise<void>;
+  reorderTasks: (orderedIds: string[]) => Promise<void>;
   toggleTask: (taskId: string, completed: boolean) => Promise<void>;
 }
 
@@ -40,12 +48,14 @@ const TaskContext = createContext<TaskContextType | undefined>(undefined);
 export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
-  const { user } = useUser();
+  const { weddingId, wedding } = useWedding();
+  const { deleteFile } = useAttachments();
+  const weddingDate = wedding?.weddingDate ?? null;
 
   const getTasksCollection = useCallback(() => {
-    if (!user) return null;
-    return collection(db, 'users', user.uid, 'tasks');
-  }, [user]);
+    if (!weddingId) return null;
+    return collection(db, 'weddings', weddingId, 'tasks');
+  }, [weddingId]);
 
   useEffect(() => {
     const tasksCollection = getTasksCollection();
@@ -59,44 +69,52 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const q = query(tasksCollection, orderBy("createdAt", "asc"));
     
     const unsubscribe = onSnapshot(q, (querySnapshot) => {
-      if (querySnapshot.empty && user) {
-        // First-time user, populate with initial tasks
-        const batch = writeBatch(db);
-        const now = new Date();
-        initialTasks.forEach((task, index) => {
-            const taskRef = doc(tasksCollection);
-            batch.set(taskRef, { ...task, createdAt: new Date(now.getTime() + index) });
-        });
-        batch.commit().then(() => setLoading(false));
-      } else {
-        const tasksData: Task[] = [];
-        querySnapshot.forEach((doc) => {
-            const data = doc.data();
-            tasksData.push({ 
-                id: doc.id, 
-                ...data,
-                createdAt: data.createdAt.toDate(),
-            } as Task);
-        });
-        setTasks(tasksData);
-        setLoading(false);
-      }
+      const tasksData: Task[] = [];
+      querySnapshot.forEach((doc) => {
+          const data = doc.data();
+          tasksData.push({ 
+              id: doc.id, 
+              ...data,
+              // Older tasks stored free text like "6 months out" instead of a date.
+              dueDate: data.dueDate instanceof Timestamp ? data.dueDate.toDate() : null,
+              offsetDays: data.offsetDays ?? parseLegacyOffset(data.dueDate),
+              // Tasks from before manual ordering keep their creation order.
+              order: data.order ?? data.createdAt.toMillis(),
+              assigneeId: data.assigneeId ?? null,
+              priority: data.priority ?? 'medium',
+              category: data.category ?? 'Other',
+              notes: data.notes ?? '',
+              subtasks: data.subtasks ?? [],
+              attachments: toAttachments(data.attachments),
+              createdAt: data.createdAt.toDate(),
+          } as Task);
+      });
+      setTasks(tasksData.sort((a, b) => a.order - b.order));
+      setLoading(false);
     }, (error) => {
         console.error("Error fetching tasks from Firestore: ", error);
         setLoading(false);
     });
 
     return () => unsubscribe();
-  }, [getTasksCollection, user]);
+  }, [getTasksCollection]);
 
-  const addTask = async (title: string) => {
+  const addTask = async (title: string, details: Partial<Omit<TaskDetails, 'title'>> = {}) => {
     const tasksCollection = getTasksCollection();
-    if (!tasksCollection) throw new Error("User not authenticated.");
+    if (!tasksCollection) throw new Error("No active wedding.");
     try {
         await addDoc(tasksCollection, {
             title,
-            dueDate: 'Just added',
+            dueDate: null,
+            offsetDays: null,
+            assigneeId: null,
+            priority: 'medium',
+            category: 'Other',
+            notes: '',
+            subtasks: [],
+            ...details,
             completed: false,
+            order: tasks.reduce((max, t) => Math.max(max, t.order), -1) + 1,
             createdAt: new Date(),
         });
     } catch (error) {
@@ -104,9 +122,47 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const updateTask = async (taskId: string, updates: Partial<TaskDetails>) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    try {
+        await updateDoc(doc(db, 'weddings', weddingId, 'tasks', taskId), updates);
+    } catch (error) {
+        console.error("Error updating task: ", error);
+    }
+  };
+
+  const deleteTask = async (taskId: string) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const task = tasks.find(t => t.id === taskId);
+    try {
+        await deleteDoc(doc(db, 'weddings', weddingId, 'tasks', taskId));
+        await Promise.all((task?.attachments ?? []).map(attachment => deleteFile(attachment.path)));
+    } catch (error) {
+        console.error("Error deleting task: ", error);
+    }
+  };
+
+  const reorderTasks = async (orderedIds: string[]) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    // Apply locally first so the dragged row does not jump back while the write is in flight.
+    const position = new Map(orderedIds.map((id, index) => [id, index]));
+    setTasks(prev => prev
+        .map(t => ({ ...t, order: position.get(t.id) ?? t.order }))
+        .sort((a, b) => a.order - b.order));
+    try {
+        const batch = writeBatch(db);
+        orderedIds.forEach((id, index) => {
+            batch.update(doc(db, 'weddings', weddingId, 'tasks', id), { order: index });
+        });
+        await batch.commit();
+    } catch (error) {
+        console.error("Error reordering tasks: ", error);
+    }
+  };
+
   const toggleTask = async (taskId: string, completed: boolean) => {
-    if (!user) throw new Error("User not authenticated.");
-    const taskDocRef = doc(db, 'users', user.uid, 'tasks', taskId);
+    if (!weddingId) throw new Error("No active wedding.");
+    const taskDocRef = doc(db, 'weddings', weddingId, 'tasks', taskId);
     try {
         await updateDoc(taskDocRef, { completed });
     } catch (error) {
@@ -114,10 +170,21 @@ export const TaskProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }
 
+  // Until the wedding date is saved (which persists real dates), relative tasks
+  // without a stored date are scheduled on the fly.
+  const scheduledTasks = useMemo(() => tasks.map(task =>
+    !task.dueDate && task.offsetDays !== null && weddingDate
+        ? { ...task, dueDate: dueDateFromOffset(weddingDate, task.offsetDays) }
+        : task
+  ), [tasks, weddingDate]);
+
   const value = {
-    tasks,
+    tasks: scheduledTasks,
     loading,
     addTask,
+    updateTask,
+    deleteTask,
+    reorderTasks,
     toggleTask,
   };
 
@@ -0,0 +1,135 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { useWedding } from './use-wedding';
+import { useUser } from './use-user';
+import { db } from '@/lib/firebase';
+import { collection, onSnapshot, query, orderBy, type DocumentData, type Timestamp } from 'firebase/firestore';
+import type { NewUploadLink } from '@/lib/upload-links';
+
+export type { NewUploadLink } from '@/lib/upload-links';
+
+/** A link guests use to add photos to the album without an account. */
+export interface UploadLink {
+    id: string;
+    token: string;
+    label: string;
+    hasPin: boolean;
+    expiresAt: Date | null;
+    revokedAt: Date | null;
+    /** Photos the link accepts in total, or null when unlimited. */
+    maxUploads: number | null;
+    uploadCount: number;
+    pinFailures: number;
+    createdAt: Date;
+}
+
+interface UploadLinkContextType {
+  uploadLinks: UploadLink[];
+  loading: boolean;
+  createUploadLink: (link: NewUploadLink) => Promise<string>;
+  revokeUploadLink: (linkId: string) => Promise<void>;
+  /** Replaces the PIN, or removes it when null. Also unlocks a locked link. */
+  setUploadLinkPin: (linkId: string, pin: string | null) => Promise<void>;
+}
+
+const UploadLinkContext = createContext<UploadLinkContextType | undefined>(undefined);
+
+const toUploadLink = (id: string, data: DocumentData): UploadLink => ({
+    id,
+    token: data.token,
+    label: data.label ?? '',
+    hasPin: !!data.pinHash,
+    expiresAt: (data.expiresAt as Timestamp | null)?.toDate() ?? null,
+    revokedAt: (data.revokedAt as Timestamp | null)?.toDate() ?? null,
+    maxUploads: data.maxUploads ?? null,
+    uploadCount: data.uploadCount ?? 0,
+    pinFailures: data.pinFailures ?? 0,
+    createdAt: (data.createdAt as Timestamp | undefined)?.toDate() ?? new Date(),
+});
+
+export const UploadLinkProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [uploadLinks, setUploadLinks] = useState<UploadLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { weddingId, loading: weddingLoading } = useWedding();
+  const { getIdToken } = useUser();
+
+  const uploadLinksCollectionRef = useMemo(() => {
+    if (!weddingId) return null;
+    return collection(db, 'weddings', weddingId, 'uploadLinks');
+  }, [weddingId]);
+
+  useEffect(() => {
+    if (weddingLoading) {
+        setLoading(true);
+        return;
+    }
+    if (!uploadLinksCollectionRef) {
+        setUploadLinks([]);
+        setLoading(false);
+        return;
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(query(uploadLinksCollectionRef, orderBy('createdAt', 'desc')), (snapshot) => {
+        setUploadLinks(snapshot.docs.map(linkDoc => toUploadLink(linkDoc.id, linkDoc.data())));
+        setLoading(false);
+    }, (error) => {
+        console.error("Error fetching upload links:", error);
+        setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [weddingLoading, uploadLinksCollectionRef]);
+
+  // Links are written by the server so PINs never reach Firestore unhashed.
+  const callUploadLinkApi = async <T,>(method: 'POST' | 'PATCH', body: object): Promise<T> => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const token = await getIdToken();
+    if (!token) throw new Error("Not authenticated.");
+    const response = await fetch('/api/weddings/upload-links', {
+        method,
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify({ ...body, weddingId }),
+    });
+    if (!response.ok) {
+        throw new Error(await response.text() || 'Upload link request failed.');
+    }
+    return response.json();
+  };
+
+  const createUploadLink = async (link: NewUploadLink) => {
+    const { id } = await callUploadLinkApi<{ id: string }>('POST', link);
+    return id;
+  };
+
+  const revokeUploadLink = async (linkId: string) => {
+    await callUploadLinkApi('PATCH', { linkId, revoke: true });
+  };
+
+  const setUploadLinkPin = async (linkId: string, pin: string | null) => {
+    await callUploadLinkApi('PATCH', { linkId, pin });
+  };
+
+  const value = {
+    uploadLinks,
+    loading,
+    createUploadLink,
+    revokeUploadLink,
+    setUploadLinkPin,
+  };
+
+  return (
+    <UploadLinkContext.Provider value={value}>
+      {children}
+    </UploadLinkContext.Provider>
+  );
+};
+
+export const useUploadLinks = () => {
+  const context = useContext(UploadLinkContext);
+  if (context === undefined) {
+    throw new Error('useUploadLinks must be used within an UploadLinkProvider');
+  }
+  return context;
+};
@@ -11,19 +11,24 @@ import {
     GoogleAuthProvider, 
     signInWithPopup,
     sendPasswordResetEmail,
+    sendEmailVerification,
     updateProfile,
     UserCredential
 } from 'firebase/auth';
-import { doc, getDoc, onSnapshot, writeBatch } from 'firebase/firestore';
+import { collection, doc, getDoc, onSnapshot, writeBatch } from 'firebase/firestore';
+import { initialTaskDocs } from '@/lib/timeline';
 
 export interface UserData {
     uid: string;
     email: string | null;
+    /** Invites can only be accepted once the address is verified. */
+    emailVerified: boolean;
     name1: string;
     name2: string;
     photoURL?: string | null;
     premium?: boolean;
     isAdmin?: boolean;
+    activeWeddingId?: string;
 }
 
 interface UserContextType {
@@ -35,20 +40,43 @@ interface UserContextType {
   signInWithEmail: (email:string, password:string) => Promise<UserCredential>;
   signInWithGoogle: () => Promise<UserCredential>;
   resetPassword: (email: string) => Promise<void>;
+  sendVerificationEmail: () => Promise<void>;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
 
-const initializeNewUserData = async (uid: string, userData: Omit<UserData, 'uid' | 'email' | 'isAdmin'>) => {
+const initializeNewUserData = async (uid: string, email: string | null, userData: Omit<UserData, 'uid' | 'email' | 'emailVerified' | 'isAdmin'>) => {
     const batch = writeBatch(db);
-    
-    const userDocRef = doc(db, 'users', uid);
-    batch.set(userDocRef, userData);
 
-    const budgetSummaryRef = doc(db, 'users', uid, 'budget', 'summary');
-    batch.set(budgetSummaryRef, { total: 20000, spent: 0 });
+    // Every new account starts with its own wedding workspace, which partners
+    // and planners can later be invited into.
+    const weddingDocRef = doc(collection(db, 'weddings'));
+    batch.set(weddingDocRef, {
+        name1: userData.name1,
+        name2: userData.name2,
+        ownerId: uid,
+        memberIds: [uid],
+        members: {
+            [uid]: { role: 'owner', email, displayName: userData.name1, joinedAt: new Date() },
+        },
+        createdAt: new Date(),
+    });
+
+    const userDocRef = doc(db, 'users', uid);
+    batch.set(userDocRef, { ...userData, activeWeddingId: weddingDocRef.id });
 
     await batch.commit();
+
+    // A separate batch, because the rules only let members write tasks once the wedding exists.
+    try {
+        const tasksBatch = writeBatch(db);
+        initialTaskDocs(weddingDocRef.id).forEach(({ id, data }) => {
+            tasksBatch.set(doc(db, 'weddings', weddingDocRef.id, 'tasks', id), data);
+        });
+        await tasksBatch.commit();
+    } catch (error) {
+        console.error("Error adding the starter checklist: ", error);
+    }
 }
 
 
@@ -67,7 +95,7 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
                     const unsubscribeDoc = onSnapshot(userDocRef, (userDoc) => {
                         if (userDoc.exists()) {
-                            const userData = { ...userDoc.data(), uid: firebaseUser.uid, email: firebaseUser.email } as UserData;
+                            const userData = { ...userDoc.data(), uid: firebaseUser.uid, email: firebaseUser.email, emailVerified: firebaseUser.emailVerified } as UserData;
                             
                             userData.isAdmin = isAdmin;
                             if (isAdmin) {
@@ -113,13 +141,13 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
             displayName: `${name1},${name2}`
         });
 
-        const userData: Omit<UserData, 'uid' | 'email' | 'isAdmin'> = {
+        const userData: Omit<UserData, 'uid' | 'email' | 'emailVerified' | 'isAdmin'> = {
             name1,
             name2,
             photoURL: firebaseUser.photoURL,
             premium: false,
         };
-        await initializeNewUserData(firebaseUser.uid, userData);
+        await initializeNewUserData(firebaseUser.uid, firebaseUser.email, userData);
         
         return userCredential;
     };
@@ -139,13 +167,13 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
         if (!userDoc.exists()) {
              const displayName = firebaseUser.displayName || "Jane,John";
              const [name1, name2] = displayName.includes(',') ? displayName.split(',') : [displayName, 'Partner'];
-             const userData: Omit<UserData, 'uid' | 'email' | 'isAdmin'> = {
+             const userData: Omit<UserData, 'uid' | 'email' | 'emailVerified' | 'isAdmin'> = {
                 name1,
                 name2,
                 photoURL: firebaseUser.photoURL,
                 premium: false,
              };
-             await initializeNewUserData(firebaseUser.uid, userData);
+             await initializeNewUserData(firebaseUser.uid, firebaseUser.email, userData);
         }
 
         // Force a token refresh to get custom claims.
@@ -158,6 +186,11 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return sendPasswordResetEmail(auth, email);
     }
 
+    const sendVerificationEmail = async () => {
+        if (!auth.currentUser) throw new Error("Not authenticated.");
+        await sendEmailVerification(auth.currentUser);
+    };
+
   const value = {
     user,
     loading,
@@ -166,7 +199,8 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
     signUp,
     signInWithEmail,
     signInWithGoogle,
-    resetPassword
+    resetPassword,
+    sendVerificationEmail,
   };
 
   return (
@@ -0,0 +1,169 @@
+
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { useWedding } from './use-wedding';
+import { toAttachments, useAttachments, type Attachment } from './use-attachments';
+import { db } from '@/lib/firebase';
+import {
+    collection,
+    doc,
+    onSnapshot,
+    addDoc,
+    getDocs,
+    writeBatch,
+    query,
+    orderBy,
+    Timestamp,
+    type DocumentData,
+} from 'firebase/firestore';
+import type { VendorQuote, VendorStatus } from '@/lib/vendors';
+
+export type { VendorQuote, VendorStatus } from '@/lib/vendors';
+
+export interface Vendor {
+    id: string;
+    name: string;
+    category: string;
+    status: VendorStatus;
+    contactName: string;
+    email: string;
+    phone: string;
+    website: string;
+    quotes: VendorQuote[];
+    notes: string;
+    /** Contracts, invoices and proposals; managed through the attachment service. */
+    contracts: Attachment[];
+    createdAt: Date;
+}
+
+export type VendorDetails = Omit<Vendor, 'id' | 'contracts' | 'createdAt'>;
+
+interface VendorContextType {
+  vendors: Vendor[];
+  loading: boolean;
+  addVendor: (vendor: VendorDetails) => Promise<string>;
+  updateVendor: (vendorId: string, vendor: VendorDetails) => Promise<void>;
+  deleteVendor: (vendorId: string) => Promise<void>;
+}
+
+const VendorContext = createContext<VendorContextType | undefined>(undefined);
+
+const toVendor = (id: string, data: DocumentData): Vendor => ({
+    id,
+    name: data.name,
+    category: data.category ?? 'Other',
+    status: data.status ?? 'researching',
+    contactName: data.contactName ?? '',
+    email: data.email ?? '',
+    phone: data.phone ?? '',
+    website: data.website ?? '',
+    quotes: data.quotes ?? [],
+    notes: data.notes ?? '',
+    contracts: toAttachments(data.contracts),
+    createdAt: (data.createdAt as Timestamp | undefined)?.toDate() ?? new Date(),
+});
+
+const sameName = (a: unknown, b: string) =>
+    typeof a === 'string' && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const VendorProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { weddingId, loading: weddingLoading } = useWedding();
+  const { deleteFile } = useAttachments();
+
+  const vendorsCollectionRef = useMemo(() => {
+    if (!weddingId) return null;
+    return collection(db, 'weddings', weddingId, 'vendors');
+  }, [weddingId]);
+
+  useEffect(() => {
+    if (weddingLoading) {
+        setLoading(true);
+        return;
+    }
+    if (!vendorsCollectionRef) {
+        setVendors([]);
+        setLoading(false);
+        return;
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(query(vendorsCollectionRef, orderBy('name', 'asc')), (snapshot) => {
+        setVendors(snapshot.docs.map(vendorDoc => toVendor(vendorDoc.id, vendorDoc.data())));
+        setLoading(false);
+    }, (error) => {
+        console.error("Error fetching vendors:", error);
+        setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [weddingLoading, vendorsCollectionRef]);
+
+  const addVendor = async (vendor: VendorDetails) => {
+    if (!weddingId || !vendorsCollectionRef) throw new Error("No active wedding.");
+    const vendorRef = await addDoc(vendorsCollectionRef, {
+        ...vendor,
+        contracts: [],
+        createdAt: new Date(),
+    });
+    // Expenses entered before vendors existed only carry the vendor's name; link the ones that match.
+    const expensesSnapshot = await getDocs(collection(db, 'weddings', weddingId, 'expenses'));
+    const matches = expensesSnapshot.docs.filter(d => !d.data().vendorId && sameName(d.data().vendor, vendor.name));
+    if (matches.length > 0) {
+        const batch = writeBatch(db);
+        matches.forEach(d => batch.update(d.ref, { vendorId: vendorRef.id }));
+        await batch.commit();
+    }
+    return vendorRef.id;
+  };
+
+  const updateVendor = async (vendorId: string, vendor: VendorDetails) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const expensesSnapshot = await getDocs(collection(db, 'weddings', weddingId, 'expenses'));
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'weddings', weddingId, 'vendors', vendorId), { ...vendor });
+    // Expenses keep a copy of the vendor's name for the budget table and the assistant.
+    expensesSnapshot.docs
+        .filter(d => d.data().vendorId === vendorId && d.data().vendor !== vendor.name)
+        .forEach(d => batch.update(d.ref, { vendor: vendor.name }));
+    await batch.commit();
+  };
+
+  const deleteVendor = async (vendorId: string) => {
+    if (!weddingId) throw new Error("No active wedding.");
+    const vendor = vendors.find(v => v.id === vendorId);
+    const expensesSnapshot = await getDocs(collection(db, 'weddings', weddingId, 'expenses'));
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'weddings', weddingId, 'vendors', vendorId));
+    // Linked expenses stay in the budget under the vendor's name.
+    expensesSnapshot.docs
+        .filter(d => d.data().vendorId === vendorId)
+        .forEach(d => batch.update(d.ref, { vendorId: null }));
+    await batch.commit();
+    await Promise.all((vendor?.contracts ?? []).map(contract => deleteFile(contract.path)));
+  };
+
+  const value = {
+    vendors,
+    loading,
+    addVendor,
+    updateVendor,
+    deleteVendor,
+  };
+
+  return (
+    <VendorContext.Provider value={value}>
+      {children}
+    </VendorContext.Provider>
+  );
+};
+
+export const useVendors = () => {
+  const context = useContext(VendorContext);
+  if (context === undefined) {
+    throw new Error('useVendors must be used within a VendorProvider');
+  }
+  return context;
+};
@@ -0,0 +1,320 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { useUser } from './use-user';
+import { db } from '@/lib/firebase';
+import {
+    collection,
+    doc,
+    onSnapshot,
+    query,
+    where,
+    getDocs,
+    writeBatch,
+    setDoc,
+    updateDoc,
+    type DocumentData,
+    type Timestamp,
+} from 'firebase/firestore';
+import {
+    canEditWedding,
+    canManageMembers,
+    type Wedding,
+    type WeddingInvite,
+    type WeddingMember,
+    type WeddingRole,
+} from '@/lib/weddings';
+import { resolveMenuOptions } from '@/lib/meals';
+import { resolvePhotoModeration, type PhotoModerationRules } from '@/lib/photo-moderation';
+import { dueDateFromOffset, parseLegacyOffset } from '@/lib/timeline';
+import { generateCalendarToken } from '@/lib/calendar';
+
+export type { Wedding, WeddingInvite, WeddingMember, WeddingRole } from '@/lib/weddings';
+
+interface WeddingContextType {
+  wedding: Wedding | null;
+  weddingId: string | null;
+  weddings: Wedding[];
+  role: WeddingRole | null;
+  canEdit: boolean;
+  canManage: boolean;
+  invites: WeddingInvite[];
+  loading: boolean;
+  switchWedding: (weddingId: string) => Promise<void>;
+  inviteMember: (email: string, role: WeddingInvite['role']) => Promise<string>;
+  revokeInvite: (inviteId: string) => Promise<void>;
+  updateMemberRole: (uid: string, role: Exclude<WeddingRole, 'owner'>) => Promise<void>;
+  removeMember: (uid: string) => Promise<void>;
+  updateMenuOptions: (menuOptions: string[]) => Promise<void>;
+  updatePhotoModeration: (photoModeration: PhotoModerationRules) => Promise<void>;
+  updateWeddingDate: (weddingDate: Date | null) => Promise<void>;
+  resetCalendarFeed: () => Promise<string>;
+}
+
+// Firestore caps a batch at 500 writes.
+const TASK_BATCH_SIZE = 450;
+
+const WeddingContext = createContext<WeddingContextType | undefined>(undefined);
+
+const toDate = (value: unknown) => (value as Timestamp | undefined)?.toDate?.() ?? new Date();
+
+const toWedding = (id: string, data: DocumentData): Wedding => {
+    const members: Record<string, WeddingMember> = {};
+    Object.entries(data.members ?? {}).forEach(([uid, member]) => {
+        const m = member as DocumentData;
+        members[uid] = { ...m, joinedAt: toDate(m.joinedAt) } as WeddingMember;
+    });
+    return {
+        id,
+        name1: data.name1,
+        name2: data.name2,
+        ownerId: data.ownerId,
+        memberIds: data.memberIds ?? [],
+        members,
+        menuOptions: resolveMenuOptions(data.menuOptions),
+        photoModeration: resolvePhotoModeration(data.photoModeration),
+        weddingDate: data.weddingDate ? toDate(data.weddingDate) : null,
+        calendarToken: data.calendarToken ?? null,
+        createdAt: toDate(data.createdAt),
+    };
+};
+
+export const getInviteLink = (inviteId: string) =>
+    `${window.location.origin}/invite/${inviteId}`;
+
+export const WeddingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [wedding, setWedding] = useState<Wedding | null>(null);
+  const [weddings, setWeddings] = useState<Wedding[]>([]);
+  const [invites, setInvites] = useState<WeddingInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user, loading: userLoading, getIdToken } = useUser();
+  const migrationRequested = useRef(false);
+
+  const activeWeddingId = user?.activeWeddingId ?? null;
+  const role = (user && wedding?.members[user.uid]?.role) || null;
+
+  // Accounts created before workspaces existed have no active wedding yet.
+  useEffect(() => {
+    if (userLoading || !user || activeWeddingId || migrationRequested.current) return;
+    migrationRequested.current = true;
+
+    const migrate = async () => {
+        try {
+            const token = await getIdToken();
+            if (!token) throw new Error("Not authenticated.");
+            const response = await fetch('/api/weddings/migrate', {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${token}` },
+            });
+            if (!response.ok) {
+                throw new Error(await response.text() || 'Failed to set up wedding workspace.');
+            }
+        } catch (error) {
+            console.error("Error setting up wedding workspace: ", error);
+            migrationRequested.current = false;
+            setLoading(false);
+        }
+    };
+    migrate();
+  }, [user, userLoading, activeWeddingId, getIdToken]);
+
+  useEffect(() => {
+    if (userLoading) return;
+    if (!user || !activeWeddingId) {
+        setWedding(null);
+        setLoading(!!user);
+        return;
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(doc(db, 'weddings', activeWeddingId), (weddingDoc) => {
+        setWedding(weddingDoc.exists() ? toWedding(weddingDoc.id, weddingDoc.data()) : null);
+        setLoading(false);
+    }, (error) => {
+        console.error("Error fetching wedding from Firestore: ", error);
+        setWedding(null);
+        setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [user, userLoading, activeWeddingId]);
+
+  useEffect(() => {
+    if (!user) {
+        setWeddings([]);
+        return;
+    }
+    const q = query(collection(db, 'weddings'), where('memberIds', 'array-contains', user.uid));
+    const unsubscribe = onSnapshot(q, (querySnapshot) => {
+        setWeddings(querySnapshot.docs.map(d => toWedding(d.id, d.data())));
+    }, (error) => {
+        console.error("Error fetching weddings from Firestore: ", error);
+    });
+    return () => unsubscribe();
+  }, [user]);
+
+  useEffect(() => {
+    if (!wedding || !canManageMembers(role)) {
+        setInvites([]);
+        return;
+    }
+    const q = query(
+        collection(db, 'weddingInvites'),
+        where('weddingId', '==', wedding.id),
+        where('status', '==', 'pending'),
+    );
+    const unsubscribe = onSnapshot(q, (querySnapshot) => {
+        setInvites(querySnapshot.docs.map(d => {
+            const data = d.data();
+            return { id: d.id, ...data, createdAt: toDate(data.createdAt) } as WeddingInvite;
+        }));
+    }, (error) => {
+        console.error("Error fetching wedding invites: ", error);
+    });
+    return () => unsubscribe();
+  }, [wedding, role]);
+
+  const switchWedding = async (weddingId: string) => {
+    if (!user) throw new Error("User not authenticated.");
+    await setDoc(doc(db, 'users', user.uid), { activeWeddingId: weddingId }, { merge: true });
+  };
+
+  const inviteMember = async (email: string, inviteRole: WeddingInvite['role']) => {
+    if (!user || !wedding) throw new Error("No active wedding.");
+    if (!canManageMembers(role)) throw new Error("Only the couple can invite new members.");
+    const inviteRef = doc(collection(db, 'weddingInvites'));
+    await setDoc(inviteRef, {
+        weddingId: wedding.id,
+        email: email.trim().toLowerCase(),
+        role: inviteRole,
+        invitedBy: user.uid,
+        status: 'pending',
+        createdAt: new Date(),
+    });
+    return getInviteLink(inviteRef.id);
+  };
+
+  const revokeInvite = async (inviteId: string) => {
+    try {
+        await updateDoc(doc(db, 'weddingInvites', inviteId), { status: 'revoked' });
+    } catch (error) {
+        console.error("Error revoking invite: ", error);
+    }
+  };
+
+  // Member changes go through the server, which the security rules leave them to.
+  const callMembersApi = async (method: 'PATCH' | 'DELETE', body: object) => {
+    if (!wedding) throw new Error("No active wedding.");
+    const token = await getIdToken();
+    if (!token) throw new Error("Not authenticated.");
+    const response = await fetch('/api/weddings/members', {
+        method,
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        body: JSON.stringify({ ...body, weddingId: wedding.id }),
+    });
+    if (!response.ok) {
+        throw new Error(await response.text() || 'Could not update the member.');
+    }
+  };
+
+  const updateMemberRole = async (uid: string, memberRole: Exclude<WeddingRole, 'owner'>) => {
+    if (!wedding) throw new Error("No active wedding.");
+    if (!canManageMembers(role)) throw new Error("Only the couple can change members.");
+    if (uid === wedding.ownerId) throw new Error("The owner's role cannot be changed.");
+    await callMembersApi('PATCH', { uid, role: memberRole });
+  };
+
+  const removeMember = async (uid: string) => {
+    if (!wedding) throw new Error("No active wedding.");
+    if (!canManageMembers(role)) throw new Error("Only the couple can change members.");
+    if (uid === wedding.ownerId) throw new Error("The owner cannot be removed.");
+    await callMembersApi('DELETE', { uid });
+  };
+
+  const updateMenuOptions = async (menuOptions: string[]) => {
+    if (!wedding) throw new Error("No active wedding.");
+    await updateDoc(doc(db, 'weddings', wedding.id), { menuOptions });
+  };
+
+  const updatePhotoModeration = async (photoModeration: PhotoModerationRules) => {
+    if (!wedding) throw new Error("No active wedding.");
+    await updateDoc(doc(db, 'weddings', wedding.id), { photoModeration });
+  };
+
+  const updateWeddingDate = async (weddingDate: Date | null) => {
+    if (!wedding) throw new Error("No active wedding.");
+    const tasksSnapshot = await getDocs(collection(db, 'weddings', wedding.id, 'tasks'));
+    // Tasks scheduled relative to the wedding move with it; tasks with a fixed date stay put.
+    const scheduledTasks = tasksSnapshot.docs.flatMap(taskDoc => {
+        const data = taskDoc.data();
+        const offsetDays: number | null = data.offsetDays ?? parseLegacyOffset(data.dueDate);
+        return offsetDays === null ? [] : [{ ref: taskDoc.ref, offsetDays }];
+    });
+    // The date itself goes in the last batch, so it only changes once every task has moved.
+    for (let i = 0; i === 0 || i < scheduledTasks.length; i += TASK_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        scheduledTasks.slice(i, i + TASK_BATCH_SIZE).forEach(({ ref, offsetDays }) => {
+            batch.update(ref, {
+                offsetDays,
+                dueDate: weddingDate ? dueDateFromOffset(weddingDate, offsetDays) : null,
+            });
+        });
+        if (i + TASK_BATCH_SIZE >= scheduledTasks.length) {
+            batch.update(doc(db, 'weddings', wedding.id), { weddingDate });
+        }
+        await batch.commit();
+    }
+  };
+
+  // Issues a new feed token and retires the old one, so a leaked link stops working.
+  const resetCalendarFeed = async () => {
+    if (!user || !wedding) throw new Error("No active wedding.");
+    const token = generateCalendarToken();
+    const batch = writeBatch(db);
+    if (wedding.calendarToken) {
+        batch.delete(doc(db, 'calendarFeeds', wedding.calendarToken));
+    }
+    batch.set(doc(db, 'calendarFeeds', token), {
+        weddingId: wedding.id,
+        createdBy: user.uid,
+        createdAt: new Date(),
+    });
+    batch.update(doc(db, 'weddings', wedding.id), { calendarToken: token });
+    await batch.commit();
+    return token;
+  };
+
+  const value = {
+    wedding,
+    weddingId: wedding?.id ?? null,
+    weddings,
+    role,
+    canEdit: canEditWedding(role),
+    canManage: canManageMembers(role),
+    invites,
+    loading: userLoading || loading,
+    switchWedding,
+    inviteMember,
+    revokeInvite,
+    updateMemberRole,
+    removeMember,
+    updateMenuOptions,
+    updatePhotoModeration,
+    updateWeddingDate,
+    resetCalendarFeed,
+  };
+
+  return (
+    <WeddingContext.Provider value={value}>
+      {children}
+    </WeddingContext.Provider>
+  );
+};
+
+export const useWedding = () => {
+  const context = useContext(WeddingContext);
+  if (context === undefined) {
+    throw new Error('useWedding must be used within a WeddingProvider');
+  }
+  return context;
+};
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import type { Party } from '@/hooks/use-guests';
+import { toCsv } from '@/lib/csv';
+
+/** Postal address an invitation is mailed to. Lives on the party, since one envelope goes to each. */
+export interface MailingAddress {
+    line1: string;
+    line2: string;
+    city: string;
+    region: string;
+    postalCode: string;
+    country: string;
+}
+
+export const EMPTY_ADDRESS: MailingAddress = {
+    line1: '',
+    line2: '',
+    city: '',
+    region: '',
+    postalCode: '',
+    country: '',
+};
+
+export const mailingAddressSchema = z.object({
+    line1: z.string().trim().min(1, 'Street address is required.').max(200),
+    line2: z.string().trim().max(200),
+    city: z.string().trim().min(1, 'City is required.').max(100),
+    region: z.string().trim().max(100),
+    postalCode: z.string().trim().min(1, 'Postal code is required.').max(20),
+    country: z.string().trim().max(100),
+});
+
+/** Reads an address from Firestore data, tolerating missing or partial fields. */
+export const toMailingAddress = (value: unknown): MailingAddress | null => {
+    if (!value || typeof value !== 'object') return null;
+    const data = value as Partial<Record<keyof MailingAddress, unknown>>;
+    const address = { ...EMPTY_ADDRESS };
+    (Object.keys(EMPTY_ADDRESS) as (keyof MailingAddress)[]).forEach(key => {
+        address[key] = typeof data[key] === 'string' ? data[key] as string : '';
+    });
+    return Object.values(address).some(v => v !== '') ? address : null;
+};
+
+/** Street, city and postal code are enough for the post office; region and country are optional. */
+export const isAddressComplete = (address: MailingAddress | null): address is MailingAddress =>
+    !!address && !!address.line1.trim() && !!address.city.trim() && !!address.postalCode.trim();
+
+export const formatAddressLines = (address: MailingAddress): string[] => {
+    const cityLine = [address.city, [address.region, address.postalCode].filter(Boolean).join(' ')]
+        .filter(Boolean)
+        .join(', ');
+    return [address.line1, address.line2, cityLine, address.country].filter(line => line.trim() !== '');
+};
+
+export const formatAddress = (address: MailingAddress | null) =>
+    address ? formatAddressLines(address).join(', ') : '';
+
+export const getAddressFormLink = (code: string) => `${window.location.origin}/address/${code}`;
+
+export interface MailingLabel {
+    name: string;
+    address: MailingAddress;
+}
+
+/** One label per invitation with a complete address, in party-name order. */
+export const buildMailingLabels = (parties: Pick<Party, 'name' | 'address'>[]): MailingLabel[] =>
+    parties
+        .filter((p): p is Pick<Party, 'name'> & { address: MailingAddress } => isAddressComplete(p.address))
+        .map(p => ({ name: p.name, address: p.address }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+export function mailingLabelsToCsv(labels: MailingLabel[]): string {
+    const rows = [['Name', 'Address Line 1', 'Address Line 2', 'City', 'State / Region', 'Postal Code', 'Country']];
+    labels.forEach(({ name, address }) => {
+        rows.push([name, address.line1, address.line2, address.city, address.region, address.postalCode, address.country]);
+    });
+    return toCsv(rows);
+}
+
+/** What the public address form gets back for an invite code. */
+export interface AddressRequest {
+    coupleNames: string;
+    partyName: string;
+    address: MailingAddress | null;
+}
@@ -0,0 +1,41 @@
+export type AssistantRole = 'user' | 'assistant';
+
+export interface AssistantMessage {
+    id: string;
+    role: AssistantRole;
+    text: string;
+    createdAt: Date;
+}
+
+/** A saved conversation with Welly. Messages live in the thread's `messages` subcollection. */
+export interface AssistantThread {
+    id: string;
+    title: string;
+    createdBy: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+export const MAX_THREAD_TITLE_LENGTH = 60;
+
+/** Prior turns sent with each question. Older turns drop off so long threads stay within the model's context. */
+export const ASSISTANT_HISTORY_LIMIT = 20;
+
+export const MIN_QUESTION_LENGTH = 5;
+export const MAX_QUESTION_LENGTH = 2000;
+
+/** A thread is named after its first question until someone renames it. */
+export const threadTitleFrom = (question: string): string => {
+    const title = question.replace(/\s+/g, ' ').trim();
+    return title.length > MAX_THREAD_TITLE_LENGTH
+        ? `${title.slice(0, MAX_THREAD_TITLE_LENGTH - 1).trimEnd()}…`
+        : title || DEFAULT_THREAD_TITLE;
+};
+
+/** The most recent turns, starting on a question so the model never sees an answer without what prompted it. */
+export const recentHistory = <T extends { role: AssistantRole }>(messages: T[], limit = ASSISTANT_HISTORY_LIMIT): T[] => {
+    const recent = messages.slice(-limit);
+    const start = recent.findIndex(m => m.role === 'user');
+    return start === -1 ? [] : recent.slice(start);
+};
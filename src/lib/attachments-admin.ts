@@ -0,0 +1,50 @@
+import { randomUUID } from 'crypto';
+import { getBucket } from '@/lib/firebase-admin';
+
+/** Signed links stop working after this long, so a shared link doesn't grant lasting access. */
+export const SIGNED_URL_TTL_MS = 15 * 60 * 1000;
+
+export interface SignedAttachmentUrl {
+    url: string;
+    expiresAt: string;
+}
+
+/**
+ * Creates a short-lived read link for a stored file, or returns null if it does not exist.
+ * Against the Storage emulator, which does not check signatures, the plain media URL is used.
+ */
+export const signAttachmentUrl = async (path: string): Promise<SignedAttachmentUrl | null> => {
+    const bucket = getBucket();
+    const file = bucket.file(path);
+    const [exists] = await file.exists();
+    if (!exists) {
+        return null;
+    }
+
+    const expires = Date.now() + SIGNED_URL_TTL_MS;
+    const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+    const url = emulatorHost
+        ? `http://${emulatorHost}/v0/b/${bucket.name}/o/${encodeURIComponent(path)}?alt=media`
+        : (await file.getSignedUrl({ action: 'read', expires }))[0];
+    return { url, expiresAt: new Date(expires).toISOString() };
+};
+
+/**
+ * Writes a file from the server and returns a Firebase download URL for it, the same kind
+ * the client SDK hands out, for files shown inline such as album photos.
+ */
+export const saveFileWithDownloadUrl = async (path: string, data: Buffer, contentType: string) => {
+    const bucket = getBucket();
+    const token = randomUUID();
+    await bucket.file(path).save(data, {
+        resumable: false,
+        metadata: { contentType, metadata: { firebaseStorageDownloadTokens: token } },
+    });
+    const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+    const origin = emulatorHost ? `http://${emulatorHost}` : 'https://firebasestorage.googleapis.com';
+    return { path, url: `${origin}/v0/b/${bucket.name}/o/${encodeURIComponent(path)}?alt=media&token=${token}` };
+};
+
+export const deleteStoredFile = async (path: string) => {
+    await getBucket().file(path).delete({ ignoreNotFound: true });
+};
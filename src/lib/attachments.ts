@@ -0,0 +1,91 @@
+/** Documents that can carry attachments, named after their Firestore collections. */
+export const ATTACHMENT_OWNERS = ['expenses', 'vendors', 'tasks'] as const;
+
+export type AttachmentOwner = typeof ATTACHMENT_OWNERS[number];
+
+/** Field on the owning document holding its attachment list. */
+export const ATTACHMENT_FIELDS: Record<AttachmentOwner, string> = {
+    expenses: 'attachments',
+    // Vendor files were stored as contracts before attachments were shared.
+    vendors: 'contracts',
+    tasks: 'attachments',
+};
+
+export interface AttachmentTarget {
+    owner: AttachmentOwner;
+    ownerId: string;
+}
+
+/**
+ * A file in Cloud Storage recorded on the document it belongs to. Files are private to
+ * the wedding, so they are opened through short-lived signed URLs rather than a stored link.
+ */
+export interface Attachment {
+    id: string;
+    name: string;
+    /** Location in Cloud Storage, kept so the file can be deleted with the entry. */
+    path: string;
+    contentType: string;
+    size: number;
+    uploadedAt: Date;
+}
+
+/** Files larger than this are rejected before upload. */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+/** Accepted types, in the shape react-dropzone expects. The same list as storage.rules. */
+export const ATTACHMENT_FILE_TYPES = {
+    'application/pdf': ['.pdf'],
+    'image/jpeg': ['.jpg', '.jpeg'],
+    'image/png': ['.png'],
+    'image/webp': ['.webp'],
+    'image/heic': ['.heic'],
+    'image/heif': ['.heif'],
+    'image/gif': ['.gif'],
+    'application/msword': ['.doc'],
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+};
+
+// Types implied by each accepted extension, for files the browser gives no usable type
+// (often HEIC photos). Storage rules check the stored type, so an upload has to carry one.
+const EXTENSION_TYPES: Record<string, string> = {
+    '.pdf': 'application/pdf',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.heic': 'image/heic',
+    '.heif': 'image/heif',
+    '.webp': 'image/webp',
+    '.gif': 'image/gif',
+    '.doc': 'application/msword',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+const isAcceptedType = (contentType: string) => Object.keys(ATTACHMENT_FILE_TYPES).includes(contentType);
+
+/** The type to store a file as: its own if accepted, else the one its extension implies, else null. */
+export const attachmentContentType = ({ name, type }: { name: string; type: string }): string | null => {
+    if (isAcceptedType(type)) return type;
+    const extension = Object.keys(EXTENSION_TYPES).find(e => name.toLowerCase().endsWith(e));
+    return extension ? EXTENSION_TYPES[extension] : null;
+};
+
+/** Returns why a file cannot be attached, or null if it can. */
+export const validateAttachment = (file: { name: string; size: number; type: string }): string | null => {
+    if (file.size > MAX_ATTACHMENT_SIZE) return `${file.name} is larger than 10 MB.`;
+    if (!attachmentContentType(file)) return `${file.name} must be a PDF, image or Word document.`;
+    return null;
+};
+
+/** Everything for a wedding lives under its own prefix so access can be checked from the path. */
+export const attachmentPath = (weddingId: string, { owner, ownerId }: AttachmentTarget, id: string, name: string) =>
+    `weddings/${weddingId}/${owner}/${ownerId}/${id}-${name.replace(/[/\\]/g, '_')}`;
+
+/** The wedding a stored file belongs to, or null for paths outside any wedding. */
+export const weddingIdFromPath = (path: string) => {
+    const match = /^weddings\/([^/]+)\/.+/.exec(path);
+    return match && !path.split('/').includes('..') ? match[1] : null;
+};
+
+export const formatFileSize = (bytes: number) =>
+    bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
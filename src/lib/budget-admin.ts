@@ -0,0 +1,182 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getDb } from '@/lib/firebase-admin';
+import { weddingRef } from '@/lib/wedding-admin';
+import { summarizeSchedule, toInstallments } from '@/lib/payments';
+import { getExchangeRate, toCurrencyCode, toExchangeRate, type CurrencyCode, type ExchangeRate } from '@/lib/currency';
+import type { CategoryPlan } from '@/lib/budget-plan';
+import { summarizeContributions } from '@/lib/contributions';
+
+/** Totals are in the budget's base currency. */
+export interface BudgetTotals {
+    /** Everything paid so far across every expense's schedule. */
+    spent: number;
+    /** Everything scheduled, paid or not. */
+    committed: number;
+}
+
+/** The part of the budget covered by contributors such as parents. */
+export interface ContributionTotals {
+    pledged: number;
+    received: number;
+    committed: number;
+    paid: number;
+}
+
+export interface BudgetReconciliation extends BudgetTotals {
+    contributions: ContributionTotals;
+    /** What the summary said before, or null if it had never been computed. */
+    previous: BudgetTotals | null;
+    /** Expenses whose stored amount, due date or paid flag disagreed with their schedule. */
+    repairedExpenseIds: string[];
+}
+
+// Firestore caps a batch at 500 writes.
+const EXPENSE_BATCH_SIZE = 450;
+
+const budgetSummaryRef = (weddingId: string) => weddingRef(weddingId).collection('budget').doc('summary');
+
+const storedTotals = (data: FirebaseFirestore.DocumentData | undefined): BudgetTotals | null =>
+    typeof data?.spent === 'number'
+        ? { spent: data.spent, committed: typeof data.committed === 'number' ? data.committed : 0 }
+        : null;
+
+/** The schedule-derived figures to rewrite on an expense, or null if its copies are current. */
+const scheduleRepair = (data: FirebaseFirestore.DocumentData) => {
+    const { actual, paid, dueDate } = summarizeSchedule(toInstallments(data));
+    const storedDueDate = data.dueDate instanceof Timestamp ? data.dueDate.toMillis() : null;
+    return data.actual !== actual || data.paid !== paid || storedDueDate !== dueDate.getTime()
+        ? { actual, paid, dueDate: Timestamp.fromDate(dueDate) }
+        : null;
+};
+
+/**
+ * Recomputes the budget summary from the expenses and contributors in a transaction, so
+ * concurrent edits can't leave a stale total behind. Expenses carry copies of figures derived
+ * from their payment schedule; with `repair` set, any copy that has drifted is rewritten
+ * afterwards. Transactions top out at 500 writes, so repairs run in chunks, each re-reading
+ * its expenses; the totals come from the schedules and don't depend on them.
+ */
+const recompute = async (weddingId: string, repair: boolean) => {
+    const db = getDb();
+    const summaryRef = budgetSummaryRef(weddingId);
+    const expensesRef = weddingRef(weddingId).collection('expenses');
+    const contributorsRef = weddingRef(weddingId).collection('contributors');
+
+    const reconciliation = await db.runTransaction(async (transaction): Promise<BudgetReconciliation> => {
+        const [summaryDoc, expensesSnapshot, contributorsSnapshot] = await Promise.all([
+            transaction.get(summaryRef),
+            transaction.get(expensesRef),
+            transaction.get(contributorsRef),
+        ]);
+
+        let spent = 0;
+        let committed = 0;
+        const repairedExpenseIds: string[] = [];
+        const expenses = expensesSnapshot.docs.map(expenseDoc => {
+            const data = expenseDoc.data();
+            const payments = toInstallments(data);
+            const { actual, paidAmount } = summarizeSchedule(payments);
+            const rate = toExchangeRate(data);
+            spent += paidAmount * rate;
+            committed += actual * rate;
+
+            if (repair && scheduleRepair(data)) repairedExpenseIds.push(expenseDoc.id);
+            return { payerId: typeof data.payerId === 'string' ? data.payerId : null, actual, exchangeRate: rate, payments };
+        });
+        const contributors = contributorsSnapshot.docs.map(contributorDoc => ({
+            id: contributorDoc.id,
+            pledged: contributorDoc.data().pledged ?? 0,
+            received: contributorDoc.data().received ?? 0,
+        }));
+        const { contributed: contributions } = summarizeContributions(contributors, expenses);
+
+        transaction.set(summaryRef, { spent, committed, contributions, computedAt: FieldValue.serverTimestamp() }, { merge: true });
+        return { spent, committed, contributions, previous: storedTotals(summaryDoc.data()), repairedExpenseIds };
+    });
+
+    const { repairedExpenseIds } = reconciliation;
+    for (let i = 0; i < repairedExpenseIds.length; i += EXPENSE_BATCH_SIZE) {
+        const refs = repairedExpenseIds.slice(i, i + EXPENSE_BATCH_SIZE).map(id => expensesRef.doc(id));
+        await db.runTransaction(async (transaction) => {
+            const expenseDocs = await transaction.getAll(...refs);
+            expenseDocs.forEach(expenseDoc => {
+                const fix = expenseDoc.exists ? scheduleRepair(expenseDoc.data()!) : null;
+                if (fix) transaction.update(expenseDoc.ref, fix);
+            });
+        });
+    }
+    return reconciliation;
+};
+
+/** Refreshes the stored spent and committed totals after expenses change. */
+export const recomputeBudgetSummary = (weddingId: string) => recompute(weddingId, false);
+
+/**
+ * Like `recomputeBudgetSummary`, but also repairs expenses whose stored figures have drifted
+ * and finishes a currency switch that failed partway.
+ */
+export const reconcileBudget = async (weddingId: string) => {
+    const summary = (await budgetSummaryRef(weddingId).get()).data();
+    if (summary?.currencySwitchPending === true) {
+        await switchBudgetCurrency(weddingId, toCurrencyCode(summary.currency));
+    }
+    return recompute(weddingId, true);
+};
+
+export const updateBudgetSettings = async (weddingId: string, settings: { total?: number; plan?: CategoryPlan[] }) => {
+    await budgetSummaryRef(weddingId).set(settings, { merge: true });
+};
+
+/**
+ * Switches the budget to another currency: the total and plan are converted in a transaction,
+ * then every expense gets a fresh rate to the new currency, replacing any typed in by hand.
+ * Transactions top out at 500 writes, so the expenses are rewritten in batches afterwards.
+ * The summary stays flagged until they are done, so a switch that failed partway is finished
+ * by reconciling the budget or switching to the same currency again. Rates are fetched once
+ * per currency.
+ */
+export const switchBudgetCurrency = async (weddingId: string, currency: CurrencyCode) => {
+    const db = getDb();
+    const summaryRef = budgetSummaryRef(weddingId);
+    const expensesRef = weddingRef(weddingId).collection('expenses');
+    const rates = new Map<CurrencyCode, Promise<ExchangeRate>>();
+    const rateFrom = (from: CurrencyCode) => {
+        if (!rates.has(from)) rates.set(from, getExchangeRate(from, currency));
+        return rates.get(from)!;
+    };
+
+    const switching = await db.runTransaction(async (transaction) => {
+        const summary = (await transaction.get(summaryRef)).data();
+        const previous = toCurrencyCode(summary?.currency);
+        if (previous === currency) return summary?.currencySwitchPending === true;
+
+        const { rate } = await rateFrom(previous);
+        const convert = (amount: number) => Math.round(amount * rate * 100) / 100;
+        const plan: CategoryPlan[] = Array.isArray(summary?.plan) ? summary.plan : [];
+        transaction.set(summaryRef, {
+            currency,
+            total: convert(typeof summary?.total === 'number' ? summary.total : 0),
+            plan: plan.map(p => ({ ...p, planned: convert(p.planned) })),
+            currencySwitchPending: true,
+        }, { merge: true });
+        return true;
+    });
+    if (!switching) return;
+
+    const expenseDocs = (await expensesRef.get()).docs;
+    for (let i = 0; i < expenseDocs.length; i += EXPENSE_BATCH_SIZE) {
+        const batch = db.batch();
+        for (const expenseDoc of expenseDocs.slice(i, i + EXPENSE_BATCH_SIZE)) {
+            const expenseCurrency = toCurrencyCode(expenseDoc.data().currency);
+            const expenseRate = expenseCurrency === currency ? null : await rateFrom(expenseCurrency);
+            batch.update(expenseDoc.ref, {
+                exchangeRate: expenseRate?.rate ?? 1,
+                rateSource: expenseRate?.source ?? null,
+                rateDate: expenseRate ? Timestamp.fromDate(expenseRate.date) : null,
+            });
+        }
+        await batch.commit();
+    }
+    await summaryRef.update({ currencySwitchPending: FieldValue.delete() });
+    await recomputeBudgetSummary(weddingId);
+};
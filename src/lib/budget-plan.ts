@@ -0,0 +1,94 @@
+import { summarizeSchedule, type Installment } from '@/lib/payments';
+
+/** Amounts in plans and reports are in the budget's base currency. */
+export interface CategoryPlan {
+    category: string;
+    planned: number;
+}
+
+/** Reads a plan sent by the app, or returns null if it isn't one. */
+export const parseCategoryPlan = (value: unknown): CategoryPlan[] | null => {
+    if (!Array.isArray(value)) return null;
+    const valid = value.every(p => p && typeof p.category === 'string' && p.category.trim() !== ''
+        && typeof p.planned === 'number' && Number.isFinite(p.planned) && p.planned >= 0);
+    return valid ? value.map(({ category, planned }) => ({ category: category.trim(), planned })) : null;
+};
+
+/** Committed spending within this fraction of the plan counts as on track rather than under. */
+export const VARIANCE_TOLERANCE = 0.05;
+
+export type VarianceStatus = 'over' | 'on-track' | 'under' | 'unplanned';
+
+export interface CategoryReportRow {
+    category: string;
+    /** From the budget plan, or the sum of expense estimates for categories without one. */
+    planned: number;
+    committed: number;
+    paid: number;
+    /** Planned minus committed; negative means over budget. */
+    variance: number;
+    status: VarianceStatus;
+    fromPlan: boolean;
+}
+
+type ExpenseForReport = { category: string; estimated: number; actual: number; exchangeRate: number; payments: Installment[] };
+
+const categoryKey = (category: string) => category.trim().toLowerCase();
+
+const varianceStatus = (planned: number, committed: number, fromPlan: boolean): VarianceStatus => {
+    if (!fromPlan && planned === 0) return 'unplanned';
+    if (committed > planned) return 'over';
+    return committed >= planned * (1 - VARIANCE_TOLERANCE) ? 'on-track' : 'under';
+};
+
+export const buildCategoryReport = (plan: CategoryPlan[], expenses: ExpenseForReport[]) => {
+    const rows = new Map<string, CategoryReportRow>();
+    plan.forEach(({ category, planned }) => {
+        rows.set(categoryKey(category), { category, planned, committed: 0, paid: 0, variance: 0, status: 'under', fromPlan: true });
+    });
+    expenses.forEach(expense => {
+        const key = categoryKey(expense.category);
+        let row = rows.get(key);
+        if (!row) {
+            row = { category: expense.category.trim(), planned: 0, committed: 0, paid: 0, variance: 0, status: 'unplanned', fromPlan: false };
+            rows.set(key, row);
+        }
+        if (!row.fromPlan) row.planned += expense.estimated * expense.exchangeRate;
+        row.committed += expense.actual * expense.exchangeRate;
+        row.paid += summarizeSchedule(expense.payments).paidAmount * expense.exchangeRate;
+    });
+
+    const categories = Array.from(rows.values()).map(row => ({
+        ...row,
+        variance: row.planned - row.committed,
+        status: varianceStatus(row.planned, row.committed, row.fromPlan),
+    }));
+    const totals = categories.reduce(
+        (sum, row) => ({
+            planned: sum.planned + row.planned,
+            committed: sum.committed + row.committed,
+            paid: sum.paid + row.paid,
+            variance: sum.variance + row.variance,
+        }),
+        { planned: 0, committed: 0, paid: 0, variance: 0 },
+    );
+    return { categories, totals };
+};
+
+/**
+ * Reads the AI assistant's allocation output, a JSON object of category to amount
+ * whose amounts sometimes arrive as strings like "$4,000".
+ */
+export const parseAllocations = (json: string): CategoryPlan[] =>
+    Object.entries(JSON.parse(json) as Record<string, unknown>)
+        .map(([category, value]) => ({
+            category,
+            planned: Number(String(value).replace(/[^0-9.-]+/g, '')),
+        }))
+        .filter(item => Number.isFinite(item.planned) && item.planned > 0);
+
+/** Adds suggested categories to a plan; categories already planned keep their amounts. */
+export const mergePlan = (plan: CategoryPlan[], suggestions: CategoryPlan[]): CategoryPlan[] => {
+    const planned = new Set(plan.map(p => categoryKey(p.category)));
+    return [...plan, ...suggestions.filter(s => !planned.has(categoryKey(s.category)))];
+};
@@ -0,0 +1,188 @@
+import { addDays, format } from 'date-fns';
+import type { Installment } from '@/lib/payments';
+import { formatMoney, type CurrencyCode } from '@/lib/currency';
+
+export type CalendarEntryKind = 'task' | 'payment' | 'event' | 'wedding';
+
+export interface CalendarEntry {
+    /** Stable across feed refreshes so calendar apps update entries instead of duplicating them. */
+    id: string;
+    kind: CalendarEntryKind;
+    title: string;
+    start: Date;
+    /** Exclusive end for timed events; all-day entries span a single day. */
+    end: Date | null;
+    allDay: boolean;
+    done: boolean;
+    location: string;
+    description: string;
+}
+
+/** A wedding-weekend event such as the rehearsal dinner or farewell brunch. */
+export interface WeddingEvent {
+    id: string;
+    title: string;
+    start: Date;
+    end: Date | null;
+    allDay: boolean;
+    location: string;
+    notes: string;
+}
+
+interface CalendarSources {
+    /** Keeps the wedding day's id apart from other weddings' in the same calendar app. */
+    weddingId: string;
+    weddingDate: Date | null;
+    tasks: { id: string; title: string; dueDate: Date | null; completed: boolean; notes?: string }[];
+    expenses: { id: string; category: string; vendor: string; currency: CurrencyCode; payments: Installment[] }[];
+    events: WeddingEvent[];
+}
+
+export const CALENDAR_KIND_LABELS: Record<CalendarEntryKind, string> = {
+    task: 'Task',
+    payment: 'Payment',
+    event: 'Event',
+    wedding: 'Wedding',
+};
+
+export function buildCalendarEntries({ weddingId, weddingDate, tasks, expenses, events }: CalendarSources): CalendarEntry[] {
+    const entries: CalendarEntry[] = [];
+
+    if (weddingDate) {
+        entries.push({
+            id: `wedding-day-${weddingId}`,
+            kind: 'wedding',
+            title: 'Wedding day',
+            start: weddingDate,
+            end: null,
+            allDay: true,
+            done: false,
+            location: '',
+            description: '',
+        });
+    }
+    tasks.forEach(task => {
+        if (!task.dueDate) return;
+        entries.push({
+            id: `task-${task.id}`,
+            kind: 'task',
+            title: task.title,
+            start: task.dueDate,
+            end: null,
+            allDay: true,
+            done: task.completed,
+            location: '',
+            description: task.notes ?? '',
+        });
+    });
+    expenses.forEach(expense => {
+        expense.payments.forEach(payment => {
+            entries.push({
+                id: `payment-${expense.id}-${payment.id}`,
+                kind: 'payment',
+                title: `Pay ${expense.vendor || expense.category}: ${formatMoney(payment.amount, expense.currency)}`,
+                start: payment.dueDate,
+                end: null,
+                allDay: true,
+                done: !!payment.paidDate,
+                location: '',
+                description: [payment.label, expense.category].filter(Boolean).join(' \u00b7 '),
+            });
+        });
+    });
+    events.forEach(event => {
+        entries.push({
+            id: `event-${event.id}`,
+            kind: 'event',
+            title: event.title,
+            start: event.start,
+            end: event.end,
+            allDay: event.allDay,
+            done: false,
+            location: event.location,
+            description: event.notes,
+        });
+    });
+
+    return entries.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+const escapeText = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545 caps content lines at 75 octets; longer ones continue on lines starting with a space.
+const foldLine = (line: string) => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        if (octets + size > 75) {
+            parts.push(current);
+            current = ' ';
+            octets = 1;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n');
+};
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * All-day dates are stored as local midnight by whichever browser saved them, so on
+ * the server the UTC date can be off by one. Shifting to midday first gives the
+ * intended calendar day for any timezone within 12 hours of UTC.
+ */
+const formatAllDay = (date: Date) => {
+    const midday = new Date(date.getTime() + 12 * 60 * 60 * 1000);
+    return format(new Date(midday.getUTCFullYear(), midday.getUTCMonth(), midday.getUTCDate()), 'yyyyMMdd');
+};
+
+const nextAllDay = (date: Date) => {
+    const midday = new Date(date.getTime() + 12 * 60 * 60 * 1000);
+    return format(addDays(new Date(midday.getUTCFullYear(), midday.getUTCMonth(), midday.getUTCDate()), 1), 'yyyyMMdd');
+};
+
+export function toICalendar(calendarName: string, entries: CalendarEntry[], now: Date = new Date()): string {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Wedly//Wedding Planner//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ];
+    entries.forEach(entry => {
+        lines.push('BEGIN:VEVENT');
+        lines.push(`UID:${entry.id}@wedly.app`);
+        lines.push(`DTSTAMP:${formatUtc(now)}`);
+        if (entry.allDay) {
+            lines.push(`DTSTART;VALUE=DATE:${formatAllDay(entry.start)}`);
+            lines.push(`DTEND;VALUE=DATE:${nextAllDay(entry.start)}`);
+        } else {
+            lines.push(`DTSTART:${formatUtc(entry.start)}`);
+            lines.push(`DTEND:${formatUtc(entry.end ?? new Date(entry.start.getTime() + 60 * 60 * 1000))}`);
+        }
+        lines.push(`SUMMARY:${escapeText(entry.done ? `\u2713 ${entry.title}` : entry.title)}`);
+        if (entry.description) lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+        if (entry.location) lines.push(`LOCATION:${escapeText(entry.location)}`);
+        lines.push(`CATEGORIES:${CALENDAR_KIND_LABELS[entry.kind]}`);
+        lines.push('TRANSP:TRANSPARENT');
+        lines.push('END:VEVENT');
+    });
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** Secret for a calendar subscription URL; long enough that it cannot be guessed. */
+export function generateCalendarToken(): string {
+    const bytes = new Uint8Array(24);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export const getCalendarFeedLink = (token: string) => `${window.location.origin}/api/calendar/${token}.ics`;
@@ -0,0 +1,82 @@
+import type { Guest } from '@/hooks/use-guests';
+import { toCsv } from '@/lib/csv';
+
+export const NO_MEAL_SELECTED = 'Not selected';
+
+export interface CatererReportGuest {
+    name: string;
+    meal: string;
+    allergies: string[];
+    dietaryNotes: string;
+    ageGroup: Guest['ageGroup'];
+}
+
+export interface CatererReport {
+    totalConfirmed: number;
+    mealCounts: { meal: string; count: number }[];
+    tables: { table: number | null; guests: CatererReportGuest[] }[];
+    /** Confirmed guests with allergies or dietary notes, grouped by table. */
+    dietaryByTable: { table: number | null; guests: CatererReportGuest[] }[];
+}
+
+const hasDietaryNeeds = (guest: CatererReportGuest) => guest.allergies.length > 0 || guest.dietaryNotes.trim() !== '';
+
+const compareTables = (a: number | null, b: number | null) => {
+    if (a === b) return 0;
+    if (a === null) return 1;
+    if (b === null) return -1;
+    return a - b;
+};
+
+export const formatTable = (table: number | null) => (table === null ? 'Unassigned' : `Table ${table}`);
+
+/**
+ * Builds the caterer's view of the guest list: only confirmed guests count, meals
+ * are tallied in menu order, and guests are grouped by their assigned table.
+ */
+export function buildCatererReport(guests: Guest[], menuOptions: string[]): CatererReport {
+    const confirmed = guests.filter(g => g.rsvp === 'Confirmed');
+
+    const counts = new Map<string, number>(menuOptions.map(option => [option, 0]));
+    confirmed.forEach(g => {
+        const meal = g.meal || NO_MEAL_SELECTED;
+        counts.set(meal, (counts.get(meal) ?? 0) + 1);
+    });
+
+    const byTable = new Map<number | null, CatererReportGuest[]>();
+    confirmed.forEach(g => {
+        const entry: CatererReportGuest = {
+            name: g.name,
+            meal: g.meal || NO_MEAL_SELECTED,
+            allergies: g.allergies,
+            dietaryNotes: g.dietaryNotes,
+            ageGroup: g.ageGroup,
+        };
+        byTable.set(g.table, [...(byTable.get(g.table) ?? []), entry]);
+    });
+    const tables = [...byTable.entries()]
+        .sort(([a], [b]) => compareTables(a, b))
+        .map(([table, tableGuests]) => ({ table, guests: tableGuests.sort((a, b) => a.name.localeCompare(b.name)) }));
+
+    return {
+        totalConfirmed: confirmed.length,
+        mealCounts: [...counts.entries()].map(([meal, count]) => ({ meal, count })),
+        tables,
+        dietaryByTable: tables
+            .map(({ table, guests: tableGuests }) => ({ table, guests: tableGuests.filter(hasDietaryNeeds) }))
+            .filter(({ guests: tableGuests }) => tableGuests.length > 0),
+    };
+}
+
+export function catererReportToCsv(report: CatererReport): string {
+    const rows = [['Table', 'Guest', 'Age Group', 'Meal', 'Allergies', 'Dietary Notes']];
+    report.tables.forEach(({ table, guests }) => {
+        guests.forEach(g => {
+            rows.push([formatTable(table), g.name, g.ageGroup, g.meal, g.allergies.join('; '), g.dietaryNotes]);
+        });
+    });
+    rows.push([]);
+    rows.push(['Meal', 'Count']);
+    report.mealCounts.forEach(({ meal, count }) => rows.push([meal, String(count)]));
+    return toCsv(rows);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { Installment } from './payments';
+import { summarizeContributions } from './contributions';
+
+const payment = (amount: number, paid: boolean): Installment => ({
+    id: `${amount}-${paid}`,
+    label: 'Payment',
+    amount,
+    dueDate: new Date('2026-05-01'),
+    paidDate: paid ? new Date('2026-04-01') : null,
+    method: null,
+    receipt: null,
+});
+
+const expense = (payerId: string | null, payments: Installment[], exchangeRate = 1) => ({
+    payerId,
+    actual: payments.reduce((sum, p) => sum + p.amount, 0),
+    exchangeRate,
+    payments,
+});
+
+const parents = { id: 'parents', pledged: 5000, received: 2000 };
+const grandma = { id: 'grandma', pledged: 1000, received: 1000 };
+
+describe('summarizeContributions', () => {
+    it('splits expenses between the couple and each contributor', () => {
+        const summary = summarizeContributions([parents, grandma], [
+            expense(null, [payment(1000, true), payment(500, false)]),
+            expense('parents', [payment(3000, true)]),
+            expense('grandma', [payment(400, false)]),
+        ]);
+
+        expect(summary.ours).toEqual({ committed: 1500, paid: 1000 });
+        expect(summary.rows).toEqual([
+            { contributor: parents, committed: 3000, paid: 3000 },
+            { contributor: grandma, committed: 400, paid: 0 },
+        ]);
+        expect(summary.contributed).toEqual({ committed: 3400, paid: 3000, pledged: 6000, received: 3000 });
+    });
+
+    it('converts expenses to the base currency', () => {
+        const summary = summarizeContributions([parents], [expense('parents', [payment(100, true)], 1.25)]);
+        expect(summary.contributed).toMatchObject({ committed: 125, paid: 125 });
+    });
+
+    it("counts expenses of a removed contributor as the couple's own", () => {
+        const summary = summarizeContributions([grandma], [expense('parents', [payment(800, true)])]);
+        expect(summary.ours).toEqual({ committed: 800, paid: 800 });
+        expect(summary.contributed).toEqual({ committed: 0, paid: 0, pledged: 1000, received: 1000 });
+    });
+});
@@ -0,0 +1,41 @@
+import { summarizeSchedule, type Installment } from '@/lib/payments';
+
+type ContributorForReport = { id: string; pledged: number; received: number };
+
+type ExpenseForReport = { payerId: string | null; actual: number; exchangeRate: number; payments: Installment[] };
+
+export interface FundingTotals {
+    /** Scheduled payments, paid or not, in the base currency. */
+    committed: number;
+    paid: number;
+}
+
+const fundingOf = (expenses: ExpenseForReport[]): FundingTotals => expenses.reduce(
+    (sum, e) => ({
+        committed: sum.committed + e.actual * e.exchangeRate,
+        paid: sum.paid + summarizeSchedule(e.payments).paidAmount * e.exchangeRate,
+    }),
+    { committed: 0, paid: 0 },
+);
+
+/**
+ * Splits the budget into what the couple pays themselves and what contributors such
+ * as parents cover. Expenses pointing at a contributor that no longer exists count as
+ * the couple's own.
+ */
+export const summarizeContributions = <C extends ContributorForReport>(contributors: C[], expenses: ExpenseForReport[]) => {
+    const ids = new Set(contributors.map(c => c.id));
+    const rows = contributors.map(contributor => ({
+        contributor,
+        ...fundingOf(expenses.filter(e => e.payerId === contributor.id)),
+    }));
+    return {
+        rows,
+        ours: fundingOf(expenses.filter(e => !e.payerId || !ids.has(e.payerId))),
+        contributed: {
+            ...fundingOf(expenses.filter(e => e.payerId && ids.has(e.payerId))),
+            pledged: contributors.reduce((sum, c) => sum + c.pledged, 0),
+            received: contributors.reduce((sum, c) => sum + c.received, 0),
+        },
+    };
+};
@@ -0,0 +1,69 @@
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Spreadsheet apps run text starting with these as a formula. Guests can type names and
+// notes on the public RSVP page, so text cells get a leading apostrophe to keep them inert.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (cell: CsvCell) => {
+    const text = cell === null || cell === undefined ? '' : String(cell);
+    const value = typeof cell === 'string' && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export function toCsv(rows: CsvCell[][]): string {
+    return rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+/** Parses RFC 4180 CSV (quoted fields, escaped quotes, CRLF or LF line endings). */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    // Spreadsheet apps often leave trailing blank lines.
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+/** Triggers a browser download of `content` as a file. */
+export function downloadFile(filename: string, content: string | Blob, mimeType = 'text/csv;charset=utf-8') {
+    const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,108 @@
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'MXN', 'JPY', 'SEK', 'DKK', 'NOK', 'ZAR', 'INR', 'THB', 'IDR'] as const;
+
+export type CurrencyCode = typeof CURRENCIES[number];
+
+/** Budgets created before currencies existed were all in dollars. */
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+    typeof value === 'string' && (CURRENCIES as readonly string[]).includes(value);
+
+export const toCurrencyCode = (value: unknown): CurrencyCode => (isCurrencyCode(value) ? value : DEFAULT_CURRENCY);
+
+/**
+ * Formats an amount in the viewer's locale. Whole amounts drop the decimals so
+ * budgets stay readable; anything with cents shows them.
+ */
+export const formatMoney = (amount: number, currency: CurrencyCode, locale?: string) =>
+    new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: Number.isInteger(amount) ? 0 : undefined,
+    }).format(amount);
+
+export const currencySymbol = (currency: CurrencyCode, locale?: string) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency, currencyDisplay: 'narrowSymbol' })
+        .formatToParts(0)
+        .find(part => part.type === 'currency')?.value ?? currency;
+
+export const currencyName = (currency: CurrencyCode, locale?: string) =>
+    new Intl.DisplayNames(locale ? [locale] : undefined, { type: 'currency' }).of(currency) ?? currency;
+
+export type RateSource = 'manual' | 'provider' | 'fallback';
+
+export interface ExchangeRate {
+    /** Units of the base currency per unit of the expense's currency. */
+    rate: number;
+    source: RateSource;
+    date: Date;
+}
+
+/** Anything that can quote a rate; returns null when it has none for the pair. */
+export interface ExchangeRateProvider {
+    getRate: (from: CurrencyCode, to: CurrencyCode) => Promise<number | null>;
+}
+
+/**
+ * Approximate units per US dollar, used when no provider is configured or it cannot
+ * be reached. Good enough for planning; people can type the rate their bank gave them.
+ */
+export const FALLBACK_RATES: Record<CurrencyCode, number> = {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    CAD: 1.37,
+    AUD: 1.52,
+    NZD: 1.66,
+    CHF: 0.88,
+    MXN: 18.5,
+    JPY: 150,
+    SEK: 10.6,
+    DKK: 6.9,
+    NOK: 10.7,
+    ZAR: 18.4,
+    INR: 83.5,
+    THB: 36,
+    IDR: 15800,
+};
+
+export const fallbackRateProvider: ExchangeRateProvider = {
+    getRate: async (from, to) => FALLBACK_RATES[to] / FALLBACK_RATES[from],
+};
+
+/** A provider for APIs shaped like Frankfurter's `/latest?from=EUR&to=USD`. */
+export const createHttpRateProvider = (baseUrl: string): ExchangeRateProvider => ({
+    getRate: async (from, to) => {
+        const response = await fetch(`${baseUrl}/latest?from=${from}&to=${to}`);
+        if (!response.ok) return null;
+        const data = await response.json();
+        const rate = data?.rates?.[to];
+        return typeof rate === 'number' ? rate : null;
+    },
+});
+
+let rateProvider: ExchangeRateProvider | null = process.env.NEXT_PUBLIC_EXCHANGE_RATE_API_URL
+    ? createHttpRateProvider(process.env.NEXT_PUBLIC_EXCHANGE_RATE_API_URL)
+    : null;
+
+/** Swaps the live rate provider, e.g. for a paid API; null means use the fallback table only. */
+export const setExchangeRateProvider = (provider: ExchangeRateProvider | null) => {
+    rateProvider = provider;
+};
+
+/** Asks the configured provider for a rate and falls back to the offline table. */
+export const getExchangeRate = async (from: CurrencyCode, to: CurrencyCode): Promise<ExchangeRate> => {
+    if (rateProvider) {
+        try {
+            const rate = await rateProvider.getRate(from, to);
+            if (rate && rate > 0) return { rate, source: 'provider', date: new Date() };
+        } catch (error) {
+            console.error("Error fetching exchange rate:", error);
+        }
+    }
+    return { rate: await fallbackRateProvider.getRate(from, to) ?? 1, source: 'fallback', date: new Date() };
+};
+
+/** Reads an expense's stored rate to the base currency; expenses without one are in it already. */
+export const toExchangeRate = (data: Record<string, unknown>) =>
+    typeof data.exchangeRate === 'number' && data.exchangeRate > 0 ? data.exchangeRate : 1;
@@ -15,6 +15,7 @@ const ensureFirebaseAdminIsInitialized = () => {
     const serviceAccount = JSON.parse(serviceAccountJson);
     admin.initializeApp({
       credential: admin.credential.cert(serviceAccount),
+      storageBucket: process.env.FIREBASE_STORAGE_BUCKET ?? `${serviceAccount.project_id}.appspot.com`,
     });
   } catch (error) {
     console.error("Firebase admin initialization error from service account JSON:", error);
@@ -31,3 +32,8 @@ export const getDb = () => {
   ensureFirebaseAdminIsInitialized();
   return admin.firestore();
 };
+
+export const getBucket = () => {
+  ensureFirebaseAdminIsInitialized();
+  return admin.storage().bucket();
+};
@@ -0,0 +1,83 @@
+import type { SeatingTable, TableShape } from '@/lib/seating';
+
+/** Size of the floor plan in canvas units (pixels at 100% zoom). */
+export const FLOOR_WIDTH = 1400;
+export const FLOOR_HEIGHT = 900;
+export const SEAT_SIZE = 36;
+/** Table moves snap to this grid. */
+export const FLOOR_GRID = 10;
+
+const SEAT_GAP = 6;
+const SEAT_PITCH = SEAT_SIZE + SEAT_GAP;
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface TableGeometry {
+    /** Size of the table top. */
+    width: number;
+    height: number;
+    /** Centre of each seat, relative to the centre of the table. */
+    seats: Point[];
+    /** Size of the box that holds the table and its seats. */
+    outerWidth: number;
+    outerHeight: number;
+}
+
+const seatRow = (count: number, y: number): Point[] =>
+    Array.from({ length: count }, (_, i) => ({ x: (i - (count - 1) / 2) * SEAT_PITCH, y }));
+
+export function tableGeometry(shape: TableShape, capacity: number): TableGeometry {
+    const seatOffset = SEAT_SIZE / 2 + SEAT_GAP;
+    if (shape === 'round') {
+        const diameter = Math.max(72, Math.ceil((capacity * SEAT_PITCH) / Math.PI) - SEAT_SIZE);
+        const radius = diameter / 2 + seatOffset;
+        const seats = Array.from({ length: capacity }, (_, i) => {
+            const angle = (2 * Math.PI * i) / capacity - Math.PI / 2;
+            return { x: Math.round(Math.cos(angle) * radius), y: Math.round(Math.sin(angle) * radius) };
+        });
+        const outer = 2 * radius + SEAT_SIZE;
+        return { width: diameter, height: diameter, seats, outerWidth: outer, outerHeight: outer };
+    }
+    if (shape === 'banquet') {
+        const width = Math.max(120, capacity * SEAT_PITCH);
+        const height = 48;
+        // Everyone sits on the side facing the room.
+        const seats = seatRow(capacity, height / 2 + seatOffset);
+        return { width, height, seats, outerWidth: width, outerHeight: height + 2 * (seatOffset + SEAT_SIZE / 2) };
+    }
+    const perSide = Math.ceil(capacity / 2);
+    const width = Math.max(80, perSide * SEAT_PITCH);
+    const height = 64;
+    const seats = [
+        ...seatRow(perSide, -(height / 2 + seatOffset)),
+        ...seatRow(capacity - perSide, height / 2 + seatOffset),
+    ];
+    return { width, height, seats, outerWidth: width, outerHeight: height + 2 * (seatOffset + SEAT_SIZE / 2) };
+}
+
+/** Where the `index`th table goes before anyone has moved it: rows of five across the room. */
+export function defaultTablePosition(index: number): Point {
+    const columns = 5;
+    return {
+        x: 160 + (index % columns) * 270,
+        y: Math.min(FLOOR_HEIGHT - 120, 140 + Math.floor(index / columns) * 250),
+    };
+}
+
+export const tablePosition = (table: SeatingTable, index: number): Point =>
+    table.x === null || table.y === null ? defaultTablePosition(index) : { x: table.x, y: table.y };
+
+/** Snaps a table centre to the grid and keeps the whole table, seats included, on the floor. */
+export function clampToFloor(point: Point, geometry: TableGeometry): Point {
+    const clamp = (value: number, size: number, max: number) => {
+        const snapped = Math.round(value / FLOOR_GRID) * FLOOR_GRID;
+        return Math.min(Math.max(snapped, Math.ceil(size / 2)), Math.floor(max - size / 2));
+    };
+    return {
+        x: clamp(point.x, geometry.outerWidth, FLOOR_WIDTH),
+        y: clamp(point.y, geometry.outerHeight, FLOOR_HEIGHT),
+    };
+}
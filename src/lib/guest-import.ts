@@ -0,0 +1,208 @@
+import type { Guest, Party } from '@/hooks/use-guests';
+import { parseCsv, toCsv } from '@/lib/csv';
+import { formatAddress, toMailingAddress, type MailingAddress } from '@/lib/addresses';
+
+export const IMPORT_FIELDS = [
+    'name', 'party', 'group', 'email', 'phone', 'rsvp',
+    'addressLine1', 'addressLine2', 'city', 'region', 'postalCode', 'country',
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+/** Column index in the uploaded sheet for each field, or null when it is not imported. */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+    name: 'Name',
+    party: 'Party / Household',
+    group: 'Group',
+    email: 'Email',
+    phone: 'Phone',
+    rsvp: 'RSVP',
+    addressLine1: 'Address Line 1',
+    addressLine2: 'Address Line 2',
+    city: 'City',
+    region: 'State / Region',
+    postalCode: 'Postal Code',
+    country: 'Country',
+};
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+    name: ['name', 'full name', 'guest', 'guest name'],
+    party: ['party', 'household', 'family', 'invitation'],
+    group: ['group', 'side', 'category', 'relationship'],
+    email: ['email', 'e-mail', 'email address'],
+    phone: ['phone', 'mobile', 'cell', 'phone number', 'telephone'],
+    rsvp: ['rsvp', 'status', 'attending', 'response'],
+    addressLine1: ['address', 'address 1', 'address line 1', 'street', 'street address', 'mailing address'],
+    addressLine2: ['address 2', 'address line 2', 'apt', 'unit', 'suite'],
+    city: ['city', 'town'],
+    region: ['state', 'province', 'region', 'county', 'state / region'],
+    postalCode: ['zip', 'zip code', 'postcode', 'postal code'],
+    country: ['country'],
+};
+
+export interface ImportRow {
+    /** 1-based row number in the uploaded sheet, for error messages. */
+    rowNumber: number;
+    name: string;
+    party: string;
+    group: string;
+    email: string;
+    phone: string;
+    /** Mailing address for the row's party, if any address column was mapped. */
+    address: MailingAddress | null;
+    rsvp: Guest['rsvp'];
+    errors: string[];
+    /** Existing guest or earlier row this one most likely duplicates. */
+    duplicateOf: string | null;
+}
+
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+    if (/\.xlsx$/i.test(file.name)) {
+        const { default: readXlsxFile } = await import('read-excel-file');
+        const rows = await readXlsxFile(file);
+        return rows
+            .map(row => row.map(cell => (cell === null ? '' : cell instanceof Date ? cell.toISOString().slice(0, 10) : String(cell))))
+            .filter(row => row.some(cell => cell.trim() !== ''));
+    }
+    if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+        return parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+    }
+    throw new Error('Please upload a .csv or .xlsx file.');
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+    const normalized = headers.map(h => h.trim().toLowerCase());
+    const mapping = {} as ColumnMapping;
+    IMPORT_FIELDS.forEach(field => {
+        const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+        mapping[field] = index === -1 ? null : index;
+    });
+    return mapping;
+}
+
+const parseRsvp = (value: string): Guest['rsvp'] | null => {
+    const v = value.trim().toLowerCase();
+    if (['', 'pending', 'maybe', 'unknown', 'invited', 'no response'].includes(v)) return 'Pending';
+    if (['confirmed', 'yes', 'y', 'attending', 'accepted', 'going'].includes(v)) return 'Confirmed';
+    if (['declined', 'no', 'n', 'not attending', 'regrets', 'not going'].includes(v)) return 'Declined';
+    return null;
+};
+
+export const normalizeName = (name: string) =>
+    name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean)
+        .sort()
+        .join(' ');
+
+const levenshtein = (a: string, b: string) => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+/**
+ * Names match when their sorted, accent-free tokens are equal ("Smith, Jane" vs
+ * "Jane Smith") or close enough to be a typo ("Jon Smith" vs "John Smith").
+ */
+export const isSimilarName = (a: string, b: string) => {
+    const na = normalizeName(a);
+    const nb = normalizeName(b);
+    if (!na || !nb) return false;
+    if (na === nb) return true;
+    return 1 - levenshtein(na, nb) / Math.max(na.length, nb.length) >= 0.85;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function buildImportRows(
+    rows: string[][],
+    mapping: ColumnMapping,
+    existingGuests: Pick<Guest, 'name' | 'email'>[],
+    hasHeaderRow: boolean,
+): ImportRow[] {
+    const cell = (row: string[], field: ImportField) => {
+        const index = mapping[field];
+        return index === null ? '' : (row[index] ?? '').trim();
+    };
+
+    const seen: Pick<Guest, 'name' | 'email'>[] = [];
+    return rows.slice(hasHeaderRow ? 1 : 0).map((row, i) => {
+        const errors: string[] = [];
+        const name = cell(row, 'name');
+        const email = cell(row, 'email');
+        const rawRsvp = cell(row, 'rsvp');
+        const rsvp = parseRsvp(rawRsvp);
+
+        if (!name) errors.push('Name is required.');
+        if (email && !EMAIL_PATTERN.test(email)) errors.push(`"${email}" is not a valid email.`);
+        if (!rsvp) errors.push(`Unrecognised RSVP "${rawRsvp}".`);
+
+        const matches = (other: Pick<Guest, 'name' | 'email'>) =>
+            (email !== '' && other.email?.toLowerCase() === email.toLowerCase()) || isSimilarName(name, other.name);
+        const duplicate = name ? existingGuests.find(matches) ?? seen.find(matches) : undefined;
+        if (name) seen.push({ name, email });
+
+        return {
+            rowNumber: i + (hasHeaderRow ? 2 : 1),
+            name,
+            party: cell(row, 'party'),
+            group: cell(row, 'group'),
+            email,
+            phone: cell(row, 'phone'),
+            address: toMailingAddress({
+                line1: cell(row, 'addressLine1'),
+                line2: cell(row, 'addressLine2'),
+                city: cell(row, 'city'),
+                region: cell(row, 'region'),
+                postalCode: cell(row, 'postalCode'),
+                country: cell(row, 'country'),
+            }),
+            rsvp: rsvp ?? 'Pending',
+            errors,
+            duplicateOf: duplicate?.name ?? null,
+        };
+    });
+}
+
+export function guestListToCsv(guests: Guest[], parties: Party[]): string {
+    const partiesById = new Map(parties.map(p => [p.id, p]));
+    const rows = [[
+        'Name', 'Party', 'Group', 'Email', 'Phone', 'Address', 'RSVP', 'Age Group',
+        'Plus-one', 'Meal', 'Allergies', 'Dietary Notes', 'Table',
+    ]];
+    guests.forEach(g => {
+        rows.push([
+            g.name,
+            (g.partyId && partiesById.get(g.partyId)?.name) || '',
+            g.group,
+            g.email,
+            g.phone,
+            formatAddress((g.partyId && partiesById.get(g.partyId)?.address) || null),
+            g.rsvp,
+            g.ageGroup,
+            g.isPlusOne ? 'Yes' : 'No',
+            g.meal ?? '',
+            g.allergies.join('; '),
+            g.dietaryNotes,
+            g.table === null ? '' : String(g.table),
+        ]);
+    });
+    return toCsv(rows);
+}
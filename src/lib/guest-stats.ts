@@ -0,0 +1,62 @@
+import type { Guest, Party } from '@/hooks/use-guests';
+import { isAddressComplete } from '@/lib/addresses';
+
+type GuestForStats = Pick<Guest, 'rsvp' | 'ageGroup' | 'isPlusOne' | 'partyId'>;
+type PartyForStats = Pick<Party, 'id' | 'plusOnesAllowed' | 'address'>;
+
+export interface GuestSummary {
+    totalGuests: number;
+    confirmed: number;
+    pending: number;
+    declined: number;
+    adults: number;
+    children: number;
+    confirmedAdults: number;
+    confirmedChildren: number;
+    parties: number;
+    /** Plus-ones a party is allowed but has not named yet. */
+    openPlusOnes: number;
+    /** Everyone who could still attend: confirmed and pending guests plus unnamed plus-ones. */
+    maxHeadcount: number;
+    /** Invitations without a complete mailing address, and the guests on them or on no invitation at all. */
+    partiesMissingAddress: number;
+    guestsMissingAddress: number;
+}
+
+export function summarizeGuests(guests: GuestForStats[], parties: PartyForStats[]): GuestSummary {
+    const namedPlusOnes = new Map<string, number>();
+    guests.forEach(g => {
+        if (g.isPlusOne && g.partyId) {
+            namedPlusOnes.set(g.partyId, (namedPlusOnes.get(g.partyId) ?? 0) + 1);
+        }
+    });
+
+    const openPlusOnes = parties.reduce(
+        (sum, p) => sum + Math.max(0, (p.plusOnesAllowed ?? 0) - (namedPlusOnes.get(p.id) ?? 0)),
+        0,
+    );
+
+    const missingAddress = new Set(parties.filter(p => !isAddressComplete(p.address)).map(p => p.id));
+
+    const confirmed = guests.filter(g => g.rsvp === 'Confirmed');
+    const pending = guests.filter(g => g.rsvp === 'Pending').length;
+    const declined = guests.filter(g => g.rsvp === 'Declined').length;
+    const children = guests.filter(g => g.ageGroup === 'Child').length;
+    const confirmedChildren = confirmed.filter(g => g.ageGroup === 'Child').length;
+
+    return {
+        totalGuests: guests.length,
+        confirmed: confirmed.length,
+        pending,
+        declined,
+        adults: guests.length - children,
+        children,
+        confirmedAdults: confirmed.length - confirmedChildren,
+        confirmedChildren,
+        parties: parties.length,
+        openPlusOnes,
+        maxHeadcount: confirmed.length + pending + openPlusOnes,
+        partiesMissingAddress: missingAddress.size,
+        guestsMissingAddress: guests.filter(g => !g.partyId || missingAddress.has(g.partyId)).length,
+    };
+}
@@ -0,0 +1,17 @@
+export const DEFAULT_MENU_OPTIONS = ['Beef', 'Fish', 'Vegetarian'];
+
+export const COMMON_ALLERGENS = [
+    'Peanuts',
+    'Tree nuts',
+    'Milk',
+    'Eggs',
+    'Wheat / gluten',
+    'Soy',
+    'Fish',
+    'Shellfish',
+    'Sesame',
+];
+
+/** A wedding that has never configured its menu falls back to the default options. */
+export const resolveMenuOptions = (menuOptions: unknown): string[] =>
+    Array.isArray(menuOptions) && menuOptions.length > 0 ? menuOptions : DEFAULT_MENU_OPTIONS;
@@ -0,0 +1,123 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import type { CurrencyCode } from '@/lib/currency';
+
+/** The cash-flow view looks this many days ahead. */
+export const CASH_FLOW_WINDOW_DAYS = 90;
+
+export const PAYMENT_METHODS = ['card', 'bank-transfer', 'check', 'cash', 'other'] as const;
+
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    card: 'Card',
+    'bank-transfer': 'Bank transfer',
+    check: 'Check',
+    cash: 'Cash',
+    other: 'Other',
+};
+
+export interface PaymentReceipt {
+    name: string;
+    /** Location in Cloud Storage, kept so the file can be deleted with the payment. */
+    path: string;
+}
+
+/** One scheduled payment towards an expense, e.g. the deposit or a later installment. */
+export interface Installment {
+    id: string;
+    label: string;
+    amount: number;
+    dueDate: Date;
+    paidDate: Date | null;
+    method: PaymentMethod | null;
+    receipt: PaymentReceipt | null;
+}
+
+type TimestampLike = { toDate: () => Date };
+
+const toDate = (value: unknown) => (value as TimestampLike | undefined)?.toDate?.() ?? null;
+
+/**
+ * Reads an expense document's payment schedule. Works with both the client and admin
+ * SDKs' timestamps. Expenses created before schedules existed become a single
+ * installment built from their amount, due date and paid flag.
+ */
+export const toInstallments = (data: Record<string, unknown>): Installment[] => {
+    if (Array.isArray(data.payments)) {
+        return data.payments.map(p => ({
+            id: p.id,
+            label: p.label ?? '',
+            amount: p.amount ?? 0,
+            dueDate: toDate(p.dueDate) ?? new Date(),
+            paidDate: toDate(p.paidDate),
+            method: p.method ?? null,
+            receipt: p.receipt ?? null,
+        }));
+    }
+    const dueDate = toDate(data.dueDate) ?? new Date();
+    return [{
+        id: 'initial',
+        label: 'Payment',
+        amount: typeof data.actual === 'number' ? data.actual : 0,
+        dueDate,
+        paidDate: data.paid ? dueDate : null,
+        method: null,
+        receipt: null,
+    }];
+};
+
+export const sortInstallments = <T extends Installment>(payments: T[]) =>
+    [...payments].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+/**
+ * The single-amount fields an expense has always had, derived from its schedule.
+ * They are stored alongside it for code that only needs the headline figures.
+ */
+export const summarizeSchedule = (payments: Installment[]) => {
+    const sorted = sortInstallments(payments);
+    const nextDue = sorted.find(p => !p.paidDate);
+    return {
+        actual: sorted.reduce((sum, p) => sum + p.amount, 0),
+        paidAmount: sorted.filter(p => p.paidDate).reduce((sum, p) => sum + p.amount, 0),
+        paid: sorted.length > 0 && !nextDue,
+        dueDate: nextDue?.dueDate ?? sorted[sorted.length - 1]?.dueDate ?? new Date(),
+        nextDue: nextDue ?? null,
+    };
+};
+
+/** Total of every paid installment in the base currency; this is what the budget counts as spent. */
+export const totalPaid = (expenses: { payments: Installment[]; exchangeRate: number }[]) =>
+    expenses.reduce((sum, e) => sum + summarizeSchedule(e.payments).paidAmount * e.exchangeRate, 0);
+
+export interface UpcomingPayment {
+    expenseId: string;
+    installment: Installment;
+    vendor: string;
+    category: string;
+    /** The installment's amount is in this currency; multiply by the rate for the base currency. */
+    currency: CurrencyCode;
+    exchangeRate: number;
+    overdue: boolean;
+}
+
+/** Unpaid installments due within the window, plus any already overdue, soonest first. */
+export const getUpcomingPayments = (
+    expenses: { id: string; vendor: string; category: string; currency: CurrencyCode; exchangeRate: number; payments: Installment[] }[],
+    now: Date = new Date(),
+    windowDays: number = CASH_FLOW_WINDOW_DAYS,
+): UpcomingPayment[] => {
+    const cutoff = addDays(startOfDay(now), windowDays);
+    return expenses
+        .flatMap(expense => expense.payments
+            .filter(p => !p.paidDate && p.dueDate < cutoff)
+            .map(installment => ({
+                expenseId: expense.id,
+                installment,
+                vendor: expense.vendor,
+                category: expense.category,
+                currency: expense.currency,
+                exchangeRate: expense.exchangeRate,
+                overdue: differenceInCalendarDays(installment.dueDate, now) < 0,
+            })))
+        .sort((a, b) => a.installment.dueDate.getTime() - b.installment.dueDate.getTime());
+};
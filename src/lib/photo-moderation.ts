@@ -0,0 +1,64 @@
+/** Guest uploads wait as 'pending' until approved; only approved photos are shown in the album. */
+export type PhotoStatus = 'pending' | 'approved';
+
+export interface PhotoModerationRules {
+    /** Hold every guest upload for review. When off, only uploads matching a rule below are held. */
+    holdAllGuestUploads: boolean;
+    holdFileTypes: string[];
+    /** Originals larger than this many megabytes, or null for no size rule. */
+    holdLargerThanMb: number | null;
+    /** Uploaders who left no name. */
+    holdAnonymous: boolean;
+    /** Uploader names to always hold, matched case-insensitively. */
+    holdUploaders: string[];
+}
+
+export const DEFAULT_PHOTO_MODERATION: PhotoModerationRules = {
+    holdAllGuestUploads: true,
+    holdFileTypes: [],
+    holdLargerThanMb: null,
+    holdAnonymous: false,
+    holdUploaders: [],
+};
+
+export const HOLDABLE_FILE_TYPES = [
+    { type: 'image/gif', label: 'GIF' },
+    { type: 'image/heic', label: 'HEIC' },
+    { type: 'image/png', label: 'PNG' },
+    { type: 'image/webp', label: 'WebP' },
+];
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/** Weddings that never changed their rules review every guest upload. */
+export const resolvePhotoModeration = (value: unknown): PhotoModerationRules => {
+    const rules = (value ?? {}) as Partial<Record<keyof PhotoModerationRules, unknown>>;
+    return {
+        holdAllGuestUploads: typeof rules.holdAllGuestUploads === 'boolean' ? rules.holdAllGuestUploads : DEFAULT_PHOTO_MODERATION.holdAllGuestUploads,
+        holdFileTypes: isStringArray(rules.holdFileTypes) ? rules.holdFileTypes : [],
+        holdLargerThanMb: typeof rules.holdLargerThanMb === 'number' && rules.holdLargerThanMb > 0 ? rules.holdLargerThanMb : null,
+        holdAnonymous: rules.holdAnonymous === true,
+        holdUploaders: isStringArray(rules.holdUploaders) ? rules.holdUploaders : [],
+    };
+};
+
+export interface GuestUploadFacts {
+    contentType: string;
+    size: number;
+    uploaderName: string | null;
+}
+
+/** Why a guest upload should wait for review, or null to publish it straight away. */
+export const photoHoldReason = (rules: PhotoModerationRules, upload: GuestUploadFacts): string | null => {
+    if (rules.holdAllGuestUploads) return 'All guest uploads are reviewed';
+    const typeRule = HOLDABLE_FILE_TYPES.find(t => t.type === upload.contentType && rules.holdFileTypes.includes(t.type));
+    if (typeRule) return `${typeRule.label} file`;
+    if (rules.holdLargerThanMb !== null && upload.size > rules.holdLargerThanMb * 1024 * 1024) {
+        return `Larger than ${rules.holdLargerThanMb} MB`;
+    }
+    const name = upload.uploaderName?.trim().toLowerCase() ?? '';
+    if (!name && rules.holdAnonymous) return 'No uploader name';
+    if (name && rules.holdUploaders.some(held => held.trim().toLowerCase() === name)) return `Uploaded by ${upload.uploaderName}`;
+    return null;
+};
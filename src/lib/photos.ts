@@ -0,0 +1,86 @@
+/** Sizes generated for every photo; the original is kept untouched alongside them. */
+export const PHOTO_RENDITIONS = {
+    /** Album grid. */
+    thumb: { maxSize: 480, quality: 0.8 },
+    /** Full-screen viewing. */
+    web: { maxSize: 1920, quality: 0.85 },
+} as const;
+
+export type PhotoRendition = keyof typeof PHOTO_RENDITIONS;
+
+/** Photos an album can hold before the couple needs the Pro plan. */
+export const FREE_PHOTO_LIMIT = 10;
+
+/** Originals larger than this are rejected before upload. */
+export const MAX_PHOTO_SIZE = 20 * 1024 * 1024;
+
+/** Renditions are generated small; anything bigger than this did not come from `renderPhoto`. */
+export const MAX_RENDITION_SIZE = 5 * 1024 * 1024;
+
+export const PHOTO_FILE_TYPES = { 'image/*': ['.png', '.jpg', '.jpeg', '.heic', '.webp', '.gif'] };
+
+/** Raster formats kept as originals. SVG is left out since it can carry scripts. */
+export const PHOTO_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif', 'image/gif'];
+
+export const isPhotoType = (contentType: string) => PHOTO_CONTENT_TYPES.includes(contentType.toLowerCase());
+
+export interface PhotoFile {
+    /** Location in Cloud Storage, kept so the file can be deleted with the photo. */
+    path: string;
+    url: string;
+}
+
+export type PhotoFiles = Record<PhotoRendition | 'original', PhotoFile>;
+
+/** Every upload of a photo sits in its own folder under the wedding. */
+export const photoPath = (weddingId: string, folderId: string, file: PhotoRendition | 'original', extension: string) =>
+    `weddings/${weddingId}/photos/${folderId}/${file}.${extension}`;
+
+export const fileExtension = (name: string) => {
+    const match = /\.([a-z0-9]+)$/i.exec(name);
+    return match ? match[1].toLowerCase() : 'jpg';
+};
+
+/** Photos saved before Storage held the whole image inline as a data URI. */
+export const isDataUri = (value: unknown): value is string =>
+    typeof value === 'string' && value.startsWith('data:');
+
+/** Scales dimensions down to fit inside a square of `maxSize`, never up. */
+export const fitWithin = (width: number, height: number, maxSize: number) => {
+    const scale = Math.min(1, maxSize / Math.max(width, height));
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+export interface RenderedPhoto {
+    blob: Blob;
+    width: number;
+    height: number;
+}
+
+/**
+ * Decodes an image with its EXIF orientation applied and re-encodes it as a JPEG no larger
+ * than `maxSize`. The rotation is baked into the pixels and the EXIF block, GPS position
+ * included, is dropped, so renditions display upright everywhere.
+ */
+export const renderPhoto = async (source: Blob, maxSize: number, quality: number): Promise<RenderedPhoto> => {
+    const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' }).catch(() => {
+        throw new Error('This image format cannot be read by your browser.');
+    });
+    try {
+        const { width, height } = fitWithin(bitmap.width, bitmap.height, maxSize);
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Could not process the photo.');
+        // JPEG has no transparency; keep transparent PNGs from turning black.
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, width, height);
+        context.drawImage(bitmap, 0, 0, width, height);
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+        if (!blob) throw new Error('Could not process the photo.');
+        return { blob, width, height };
+    } finally {
+        bitmap.close();
+    }
+};
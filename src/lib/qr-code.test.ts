@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { alignmentPatternPositions, encodeQrCode, qrCodeToSvg, reedSolomonRemainder, type QrErrorCorrection } from './qr-code';
+
+/** Reads the level and mask back out of the format bits beside the top-left finder. */
+const readFormat = (modules: boolean[][]) => {
+    const positions = [
+        [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8],
+        [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+    ];
+    const bits = positions.reduce((value, [x, y], i) => value | (Number(modules[y][x]) << i), 0) ^ 0x5412;
+    const levels: QrErrorCorrection[] = ['M', 'L', 'H', 'Q'];
+    return { level: levels[bits >>> 13], mask: (bits >>> 10) & 0b111 };
+};
+
+const hasFinderAt = (modules: boolean[][], left: number, top: number) =>
+    Array.from({ length: 7 }, (_, dy) => Array.from({ length: 7 }, (_, dx) => {
+        const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+        return modules[top + dy][left + dx] === (ring !== 2);
+    })).flat().every(Boolean);
+
+describe('reedSolomonRemainder', () => {
+    it('matches the worked example for "HELLO WORLD" at 1-M', () => {
+        const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+        expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+    });
+});
+
+describe('alignmentPatternPositions', () => {
+    it('matches the table in the standard', () => {
+        expect(alignmentPatternPositions(1)).toEqual([]);
+        expect(alignmentPatternPositions(2)).toEqual([6, 18]);
+        expect(alignmentPatternPositions(7)).toEqual([6, 22, 38]);
+        expect(alignmentPatternPositions(32)).toEqual([6, 34, 60, 86, 112, 138]);
+        expect(alignmentPatternPositions(40)).toEqual([6, 30, 58, 86, 114, 142, 170]);
+    });
+});
+
+describe('encodeQrCode', () => {
+    it('uses the smallest version the text fits in', () => {
+        // Version 1 holds 14 bytes at level M and 7 at level H.
+        expect(encodeQrCode('a'.repeat(14), 'M').version).toBe(1);
+        expect(encodeQrCode('a'.repeat(15), 'M').version).toBe(2);
+        expect(encodeQrCode('a'.repeat(8), 'H').version).toBe(2);
+    });
+
+    it('counts UTF-8 bytes rather than characters', () => {
+        expect(encodeQrCode('é'.repeat(7), 'M').version).toBe(1);
+        expect(encodeQrCode('é'.repeat(8), 'M').version).toBe(2);
+    });
+
+    it('draws the finder patterns and the dark module', () => {
+        const qr = encodeQrCode('https://example.com/guest-upload/abc');
+        expect(qr.size).toBe(qr.version * 4 + 17);
+        expect(qr.modules).toHaveLength(qr.size);
+        expect(hasFinderAt(qr.modules, 0, 0)).toBe(true);
+        expect(hasFinderAt(qr.modules, qr.size - 7, 0)).toBe(true);
+        expect(hasFinderAt(qr.modules, 0, qr.size - 7)).toBe(true);
+        expect(qr.modules[qr.size - 8][8]).toBe(true);
+    });
+
+    it.each(['L', 'M', 'Q', 'H'] as const)('records level %s in the format bits', level => {
+        const qr = encodeQrCode('RSVP-7K3Q', level);
+        expect(qr.errorCorrection).toBe(level);
+        expect(readFormat(qr.modules).level).toBe(level);
+    });
+
+    it('gives the same code for the same text', () => {
+        expect(encodeQrCode('same text').modules).toEqual(encodeQrCode('same text').modules);
+    });
+
+    it('rejects text too long for version 40', () => {
+        expect(encodeQrCode('a'.repeat(2953), 'L').version).toBe(40);
+        expect(() => encodeQrCode('a'.repeat(2954), 'L')).toThrow('too long');
+    });
+});
+
+describe('qrCodeToSvg', () => {
+    it('sizes the view box to the code plus its margin', () => {
+        const qr = encodeQrCode('hello');
+        expect(qrCodeToSvg(qr, { margin: 2 })).toContain(`viewBox="0 0 ${qr.size + 4} ${qr.size + 4}"`);
+    });
+
+    it('escapes colours and logo links', () => {
+        const svg = qrCodeToSvg(encodeQrCode('hello'), {
+            foreground: '"><script>',
+            logo: { href: 'https://example.com/logo.png?a=1&b=2' },
+        });
+        expect(svg).not.toContain('<script>');
+        expect(svg).toContain('fill="&quot;&gt;&lt;script&gt;"');
+        expect(svg).toContain('href="https://example.com/logo.png?a=1&amp;b=2"');
+    });
+});
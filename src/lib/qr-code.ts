@@ -0,0 +1,466 @@
+/**
+ * QR Code generation (ISO/IEC 18004), done locally so private links such as guest upload
+ * URLs are never sent to a third-party service. Text is encoded in byte mode as UTF-8,
+ * which covers every URL and code the app produces.
+ */
+
+export const QR_ERROR_CORRECTION_LEVELS = ['L', 'M', 'Q', 'H'] as const;
+
+/** How much of the symbol can be damaged or covered and still scan: roughly 7%, 15%, 25% and 30%. */
+export type QrErrorCorrection = typeof QR_ERROR_CORRECTION_LEVELS[number];
+
+export interface QrCode {
+    version: number;
+    errorCorrection: QrErrorCorrection;
+    /** Modules per side. */
+    size: number;
+    /** Dark modules, indexed `[y][x]`. */
+    modules: boolean[][];
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Indexed by level, then version; index 0 is unused.
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+    L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+    Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+    L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+    M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+    Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+    H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+// The two-bit level field in the format information; not in L, M, Q, H order.
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const BYTE_MODE = 0b0100;
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+/** Modules left for data and error correction once function patterns are placed. */
+const rawDataModules = (version: number) => {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const alignCount = Math.floor(version / 7) + 2;
+        result -= (25 * alignCount - 10) * alignCount - 55;
+        if (version >= 7) result -= 36;
+    }
+    return result;
+};
+
+const dataCodewords = (version: number, level: QrErrorCorrection) =>
+    Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version];
+
+const byteCountBits = (version: number) => (version <= 9 ? 8 : 16);
+
+export const alignmentPatternPositions = (version: number): number[] => {
+    if (version === 1) return [];
+    const alignCount = Math.floor(version / 7) + 2;
+    const step = Math.floor((version * 8 + alignCount * 3 + 5) / (alignCount * 4 - 4)) * 2;
+    const positions = [6];
+    for (let pos = version * 4 + 10; positions.length < alignCount; pos -= step) {
+        positions.splice(1, 0, pos);
+    }
+    return positions;
+};
+
+// Reed-Solomon arithmetic over GF(2^8) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1.
+const gfMultiply = (x: number, y: number) => {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+    const result = new Array<number>(degree).fill(0);
+    result[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < degree; j++) {
+            result[j] = gfMultiply(result[j], root);
+            if (j + 1 < degree) result[j] ^= result[j + 1];
+        }
+        root = gfMultiply(root, 0x02);
+    }
+    return result;
+};
+
+export const reedSolomonRemainder = (data: number[], degree: number) => {
+    const divisor = reedSolomonDivisor(degree);
+    const result = new Array<number>(degree).fill(0);
+    for (const byte of data) {
+        const factor = byte ^ (result.shift() as number);
+        result.push(0);
+        divisor.forEach((coefficient, i) => { result[i] ^= gfMultiply(coefficient, factor); });
+    }
+    return result;
+};
+
+/** Splits data into blocks, appends each block's error correction and interleaves them. */
+const addErrorCorrection = (data: number[], version: number, level: QrErrorCorrection) => {
+    const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+    const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+    const rawCodewords = Math.floor(rawDataModules(version) / 8);
+    const shortBlockCount = blockCount - (rawCodewords % blockCount);
+    const shortBlockLength = Math.floor(rawCodewords / blockCount);
+
+    const blocks: number[][] = [];
+    for (let i = 0, offset = 0; i < blockCount; i++) {
+        const blockData = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1));
+        offset += blockData.length;
+        const ecc = reedSolomonRemainder(blockData, eccLength);
+        // Short blocks get a placeholder so every block has the same length to interleave.
+        if (i < shortBlockCount) blockData.push(0);
+        blocks.push([...blockData, ...ecc]);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            if (i !== shortBlockLength - eccLength || j >= shortBlockCount) result.push(block[i]);
+        });
+    }
+    return result;
+};
+
+/** Packs the text as a byte-mode segment, then terminates and pads it to the version's capacity. */
+const encodeData = (bytes: Uint8Array, version: number, level: QrErrorCorrection) => {
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    append(BYTE_MODE, 4);
+    append(bytes.length, byteCountBits(version));
+    bytes.forEach(byte => append(byte, 8));
+
+    const capacityBits = dataCodewords(version, level) * 8;
+    append(0, Math.min(4, capacityBits - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+    for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+        append(pad, 8);
+    }
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+        codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    }
+    return codewords;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 === 0,
+    (x, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+    (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+    (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+class QrBuilder {
+    readonly size: number;
+    readonly modules: boolean[][];
+    private readonly isFunction: boolean[][];
+
+    constructor(private readonly version: number, private readonly level: QrErrorCorrection) {
+        this.size = version * 4 + 17;
+        this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+        this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    }
+
+    private setFunction(x: number, y: number, dark: boolean) {
+        this.modules[y][x] = dark;
+        this.isFunction[y][x] = true;
+    }
+
+    drawFunctionPatterns() {
+        for (let i = 0; i < this.size; i++) {
+            this.setFunction(6, i, i % 2 === 0);
+            this.setFunction(i, 6, i % 2 === 0);
+        }
+        this.drawFinder(3, 3);
+        this.drawFinder(this.size - 4, 3);
+        this.drawFinder(3, this.size - 4);
+
+        const positions = alignmentPatternPositions(this.version);
+        const last = positions.length - 1;
+        positions.forEach((x, i) => positions.forEach((y, j) => {
+            // Alignment patterns are skipped where they would overlap a finder.
+            if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+            this.drawAlignment(x, y);
+        }));
+
+        // Reserve the format areas now; the real bits are drawn once the mask is chosen.
+        this.drawFormatBits(0);
+        this.drawVersion();
+    }
+
+    private drawFinder(x: number, y: number) {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                const xx = x + dx;
+                const yy = y + dy;
+                if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+                    this.setFunction(xx, yy, distance !== 2 && distance !== 4);
+                }
+            }
+        }
+    }
+
+    private drawAlignment(x: number, y: number) {
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) {
+                this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+            }
+        }
+    }
+
+    drawFormatBits(mask: number) {
+        const data = (FORMAT_BITS[this.level] << 3) | mask;
+        let remainder = data;
+        for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+        const bits = ((data << 10) | remainder) ^ 0x5412;
+
+        for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+        this.setFunction(8, 7, getBit(bits, 6));
+        this.setFunction(8, 8, getBit(bits, 7));
+        this.setFunction(7, 8, getBit(bits, 8));
+        for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+        for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+        for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+        this.setFunction(8, this.size - 8, true);
+    }
+
+    private drawVersion() {
+        if (this.version < 7) return;
+        let remainder = this.version;
+        for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+        const bits = (this.version << 12) | remainder;
+        for (let i = 0; i < 18; i++) {
+            const dark = getBit(bits, i);
+            const a = this.size - 11 + (i % 3);
+            const b = Math.floor(i / 3);
+            this.setFunction(a, b, dark);
+            this.setFunction(b, a, dark);
+        }
+    }
+
+    /** Places codewords in the two-module-wide zigzag that runs up and down from the right edge. */
+    drawCodewords(codewords: number[]) {
+        let i = 0;
+        for (let right = this.size - 1; right >= 1; right -= 2) {
+            if (right === 6) right = 5;
+            for (let vertical = 0; vertical < this.size; vertical++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j;
+                    const upward = ((right + 1) & 2) === 0;
+                    const y = upward ? this.size - 1 - vertical : vertical;
+                    if (!this.isFunction[y][x] && i < codewords.length * 8) {
+                        this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+                        i++;
+                    }
+                }
+            }
+        }
+    }
+
+    /** XORs the mask onto the data area; applying the same mask twice undoes it. */
+    applyMask(mask: number) {
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (!this.isFunction[y][x] && MASKS[mask](x, y)) this.modules[y][x] = !this.modules[y][x];
+            }
+        }
+    }
+
+    /** The standard's penalty score; the mask with the lowest score is used. */
+    penalty() {
+        const { size, modules } = this;
+        let result = 0;
+        const line = (index: number, vertical: boolean) =>
+            Array.from({ length: size }, (_, i) => (vertical ? modules[i][index] : modules[index][i]));
+
+        const finderLike = [true, false, true, true, true, false, true];
+        for (let index = 0; index < size; index++) {
+            for (const vertical of [false, true]) {
+                const cells = line(index, vertical);
+                let runLength = 1;
+                for (let i = 1; i <= size; i++) {
+                    if (i < size && cells[i] === cells[i - 1]) {
+                        runLength++;
+                    } else {
+                        if (runLength >= 5) result += 3 + (runLength - 5);
+                        runLength = 1;
+                    }
+                }
+                // A finder-like 1:1:3:1:1 run with four light modules (or the edge) on one side.
+                for (let i = 0; i + 7 <= size; i++) {
+                    if (!finderLike.every((dark, k) => cells[i + k] === dark)) continue;
+                    const lightBefore = [1, 2, 3, 4].every(k => i - k < 0 || !cells[i - k]);
+                    const lightAfter = [0, 1, 2, 3].every(k => i + 7 + k >= size || !cells[i + 7 + k]);
+                    if (lightBefore || lightAfter) result += 40;
+                }
+            }
+        }
+
+        let dark = 0;
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) {
+                if (modules[y][x]) dark++;
+                if (x + 1 < size && y + 1 < size) {
+                    const color = modules[y][x];
+                    if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) result += 3;
+                }
+            }
+        }
+        const total = size * size;
+        result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+        return result;
+    }
+}
+
+/**
+ * Encodes `text` in the smallest symbol that fits at the requested error correction.
+ * Use 'H' when a logo will cover the middle of the code.
+ */
+export function encodeQrCode(text: string, errorCorrection: QrErrorCorrection = 'M'): QrCode {
+    const bytes = new TextEncoder().encode(text);
+    let version = MIN_VERSION;
+    while (4 + byteCountBits(version) + bytes.length * 8 > dataCodewords(version, errorCorrection) * 8) {
+        if (version === MAX_VERSION) throw new Error('This text is too long to fit in a QR code.');
+        version++;
+    }
+
+    const builder = new QrBuilder(version, errorCorrection);
+    builder.drawFunctionPatterns();
+    builder.drawCodewords(addErrorCorrection(encodeData(bytes, version, errorCorrection), version, errorCorrection));
+
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+        builder.applyMask(mask);
+        builder.drawFormatBits(mask);
+        const penalty = builder.penalty();
+        if (penalty < bestPenalty) {
+            bestMask = mask;
+            bestPenalty = penalty;
+        }
+        builder.applyMask(mask);
+    }
+    builder.applyMask(bestMask);
+    builder.drawFormatBits(bestMask);
+
+    return { version, errorCorrection, size: builder.size, modules: builder.modules };
+}
+
+export interface QrRenderOptions {
+    /** Light modules around the code; scanners expect at least 4. */
+    margin?: number;
+    foreground?: string;
+    background?: string;
+    /** An image drawn over the centre, as a URL or data URI. Keep it same-origin for PNG export. */
+    logo?: { href: string; scale?: number };
+}
+
+const DEFAULT_MARGIN = 4;
+const DEFAULT_LOGO_SCALE = 0.2;
+// Beyond this the logo hides more modules than even level H can recover.
+const MAX_LOGO_SCALE = 0.3;
+
+/** One SVG path drawing every dark module, in module units offset by the margin. */
+export const qrCodePath = (qr: QrCode, margin = DEFAULT_MARGIN) => {
+    const commands: string[] = [];
+    qr.modules.forEach((row, y) => row.forEach((dark, x) => {
+        if (dark) commands.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    }));
+    return commands.join('');
+};
+
+/** Where the logo sits, in module units, including the light border that separates it from the code. */
+export const qrLogoBox = (qr: QrCode, margin = DEFAULT_MARGIN, scale = DEFAULT_LOGO_SCALE) => {
+    const size = qr.size * Math.min(scale, MAX_LOGO_SCALE);
+    const padding = 1;
+    const offset = margin + (qr.size - size) / 2;
+    return { x: offset, y: offset, size, padding };
+};
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** A standalone SVG document, scalable to any print size. */
+export function qrCodeToSvg(qr: QrCode, options: QrRenderOptions = {}): string {
+    const { margin = DEFAULT_MARGIN, foreground = '#000000', background = '#ffffff', logo } = options;
+    const dimension = qr.size + margin * 2;
+    const parts = [
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">`,
+        `<rect width="${dimension}" height="${dimension}" fill="${escapeXml(background)}"/>`,
+        `<path d="${qrCodePath(qr, margin)}" fill="${escapeXml(foreground)}"/>`,
+    ];
+    if (logo) {
+        const box = qrLogoBox(qr, margin, logo.scale);
+        parts.push(
+            `<rect x="${box.x - box.padding}" y="${box.y - box.padding}" width="${box.size + box.padding * 2}" height="${box.size + box.padding * 2}" fill="${escapeXml(background)}"/>`,
+            `<image href="${escapeXml(logo.href)}" x="${box.x}" y="${box.y}" width="${box.size}" height="${box.size}" preserveAspectRatio="xMidYMid meet"/>`,
+        );
+    }
+    parts.push('</svg>');
+    return parts.join('');
+}
+
+/** Renders the code to a PNG in the browser, `pixelsPerModule` pixels to each module. */
+export async function qrCodeToPng(qr: QrCode, pixelsPerModule = 10, options: QrRenderOptions = {}): Promise<Blob> {
+    const { margin = DEFAULT_MARGIN, foreground = '#000000', background = '#ffffff', logo } = options;
+    const dimension = (qr.size + margin * 2) * pixelsPerModule;
+    const canvas = document.createElement('canvas');
+    canvas.width = dimension;
+    canvas.height = dimension;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not draw the QR code.');
+
+    context.fillStyle = background;
+    context.fillRect(0, 0, dimension, dimension);
+    context.fillStyle = foreground;
+    qr.modules.forEach((row, y) => row.forEach((dark, x) => {
+        if (dark) context.fillRect((x + margin) * pixelsPerModule, (y + margin) * pixelsPerModule, pixelsPerModule, pixelsPerModule);
+    }));
+
+    if (logo) {
+        const box = qrLogoBox(qr, margin, logo.scale);
+        const image = new Image();
+        image.src = logo.href;
+        await image.decode();
+        context.fillStyle = background;
+        context.fillRect(
+            (box.x - box.padding) * pixelsPerModule,
+            (box.y - box.padding) * pixelsPerModule,
+            (box.size + box.padding * 2) * pixelsPerModule,
+            (box.size + box.padding * 2) * pixelsPerModule,
+        );
+        const fit = Math.min(box.size / image.width, box.size / image.height);
+        const width = image.width * fit;
+        const height = image.height * fit;
+        context.drawImage(
+            image,
+            (box.x + (box.size - width) / 2) * pixelsPerModule,
+            (box.y + (box.size - height) / 2) * pixelsPerModule,
+            width * pixelsPerModule,
+            height * pixelsPerModule,
+        );
+    }
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not draw the QR code.');
+    return blob;
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+// No 0/O, 1/I/L so codes survive being read off a printed card.
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+export function generateInviteCode(): string {
+    const bytes = new Uint8Array(INVITE_CODE_LENGTH);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, b => INVITE_CODE_ALPHABET[b % INVITE_CODE_ALPHABET.length]).join('');
+}
+
+export const normalizeInviteCode = (code: string) => code.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const getRsvpLink = (code: string) => `${window.location.origin}/rsvp/${code}`;
+
+/** What the public RSVP page gets back for an invite code. */
+export interface RsvpInvitation {
+    coupleNames: string;
+    partyName: string;
+    menuOptions: string[];
+    openPlusOnes: number;
+    message: string;
+    respondedAt: string | null;
+    guests: {
+        id: string;
+        name: string;
+        ageGroup: 'Adult' | 'Child';
+        isPlusOne: boolean;
+        rsvp: 'Confirmed' | 'Pending' | 'Declined';
+        meal: string | null;
+        dietaryNotes: string;
+    }[];
+}
+
+const rsvpAnswerSchema = z.object({
+    rsvp: z.enum(['Confirmed', 'Declined']),
+    meal: z.string().max(100).nullable(),
+    dietaryNotes: z.string().max(500),
+});
+
+export const rsvpSubmissionSchema = z.object({
+    guests: z.array(rsvpAnswerSchema.extend({ id: z.string().min(1) })).min(1),
+    plusOnes: z.array(rsvpAnswerSchema.extend({ name: z.string().trim().min(1).max(100) })).max(5),
+    message: z.string().max(1000),
+});
+
+export type RsvpSubmission = z.infer<typeof rsvpSubmissionSchema>;
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { Guest } from '@/hooks/use-guests';
+import type { SeatingRule, SeatingTable } from './seating';
+import { evaluateSeating, solveSeating } from './seating-solver';
+
+const guest = (id: string, overrides: Partial<Guest> = {}): Guest => ({
+    id,
+    name: id,
+    rsvp: 'Confirmed',
+    group: 'Friends',
+    table: null,
+    seat: null,
+    partyId: null,
+    ageGroup: 'Adult',
+    isPlusOne: false,
+    meal: null,
+    dietaryNotes: '',
+    allergies: [],
+    email: '',
+    phone: '',
+    ...overrides,
+});
+
+const table = (number: number, capacity: number, overrides: Partial<SeatingTable> = {}): SeatingTable => ({
+    id: `table-${number}`,
+    number,
+    name: '',
+    capacity,
+    shape: 'round',
+    x: null,
+    y: null,
+    lockedSeats: [],
+    nearExit: false,
+    ...overrides,
+});
+
+const rule = (kind: SeatingRule['kind'], guestIds: string[]): SeatingRule => ({ id: `${kind}-${guestIds.join()}`, kind, guestIds, note: '' });
+
+const guestsNamed = (count: number, overrides: Partial<Guest> = {}) =>
+    Array.from({ length: count }, (_, i) => guest(`g${i}`, overrides));
+
+const tableCounts = (assignments: Record<string, { table: number | null }>) =>
+    Object.values(assignments).reduce<Record<string, number>>((counts, { table }) => {
+        const key = String(table);
+        return { ...counts, [key]: (counts[key] ?? 0) + 1 };
+    }, {});
+
+describe('solveSeating', () => {
+    it('never puts more guests at a table than it seats', () => {
+        const assignments = solveSeating({ guests: guestsNamed(10), tables: [table(1, 4), table(2, 4)], rules: [], start: {} });
+        expect(tableCounts(assignments)).toEqual({ 1: 4, 2: 4, null: 2 });
+    });
+
+    it('gives every seated guest a different seat', () => {
+        const assignments = solveSeating({ guests: guestsNamed(6), tables: [table(1, 6)], rules: [], start: {} });
+        const seats = Object.values(assignments).map(a => a.seat);
+        expect(new Set(seats).size).toBe(6);
+        seats.forEach(seat => expect(seat).not.toBeNull());
+    });
+
+    it('only seats confirmed guests', () => {
+        const guests = [guest('yes'), guest('maybe', { rsvp: 'Pending' }), guest('no', { rsvp: 'Declined' })];
+        const assignments = solveSeating({ guests, tables: [table(1, 8)], rules: [], start: {} });
+        expect(Object.keys(assignments)).toEqual(['yes']);
+    });
+
+    it('follows sit-together and keep-apart rules', () => {
+        const guests = guestsNamed(8);
+        const rules = [rule('together', ['g0', 'g5']), rule('apart', ['g1', 'g2'])];
+        const assignments = solveSeating({ guests, tables: [table(1, 4), table(2, 4)], rules, start: {} });
+        expect(assignments.g0.table).toBe(assignments.g5.table);
+        expect(assignments.g1.table).not.toBe(assignments.g2.table);
+    });
+
+    it('keeps households together', () => {
+        const guests = [
+            ...guestsNamed(6),
+            guest('smith-1', { partyId: 'smiths', group: 'Family' }),
+            guest('smith-2', { partyId: 'smiths', group: 'Family' }),
+        ];
+        const assignments = solveSeating({ guests, tables: [table(1, 4), table(2, 4)], rules: [], start: {} });
+        expect(assignments['smith-1'].table).toBe(assignments['smith-2'].table);
+    });
+
+    it('seats guests who need it near an exit', () => {
+        const guests = guestsNamed(8);
+        const tables = [table(1, 4), table(2, 4, { nearExit: true })];
+        const assignments = solveSeating({ guests, tables, rules: [rule('near-exit', ['g3'])], start: {} });
+        expect(assignments.g3.table).toBe(2);
+    });
+
+    it('leaves guests in locked seats where they are', () => {
+        const guests = guestsNamed(8);
+        const tables = [table(1, 4, { lockedSeats: [2] }), table(2, 4, { nearExit: true })];
+        // Wanting to be near an exit would move g0 to table 2 if the seat weren't locked.
+        const assignments = solveSeating({ guests, tables, rules: [rule('near-exit', ['g0'])], start: { g0: { table: 1, seat: 2 } } });
+        expect(assignments.g0).toEqual({ table: 1, seat: 2 });
+    });
+
+    it('gives the same chart for the same input and seed', () => {
+        const input = { guests: guestsNamed(20), tables: [table(1, 8), table(2, 8), table(3, 8)], rules: [], start: {}, seed: 7 };
+        expect(solveSeating(input)).toEqual(solveSeating(input));
+    });
+});
+
+describe('evaluateSeating', () => {
+    it('scores a chart that breaks nothing as 0', () => {
+        const guests = guestsNamed(2);
+        const evaluation = evaluateSeating(guests, [table(1, 4)], [], { g0: { table: 1, seat: 0 }, g1: { table: 1, seat: 1 } });
+        expect(evaluation).toEqual({ score: 0, violations: [] });
+    });
+
+    it('lists unseated guests and broken rules', () => {
+        const guests = guestsNamed(3);
+        const assignments = { g0: { table: 1, seat: 0 }, g1: { table: 2, seat: 0 }, g2: { table: null, seat: null } };
+        const evaluation = evaluateSeating(guests, [table(1, 4), table(2, 4)], [rule('together', ['g0', 'g1'])], assignments);
+        const kinds = evaluation.violations.map(v => v.kind);
+        expect(kinds).toContain('unseated');
+        expect(kinds).toContain('together');
+        expect(evaluation.violations.find(v => v.kind === 'unseated')?.guestIds).toEqual(['g2']);
+    });
+});
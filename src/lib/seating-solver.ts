@@ -0,0 +1,503 @@
+import type { Guest } from '@/hooks/use-guests';
+import {
+    isSeatLocked,
+    seatableGuests,
+    seatGuests,
+    tableLabel,
+    UNSEATED,
+    type SeatingAssignments,
+    type SeatingRule,
+    type SeatingTable,
+} from '@/lib/seating';
+
+/**
+ * What each broken wish costs. The solver minimises the total, so a guest without a seat
+ * outweighs any number of lesser preferences.
+ */
+export const SEATING_PENALTIES = {
+    unseated: 1000,
+    overCapacity: 1000,
+    together: 100,
+    apart: 100,
+    nearExit: 60,
+    /** Per pair of household members at different tables. */
+    household: 40,
+    /** A guest with nobody from their group at the table. */
+    isolated: 5,
+    /** Per pair of tablemates from different groups. */
+    mixed: 1,
+} as const;
+
+export interface SeatingSolverOptions {
+    keepHouseholds: boolean;
+    groupAffinity: boolean;
+}
+
+export const DEFAULT_SOLVER_OPTIONS: SeatingSolverOptions = {
+    keepHouseholds: true,
+    groupAffinity: true,
+};
+
+export type SeatingViolationKind = 'unseated' | 'over-capacity' | 'together' | 'apart' | 'near-exit' | 'household' | 'isolated';
+
+export interface SeatingViolation {
+    kind: SeatingViolationKind;
+    message: string;
+    guestIds: string[];
+    penalty: number;
+}
+
+export interface SeatingEvaluation {
+    /** Total penalty; 0 is a perfect chart. */
+    score: number;
+    /** Broken wishes, worst first. Mixed-group pairs count towards the score but are not listed. */
+    violations: SeatingViolation[];
+}
+
+/** The seating problem with guests and tables reduced to indexes. */
+interface SeatingModel {
+    guestIds: string[];
+    tables: SeatingTable[];
+    /** Symmetric n×n cost of two guests sharing a table; negative when they want to. */
+    pairCost: Float64Array;
+    /** Sum of the rewards that are lost when their pairs sit apart. */
+    rewardTotal: number;
+    needsExit: Uint8Array;
+    /** Index of the guest's group, or -1 when they have none. */
+    groupOf: Int32Array;
+    /** Guests who should move as one: households and sit-together rules. */
+    clusters: number[][];
+    clusterOf: Int32Array;
+    options: SeatingSolverOptions;
+}
+
+function buildModel(guests: Guest[], tables: SeatingTable[], rules: SeatingRule[], options: SeatingSolverOptions): SeatingModel {
+    const seatable = [...seatableGuests(guests)].sort((a, b) => a.id.localeCompare(b.id));
+    const n = seatable.length;
+    const index = new Map(seatable.map((g, i) => [g.id, i]));
+    const pairCost = new Float64Array(n * n);
+    let rewardTotal = 0;
+    const addPair = (i: number, j: number, cost: number) => {
+        pairCost[i * n + j] += cost;
+        pairCost[j * n + i] += cost;
+        if (cost < 0) rewardTotal -= cost;
+    };
+    const forPairs = (members: number[], fn: (i: number, j: number) => void) => {
+        for (let a = 0; a < members.length; a++) {
+            for (let b = a + 1; b < members.length; b++) fn(members[a], members[b]);
+        }
+    };
+    const indexesOf = (ids: string[]) =>
+        [...new Set(ids)].map(id => index.get(id)).filter((i): i is number => i !== undefined);
+
+    // Union-find over guests who want to share a table, so they can be moved together.
+    const parent = Array.from({ length: n }, (_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const union = (i: number, j: number) => { parent[find(i)] = find(j); };
+
+    const groupNames = new Map<string, number>();
+    const groupOf = new Int32Array(n).fill(-1);
+    seatable.forEach((g, i) => {
+        const key = g.group.trim().toLowerCase();
+        if (!key) return;
+        if (!groupNames.has(key)) groupNames.set(key, groupNames.size);
+        groupOf[i] = groupNames.get(key) as number;
+    });
+    if (options.groupAffinity) {
+        forPairs(seatable.map((_, i) => i), (i, j) => {
+            if (groupOf[i] !== groupOf[j]) addPair(i, j, SEATING_PENALTIES.mixed);
+        });
+    }
+
+    if (options.keepHouseholds) {
+        const households = new Map<string, number[]>();
+        seatable.forEach((g, i) => {
+            if (g.partyId) households.set(g.partyId, [...(households.get(g.partyId) ?? []), i]);
+        });
+        households.forEach(members => forPairs(members, (i, j) => {
+            addPair(i, j, -SEATING_PENALTIES.household);
+            union(i, j);
+        }));
+    }
+
+    const needsExit = new Uint8Array(n);
+    rules.forEach(rule => {
+        const members = indexesOf(rule.guestIds);
+        if (rule.kind === 'together') {
+            forPairs(members, (i, j) => {
+                addPair(i, j, -SEATING_PENALTIES.together);
+                union(i, j);
+            });
+        } else if (rule.kind === 'apart') {
+            forPairs(members, (i, j) => addPair(i, j, SEATING_PENALTIES.apart));
+        } else {
+            members.forEach(i => { needsExit[i] = 1; });
+        }
+    });
+
+    const byRoot = new Map<number, number[]>();
+    seatable.forEach((_, i) => byRoot.set(find(i), [...(byRoot.get(find(i)) ?? []), i]));
+    const clusters = [...byRoot.values()];
+    const clusterOf = new Int32Array(n);
+    clusters.forEach((members, c) => members.forEach(i => { clusterOf[i] = c; }));
+
+    return {
+        guestIds: seatable.map(g => g.id),
+        tables: [...tables].sort((a, b) => a.number - b.number),
+        pairCost,
+        rewardTotal,
+        needsExit,
+        groupOf,
+        clusters,
+        clusterOf,
+        options,
+    };
+}
+
+/** Cost of one table's guests: their pairings, exit needs and anyone left without their group. */
+function tableCost(model: SeatingModel, tableIndex: number, members: number[]) {
+    const n = model.guestIds.length;
+    const nearExit = model.tables[tableIndex].nearExit;
+    let cost = 0;
+    for (let a = 0; a < members.length; a++) {
+        const i = members[a];
+        if (model.needsExit[i] && !nearExit) cost += SEATING_PENALTIES.nearExit;
+        let hasGroupmate = false;
+        for (let b = 0; b < members.length; b++) {
+            if (a === b) continue;
+            const j = members[b];
+            if (b > a) cost += model.pairCost[i * n + j];
+            if (model.groupOf[i] === model.groupOf[j]) hasGroupmate = true;
+        }
+        if (model.options.groupAffinity && model.groupOf[i] >= 0 && !hasGroupmate) cost += SEATING_PENALTIES.isolated;
+    }
+    const over = members.length - model.tables[tableIndex].capacity;
+    if (over > 0) cost += over * SEATING_PENALTIES.overCapacity;
+    return cost;
+}
+
+/** Table index per guest (-1 for unseated), from assignments keyed by guest id. */
+function toTableIndexes(model: SeatingModel, assignments: SeatingAssignments) {
+    const byNumber = new Map(model.tables.map((t, i) => [t.number, i]));
+    return Int32Array.from(model.guestIds, id => {
+        const table = assignments[id]?.table;
+        return table === null || table === undefined ? -1 : byNumber.get(table) ?? -1;
+    });
+}
+
+function membersByTable(model: SeatingModel, tableOf: Int32Array) {
+    const members: number[][] = model.tables.map(() => []);
+    tableOf.forEach((t, i) => { if (t >= 0) members[t].push(i); });
+    return members;
+}
+
+function totalScore(model: SeatingModel, tableOf: Int32Array) {
+    const members = membersByTable(model, tableOf);
+    const unseated = tableOf.filter(t => t < 0).length;
+    return model.rewardTotal
+        + members.reduce((sum, m, t) => sum + tableCost(model, t, m), 0)
+        + unseated * SEATING_PENALTIES.unseated;
+}
+
+/** Scores a chart and lists what it gets wrong, so couples can see why a score is high. */
+export function evaluateSeating(
+    guests: Guest[],
+    tables: SeatingTable[],
+    rules: SeatingRule[],
+    assignments: SeatingAssignments,
+    options: SeatingSolverOptions = DEFAULT_SOLVER_OPTIONS,
+): SeatingEvaluation {
+    const model = buildModel(guests, tables, rules, options);
+    const tableOf = toTableIndexes(model, assignments);
+    const members = membersByTable(model, tableOf);
+    const guestsById = new Map(guests.map(g => [g.id, g]));
+    const nameList = (ids: string[]) => ids.map(id => guestsById.get(id)?.name ?? 'Unknown guest').join(', ');
+    const tableOfGuest = new Map(model.guestIds.map((id, i) => [id, tableOf[i]]));
+    const violations: SeatingViolation[] = [];
+
+    const unseated = model.guestIds.filter((_, i) => tableOf[i] < 0);
+    if (unseated.length > 0) {
+        violations.push({
+            kind: 'unseated',
+            message: `${unseated.length} guest${unseated.length === 1 ? ' has' : 's have'} no table: ${nameList(unseated)}.`,
+            guestIds: unseated,
+            penalty: unseated.length * SEATING_PENALTIES.unseated,
+        });
+    }
+    members.forEach((m, t) => {
+        const over = m.length - model.tables[t].capacity;
+        if (over > 0) {
+            violations.push({
+                kind: 'over-capacity',
+                message: `${tableLabel(model.tables[t])} seats ${model.tables[t].capacity} but has ${m.length} guests.`,
+                guestIds: m.map(i => model.guestIds[i]),
+                penalty: over * SEATING_PENALTIES.overCapacity,
+            });
+        }
+    });
+
+    // Guests are split when they are not all at the same table, or some have no table.
+    const splitTables = (ids: string[]) => {
+        const placed = ids.map(id => tableOfGuest.get(id) ?? -1);
+        return new Set(placed).size > 1 || placed.some(t => t < 0);
+    };
+    const brokenPairs = (ids: string[]) => {
+        let count = 0;
+        for (let a = 0; a < ids.length; a++) {
+            for (let b = a + 1; b < ids.length; b++) {
+                const ta = tableOfGuest.get(ids[a]) ?? -1;
+                if (ta < 0 || ta !== tableOfGuest.get(ids[b])) count++;
+            }
+        }
+        return count;
+    };
+    const describeTables = (ids: string[]) => [...new Set(ids.map(id => tableOfGuest.get(id) ?? -1))]
+        .map(t => (t < 0 ? 'no table' : tableLabel(model.tables[t])))
+        .join(' and ');
+
+    rules.forEach(rule => {
+        const ids = [...new Set(rule.guestIds)].filter(id => tableOfGuest.has(id));
+        if (rule.kind === 'together' && ids.length > 1 && splitTables(ids)) {
+            violations.push({
+                kind: 'together',
+                message: `${nameList(ids)} should sit together but are at ${describeTables(ids)}.`,
+                guestIds: ids,
+                penalty: brokenPairs(ids) * SEATING_PENALTIES.together,
+            });
+        } else if (rule.kind === 'apart') {
+            const byTable = new Map<number, string[]>();
+            ids.forEach(id => {
+                const t = tableOfGuest.get(id) as number;
+                if (t >= 0) byTable.set(t, [...(byTable.get(t) ?? []), id]);
+            });
+            byTable.forEach((clash, t) => {
+                if (clash.length > 1) {
+                    violations.push({
+                        kind: 'apart',
+                        message: `${nameList(clash)} should be kept apart but share ${tableLabel(model.tables[t])}.`,
+                        guestIds: clash,
+                        penalty: ((clash.length * (clash.length - 1)) / 2) * SEATING_PENALTIES.apart,
+                    });
+                }
+            });
+        }
+    });
+
+    model.guestIds.forEach((id, i) => {
+        const t = tableOf[i];
+        if (t >= 0 && model.needsExit[i] && !model.tables[t].nearExit) {
+            violations.push({
+                kind: 'near-exit',
+                message: `${guestsById.get(id)?.name} needs a seat near an exit, but ${tableLabel(model.tables[t])} is not near one.`,
+                guestIds: [id],
+                penalty: SEATING_PENALTIES.nearExit,
+            });
+        }
+    });
+
+    if (options.keepHouseholds) {
+        const households = new Map<string, string[]>();
+        seatableGuests(guests).forEach(g => {
+            if (g.partyId) households.set(g.partyId, [...(households.get(g.partyId) ?? []), g.id]);
+        });
+        households.forEach(ids => {
+            if (ids.length > 1 && splitTables(ids)) {
+                violations.push({
+                    kind: 'household',
+                    message: `${nameList(ids)} came on one invitation but are at ${describeTables(ids)}.`,
+                    guestIds: ids,
+                    penalty: brokenPairs(ids) * SEATING_PENALTIES.household,
+                });
+            }
+        });
+    }
+
+    if (options.groupAffinity) {
+        members.forEach((m, t) => {
+            m.forEach(i => {
+                if (model.groupOf[i] < 0 || m.some(j => j !== i && model.groupOf[j] === model.groupOf[i])) return;
+                const guest = guestsById.get(model.guestIds[i]) as Guest;
+                violations.push({
+                    kind: 'isolated',
+                    message: `${guest.name} is the only guest from "${guest.group}" at ${tableLabel(model.tables[t])}.`,
+                    guestIds: [guest.id],
+                    penalty: SEATING_PENALTIES.isolated,
+                });
+            });
+        });
+    }
+
+    violations.sort((a, b) => b.penalty - a.penalty);
+    return { score: totalScore(model, tableOf), violations };
+}
+
+/** Small seeded generator (mulberry32) so the same input always gives the same chart. */
+function seededRandom(seed: number) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export interface SolveSeatingInput {
+    guests: Guest[];
+    tables: SeatingTable[];
+    rules: SeatingRule[];
+    /** Chart to improve on, e.g. the saved one or an AI suggestion. Guests in locked seats never move. */
+    start: SeatingAssignments;
+    options?: SeatingSolverOptions;
+    seed?: number;
+    iterations?: number;
+}
+
+/**
+ * Arranges confirmed guests at tables by simulated annealing. It never overfills a table,
+ * keeps guests in locked seats where they are, and is deterministic for a given input.
+ */
+export function solveSeating({
+    guests,
+    tables,
+    rules,
+    start,
+    options = DEFAULT_SOLVER_OPTIONS,
+    seed = 1,
+    iterations,
+}: SolveSeatingInput): SeatingAssignments {
+    const model = buildModel(guests, tables, rules, options);
+    const n = model.guestIds.length;
+    const random = seededRandom(seed);
+    const tableCount = model.tables.length;
+    if (n === 0 || tableCount === 0) {
+        return Object.fromEntries(model.guestIds.map(id => [id, UNSEATED]));
+    }
+
+    const startIndexes = toTableIndexes(model, start);
+    const fixed = new Uint8Array(n);
+    const tableOf = new Int32Array(n).fill(-1);
+    const members: number[][] = model.tables.map(() => []);
+    const seat = (i: number, t: number) => {
+        tableOf[i] = t;
+        members[t].push(i);
+    };
+
+    // Locked guests first, then the starting chart wherever it still fits.
+    model.guestIds.forEach((id, i) => {
+        const t = startIndexes[i];
+        if (t >= 0 && isSeatLocked(model.tables[t], start[id]?.seat ?? null)) {
+            fixed[i] = 1;
+            seat(i, t);
+        }
+    });
+    model.guestIds.forEach((_, i) => {
+        const t = startIndexes[i];
+        if (!fixed[i] && t >= 0 && members[t].length < model.tables[t].capacity) seat(i, t);
+    });
+
+    const costs = Float64Array.from(members, (m, t) => tableCost(model, t, m));
+
+    // Greedily place everyone left, biggest households first, where they add the least cost.
+    const waiting = model.clusters
+        .map(cluster => cluster.filter(i => tableOf[i] < 0))
+        .filter(cluster => cluster.length > 0)
+        .sort((a, b) => b.length - a.length);
+    waiting.forEach(cluster => cluster.forEach(i => {
+        let best = -1;
+        let bestDelta = Infinity;
+        for (let t = 0; t < tableCount; t++) {
+            if (members[t].length >= model.tables[t].capacity) continue;
+            const delta = tableCost(model, t, [...members[t], i]) - costs[t];
+            if (delta < bestDelta) {
+                best = t;
+                bestDelta = delta;
+            }
+        }
+        if (best >= 0) {
+            seat(i, best);
+            costs[best] += bestDelta;
+        }
+    }));
+
+    const movable = model.guestIds.map((_, i) => i).filter(i => !fixed[i]);
+    let current = model.rewardTotal + costs.reduce((a, b) => a + b, 0) + tableOf.filter(t => t < 0).length * SEATING_PENALTIES.unseated;
+    let best = current;
+    let bestTableOf = Int32Array.from(tableOf);
+
+    const steps = iterations ?? Math.min(150_000, Math.max(5_000, n * 500));
+    const startTemperature = 20;
+    const endTemperature = 0.05;
+
+    // Applies a change to guests' tables if annealing accepts it, and reports whether it did.
+    const tryMove = (moves: { guest: number; to: number }[], temperature: number) => {
+        const touched = new Map<number, number[]>();
+        const membersOf = (t: number) => {
+            if (!touched.has(t)) touched.set(t, [...members[t]]);
+            return touched.get(t) as number[];
+        };
+        let unseatedDelta = 0;
+        moves.forEach(({ guest, to }) => {
+            const from = tableOf[guest];
+            if (from >= 0) {
+                const list = membersOf(from);
+                list.splice(list.indexOf(guest), 1);
+            } else {
+                unseatedDelta -= 1;
+            }
+            if (to >= 0) membersOf(to).push(guest); else unseatedDelta += 1;
+        });
+        for (const [t, list] of touched) {
+            if (list.length > model.tables[t].capacity) return false;
+        }
+        const newCosts = new Map<number, number>();
+        let delta = unseatedDelta * SEATING_PENALTIES.unseated;
+        for (const [t, list] of touched) {
+            const cost = tableCost(model, t, list);
+            newCosts.set(t, cost);
+            delta += cost - costs[t];
+        }
+        if (delta > 0 && random() >= Math.exp(-delta / temperature)) return false;
+        moves.forEach(({ guest, to }) => { tableOf[guest] = to; });
+        for (const [t, list] of touched) {
+            members[t] = list;
+            costs[t] = newCosts.get(t) as number;
+        }
+        current += delta;
+        return true;
+    };
+
+    for (let step = 0; step < steps && movable.length > 0; step++) {
+        const temperature = startTemperature * Math.pow(endTemperature / startTemperature, step / steps);
+        const guest = movable[Math.floor(random() * movable.length)];
+        const choice = random();
+        let accepted = false;
+        if (choice < 0.45) {
+            const to = Math.floor(random() * tableCount);
+            if (to !== tableOf[guest]) accepted = tryMove([{ guest, to }], temperature);
+        } else if (choice < 0.9) {
+            const other = movable[Math.floor(random() * movable.length)];
+            if (tableOf[other] !== tableOf[guest]) {
+                accepted = tryMove([{ guest, to: tableOf[other] }, { guest: other, to: tableOf[guest] }], temperature);
+            }
+        } else {
+            const to = Math.floor(random() * tableCount);
+            const cluster = model.clusters[model.clusterOf[guest]].filter(i => !fixed[i] && tableOf[i] !== to);
+            if (cluster.length > 1) accepted = tryMove(cluster.map(i => ({ guest: i, to })), temperature);
+        }
+        if (accepted && current < best - 1e-9) {
+            best = current;
+            bestTableOf = Int32Array.from(tableOf);
+        }
+    }
+
+    // Guests who stay at their starting table keep their seat; the rest take free ones.
+    const result: SeatingAssignments = Object.fromEntries(model.guestIds.map((id, i) => {
+        const t = bestTableOf[i];
+        if (t < 0) return [id, UNSEATED];
+        const number = model.tables[t].number;
+        return [id, { table: number, seat: start[id]?.table === number ? start[id].seat : null }];
+    }));
+    return seatGuests(tables, result);
+}
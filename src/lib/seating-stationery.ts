@@ -0,0 +1,88 @@
+import type { Guest } from '@/hooks/use-guests';
+import { NO_MEAL_SELECTED } from '@/lib/caterer-report';
+import { currentAssignments, seatGuests, summarizeSeating, tableLabel, type SeatingTable } from '@/lib/seating';
+
+export interface StationeryGuest {
+    id: string;
+    name: string;
+    meal: string;
+    ageGroup: Guest['ageGroup'];
+    allergies: string[];
+    dietaryNotes: string;
+    /** Seat index at the table, or null when the table is over capacity. */
+    seat: number | null;
+}
+
+export interface StationeryTable {
+    table: SeatingTable;
+    label: string;
+    /** In seat order, with anyone without a seat last. */
+    guests: StationeryGuest[];
+    mealCounts: { meal: string; count: number }[];
+}
+
+export interface EscortCard {
+    guestId: string;
+    name: string;
+    tableLabel: string;
+}
+
+export interface SeatingStationery {
+    tables: StationeryTable[];
+    /** One card per seated guest, alphabetical by surname. */
+    escortCards: EscortCard[];
+    /** Confirmed guests without a table, who get no stationery. */
+    unassigned: number;
+}
+
+/** Surname first, so "Ana de la Cruz" files under C like most escort card displays. */
+const sortKey = (name: string) => {
+    const parts = name.trim().split(/\s+/);
+    return `${parts[parts.length - 1]} ${parts.slice(0, -1).join(' ')}`;
+};
+
+export const compareBySurname = (a: string, b: string) =>
+    sortKey(a).localeCompare(sortKey(b), undefined, { sensitivity: 'base' });
+
+/** Meals in the order given, then any others guests chose, skipping those nobody picked. */
+export function countMeals(guests: { meal: string }[], menuOptions: string[]) {
+    const counts = new Map<string, number>(menuOptions.map(option => [option, 0]));
+    guests.forEach(({ meal }) => counts.set(meal, (counts.get(meal) ?? 0) + 1));
+    return [...counts.entries()].filter(([, count]) => count > 0).map(([meal, count]) => ({ meal, count }));
+}
+
+/**
+ * Escort cards, place cards, the seating poster and the caterer's sheet all come from the
+ * saved seating, never from an unsaved draft.
+ */
+export function buildSeatingStationery(guests: Guest[], tables: SeatingTable[], menuOptions: string[]): SeatingStationery {
+    const guestsById = new Map(guests.map(g => [g.id, g]));
+    const assignments = seatGuests(tables, currentAssignments(guests));
+    const { occupancy, unseated } = summarizeSeating(tables, assignments);
+
+    const toStationeryGuest = (guestId: string): StationeryGuest => {
+        const guest = guestsById.get(guestId) as Guest;
+        return {
+            id: guest.id,
+            name: guest.name,
+            meal: guest.meal || NO_MEAL_SELECTED,
+            ageGroup: guest.ageGroup,
+            allergies: guest.allergies,
+            dietaryNotes: guest.dietaryNotes,
+            seat: assignments[guestId].seat,
+        };
+    };
+
+    const stationeryTables = occupancy
+        .filter(({ guestIds }) => guestIds.length > 0)
+        .map(({ table, seats, overflow }) => {
+            const tableGuests = [...seats.filter((id): id is string => id !== null), ...overflow].map(toStationeryGuest);
+            return { table, label: tableLabel(table), guests: tableGuests, mealCounts: countMeals(tableGuests, menuOptions) };
+        });
+
+    const escortCards = stationeryTables
+        .flatMap(({ label, guests: tableGuests }) => tableGuests.map(g => ({ guestId: g.id, name: g.name, tableLabel: label })))
+        .sort((a, b) => compareBySurname(a.name, b.name));
+
+    return { tables: stationeryTables, escortCards, unassigned: unseated.length };
+}
@@ -0,0 +1,247 @@
+import type { Guest } from '@/hooks/use-guests';
+
+export const TABLE_SHAPES = ['round', 'rectangle', 'banquet'] as const;
+export type TableShape = (typeof TABLE_SHAPES)[number];
+
+export const TABLE_SHAPE_LABELS: Record<TableShape, string> = {
+    round: 'Round',
+    rectangle: 'Rectangular',
+    banquet: 'Banquet (one side)',
+};
+
+/** A table at the reception. Guests point at it through `Guest.table`, which holds its number. */
+export interface SeatingTable {
+    id: string;
+    number: number;
+    /** Optional display name, e.g. "Head Table"; empty to use the number. */
+    name: string;
+    capacity: number;
+    shape: TableShape;
+    /** Centre of the table on the floor plan, or null until it is first placed. */
+    x: number | null;
+    y: number | null;
+    /** Seat indexes whose guests stay put when the chart is rearranged. */
+    lockedSeats: number[];
+    /** Close to an exit, for guests who need an accessible seat. */
+    nearExit: boolean;
+}
+
+export type NewSeatingTable = Omit<SeatingTable, 'id'>;
+
+export const SEATING_RULE_KINDS = ['together', 'apart', 'near-exit'] as const;
+export type SeatingRuleKind = (typeof SEATING_RULE_KINDS)[number];
+
+export const SEATING_RULE_LABELS: Record<SeatingRuleKind, string> = {
+    together: 'Sit together',
+    apart: 'Keep apart',
+    'near-exit': 'Seat near an exit',
+};
+
+/** A couple's wish for how certain guests are seated, honoured by the seating solver. */
+export interface SeatingRule {
+    id: string;
+    kind: SeatingRuleKind;
+    guestIds: string[];
+    note: string;
+}
+
+export type NewSeatingRule = Omit<SeatingRule, 'id'>;
+
+/** Where a guest sits. A guest can be at a table without a seat when the table is full. */
+export interface SeatAssignment {
+    table: number | null;
+    seat: number | null;
+}
+
+/** Guest id to seat, for every confirmed guest. */
+export type SeatingAssignments = Record<string, SeatAssignment>;
+
+export const UNSEATED: SeatAssignment = { table: null, seat: null };
+
+/** The parts of a table edited on the floor plan, which are drafted along with the seating. */
+export type TableLayout = Pick<SeatingTable, 'x' | 'y' | 'lockedSeats'>;
+
+/** Table id to layout. */
+export type TableLayouts = Record<string, TableLayout>;
+
+export const DEFAULT_TABLE_CAPACITY = 8;
+export const MAX_TABLE_CAPACITY = 30;
+
+export const tableLabel = (table: Pick<SeatingTable, 'number' | 'name'>) =>
+    table.name.trim() || `Table ${table.number}`;
+
+export const isSeatLocked = (table: SeatingTable, seat: number | null) =>
+    seat !== null && seat < table.capacity && table.lockedSeats.includes(seat);
+
+/** Only guests who have said yes need a seat. */
+export const seatableGuests = (guests: Guest[]) => guests.filter(g => g.rsvp === 'Confirmed');
+
+export const currentAssignments = (guests: Guest[]): SeatingAssignments =>
+    Object.fromEntries(seatableGuests(guests).map(g => [g.id, { table: g.table, seat: g.table === null ? null : g.seat }]));
+
+/** Numbers for `count` new tables, continuing after the highest one in use. */
+export const nextTableNumbers = (tables: SeatingTable[], count: number) => {
+    const start = tables.reduce((max, t) => Math.max(max, t.number), 0) + 1;
+    return Array.from({ length: count }, (_, i) => start + i);
+};
+
+/** Splits a table's guests into those holding a valid seat and those still waiting for one. */
+function seatsAt(table: SeatingTable, guestIds: string[], assignments: SeatingAssignments) {
+    const seats: (string | null)[] = Array.from({ length: table.capacity }, () => null);
+    const overflow: string[] = [];
+    guestIds.forEach(guestId => {
+        const seat = assignments[guestId].seat;
+        if (seat !== null && seat < table.capacity && seats[seat] === null) {
+            seats[seat] = guestId;
+        } else {
+            overflow.push(guestId);
+        }
+    });
+    return { seats, overflow };
+}
+
+export interface TableOccupancy {
+    table: SeatingTable;
+    guestIds: string[];
+    /** Guest id in each seat, or null for an empty one. */
+    seats: (string | null)[];
+    /** Guests at the table with no seat left for them. */
+    overflow: string[];
+    overCapacity: boolean;
+}
+
+/**
+ * Groups assigned guests by table. Guests pointing at a table that no longer exists are
+ * reported as unseated.
+ */
+export function summarizeSeating(tables: SeatingTable[], assignments: SeatingAssignments) {
+    const byNumber = new Map(tables.map(t => [t.number, [] as string[]]));
+    const unseated: string[] = [];
+    Object.entries(assignments).forEach(([guestId, { table }]) => {
+        const seated = table === null ? undefined : byNumber.get(table);
+        if (seated) seated.push(guestId); else unseated.push(guestId);
+    });
+    const occupancy: TableOccupancy[] = [...tables]
+        .sort((a, b) => a.number - b.number)
+        .map(table => {
+            const guestIds = byNumber.get(table.number) ?? [];
+            return { table, guestIds, ...seatsAt(table, guestIds, assignments), overCapacity: guestIds.length > table.capacity };
+        });
+    const seats = tables.reduce((sum, t) => sum + t.capacity, 0);
+    return { occupancy, unseated, seats };
+}
+
+/**
+ * Gives every guest at a table a seat of their own, keeping the seats already held and
+ * filling the empty ones in order. Guests at missing tables become unseated.
+ */
+export function seatGuests(tables: SeatingTable[], assignments: SeatingAssignments): SeatingAssignments {
+    const next: SeatingAssignments = { ...assignments };
+    const { occupancy, unseated } = summarizeSeating(tables, assignments);
+    unseated.forEach(guestId => { next[guestId] = UNSEATED; });
+    occupancy.forEach(({ table, seats, overflow }) => {
+        const free = seats.flatMap((guestId, seat) => (guestId === null ? [seat] : []));
+        overflow.forEach(guestId => {
+            next[guestId] = { table: table.number, seat: free.shift() ?? null };
+        });
+    });
+    return next;
+}
+
+/** The guests sitting in locked seats. */
+export function lockedAssignments(tables: SeatingTable[], assignments: SeatingAssignments): SeatingAssignments {
+    const byNumber = new Map(tables.map(t => [t.number, t]));
+    return Object.fromEntries(Object.entries(assignments).filter(([, { table, seat }]) => {
+        const seatingTable = table === null ? undefined : byNumber.get(table);
+        return !!seatingTable && isSeatLocked(seatingTable, seat);
+    }));
+}
+
+/**
+ * Moves a guest to `to`. A guest already in the target seat swaps into the mover's old
+ * place; choosing a table without a seat takes its first free one.
+ */
+export function placeGuest(
+    tables: SeatingTable[],
+    assignments: SeatingAssignments,
+    guestId: string,
+    to: SeatAssignment,
+): SeatingAssignments {
+    const from = assignments[guestId] ?? UNSEATED;
+    const next: SeatingAssignments = { ...assignments, [guestId]: to };
+    if (to.table !== null && to.seat !== null) {
+        const occupant = Object.keys(assignments).find(id =>
+            id !== guestId && assignments[id].table === to.table && assignments[id].seat === to.seat);
+        if (occupant) next[occupant] = from.seat === null ? UNSEATED : from;
+    }
+    return seatGuests(tables, next);
+}
+
+/**
+ * Turns a suggested chart, which names guests and numbers tables, into assignments.
+ * Guests in `locked` keep their seats. Unknown names and tables are ignored, each guest
+ * is seated once, and a table never takes more than its capacity; anyone left over
+ * stays unseated.
+ */
+export function assignmentsFromChart(
+    chart: { table: number; guests: string[] }[],
+    guests: Guest[],
+    tables: SeatingTable[],
+    locked: SeatingAssignments = {},
+): SeatingAssignments {
+    const seatable = seatableGuests(guests).filter(g => !(g.id in locked));
+    const assignments: SeatingAssignments = {
+        ...Object.fromEntries(seatable.map(g => [g.id, UNSEATED])),
+        ...locked,
+    };
+    const unplaced = new Map<string, Guest[]>();
+    seatable.forEach(g => {
+        const key = g.name.trim().toLowerCase();
+        unplaced.set(key, [...(unplaced.get(key) ?? []), g]);
+    });
+    const capacityLeft = new Map(tables.map(t => [t.number, t.capacity]));
+    Object.values(locked).forEach(({ table }) => {
+        if (table !== null) capacityLeft.set(table, (capacityLeft.get(table) ?? 0) - 1);
+    });
+
+    chart.forEach(({ table, guests: names }) => {
+        names.forEach(name => {
+            const left = capacityLeft.get(table) ?? 0;
+            const candidates = unplaced.get(name.trim().toLowerCase());
+            if (left <= 0 || !candidates?.length) return;
+            const guest = candidates.shift() as Guest;
+            assignments[guest.id] = { table, seat: null };
+            capacityLeft.set(table, left - 1);
+        });
+    });
+    return seatGuests(tables, assignments);
+}
+
+/**
+ * Guests whose saved table or seat differs from `assignments`. Guests who are no longer
+ * confirmed give up any seat they still hold.
+ */
+export const changedAssignments = (guests: Guest[], assignments: SeatingAssignments) =>
+    guests.flatMap(g => {
+        const next = assignments[g.id] ?? (g.rsvp === 'Confirmed' ? null : UNSEATED);
+        return next && (g.table !== next.table || g.seat !== next.seat) ? [{ guestId: g.id, ...next }] : [];
+    });
+
+export const tableLayouts = (tables: SeatingTable[]): TableLayouts =>
+    Object.fromEntries(tables.map(({ id, x, y, lockedSeats }) => [id, { x, y, lockedSeats }]));
+
+/** The tables as drafted. Tables added since the draft began keep their saved layout. */
+export const applyTableLayouts = (tables: SeatingTable[], layouts: TableLayouts) =>
+    tables.map(t => (layouts[t.id] ? { ...t, ...layouts[t.id] } : t));
+
+/** Tables whose saved position or locked seats differ from `layouts`. */
+export const changedTableLayouts = (tables: SeatingTable[], layouts: TableLayouts) =>
+    tables.flatMap(t => {
+        const next = layouts[t.id];
+        const changed = next && (
+            t.x !== next.x || t.y !== next.y
+            || t.lockedSeats.length !== next.lockedSeats.length
+            || t.lockedSeats.some(seat => !next.lockedSeats.includes(seat))
+        );
+        return changed ? [{ tableId: t.id, ...next }] : [];
+    });
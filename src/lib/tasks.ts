@@ -0,0 +1,55 @@
+import { isSameMonth } from 'date-fns';
+import { getTaskStatus } from '@/lib/timeline';
+
+export const TASK_PRIORITIES = ['low', 'medium', 'high'] as const;
+
+export type TaskPriority = typeof TASK_PRIORITIES[number];
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High',
+};
+
+export const TASK_CATEGORIES = [
+    'Venue',
+    'Catering',
+    'Attire',
+    'Vendors',
+    'Stationery',
+    'Guests',
+    'Legal',
+    'Other',
+] as const;
+
+export const TASK_VIEWS = ['all', 'mine', 'overdue', 'month'] as const;
+
+export type TaskView = typeof TASK_VIEWS[number];
+
+export const TASK_VIEW_LABELS: Record<TaskView, string> = {
+    all: 'All',
+    mine: 'Mine',
+    overdue: 'Overdue',
+    month: 'This Month',
+};
+
+export interface Subtask {
+    id: string;
+    title: string;
+    completed: boolean;
+}
+
+type TaskForView = { completed: boolean; dueDate: Date | null; assigneeId: string | null };
+
+export const isTaskInView = (task: TaskForView, view: TaskView, uid: string | null, now: Date = new Date()) => {
+    switch (view) {
+        case 'mine':
+            return !!uid && task.assigneeId === uid;
+        case 'overdue':
+            return getTaskStatus(task, now) === 'overdue';
+        case 'month':
+            return !task.completed && !!task.dueDate && isSameMonth(task.dueDate, now);
+        default:
+            return true;
+    }
+};
@@ -0,0 +1,79 @@
+import { differenceInCalendarDays, startOfDay, subDays } from 'date-fns';
+
+/** Tasks due within this many days count as upcoming. */
+export const UPCOMING_WINDOW_DAYS = 30;
+
+export interface TaskTemplate {
+    title: string;
+    /** Days before the wedding the task should be done by. */
+    offsetDays: number;
+    category: string;
+    completed: boolean;
+}
+
+export const INITIAL_TASKS: TaskTemplate[] = [
+    { title: 'Set a date and book venue', offsetDays: 365, category: 'Venue', completed: true },
+    { title: 'Finalize guest list', offsetDays: 304, category: 'Guests', completed: true },
+    { title: 'Book photographer and videographer', offsetDays: 274, category: 'Vendors', completed: true },
+    { title: 'Hire a caterer', offsetDays: 243, category: 'Catering', completed: false },
+    { title: 'Send save-the-dates', offsetDays: 183, category: 'Stationery', completed: false },
+    { title: 'Purchase wedding attire', offsetDays: 183, category: 'Attire', completed: true },
+    { title: 'Book entertainment', offsetDays: 152, category: 'Vendors', completed: false },
+    { title: 'Order invitations', offsetDays: 122, category: 'Stationery', completed: false },
+    { title: 'Finalize menu and floral selections', offsetDays: 91, category: 'Catering', completed: false },
+    { title: 'Apply for marriage license', offsetDays: 30, category: 'Legal', completed: false },
+    { title: 'Confirm final details with vendors', offsetDays: 7, category: 'Vendors', completed: false },
+];
+
+/**
+ * The checklist a new wedding starts with. Seeded once when the wedding is created,
+ * under fixed ids so a retried seed rewrites the same tasks instead of adding more. The ids
+ * include the wedding's, as calendar feeds use task ids as event UIDs.
+ * Due dates are left to the offsets until the couple saves a wedding date.
+ */
+export const initialTaskDocs = (weddingId: string, now: Date = new Date()) =>
+    INITIAL_TASKS.map((task, index) => ({
+        id: `${weddingId}-initial-${index}`,
+        data: {
+            ...task,
+            dueDate: null,
+            order: index,
+            assigneeId: null,
+            priority: 'medium',
+            notes: '',
+            subtasks: [],
+            createdAt: new Date(now.getTime() + index),
+        },
+    }));
+
+export const dueDateFromOffset =(weddingDate: Date, offsetDays: number) =>
+    startOfDay(subDays(weddingDate, offsetDays));
+
+// A month is a twelfth of a year, as in INITIAL_TASKS, so legacy and new tasks line up.
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 365 / 12 };
+
+/**
+ * Tasks created before real due dates existed stored text like "6-8 months out".
+ * Reads the nearest end of the range as days before the wedding, or null if the
+ * text is not a relative offset (e.g. "Just added").
+ */
+export const parseLegacyOffset = (text: unknown): number | null => {
+    if (typeof text !== 'string') return null;
+    const match = text.match(/(\d+)(?:\s*-\s*(\d+))?\s*(day|week|month)s?\s+out/i);
+    if (!match) return null;
+    const nearest = Math.min(Number(match[1]), Number(match[2] ?? match[1]));
+    return Math.round(nearest * UNIT_DAYS[match[3].toLowerCase()]);
+};
+
+export type TaskStatus = 'completed' | 'overdue' | 'upcoming' | 'later' | 'unscheduled';
+
+export const getTaskStatus = (
+    task: { completed: boolean; dueDate: Date | null },
+    now: Date = new Date(),
+): TaskStatus => {
+    if (task.completed) return 'completed';
+    if (!task.dueDate) return 'unscheduled';
+    const daysLeft = differenceInCalendarDays(task.dueDate, now);
+    if (daysLeft < 0) return 'overdue';
+    return daysLeft <= UPCOMING_WINDOW_DAYS ? 'upcoming' : 'later';
+};
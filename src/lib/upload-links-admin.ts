@@ -0,0 +1,51 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { DocumentData, Timestamp } from 'firebase-admin/firestore';
+import { getDb } from '@/lib/firebase-admin';
+import { weddingRef } from '@/lib/wedding-admin';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/** PINs are short, so only a salted slow hash is stored. */
+export const hashPin = async (pin: string) => {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(pin, salt, 32);
+    return `${salt.toString('hex')}:${hash.toString('hex')}`;
+};
+
+export const verifyPin = async (pin: string, stored: string) => {
+    const [salt, hash] = stored.split(':');
+    if (!salt || !hash) return false;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scryptAsync(pin, Buffer.from(salt, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+};
+
+export const toUploadLinkState = (data: DocumentData) => ({
+    label: (data.label as string | undefined) ?? '',
+    pinHash: (data.pinHash as string | undefined) ?? null,
+    expiresAt: (data.expiresAt as Timestamp | null | undefined)?.toDate() ?? null,
+    revokedAt: (data.revokedAt as Timestamp | null | undefined)?.toDate() ?? null,
+    maxUploads: (data.maxUploads as number | null | undefined) ?? null,
+    uploadCount: (data.uploadCount as number | undefined) ?? 0,
+    pinFailures: (data.pinFailures as number | undefined) ?? 0,
+});
+
+/**
+ * Resolves a guest upload token to its wedding and link, like `findInvitation` does for
+ * invite codes. Returns null for unknown tokens.
+ */
+export const findUploadLink = async (token: string) => {
+    const tokenDoc = await getDb().collection('uploadTokens').doc(token).get();
+    if (!tokenDoc.exists) {
+        return null;
+    }
+    const { weddingId, linkId } = tokenDoc.data()!;
+    const weddingDocRef = weddingRef(weddingId);
+    const linkRef = weddingDocRef.collection('uploadLinks').doc(linkId);
+    const [weddingDoc, linkDoc] = await Promise.all([weddingDocRef.get(), linkRef.get()]);
+    if (!weddingDoc.exists || !linkDoc.exists) {
+        return null;
+    }
+    return { weddingId: weddingId as string, weddingRef: weddingDocRef, linkRef, wedding: weddingDoc.data()!, link: toUploadLinkState(linkDoc.data()!) };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { generateUploadToken, MAX_PIN_ATTEMPTS, uploadLinkSchema, uploadLinkStatus } from './upload-links';
+
+const activeLink = {
+    expiresAt: null,
+    revokedAt: null,
+    maxUploads: null,
+    uploadCount: 0,
+    pinFailures: 0,
+};
+
+describe('generateUploadToken', () => {
+    it('makes 24 characters without look-alikes such as 0, O, 1 and l', () => {
+        const token = generateUploadToken();
+        expect(token).toMatch(/^[a-km-zA-HJ-NP-Z2-9]{24}$/);
+    });
+
+    it('makes a different token each time', () => {
+        const tokens = new Set(Array.from({ length: 50 }, generateUploadToken));
+        expect(tokens.size).toBe(50);
+    });
+});
+
+describe('uploadLinkStatus', () => {
+    const now = new Date('2026-06-01T12:00:00Z');
+
+    it('is active with no limits set', () => {
+        expect(uploadLinkStatus(activeLink, now)).toBe('active');
+    });
+
+    it('expires at the expiry time', () => {
+        expect(uploadLinkStatus({ ...activeLink, expiresAt: now }, now)).toBe('expired');
+        expect(uploadLinkStatus({ ...activeLink, expiresAt: new Date('2026-06-01T12:00:01Z') }, now)).toBe('active');
+    });
+
+    it('is full once the upload count reaches the quota', () => {
+        expect(uploadLinkStatus({ ...activeLink, maxUploads: 5, uploadCount: 4 }, now)).toBe('active');
+        expect(uploadLinkStatus({ ...activeLink, maxUploads: 5, uploadCount: 5 }, now)).toBe('full');
+    });
+
+    it('locks after too many wrong PINs', () => {
+        expect(uploadLinkStatus({ ...activeLink, pinFailures: MAX_PIN_ATTEMPTS - 1 }, now)).toBe('active');
+        expect(uploadLinkStatus({ ...activeLink, pinFailures: MAX_PIN_ATTEMPTS }, now)).toBe('locked');
+    });
+
+    it('reports a revoked link as revoked whatever else is wrong with it', () => {
+        const link = { ...activeLink, revokedAt: now, expiresAt: now, maxUploads: 1, uploadCount: 1, pinFailures: MAX_PIN_ATTEMPTS };
+        expect(uploadLinkStatus(link, now)).toBe('revoked');
+    });
+});
+
+describe('uploadLinkSchema', () => {
+    const link = { label: 'Reception tables', pin: null, expiresAt: null, maxUploads: null };
+
+    it('accepts PINs of 4 to 8 digits', () => {
+        expect(uploadLinkSchema.safeParse({ ...link, pin: '1234' }).success).toBe(true);
+        expect(uploadLinkSchema.safeParse({ ...link, pin: '12345678' }).success).toBe(true);
+        expect(uploadLinkSchema.safeParse({ ...link, pin: '123' }).success).toBe(false);
+        expect(uploadLinkSchema.safeParse({ ...link, pin: '12ab' }).success).toBe(false);
+    });
+
+    it('requires a label and a positive whole quota', () => {
+        expect(uploadLinkSchema.safeParse({ ...link, label: '  ' }).success).toBe(false);
+        expect(uploadLinkSchema.safeParse({ ...link, maxUploads: 0 }).success).toBe(false);
+        expect(uploadLinkSchema.safeParse({ ...link, maxUploads: 2.5 }).success).toBe(false);
+    });
+});
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+
+const UPLOAD_TOKEN_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+// Long enough that links can't be guessed, unlike invite codes which are typed by hand.
+const UPLOAD_TOKEN_LENGTH = 24;
+
+/** After this many wrong PINs the link stops accepting uploads until the couple sets a new PIN. */
+export const MAX_PIN_ATTEMPTS = 10;
+
+export const UPLOAD_PIN_PATTERN = /^\d{4,8}$/;
+
+export function generateUploadToken(): string {
+    const bytes = new Uint8Array(UPLOAD_TOKEN_LENGTH);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, b => UPLOAD_TOKEN_ALPHABET[b % UPLOAD_TOKEN_ALPHABET.length]).join('');
+}
+
+export const getGuestUploadLink = (token: string) => `${window.location.origin}/guest-upload/${token}`;
+
+export type UploadLinkStatus = 'active' | 'expired' | 'revoked' | 'full' | 'locked';
+
+export const UPLOAD_LINK_STATUS_LABELS: Record<UploadLinkStatus, string> = {
+    active: 'Active',
+    expired: 'Expired',
+    revoked: 'Revoked',
+    full: 'Quota reached',
+    locked: 'Locked',
+};
+
+type LinkForStatus = {
+    expiresAt: Date | null;
+    revokedAt: Date | null;
+    maxUploads: number | null;
+    uploadCount: number;
+    pinFailures: number;
+};
+
+export const uploadLinkStatus = (link: LinkForStatus, now = new Date()): UploadLinkStatus => {
+    if (link.revokedAt) return 'revoked';
+    if (link.expiresAt && link.expiresAt <= now) return 'expired';
+    if (link.pinFailures >= MAX_PIN_ATTEMPTS) return 'locked';
+    if (link.maxUploads !== null && link.uploadCount >= link.maxUploads) return 'full';
+    return 'active';
+};
+
+/** Why a guest can't use a link, worded for the guest. */
+export const UPLOAD_LINK_ERRORS: Record<Exclude<UploadLinkStatus, 'active'>, string> = {
+    expired: 'This upload link has expired.',
+    revoked: 'This upload link is no longer active.',
+    full: 'This upload link has reached its photo limit.',
+    locked: 'Too many incorrect PINs were entered. Ask the couple for a new PIN.',
+};
+
+export const uploadLinkSchema = z.object({
+    label: z.string().trim().min(1).max(80),
+    pin: z.string().regex(UPLOAD_PIN_PATTERN).nullable(),
+    expiresAt: z.coerce.date().nullable(),
+    maxUploads: z.number().int().min(1).max(10000).nullable(),
+});
+
+export type NewUploadLink = z.infer<typeof uploadLinkSchema>;
+
+/** What the public upload page gets back for a token. */
+export interface GuestUploadInfo {
+    coupleNames: string;
+    label: string;
+    requiresPin: boolean;
+    /** Photos this link can still take, or null when unlimited. */
+    remainingUploads: number | null;
+}
+
+export const guestUploadFieldsSchema = z.object({
+    uploaderName: z.string().trim().max(80),
+    message: z.string().trim().max(500),
+    pin: z.string().max(8),
+});
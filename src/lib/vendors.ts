@@ -0,0 +1,57 @@
+import { sortInstallments, type Installment } from '@/lib/payments';
+import type { CurrencyCode } from '@/lib/currency';
+
+export const VENDOR_STATUSES = ['researching', 'quoted', 'booked'] as const;
+
+export type VendorStatus = typeof VENDOR_STATUSES[number];
+
+export const VENDOR_STATUS_LABELS: Record<VendorStatus, string> = {
+    researching: 'Researching',
+    quoted: 'Quoted',
+    booked: 'Booked',
+};
+
+export const VENDOR_CATEGORIES = [
+    'Venue',
+    'Catering',
+    'Photography',
+    'Videography',
+    'Florist',
+    'Music',
+    'Cake',
+    'Attire',
+    'Hair & Makeup',
+    'Stationery',
+    'Officiant',
+    'Transportation',
+    'Rentals',
+    'Other',
+] as const;
+
+export interface VendorQuote {
+    id: string;
+    description: string;
+    amount: number;
+}
+
+type ExpenseForVendor = { currency: CurrencyCode; exchangeRate: number; payments: Installment[] };
+
+/** Totals are in the base currency; the next payment keeps the currency it is owed in. */
+export const summarizeVendorExpenses = (expenses: ExpenseForVendor[]) => {
+    const inBase = (e: ExpenseForVendor, payments: Installment[]) => payments.reduce((sum, p) => sum + p.amount, 0) * e.exchangeRate;
+    const total = expenses.reduce((sum, e) => sum + inBase(e, e.payments), 0);
+    const paid = expenses.reduce((sum, e) => sum + inBase(e, e.payments.filter(p => p.paidDate)), 0);
+    const unpaid = expenses.flatMap(e => e.payments.filter(p => !p.paidDate).map(p => ({ ...p, currency: e.currency })));
+    return {
+        total,
+        paid,
+        outstanding: total - paid,
+        nextPayment: sortInstallments(unpaid)[0] ?? null,
+    };
+};
+
+/** Lowest quote, which is what the vendor list shows when comparing options. */
+export const lowestQuote = (quotes: VendorQuote[]) =>
+    quotes.length > 0 ? Math.min(...quotes.map(q => q.amount)) : null;
+
+export const getVendorLink = (vendorId: string) => `/dashboard/vendors/${vendorId}`;
@@ -0,0 +1,61 @@
+import type { DecodedIdToken } from 'firebase-admin/auth';
+import { getAuth, getDb } from '@/lib/firebase-admin';
+import { isWeddingRole, type WeddingRole } from '@/lib/weddings';
+import { normalizeInviteCode } from '@/lib/rsvp';
+
+/**
+ * Verifies the `Authorization: Bearer <idToken>` header of a request.
+ * Returns null when the header is missing or the token is invalid.
+ */
+export const verifyRequestUser = async (request: Request): Promise<DecodedIdToken | null> => {
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+        return null;
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    try {
+        return await getAuth().verifyIdToken(idToken);
+    } catch (error) {
+        console.error("Error verifying ID token:", error);
+        return null;
+    }
+};
+
+/**
+ * Looks up the role a user holds in a wedding workspace, or null if they are not a member.
+ */
+export const getWeddingRole = async (weddingId: string, uid: string): Promise<WeddingRole | null> => {
+    const weddingDoc = await getDb().collection('weddings').doc(weddingId).get();
+    if (!weddingDoc.exists) {
+        return null;
+    }
+    const role = weddingDoc.data()?.members?.[uid]?.role;
+    return isWeddingRole(role) ? role : null;
+};
+
+export const weddingRef = (weddingId: string) => getDb().collection('weddings').doc(weddingId);
+
+/**
+ * Resolves a party's invite code to its wedding, party and guests. Guests use these
+ * codes without an account, so public routes read through this and are scoped to
+ * the single party the code belongs to. Returns null for unknown codes.
+ */
+export const findInvitation = async (rawCode: string) => {
+    const db = getDb();
+    const codeDoc = await db.collection('inviteCodes').doc(normalizeInviteCode(rawCode)).get();
+    if (!codeDoc.exists) {
+        return null;
+    }
+    const { weddingId, partyId } = codeDoc.data()!;
+    const weddingDocRef = weddingRef(weddingId);
+    const partyRef = weddingDocRef.collection('parties').doc(partyId);
+    const [weddingDoc, partyDoc, guestsSnapshot] = await Promise.all([
+        weddingDocRef.get(),
+        partyRef.get(),
+        weddingDocRef.collection('guests').where('partyId', '==', partyId).get(),
+    ]);
+    if (!weddingDoc.exists || !partyDoc.exists) {
+        return null;
+    }
+    return { weddingRef: weddingDocRef, partyRef, wedding: weddingDoc.data()!, party: partyDoc.data()!, guestDocs: guestsSnapshot.docs };
+};
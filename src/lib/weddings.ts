@@ -0,0 +1,59 @@
+import type { PhotoModerationRules } from '@/lib/photo-moderation';
+
+export const WEDDING_ROLES = ['owner', 'partner', 'planner', 'viewer'] as const;
+
+export type WeddingRole = typeof WEDDING_ROLES[number];
+
+export interface WeddingMember {
+    role: WeddingRole;
+    email: string | null;
+    displayName: string;
+    joinedAt: Date;
+}
+
+export interface Wedding {
+    id: string;
+    name1: string;
+    name2: string;
+    ownerId: string;
+    memberIds: string[];
+    members: Record<string, WeddingMember>;
+    menuOptions: string[];
+    /** Which guest uploads wait for approval before they appear in the album. */
+    photoModeration: PhotoModerationRules;
+    weddingDate: Date | null;
+    /** Secret for the calendar subscription feed, or null until one is created. */
+    calendarToken: string | null;
+    createdAt: Date;
+}
+
+export interface WeddingInvite {
+    id: string;
+    weddingId: string;
+    email: string;
+    role: Exclude<WeddingRole, 'owner'>;
+    invitedBy: string;
+    status: 'pending' | 'accepted' | 'revoked';
+    createdAt: Date;
+}
+
+// Collections that live under weddings/{weddingId} and are copied over when
+// migrating a pre-workspace account from users/{uid}. Photos in the old global
+// collection have no owner, so admins move those from the admin dashboard.
+export const WEDDING_SUBCOLLECTIONS = ['guests', 'tasks', 'expenses', 'budget', 'photos'] as const;
+
+export const ROLE_LABELS: Record<WeddingRole, string> = {
+    owner: 'Owner',
+    partner: 'Partner',
+    planner: 'Planner',
+    viewer: 'Viewer',
+};
+
+export const canEditWedding = (role: WeddingRole | null | undefined) =>
+    role === 'owner' || role === 'partner' || role === 'planner';
+
+export const canManageMembers = (role: WeddingRole | null | undefined) =>
+    role === 'owner' || role === 'partner';
+
+export const isWeddingRole = (value: unknown): value is WeddingRole =>
+    typeof value === 'string' && (WEDDING_ROLES as readonly string[]).includes(value);
@@ -0,0 +1,144 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+    assertFails,
+    assertSucceeds,
+    initializeTestEnvironment,
+    type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+let testEnv: RulesTestEnvironment;
+
+const MEMBERS = {
+    owner: { role: 'owner', email: 'owner@example.com', displayName: 'Owner' },
+    partner: { role: 'partner', email: 'partner@example.com', displayName: 'Partner' },
+    planner: { role: 'planner', email: 'planner@example.com', displayName: 'Planner' },
+    viewer: { role: 'viewer', email: 'viewer@example.com', displayName: 'Viewer' },
+};
+
+const firestoreAs = (uid: string | null) =>
+    (uid ? testEnv.authenticatedContext(uid) : testEnv.unauthenticatedContext()).firestore();
+
+beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+        projectId: 'demo-wedding-rules',
+        firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+});
+
+afterAll(() => testEnv.cleanup());
+
+beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async context => {
+        const db = context.firestore();
+        await db.doc('weddings/w1').set({
+            name1: 'Alex',
+            name2: 'Sam',
+            ownerId: 'owner',
+            memberIds: Object.keys(MEMBERS),
+            members: MEMBERS,
+        });
+        await db.doc('weddings/w1/guests/g1').set({ name: 'Grandma', rsvp: 'Pending' });
+        await db.doc('weddings/w1/budget/summary').set({ total: 20000, spent: 0, committed: 0 });
+        await db.doc('weddings/w1/uploadLinks/l1').set({ label: 'Reception', pinHash: 'hash' });
+        await db.doc('uploadTokens/t1').set({ weddingId: 'w1', linkId: 'l1' });
+    });
+});
+
+describe('weddings', () => {
+    it('lets members read the wedding and its data', async () => {
+        await assertSucceeds(firestoreAs('viewer').doc('weddings/w1').get());
+        await assertSucceeds(firestoreAs('viewer').doc('weddings/w1/guests/g1').get());
+    });
+
+    it('keeps non-members out', async () => {
+        await assertFails(firestoreAs('stranger').doc('weddings/w1').get());
+        await assertFails(firestoreAs('stranger').doc('weddings/w1/guests/g1').get());
+        await assertFails(firestoreAs(null).doc('weddings/w1').get());
+        await assertFails(firestoreAs('stranger').collection('weddings').where('memberIds', 'array-contains', 'owner').get());
+    });
+
+    it('only finds weddings the user belongs to', async () => {
+        await assertSucceeds(firestoreAs('viewer').collection('weddings').where('memberIds', 'array-contains', 'viewer').get());
+    });
+
+    it('keeps viewers read-only', async () => {
+        await assertFails(firestoreAs('viewer').doc('weddings/w1').update({ name1: 'Alexandra' }));
+        await assertFails(firestoreAs('viewer').doc('weddings/w1/guests/g1').update({ rsvp: 'Confirmed' }));
+        await assertFails(firestoreAs('viewer').collection('weddings/w1/guests').add({ name: 'Gatecrasher' }));
+        await assertFails(firestoreAs('viewer').doc('weddings/w1/guests/g1').delete());
+    });
+
+    it('lets planners edit the plan', async () => {
+        await assertSucceeds(firestoreAs('planner').doc('weddings/w1').update({ name1: 'Alexandra' }));
+        await assertSucceeds(firestoreAs('planner').doc('weddings/w1/guests/g1').update({ rsvp: 'Confirmed' }));
+        await assertSucceeds(firestoreAs('planner').collection('weddings/w1/guests').add({ name: 'Uncle Bob' }));
+    });
+
+    it('lets only a new owner create a wedding for themselves', async () => {
+        const wedding = (ownerId: string, members: Record<string, { role: string }>) => ({
+            name1: 'Jo', name2: 'Kim', ownerId, memberIds: Object.keys(members), members,
+        });
+        await assertSucceeds(firestoreAs('newcomer').doc('weddings/w2').set(wedding('newcomer', { newcomer: { role: 'owner' } })));
+        await assertFails(firestoreAs('newcomer').doc('weddings/w3').set(wedding('someone-else', { 'someone-else': { role: 'owner' } })));
+        await assertFails(firestoreAs('newcomer').doc('weddings/w4').set(
+            wedding('newcomer', { newcomer: { role: 'owner' }, friend: { role: 'partner' } }),
+        ));
+    });
+});
+
+describe('members', () => {
+    it('keeps anyone from changing or removing the owner', async () => {
+        await assertFails(firestoreAs('partner').doc('weddings/w1').update({ 'members.owner.role': 'viewer' }));
+        await assertFails(firestoreAs('partner').doc('weddings/w1').update({
+            memberIds: ['partner', 'planner', 'viewer'],
+            members: { partner: MEMBERS.partner, planner: MEMBERS.planner, viewer: MEMBERS.viewer },
+        }));
+        await assertFails(firestoreAs('partner').doc('weddings/w1').update({ ownerId: 'partner' }));
+    });
+
+    it('keeps members from promoting themselves', async () => {
+        await assertFails(firestoreAs('viewer').doc('weddings/w1').update({ 'members.viewer.role': 'partner' }));
+        await assertFails(firestoreAs('planner').doc('weddings/w1').update({ 'members.planner.role': 'owner' }));
+        await assertFails(firestoreAs('partner').doc('weddings/w1').update({ 'members.partner.role': 'owner' }));
+    });
+
+    it('keeps people from adding themselves to a wedding', async () => {
+        await assertFails(firestoreAs('stranger').doc('weddings/w1').update({
+            memberIds: [...Object.keys(MEMBERS), 'stranger'],
+            members: { ...MEMBERS, stranger: { role: 'viewer' } },
+        }));
+    });
+
+    it('leaves member changes to the server, even for the owner', async () => {
+        await assertFails(firestoreAs('owner').doc('weddings/w1').update({ 'members.planner.role': 'viewer' }));
+    });
+});
+
+describe('server-maintained data', () => {
+    it('lets members read the budget summary but nobody write it', async () => {
+        await assertSucceeds(firestoreAs('viewer').doc('weddings/w1/budget/summary').get());
+        await assertFails(firestoreAs('owner').doc('weddings/w1/budget/summary').update({ spent: 0 }));
+    });
+
+    it('shows upload links to editors only and lets nobody write them', async () => {
+        await assertSucceeds(firestoreAs('planner').doc('weddings/w1/uploadLinks/l1').get());
+        await assertFails(firestoreAs('viewer').doc('weddings/w1/uploadLinks/l1').get());
+        await assertFails(firestoreAs('owner').doc('weddings/w1/uploadLinks/l1').update({ pinHash: null }));
+    });
+
+    it('never exposes upload tokens', async () => {
+        await assertFails(firestoreAs('owner').doc('uploadTokens/t1').get());
+        await assertFails(firestoreAs('owner').doc('uploadTokens/t2').set({ weddingId: 'w1', linkId: 'l1' }));
+    });
+});
+
+describe('users', () => {
+    it('keeps users from granting themselves premium or admin', async () => {
+        await assertSucceeds(firestoreAs('newcomer').doc('users/newcomer').set({ name1: 'Jo', name2: 'Kim', premium: false }));
+        await assertFails(firestoreAs('newcomer').doc('users/newcomer').update({ premium: true }));
+        await assertFails(firestoreAs('other').doc('users/other').set({ name1: 'Jo', name2: 'Kim', isAdmin: true }));
+        await assertFails(firestoreAs('other').doc('users/newcomer').get());
+    });
+});
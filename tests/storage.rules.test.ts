@@ -0,0 +1,96 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+    assertFails,
+    assertSucceeds,
+    initializeTestEnvironment,
+    type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+const MB = 1024 * 1024;
+
+let testEnv: RulesTestEnvironment;
+
+const upload = async (uid: string | null, path: string, contentType: string, size = 1024) => {
+    const context = uid ? testEnv.authenticatedContext(uid) : testEnv.unauthenticatedContext();
+    await context.storage().ref(path).put(new Uint8Array(size), { contentType });
+};
+
+beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+        projectId: 'demo-wedding-rules',
+        firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+        storage: { rules: readFileSync('storage.rules', 'utf8') },
+    });
+});
+
+afterAll(() => testEnv.cleanup());
+
+beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.clearStorage();
+    await testEnv.withSecurityRulesDisabled(async context => {
+        await context.firestore().doc('weddings/w1').set({
+            ownerId: 'owner',
+            memberIds: ['owner', 'planner', 'viewer'],
+            members: {
+                owner: { role: 'owner' },
+                planner: { role: 'planner' },
+                viewer: { role: 'viewer' },
+            },
+        });
+        await context.storage().ref('weddings/w1/expenses/e1/quote.pdf').put(new Uint8Array(10), { contentType: 'application/pdf' });
+    });
+});
+
+describe('wedding files', () => {
+    it('lets members read them and nobody else', async () => {
+        await assertSucceeds(testEnv.authenticatedContext('viewer').storage().ref('weddings/w1/expenses/e1/quote.pdf').getMetadata());
+        await assertFails(testEnv.authenticatedContext('stranger').storage().ref('weddings/w1/expenses/e1/quote.pdf').getMetadata());
+        await assertFails(testEnv.unauthenticatedContext().storage().ref('weddings/w1/expenses/e1/quote.pdf').getMetadata());
+    });
+
+    it('lets editors upload documents and images', async () => {
+        await assertSucceeds(upload('owner', 'weddings/w1/expenses/e1/contract.pdf', 'application/pdf'));
+        await assertSucceeds(upload('planner', 'weddings/w1/vendors/v1/menu.docx',
+            'application/vnd.openxmlformats-officedocument.wordprocessingml.document'));
+        await assertSucceeds(upload('planner', 'weddings/w1/expenses/e1/receipt.heic', 'image/heic'));
+    });
+
+    it('keeps viewers and strangers from uploading', async () => {
+        await assertFails(upload('viewer', 'weddings/w1/expenses/e1/contract.pdf', 'application/pdf'));
+        await assertFails(upload('stranger', 'weddings/w1/expenses/e1/contract.pdf', 'application/pdf'));
+        await assertFails(upload(null, 'weddings/w1/expenses/e1/contract.pdf', 'application/pdf'));
+    });
+
+    it('refuses files without an accepted type', async () => {
+        await assertFails(upload('owner', 'weddings/w1/expenses/e1/file.bin', 'application/octet-stream'));
+        await assertFails(upload('owner', 'weddings/w1/expenses/e1/page.html', 'text/html'));
+        await assertFails(upload('owner', 'weddings/w1/expenses/e1/logo.svg', 'image/svg+xml'));
+    });
+
+    it('refuses documents over 10 MB', async () => {
+        await assertFails(upload('owner', 'weddings/w1/expenses/e1/scan.pdf', 'application/pdf', 11 * MB));
+    });
+
+    it('lets editors delete them but not viewers', async () => {
+        await assertFails(testEnv.authenticatedContext('viewer').storage().ref('weddings/w1/expenses/e1/quote.pdf').delete());
+        await assertSucceeds(testEnv.authenticatedContext('planner').storage().ref('weddings/w1/expenses/e1/quote.pdf').delete());
+    });
+});
+
+describe('photos', () => {
+    it('accepts raster originals up to 20 MB', async () => {
+        await assertSucceeds(upload('owner', 'weddings/w1/photos/f1/original.jpg', 'image/jpeg', 15 * MB));
+        await assertSucceeds(upload('owner', 'weddings/w1/photos/f2/original.heic', 'image/heic'));
+        await assertFails(upload('owner', 'weddings/w1/photos/f3/original.jpg', 'image/jpeg', 21 * MB));
+    });
+
+    it('refuses SVG, which can carry scripts', async () => {
+        await assertFails(upload('owner', 'weddings/w1/photos/f1/original.svg', 'image/svg+xml'));
+    });
+
+    it('keeps viewers from uploading photos', async () => {
+        await assertFails(upload('viewer', 'weddings/w1/photos/f1/original.jpg', 'image/jpeg'));
+    });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Security rules tests need the emulators, so they run through `npm run test:rules` only.
+export default defineConfig({
+    test: {
+        include: ['tests/**/*.rules.test.ts'],
+        testTimeout: 20_000,
+        // Every file shares the emulators' data.
+        fileParallelism: false,
+    },
+});